@@ -0,0 +1,32 @@
+// app/components/CircuitStatusDot.tsx
+import React from 'react';
+import { View } from 'react-native';
+import { CircuitState } from '../types';
+
+/**
+ * Returns a color based on the circuit state.
+ * @param {CircuitState} state - The circuit state.
+ * @returns {string} The color corresponding to the state.
+ */
+export const getStatusColor = (state: CircuitState) => {
+  switch (state) {
+    case 'CLOSED':
+      return 'green';
+    case 'HALF_OPEN':
+      return 'orange';
+    case 'OPEN':
+      return 'red';
+    default:
+      return 'grey';
+  }
+};
+
+/**
+ * A small dot colored by a provider's circuit state.
+ * @param {object} props - The component's props.
+ * @param {CircuitState} props.state - The circuit state.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function CircuitStatusDot({ state }: { state: CircuitState }) {
+  return <View style={{ width: 10, height: 10, borderRadius: 5, marginRight: 10, backgroundColor: getStatusColor(state) }} />;
+}
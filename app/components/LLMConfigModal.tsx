@@ -1,49 +1,155 @@
 // app/components/LLMConfigModal.tsx
-import React, { useState } from 'react';
-import { View, TextInput, Button, Text, StyleSheet, Alert, ScrollView } from 'react-native';
-import { saveProviderSpec, storeProviderSecret } from '../utils/providerStore';
+import React, { useEffect, useState } from 'react';
+import { View, TextInput, Button, Text, StyleSheet, Alert, ScrollView, Switch } from 'react-native';
+import { ProviderSpec, getProviderSecrets, saveProviderSpec, storeProviderSecret } from '../utils/providerStore';
+import { StreamFormat } from '../services/llmStreaming';
+import { ResponseMode } from '../services/responseExtraction';
+import { PROVIDER_PRESETS, ProviderPreset } from '../services/providerPresets';
+import { discoverSpecPlaceholders } from '../services/placeholders';
+import ProviderDiagnosticsPanel from './ProviderDiagnosticsPanel';
+
+const STREAM_FORMATS: StreamFormat[] = ['auto', 'openai', 'anthropic', 'ollama'];
+const RESPONSE_MODES: ResponseMode[] = ['text', 'json'];
+
+type LimitField = 'requestsPerMinute' | 'dailyRequestLimit' | 'dailyTokenLimit' | 'inputTokenPrice' | 'outputTokenPrice';
+
+/** The optional rate limit, budget and pricing fields, as numbers entered in the form. */
+const LIMIT_FIELDS: { key: LimitField; label: string }[] = [
+  { key: 'requestsPerMinute', label: 'Requests per minute' },
+  { key: 'dailyRequestLimit', label: 'Requests per day' },
+  { key: 'dailyTokenLimit', label: 'Tokens per day' },
+  { key: 'inputTokenPrice', label: 'USD per 1M input tokens' },
+  { key: 'outputTokenPrice', label: 'USD per 1M output tokens' },
+];
+
+/**
+ * Pretty-prints a JSON template for editing, leaving text that is not JSON as it is.
+ * @param {string} template The template.
+ * @returns {string} The formatted template.
+ */
+const formatTemplate = (template: string) => {
+  try {
+    return JSON.stringify(JSON.parse(template), null, 2);
+  } catch {
+    return template;
+  }
+};
+
+interface LLMConfigModalProps {
+  onClose: () => void;
+  onSaveSuccess: () => void;
+  initialSpec?: ProviderSpec;
+}
 
 /**
  * A modal component for adding or editing a generic LLM provider.
- * @param {object} props - The component's props.
+ * @param {LLMConfigModalProps} props - The component's props.
  * @param {() => void} props.onClose - A function to call when the modal is closed.
  * @param {() => void} props.onSaveSuccess - A function to call when the provider is saved successfully.
+ * @param {ProviderSpec} [props.initialSpec] - The provider to edit; its ID cannot be changed. Omit to add a new provider.
  * @returns {JSX.Element} The rendered component.
  */
-export default function LLMConfigModal({ onClose, onSaveSuccess }) {
-  const [id, setId] = useState('');
-  const [name, setName] = useState('');
-  const [endpoint, setEndpoint] = useState('');
-  const [model, setModel] = useState('');
-  const [headersJson, setHeadersJson] = useState('{\n  "Authorization": "Bearer {{API_KEY}}"\n}');
-  const [requestTemplate, setRequestTemplate] = useState('{\n  "model": "{{model}}",\n  "prompt": "{{prompt}}"\n}');
-  const [apiKey, setApiKey] = useState('');
+export default function LLMConfigModal({ onClose, onSaveSuccess, initialSpec }: LLMConfigModalProps) {
+  const editing = !!initialSpec;
+  const [id, setId] = useState(initialSpec?.id ?? '');
+  const [name, setName] = useState(initialSpec?.name ?? '');
+  const [endpoint, setEndpoint] = useState(initialSpec?.endpoint ?? '');
+  const [model, setModel] = useState(initialSpec?.model ?? '');
+  const [headersJson, setHeadersJson] = useState(
+    initialSpec ? JSON.stringify(initialSpec.headers ?? {}, null, 2) : '{\n  "Authorization": "Bearer {{API_KEY}}"\n}'
+  );
+  const [requestTemplate, setRequestTemplate] = useState(
+    initialSpec ? formatTemplate(initialSpec.requestTemplate ?? '') : '{\n  "model": "{{model}}",\n  "prompt": "{{prompt}}"\n}'
+  );
+  // Values typed for placeholders; empty entries keep whatever is already stored.
+  const [secretValues, setSecretValues] = useState<Record<string, string>>({});
+  const [storedSecrets, setStoredSecrets] = useState<Record<string, string>>({});
+  const [stream, setStream] = useState(initialSpec?.stream ?? false);
+  const [streamFormat, setStreamFormat] = useState<StreamFormat>(initialSpec?.streamFormat ?? 'auto');
+  const [responsePath, setResponsePath] = useState(initialSpec?.responsePath ?? '');
+  const [responseMode, setResponseMode] = useState<ResponseMode>(initialSpec?.responseMode ?? 'text');
+  const [embeddingPath, setEmbeddingPath] = useState(initialSpec?.embeddingPath ?? '');
+  const [timeoutMs, setTimeoutMs] = useState(initialSpec?.timeoutMs !== undefined ? String(initialSpec.timeoutMs) : '');
+  const [maxRetries, setMaxRetries] = useState(initialSpec?.maxRetries !== undefined ? String(initialSpec.maxRetries) : '');
+  const [limits, setLimits] = useState<Record<LimitField, string>>(() =>
+    Object.fromEntries(LIMIT_FIELDS.map((f) => [f.key, initialSpec?.[f.key] !== undefined ? String(initialSpec[f.key]) : ''])) as Record<LimitField, string>
+  );
+  const [diagnostic, setDiagnostic] = useState<{ spec: ProviderSpec; secrets?: Record<string, string> } | null>(null);
 
-  const onSave = async () => {
-    if (!id || !endpoint) {
-      Alert.alert('Error', 'Provider ID and Endpoint are required.');
-      return;
-    }
+  useEffect(() => {
+    if (initialSpec) getProviderSecrets(initialSpec.id).then((secrets) => setStoredSecrets(secrets ?? {}));
+  }, [initialSpec]);
 
+  const placeholders = discoverSpecPlaceholders({ endpoint, headers: headersJson, requestTemplate });
+  const typedSecrets = Object.fromEntries(
+    placeholders.filter((p) => secretValues[p.name]).map((p) => [p.name, secretValues[p.name]])
+  );
+
+  const applyPreset = (preset: ProviderPreset) => {
+    const p = preset.spec;
+    if (!id) setId(preset.id);
+    if (!name) setName(preset.name);
+    setEndpoint(p.endpoint);
+    setModel(p.model ?? '');
+    setHeadersJson(JSON.stringify(p.headers ?? {}, null, 2));
+    setRequestTemplate(formatTemplate(p.requestTemplate ?? ''));
+    setResponsePath(p.responsePath ?? '');
+    setResponseMode(p.responseMode ?? 'text');
+    setStreamFormat(p.streamFormat ?? 'auto');
+  };
+
+  /**
+   * Builds a spec from the form fields, or alerts and returns null if the headers are not valid JSON.
+   * Timeout, retries, limits and prices are passed through as numbers; the schema rejects values that are out of range.
+   * @param {string} specId The ID to give the spec.
+   * @returns {ProviderSpec | null} The spec.
+   */
+  const buildSpec = (specId: string): ProviderSpec | null => {
     let headers;
     try {
       headers = headersJson ? JSON.parse(headersJson) : {};
     } catch (e) {
       Alert.alert('Error', 'Headers JSON is not valid.');
+      return null;
+    }
+
+    return {
+      id: specId, name, endpoint, model, headers,
+      requestTemplate: requestTemplate.trim() || undefined,
+      ...(timeoutMs.trim() ? { timeoutMs: Number(timeoutMs) } : {}),
+      ...(maxRetries.trim() ? { maxRetries: Number(maxRetries) } : {}),
+      ...Object.fromEntries(LIMIT_FIELDS.filter((f) => limits[f.key].trim()).map((f) => [f.key, Number(limits[f.key])])),
+      ...(stream ? { stream, streamFormat } : {}),
+      ...(responsePath.trim() ? { responsePath: responsePath.trim(), responseMode } : {}),
+      ...(embeddingPath.trim() ? { embeddingPath: embeddingPath.trim() } : {}),
+      ...(initialSpec?.enabled !== undefined ? { enabled: initialSpec.enabled } : {}),
+    };
+  };
+
+  const onTest = () => {
+    if (!endpoint) {
+      Alert.alert('Error', 'Endpoint is required.');
+      return;
+    }
+    // Tests the form as it is, without saving it; a fresh spec object re-runs the diagnostics.
+    const spec = buildSpec(id || 'draft');
+    if (spec) setDiagnostic({ spec, secrets: { ...storedSecrets, ...typedSecrets } });
+  };
+
+  const onSave = async () => {
+    if (!id || !endpoint) {
+      Alert.alert('Error', 'Provider ID and Endpoint are required.');
       return;
     }
 
-    const spec = { id, name, endpoint, model, headers, requestTemplate };
+    const spec = buildSpec(id);
+    if (!spec) return;
 
     try {
       await saveProviderSpec(spec);
 
-      const hasApiKeyPlaceholder = Object.values(headers).some(
-        (val: string) => typeof val === 'string' && val.includes('{{API_KEY}}')
-      );
-
-      if (hasApiKeyPlaceholder && apiKey) {
-        await storeProviderSecret(id, 'API_KEY', apiKey);
+      for (const [secretName, value] of Object.entries(typedSecrets)) {
+        await storeProviderSecret(id, secretName, value);
       }
 
       Alert.alert('Success', `Provider "${name || id}" saved successfully.`);
@@ -56,26 +162,146 @@ export default function LLMConfigModal({ onClose, onSaveSuccess }) {
 
   return (
     <ScrollView style={styles.container}>
-      <Text style={styles.title}>Add New LLM Provider</Text>
-      <TextInput style={styles.input} placeholder="Provider ID (e.g., my-custom-llm)" value={id} onChangeText={setId} />
+      <Text style={styles.title}>{editing ? `Edit ${initialSpec.name || initialSpec.id}` : 'Add New LLM Provider'}</Text>
+
+      {!editing && (
+        <>
+          <Text style={styles.label}>Start from a preset (all fields stay editable)</Text>
+          <View style={styles.presetRow}>
+            {PROVIDER_PRESETS.map((preset) => (
+              <View key={preset.id} style={styles.presetButton}>
+                <Button title={preset.name} onPress={() => applyPreset(preset)} />
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+      <TextInput
+        style={[styles.input, editing && styles.inputDisabled]}
+        placeholder="Provider ID (e.g., my-custom-llm)"
+        value={id}
+        onChangeText={setId}
+        editable={!editing}
+      />
       <TextInput style={styles.input} placeholder="Display Name (e.g., My Custom LLM)" value={name} onChangeText={setName} />
-      <TextInput style={styles.input} placeholder="API Endpoint URL" value={endpoint} onChangeText={setEndpoint} autoCapitalize="none" />
+      <TextInput
+        style={styles.input}
+        placeholder="API Endpoint URL (may use placeholders like {{DEPLOYMENT}})"
+        value={endpoint}
+        onChangeText={setEndpoint}
+        autoCapitalize="none"
+      />
       <TextInput style={styles.input} placeholder="Model Name (optional)" value={model} onChangeText={setModel} autoCapitalize="none" />
 
       <Text style={styles.label}>Headers (JSON with placeholders like {`{{API_KEY}}`})</Text>
       <TextInput style={styles.inputMultiline} value={headersJson} onChangeText={setHeadersJson} multiline autoCapitalize="none" />
 
-      {/* Show API Key input only if the placeholder is in the headers */}
-      {headersJson.includes('{{API_KEY}}') && (
-        <>
-          <Text style={styles.label}>API Key (for {`{{API_KEY}}`})</Text>
-          <TextInput style={styles.input} placeholder="Enter secret API Key" value={apiKey} onChangeText={setApiKey} secureTextEntry />
-        </>
+      <Text style={styles.label}>
+        Request Template (JSON with {`{{prompt}}`}, {`{{model}}`}, {`{{messages}}`}, {`{{#if system}}...{{/if}}`} and your own placeholders)
+      </Text>
+      <TextInput style={styles.inputMultiline} value={requestTemplate} onChangeText={setRequestTemplate} multiline autoCapitalize="none" />
+
+      {/* One input per placeholder found in the endpoint, headers or template, stored securely. */}
+      {placeholders.map((p) => {
+        const stored = !!storedSecrets[p.name];
+        return (
+          <View key={p.name}>
+            <Text style={styles.label}>
+              {`{{${p.name}}}`} (used in {p.locations.join(', ')}{p.optional ? ', optional' : ''})
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder={stored ? 'Stored. Leave empty to keep it' : 'Enter value'}
+              value={secretValues[p.name] ?? ''}
+              onChangeText={(value) => setSecretValues({ ...secretValues, [p.name]: value })}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            {!p.optional && !stored && !secretValues[p.name] && (
+              <Text style={styles.warning}>No value stored for {`{{${p.name}}}`}; it will be sent empty.</Text>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.label}>Response Path (optional, e.g. $.content[0].text)</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Leave empty to detect common response shapes"
+        value={responsePath}
+        onChangeText={setResponsePath}
+        autoCapitalize="none"
+      />
+      {responsePath.trim() !== '' && (
+        <View style={styles.formatRow}>
+          <Text>Value at path is:</Text>
+          {RESPONSE_MODES.map((m) => (
+            <Button
+              key={m}
+              title={m === 'text' ? 'text with JSON' : 'the JSON signal'}
+              onPress={() => setResponseMode(m)}
+              color={responseMode === m ? undefined : 'gray'}
+            />
+          ))}
+        </View>
       )}
 
-      <Text style={styles.label}>Request Template (JSON with {`{{prompt}}`} and {`{{model}}`})</Text>
-      <TextInput style={styles.inputMultiline} value={requestTemplate} onChangeText={setRequestTemplate} multiline autoCapitalize="none" />
+      <Text style={styles.label}>Embedding Path (embedding providers only, e.g. $.data[0].embedding)</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Leave empty for a signal provider"
+        value={embeddingPath}
+        onChangeText={setEmbeddingPath}
+        autoCapitalize="none"
+      />
+
+      <View style={styles.numberRow}>
+        <View style={styles.numberField}>
+          <Text style={styles.label}>Timeout (ms, default 9000)</Text>
+          <TextInput style={styles.input} placeholder="9000" value={timeoutMs} onChangeText={setTimeoutMs} keyboardType="number-pad" />
+        </View>
+        <View style={styles.numberField}>
+          <Text style={styles.label}>Retries (default 1)</Text>
+          <TextInput style={styles.input} placeholder="1" value={maxRetries} onChangeText={setMaxRetries} keyboardType="number-pad" />
+        </View>
+      </View>
+
+      <Text style={styles.label}>Limits and pricing (optional)</Text>
+      <View style={styles.limitRow}>
+        {LIMIT_FIELDS.map((f) => (
+          <View key={f.key} style={styles.limitField}>
+            <Text style={styles.label}>{f.label}</Text>
+            <TextInput
+              style={styles.input}
+              value={limits[f.key]}
+              onChangeText={(value) => setLimits({ ...limits, [f.key]: value })}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text>Stream response (SSE / NDJSON)</Text>
+        <Switch value={stream} onValueChange={setStream} />
+      </View>
+      {stream && (
+        <View style={styles.formatRow}>
+          {STREAM_FORMATS.map((f) => (
+            <Button key={f} title={f} onPress={() => setStreamFormat(f)} color={streamFormat === f ? undefined : 'gray'} />
+          ))}
+        </View>
+      )}
 
+      <Button title="Test Connection" onPress={onTest} />
+      {diagnostic && (
+        <ProviderDiagnosticsPanel
+          spec={diagnostic.spec}
+          secrets={diagnostic.secrets}
+          onClose={() => setDiagnostic(null)}
+        />
+      )}
+      <View style={styles.spacer} />
       <Button title="Save Provider" onPress={onSave} />
       <View style={styles.spacer} />
       <Button title="Cancel" onPress={onClose} color="gray" />
@@ -105,6 +331,15 @@ const styles = StyleSheet.create({
     borderRadius: 5,
     marginBottom: 10,
   },
+  warning: {
+    color: '#b26a00',
+    marginTop: -5,
+    marginBottom: 10,
+  },
+  inputDisabled: {
+    backgroundColor: '#f0f0f0',
+    color: '#666',
+  },
   inputMultiline: {
     borderWidth: 1,
     borderColor: '#ccc',
@@ -114,6 +349,41 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  presetButton: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  numberRow: {
+    flexDirection: 'row',
+  },
+  numberField: {
+    flex: 1,
+    marginRight: 10,
+  },
+  limitRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  limitField: {
+    width: '45%',
+    marginRight: 10,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
   spacer: {
     height: 10,
   },
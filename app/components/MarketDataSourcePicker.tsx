@@ -0,0 +1,135 @@
+// app/components/MarketDataSourcePicker.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Button, Text, TextInput } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import { LOCAL_FILE_SOURCE_ID, listMarketDataProviders, parseCandleFile } from '../services/marketDataProviders';
+import { listCandleFiles, saveCandleFile } from '../utils/candleFileStore';
+import { Timeframe } from '../types';
+import {
+  MarketDataSelection,
+  getMarketDataSelection,
+  setDefaultMarketDataSource,
+  setSymbolMarketDataSource,
+} from '../utils/marketDataSourceStore';
+
+const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+interface MarketDataSourcePickerProps {
+  symbol: string;
+  onChange?: () => void;
+}
+
+/**
+ * Lets the user pick the market data source for the current symbol, or make a source the global default.
+ * While the symbol reads from local files, candle files can be pasted in for each timeframe.
+ * @param {MarketDataSourcePickerProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function MarketDataSourcePicker({ symbol, onChange }: MarketDataSourcePickerProps) {
+  const { t } = useTranslation();
+  const [selection, setSelection] = useState<MarketDataSelection | null>(null);
+  const [files, setFiles] = useState<Record<string, Timeframe[]>>({});
+  const [fileTimeframe, setFileTimeframe] = useState<Timeframe>('1h');
+  const [fileContent, setFileContent] = useState('');
+  const sources = listMarketDataProviders();
+
+  const reload = useCallback(() => {
+    getMarketDataSelection().then(setSelection);
+    listCandleFiles().then(setFiles);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  if (!selection) return null;
+
+  const override = selection.symbolSources[symbol.toUpperCase()] ?? null;
+  const active = override ?? selection.defaultSourceId;
+
+  const pick = async (sourceId: string | null) => {
+    await setSymbolMarketDataSource(symbol, sourceId);
+    reload();
+    onChange?.();
+  };
+
+  const saveFile = async () => {
+    try {
+      const candles = parseCandleFile(fileContent);
+      if (candles.length === 0) throw new Error(t('candleFileEmpty'));
+      await saveCandleFile(symbol, fileTimeframe, fileContent);
+      setFileContent('');
+      reload();
+      onChange?.();
+      Alert.alert(t('success'), t('candleFileSaved', { count: candles.length, symbol: symbol.toUpperCase(), timeframe: fileTimeframe }));
+    } catch (error) {
+      Alert.alert(t('failed'), error.message);
+    }
+  };
+
+  const makeDefault = async () => {
+    await setDefaultMarketDataSource(active);
+    await setSymbolMarketDataSource(symbol, null);
+    reload();
+    onChange?.();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>{t('dataSource')}</Text>
+      <View style={styles.row}>
+        <Button compact mode={override === null ? 'contained-tonal' : 'text'} onPress={() => pick(null)}>
+          {t('defaultSource', { source: selection.defaultSourceId })}
+        </Button>
+        {sources.map((s) => (
+          <Button key={s.id} compact mode={override === s.id ? 'contained-tonal' : 'text'} onPress={() => pick(s.id)}>
+            {s.name}
+          </Button>
+        ))}
+        {override !== null && active !== selection.defaultSourceId && (
+          <Button compact onPress={makeDefault}>{t('makeDefault')}</Button>
+        )}
+      </View>
+      {active === LOCAL_FILE_SOURCE_ID && (
+        <View>
+          <Text variant="bodySmall" style={styles.label}>
+            {t('candleFiles', { symbol: symbol.toUpperCase(), timeframes: files[symbol.toUpperCase()]?.join(', ') || t('none') })}
+          </Text>
+          <View style={styles.row}>
+            {TIMEFRAMES.map((tf) => (
+              <Button key={tf} compact mode={fileTimeframe === tf ? 'contained-tonal' : 'text'} onPress={() => setFileTimeframe(tf)}>
+                {tf}
+              </Button>
+            ))}
+          </View>
+          <TextInput
+            label={t('candleFileContent')}
+            value={fileContent}
+            onChangeText={setFileContent}
+            multiline
+            autoCapitalize="none"
+          />
+          <Button compact onPress={saveFile} disabled={!symbol || !fileContent.trim()}>
+            {t('saveCandleFile', { timeframe: fileTimeframe })}
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 10,
+  },
+  label: {
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,206 @@
+// app/components/PlaybookBundleModal.tsx
+import React, { useState } from 'react';
+import { View, TextInput, Button, Text, StyleSheet, Alert, ScrollView, Share } from 'react-native';
+import {
+  PlaybookImportPreview,
+  exportPlaybookBundle,
+  exportPlaybookCsv,
+  importPlaybook,
+  previewPlaybookImport,
+} from '../services/playbookBundle';
+
+/**
+ * A modal component for pooling signal histories across devices: exports the playbook as JSON or CSV
+ * and merges pasted exports into it.
+ * @param {object} props - The component's props.
+ * @param {() => void} props.onClose - A function to call when the modal is closed.
+ * @param {() => void} props.onImportSuccess - A function to call after signals are imported.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function PlaybookBundleModal({ onClose, onImportSuccess }) {
+  const [exportOrigin, setExportOrigin] = useState('');
+  const [bundleText, setBundleText] = useState('');
+  const [importOrigin, setImportOrigin] = useState('');
+  const [preview, setPreview] = useState<PlaybookImportPreview | null>(null);
+
+  const onExport = async (format: 'json' | 'csv') => {
+    try {
+      const message = format === 'json'
+        ? JSON.stringify(await exportPlaybookBundle({ origin: exportOrigin || undefined }), null, 2)
+        : await exportPlaybookCsv();
+      await Share.share({ message });
+    } catch (error) {
+      Alert.alert('Export Error', error.message);
+    }
+  };
+
+  const onPreview = async () => {
+    try {
+      const result = await previewPlaybookImport(bundleText);
+      setPreview(result);
+      setImportOrigin(result.origin ?? '');
+    } catch (error) {
+      setPreview(null);
+      Alert.alert('Import Error', error.message);
+    }
+  };
+
+  const onImport = async () => {
+    if (!preview) return;
+    try {
+      const report = await importPlaybook(preview, { origin: importOrigin || undefined });
+      Alert.alert(
+        'Import Complete',
+        [
+          `Added: ${report.added}`,
+          `Updated outcomes: ${report.updated}`,
+          `Already up to date: ${report.unchanged}`,
+          `Invalid: ${report.invalid.length}`,
+          ...(report.trimmed > 0
+            ? [`Oldest signals deleted to stay within the playbook limit: ${report.trimmed}, of which imported: ${report.trimmedIds.length}`]
+            : []),
+        ].join('\n')
+      );
+      onImportSuccess();
+      onClose();
+    } catch (error) {
+      Alert.alert('Import Error', error.message);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>Share Playbook</Text>
+
+      <Text style={styles.section}>Export</Text>
+      <Text style={styles.label}>Your name (optional). Signals you share are tagged with it on other devices.</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. alice"
+        value={exportOrigin}
+        onChangeText={setExportOrigin}
+        autoCapitalize="none"
+      />
+      <View style={styles.buttonRow}>
+        <Button title="Export JSON" onPress={() => onExport('json')} />
+        <Button title="Export CSV" onPress={() => onExport('csv')} />
+      </View>
+
+      <Text style={styles.section}>Import</Text>
+      <Text style={styles.label}>Playbook JSON or CSV</Text>
+      <TextInput
+        style={styles.inputMultiline}
+        placeholder="Paste an exported playbook"
+        value={bundleText}
+        onChangeText={(text) => {
+          setBundleText(text);
+          setPreview(null);
+        }}
+        multiline
+        autoCapitalize="none"
+      />
+      <Button title="Check Playbook" onPress={onPreview} disabled={!bundleText.trim()} />
+
+      {preview && (
+        <View style={styles.preview}>
+          <Text>
+            {preview.signals.length} valid signal(s): {preview.newIds.length} new, {preview.updatedIds.length} with a later outcome.
+            {preview.duplicates > 0 ? ` ${preview.duplicates} duplicate(s) merged.` : ''} {preview.invalid.length} invalid.
+          </Text>
+
+          {preview.invalid.map((entry) => (
+            <Text key={entry.index} style={styles.error}>
+              #{entry.index + 1} {entry.id ?? ''}: {entry.issues.join('; ')}
+            </Text>
+          ))}
+
+          {preview.overflow > 0 && (
+            <Text style={styles.warning}>
+              The playbook keeps its newest signals only: importing deletes the {preview.overflow} oldest, which may include imported ones.
+            </Text>
+          )}
+
+          {preview.format === 'csv' && (
+            <Text style={styles.warning}>
+              CSV carries no market snapshots: these signals count in analytics but are never used as prompt examples.
+            </Text>
+          )}
+
+          <Text style={styles.label}>Tag new signals with origin</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="imported"
+            value={importOrigin}
+            onChangeText={setImportOrigin}
+            autoCapitalize="none"
+          />
+
+          <Button
+            title="Import Signals"
+            onPress={onImport}
+            disabled={preview.newIds.length + preview.updatedIds.length === 0}
+          />
+        </View>
+      )}
+
+      <View style={styles.spacer} />
+      <Button title="Close" onPress={onClose} color="gray" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  section: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
+  label: {
+    marginTop: 15,
+    marginBottom: 5,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    padding: 10,
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  inputMultiline: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    padding: 10,
+    borderRadius: 5,
+    marginBottom: 10,
+    height: 140,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  preview: {
+    marginTop: 15,
+  },
+  error: {
+    color: 'red',
+    marginTop: 5,
+  },
+  warning: {
+    color: '#b26a00',
+    marginTop: 5,
+  },
+  spacer: {
+    height: 10,
+  },
+});
@@ -0,0 +1,204 @@
+// app/components/ProviderBundleModal.tsx
+import React, { useState } from 'react';
+import { View, TextInput, Button, Text, StyleSheet, Alert, ScrollView, Share } from 'react-native';
+import {
+  ConflictResolution,
+  ImportPreview,
+  exportProviderBundle,
+  importProviderBundle,
+  previewProviderImport,
+} from '../services/providerBundle';
+
+const RESOLUTIONS: ConflictResolution[] = ['skip', 'overwrite', 'rename'];
+
+/**
+ * A modal component for sharing provider specs between devices as a JSON bundle.
+ * @param {object} props - The component's props.
+ * @param {() => void} props.onClose - A function to call when the modal is closed.
+ * @param {() => void} props.onImportSuccess - A function to call after providers are imported.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function ProviderBundleModal({ onClose, onImportSuccess }) {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [bundleText, setBundleText] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const onExport = async () => {
+    try {
+      const bundle = await exportProviderBundle({ passphrase: exportPassphrase || undefined });
+      await Share.share({ message: JSON.stringify(bundle, null, 2) });
+    } catch (error) {
+      Alert.alert('Export Error', error.message);
+    }
+  };
+
+  const onPreview = async () => {
+    try {
+      const result = await previewProviderImport(bundleText);
+      setPreview(result);
+      setResolutions(Object.fromEntries(result.conflicts.map((id) => [id, 'skip' as ConflictResolution])));
+    } catch (error) {
+      setPreview(null);
+      Alert.alert('Import Error', error.message);
+    }
+  };
+
+  const onImport = async () => {
+    if (!preview) return;
+    try {
+      const report = await importProviderBundle(preview, { resolutions, passphrase: importPassphrase || undefined });
+      const renamed = report.renamed.map((r) => `${r.from} → ${r.to}`);
+      Alert.alert(
+        'Import Complete',
+        [
+          `Added: ${report.added.join(', ') || 'none'}`,
+          `Overwritten: ${report.overwritten.join(', ') || 'none'}`,
+          `Renamed: ${renamed.join(', ') || 'none'}`,
+          `Skipped: ${report.skipped.join(', ') || 'none'}`,
+          `Secrets imported: ${report.secretsImported}`,
+        ].join('\n')
+      );
+      onImportSuccess();
+      onClose();
+    } catch (error) {
+      Alert.alert('Import Error', error.message);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>Share Providers</Text>
+
+      <Text style={styles.section}>Export</Text>
+      <Text style={styles.label}>Passphrase (optional). Secrets are only exported, encrypted, when one is set.</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Leave empty to export without secrets"
+        value={exportPassphrase}
+        onChangeText={setExportPassphrase}
+        secureTextEntry
+      />
+      <Button title="Export Providers" onPress={onExport} />
+
+      <Text style={styles.section}>Import</Text>
+      <Text style={styles.label}>Bundle JSON</Text>
+      <TextInput
+        style={styles.inputMultiline}
+        placeholder="Paste an exported bundle"
+        value={bundleText}
+        onChangeText={(text) => {
+          setBundleText(text);
+          setPreview(null);
+        }}
+        multiline
+        autoCapitalize="none"
+      />
+      <Button title="Check Bundle" onPress={onPreview} disabled={!bundleText.trim()} />
+
+      {preview && (
+        <View style={styles.preview}>
+          <Text>
+            {preview.specs.length} valid provider(s), {preview.conflicts.length} conflict(s), {preview.invalid.length} invalid.
+          </Text>
+
+          {preview.invalid.map((entry) => (
+            <Text key={entry.index} style={styles.error}>
+              #{entry.index + 1} {entry.id ?? ''}: {entry.issues.join('; ')}
+            </Text>
+          ))}
+
+          {preview.conflicts.map((id) => (
+            <View key={id} style={styles.conflictRow}>
+              <Text style={styles.conflictId}>{id} already exists:</Text>
+              {RESOLUTIONS.map((r) => (
+                <Button
+                  key={r}
+                  title={r}
+                  onPress={() => setResolutions({ ...resolutions, [id]: r })}
+                  color={resolutions[id] === r ? undefined : 'gray'}
+                />
+              ))}
+            </View>
+          ))}
+
+          {preview.hasSecrets && (
+            <>
+              <Text style={styles.label}>This bundle carries encrypted secrets. Enter its passphrase to import them.</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Leave empty to skip secrets"
+                value={importPassphrase}
+                onChangeText={setImportPassphrase}
+                secureTextEntry
+              />
+            </>
+          )}
+
+          <Button title="Import Providers" onPress={onImport} disabled={preview.specs.length === 0} />
+        </View>
+      )}
+
+      <View style={styles.spacer} />
+      <Button title="Close" onPress={onClose} color="gray" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  section: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
+  label: {
+    marginTop: 15,
+    marginBottom: 5,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    padding: 10,
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  inputMultiline: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    padding: 10,
+    borderRadius: 5,
+    marginBottom: 10,
+    height: 140,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    marginTop: 15,
+  },
+  error: {
+    color: 'red',
+    marginTop: 5,
+  },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  conflictId: {
+    marginRight: 6,
+  },
+  spacer: {
+    height: 10,
+  },
+});
@@ -0,0 +1,146 @@
+// app/components/ProviderDiagnosticsPanel.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, Button, StyleSheet, ActivityIndicator } from 'react-native';
+import { buildAdapterFromSpec } from '../services/llmService';
+import { ProviderSpec } from '../utils/providerStore';
+import { ProviderDiagnostics } from '../types';
+
+const MAX_BODY_CHARS = 4000;
+
+/**
+ * Shortens long response bodies so the panel stays responsive.
+ * @param {string} text The text to show.
+ * @returns {string} The text, cut at `MAX_BODY_CHARS`.
+ */
+const clip = (text: string) =>
+  text.length > MAX_BODY_CHARS ? `${text.slice(0, MAX_BODY_CHARS)}… (${text.length - MAX_BODY_CHARS} more characters)` : text;
+
+/**
+ * Sends a diagnostic request to a provider when mounted and shows each step of the exchange.
+ * The circuit breaker is neither consulted nor updated, so it also works for unsaved or tripped providers.
+ * @param {object} props - The component's props.
+ * @param {ProviderSpec} props.spec - The provider spec to test; it does not need to be saved.
+ * @param {Record<string, string>} [props.secrets] - Secrets to use instead of the stored ones.
+ * @param {() => void} [props.onClose] - A function to call when the panel is closed.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function ProviderDiagnosticsPanel({ spec, secrets, onClose }: {
+  spec: ProviderSpec;
+  secrets?: Record<string, string>;
+  onClose?: () => void;
+}) {
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<ProviderDiagnostics | null>(null);
+
+  const run = useCallback(async () => {
+    setRunning(true);
+    try {
+      setReport(await buildAdapterFromSpec(spec, { secrets }).diagnose());
+    } finally {
+      setRunning(false);
+    }
+  }, [spec, secrets]);
+
+  useEffect(() => {
+    run();
+  }, [run]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Diagnostics: {spec.name || spec.id}</Text>
+      {running && <ActivityIndicator style={styles.spinner} />}
+
+      {report && !running && (
+        <>
+          <Text style={report.ok ? styles.ok : styles.error}>
+            {report.ok
+              ? `Valid ${report.parsed?.type ?? ''} signal parsed`
+              : report.error ?? (report.candidates > 0 ? 'No candidate passed the signal schema' : 'No JSON found in the response')}
+          </Text>
+          <Text style={styles.meta}>
+            HTTP {report.status ?? '—'} · {report.latencyMs} ms · {report.candidates} JSON candidate(s)
+          </Text>
+
+          {report.missingPlaceholders.length > 0 && (
+            <Text style={styles.warning}>
+              No value for {report.missingPlaceholders.map((n) => `{{${n}}}`).join(', ')}; sent empty.
+            </Text>
+          )}
+
+          <Text style={styles.label}>Request</Text>
+          <Text style={styles.code}>
+            {`${report.request.method} ${report.request.url}\n`}
+            {Object.entries(report.request.headers).map(([k, v]) => `${k}: ${v}\n`).join('')}
+            {`\n${report.request.body}`}
+          </Text>
+
+          <Text style={styles.label}>Raw response</Text>
+          <Text style={styles.code}>{report.rawBody !== null ? clip(report.rawBody) : '(none)'}</Text>
+
+          <Text style={styles.label}>Extracted text</Text>
+          <Text style={styles.code}>{report.extractedText !== null ? clip(report.extractedText) : '(none)'}</Text>
+
+          {report.schemaIssues.length > 0 && (
+            <>
+              <Text style={styles.label}>Schema issues</Text>
+              {report.schemaIssues.map((issue, i) => (
+                <Text key={i} style={styles.error}>{issue}</Text>
+              ))}
+            </>
+          )}
+        </>
+      )}
+
+      <View style={styles.buttons}>
+        <Button title="Run Again" onPress={run} disabled={running} />
+        {onClose && <Button title="Close" onPress={onClose} color="gray" />}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  spinner: {
+    marginVertical: 20,
+  },
+  meta: {
+    color: '#666',
+    marginBottom: 5,
+  },
+  label: {
+    marginTop: 15,
+    marginBottom: 5,
+    color: '#333',
+    fontWeight: 'bold',
+  },
+  code: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    backgroundColor: '#f5f5f5',
+    padding: 8,
+    borderRadius: 5,
+  },
+  ok: {
+    color: 'green',
+  },
+  error: {
+    color: 'red',
+  },
+  warning: {
+    color: '#b26a00',
+    marginTop: 5,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 15,
+  },
+});
@@ -2,6 +2,7 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { TradingSignal } from '../types';
+import { formatUsd } from '../services/usageAccounting';
 
 interface SignalCardProps {
   signal: TradingSignal;
@@ -28,6 +29,18 @@ export default function SignalCard({ signal }: SignalCardProps) {
         <Text style={styles.riskText}>SL: ${signal.riskMetrics.stopLoss.toFixed(2)}</Text>
         <Text style={styles.riskText}>TP: ${signal.riskMetrics.takeProfit.toFixed(2)}</Text>
       </View>
+      {signal.consensus && (
+        <Text style={styles.consensus}>
+          Disagreement: {Math.round(signal.consensus.disagreement * 100)}%
+          {signal.consensus.dissenters.length > 0 ? ` · Dissent: ${signal.consensus.dissenters.join(', ')}` : ''}
+        </Text>
+      )}
+      {signal.cost && (
+        <Text style={styles.consensus}>
+          Cost: {formatUsd(signal.cost.cost)} · {signal.cost.inputTokens + signal.cost.outputTokens} tokens
+          {signal.cost.estimated ? ' (estimated)' : ''}
+        </Text>
+      )}
       <Text style={styles.reasoning}>{signal.reasoning}</Text>
     </View>
   );
@@ -93,6 +106,11 @@ const styles = StyleSheet.create({
   riskText: {
     fontSize: 14,
   },
+  consensus: {
+    fontSize: 12,
+    color: '#555',
+    marginBottom: 10,
+  },
   reasoning: {
     fontSize: 14,
     color: '#333',
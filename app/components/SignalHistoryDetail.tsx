@@ -0,0 +1,155 @@
+// app/components/SignalHistoryDetail.tsx
+import React, { useState } from 'react';
+import { View, ScrollView, Alert } from 'react-native';
+import { Button, Text, TextInput } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import { SignalHistory, Timeframe, TimeframeAnalysis } from '../types';
+import { removeSignalFromPlaybook, updateSignalOutcome } from '../services/playbookService';
+import { cancelSignal, closeSignalManually } from '../services/outcomeService';
+
+interface SignalHistoryDetailProps {
+  item: SignalHistory;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const fmt = (value: number | null | undefined, digits = 2) =>
+  typeof value === 'number' && Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+/**
+ * Summarizes one timeframe of the stored multi-timeframe snapshot in a line.
+ * @param {TimeframeAnalysis} analysis The analysis.
+ * @returns {string} The summary.
+ */
+const describeTimeframe = (analysis: TimeframeAnalysis) =>
+  [
+    analysis.trend,
+    `vol ${fmt(analysis.volatility)}`,
+    `RSI ${fmt(analysis.indicators?.rsi14, 1)}`,
+    `EMA20 ${fmt(analysis.indicators?.ema20)}`,
+    `EMA50 ${fmt(analysis.indicators?.ema50)}`,
+    `S ${fmt(analysis.support?.[0])}`,
+    `R ${fmt(analysis.resistance?.[0])}`,
+  ].join(' · ');
+
+/**
+ * Shows everything stored with a playbook signal, with actions to close it by hand, cancel it or delete it.
+ * @param {SignalHistoryDetailProps} props - The component's props.
+ * @param {SignalHistory} props.item - The signal.
+ * @param {() => void} props.onChanged - Called after the signal was updated or deleted.
+ * @param {() => void} props.onClose - Called to close the view.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function SignalHistoryDetail({ item, onChanged, onClose }: SignalHistoryDetailProps) {
+  const { t } = useTranslation();
+  const [exitPrice, setExitPrice] = useState('');
+  const { signal } = item;
+  const mtf: Partial<Record<Timeframe, TimeframeAnalysis>> = signal.indicators?.mtf ?? {};
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      Alert.alert(t('failed'), error.message);
+    }
+  };
+
+  const confirmDelete = () =>
+    Alert.alert(t('deleteSignalTitle'), t('deleteSignalMessage', { symbol: signal.symbol }), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: () => run(async () => {
+          await removeSignalFromPlaybook(item.id);
+          onClose();
+        }),
+      },
+    ]);
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Text variant="headlineMedium">{signal.symbol} · {signal.type}</Text>
+      <Text variant="bodySmall" style={{ color: '#666', marginBottom: 10 }}>
+        {new Date(signal.timestamp).toLocaleString()} · {item.outcome}
+        {item.hitTarget ? ` (${item.hitTarget})` : ''}
+      </Text>
+
+      <ScrollView style={{ flex: 1 }}>
+        <Text variant="titleMedium">{t('riskMetrics')}</Text>
+        <Text variant="bodySmall">
+          {t('historyRisk', {
+            entry: fmt(item.entryPrice),
+            stopLoss: fmt(signal.riskMetrics.stopLoss),
+            takeProfit: fmt(signal.riskMetrics.takeProfit),
+            ratio: fmt(signal.riskMetrics.riskRewardRatio),
+            size: fmt(signal.riskMetrics.positionSizePercent, 1),
+            confidence: signal.confidence,
+          })}
+        </Text>
+        {item.closedAt !== undefined && (
+          <Text variant="bodySmall">
+            {t('historyClosed', {
+              time: new Date(item.closedAt).toLocaleString(),
+              exit: fmt(item.exitPrice),
+              pnl: fmt(item.pnlPercent),
+            })}
+          </Text>
+        )}
+        {signal.reasoning ? <Text variant="bodySmall" style={{ marginTop: 5 }}>{signal.reasoning}</Text> : null}
+
+        <Text variant="titleMedium" style={{ marginTop: 10 }}>{t('providerVotes')}</Text>
+        {(item.providerSignals ?? []).length > 0 ? (
+          item.providerSignals!.map((vote) => (
+            <View key={vote.providerId} style={{ marginBottom: 6 }}>
+              <Text variant="bodySmall" style={{ fontWeight: 'bold' }}>
+                {vote.providerId}: {vote.type}
+                {vote.confidence !== undefined ? ` (${vote.confidence}%)` : ''}
+              </Text>
+              {vote.reasoning ? <Text variant="bodySmall" style={{ color: '#444' }}>{vote.reasoning}</Text> : null}
+            </View>
+          ))
+        ) : (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('none')}</Text>
+        )}
+
+        <Text variant="titleMedium" style={{ marginTop: 10 }}>{t('mtfSnapshot')}</Text>
+        {Object.values(mtf).length > 0 ? (
+          Object.values(mtf).map((analysis) => (
+            <Text key={analysis.timeframe} variant="bodySmall">
+              <Text style={{ fontWeight: 'bold' }}>{analysis.timeframe}: </Text>
+              {describeTimeframe(analysis)}
+            </Text>
+          ))
+        ) : (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('none')}</Text>
+        )}
+
+        {item.outcome === 'PENDING' && (
+          <View style={{ marginTop: 15 }}>
+            <TextInput
+              label={t('exitPrice')}
+              value={exitPrice}
+              onChangeText={setExitPrice}
+              keyboardType="decimal-pad"
+            />
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: 5 }}>
+              <Button
+                mode="contained"
+                disabled={!exitPrice.trim()}
+                onPress={() => run(() => updateSignalOutcome(item.id, closeSignalManually(item, parseFloat(exitPrice))))}
+              >
+                {t('closeManually')}
+              </Button>
+              <Button onPress={() => run(() => updateSignalOutcome(item.id, cancelSignal(item)))}>{t('cancelSignal')}</Button>
+            </View>
+          </View>
+        )}
+        <Button textColor="red" style={{ marginTop: 10 }} onPress={confirmDelete}>{t('delete')}</Button>
+      </ScrollView>
+
+      <Button onPress={onClose}>{t('close')}</Button>
+    </View>
+  );
+}
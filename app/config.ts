@@ -8,8 +8,15 @@
 import {
   MAX_SIGNALS_TO_STORE,
   FAILURE_THRESHOLD,
+  CIRCUIT_MIN_CALLS,
+  FAILURE_RATE_THRESHOLD,
+  CIRCUIT_WINDOW_SIZE,
+  SLOW_CALL_MS,
   OPEN_TIMEOUT_MS,
-  BINANCE_BASE_URL
+  BINANCE_BASE_URL,
+  KRAKEN_BASE_URL,
+  BINANCE_WS_URL,
+  HOLD_EXPIRY_MS
 } from '@env';
 
 export const config = {
@@ -17,10 +24,22 @@ export const config = {
     maxSignalsToStore: parseInt(MAX_SIGNALS_TO_STORE, 10),
   },
   circuitBreaker: {
-    failureThreshold: parseInt(FAILURE_THRESHOLD, 10),
+    // The minimum number of calls in the window before the failure rate is judged.
+    // FAILURE_THRESHOLD (the old consecutive-failure count) is deprecated and only read as a fallback.
+    minCalls: parseInt(CIRCUIT_MIN_CALLS ?? FAILURE_THRESHOLD ?? '5', 10),
+    failureRateThreshold: parseInt(FAILURE_RATE_THRESHOLD ?? '50', 10) / 100,
+    windowSize: parseInt(CIRCUIT_WINDOW_SIZE ?? '20', 10),
+    windowMs: 10 * 60 * 1000,
+    slowCallMs: parseInt(SLOW_CALL_MS ?? '15000', 10),
+    slowCallRateThreshold: 0.8,
     openTimeoutMs: parseInt(OPEN_TIMEOUT_MS, 10),
   },
+  outcomes: {
+    holdExpiryMs: parseInt(HOLD_EXPIRY_MS ?? '86400000', 10),
+  },
   api: {
     binanceBaseUrl: BINANCE_BASE_URL,
+    binanceWsUrl: BINANCE_WS_URL ?? 'wss://stream.binance.com:9443',
+    krakenBaseUrl: KRAKEN_BASE_URL ?? 'https://api.kraken.com/0/public',
   },
 };
@@ -0,0 +1,72 @@
+/**
+ * @file A React hook that streams the live price of a symbol.
+ */
+import { useEffect, useState } from 'react';
+import { MarketStream, startMarketStream, stopMarketStream, StreamStatus } from '../services/marketStreamService';
+
+/**
+ * The live ticker state.
+ * @interface LiveTicker
+ * @property {number | null} price - The latest traded price, or null before the first update.
+ * @property {number | null} updatedAt - The UNIX timestamp of the latest update.
+ * @property {StreamStatus | 'error'} status - The connection status of the underlying stream, or 'error' if it could not be started.
+ * @property {string} [error] - Why the stream could not be started.
+ */
+export interface LiveTicker {
+  price: number | null;
+  updatedAt: number | null;
+  status: StreamStatus | 'error';
+  error?: string;
+}
+
+/**
+ * Streams the live price of a symbol while the component is mounted.
+ * The stream is started shortly after the symbol stops changing, so typing a symbol does not open a socket per keystroke.
+ * While the stream is warm, signal generation also reads its candle buffers instead of re-downloading candles.
+ * @param {string} symbol The trading symbol.
+ * @param {number} [sourceRevision=0] - Bump it when the symbol's market data source changes, to restart the stream from the new source.
+ * @param {number} [debounceMs=800] - How long the symbol must be stable before streaming starts.
+ * @returns {LiveTicker} The live ticker state.
+ */
+export function useLiveTicker(symbol: string, sourceRevision = 0, debounceMs = 800): LiveTicker {
+  const [ticker, setTicker] = useState<LiveTicker>({ price: null, updatedAt: null, status: 'idle' });
+
+  useEffect(() => {
+    if (!symbol) return;
+    let cancelled = false;
+    let unsubscribe = () => {};
+    setTicker({ price: null, updatedAt: null, status: 'idle' });
+
+    const timer = setTimeout(async () => {
+      let stream: MarketStream;
+      try {
+        stream = await startMarketStream(symbol);
+      } catch (err) {
+        console.warn(`Live ticker failed to start for ${symbol}`, err);
+        if (!cancelled) setTicker((t) => ({ ...t, status: 'error', error: (err as Error).message }));
+        return;
+      }
+      if (cancelled) {
+        stopMarketStream(symbol);
+        return;
+      }
+      setTicker((t) => ({ ...t, status: stream.getStatus() }));
+      unsubscribe = stream.subscribe((event) => {
+        if (event.type === 'status' && event.status) {
+          setTicker((t) => ({ ...t, status: event.status! }));
+        } else if (event.type === 'tick' && event.candle) {
+          setTicker((t) => ({ ...t, price: event.candle!.close, updatedAt: Date.now() }));
+        }
+      });
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+      stopMarketStream(symbol);
+    };
+  }, [symbol, sourceRevision, debounceMs]);
+
+  return ticker;
+}
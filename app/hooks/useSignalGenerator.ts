@@ -4,6 +4,8 @@
 import { useEffect } from 'react';
 import { ProviderSpec } from '../utils/providerStore';
 import { ProviderHealth } from '../utils/providerHealthStore';
+import { ProviderPerformance } from '../services/providerPerformanceService';
+import { ProviderUsage } from '../utils/providerUsageStore';
 import { useSignalStore } from '../store/useSignalStore';
 
 /**
@@ -11,10 +13,16 @@ import { useSignalStore } from '../store/useSignalStore';
  * @interface ProviderWithHealth
  * @property {ProviderSpec} spec - The provider's specification.
  * @property {ProviderHealth} health - The provider's health status.
+ * @property {ProviderPerformance} [performance] - The provider's track record across all symbols, once it has one.
+ * @property {string[]} [missingPlaceholders] - Placeholders in the spec without a stored value.
+ * @property {ProviderUsage} [usage] - The provider's requests, tokens and cost today and in total.
  */
 export interface ProviderWithHealth {
   spec: ProviderSpec;
   health: ProviderHealth;
+  performance?: ProviderPerformance;
+  missingPlaceholders?: string[];
+  usage?: ProviderUsage;
 }
 
 /**
@@ -31,13 +39,31 @@ export function useSignalGenerator() {
     lastSignal,
     lastResponses,
     providersWithHealth,
+    resolvingOutcomes,
+    streamingText,
     generate,
     refreshProviders,
+    resolveOutcomes,
   } = useSignalStore();
 
   useEffect(() => {
     refreshProviders();
   }, [refreshProviders]);
 
-  return { loading, lastSignal, lastResponses, generate, providersWithHealth, refreshProviders };
+  // Close any pending playbook signals whose targets were hit while the app was away.
+  useEffect(() => {
+    resolveOutcomes().catch((err) => console.warn('resolveOutcomes error', err));
+  }, [resolveOutcomes]);
+
+  return {
+    loading,
+    lastSignal,
+    lastResponses,
+    generate,
+    providersWithHealth,
+    refreshProviders,
+    resolvingOutcomes,
+    resolveOutcomes,
+    streamingText,
+  };
 }
@@ -6,6 +6,9 @@
  */
 
 import { z } from 'zod';
+import { parseResponsePath } from './services/responseExtraction';
+import { checkJsonTemplate } from './services/templateEngine';
+import { MAX_PBKDF2_ITERATIONS } from './services/secretCipher';
 
 /**
  * @name ProviderSpecSchema
@@ -13,30 +16,73 @@ import { z } from 'zod';
  * Ensures that provider specs are well-formed before they are saved.
  * @property {string} id - A unique identifier for the provider.
  * @property {string} [name] - The name of the provider.
- * @property {string} endpoint - The URL of the provider's API endpoint.
+ * @property {string} endpoint - The URL of the provider's API endpoint. May contain placeholders.
  * @property {string} [model] - The model to use for the provider.
  * @property {Record<string, string>} [headers] - Headers to include in the request.
- * @property {string} [requestTemplate] - A JSON string template for the request body.
+ * @property {string} [requestTemplate] - A template for the request body that must render to valid JSON.
  * @property {number} [timeoutMs] - The timeout for the request in milliseconds.
  * @property {number} [maxRetries] - The maximum number of times to retry a failed request.
+ * @property {boolean} [stream] - Whether to stream the response.
+ * @property {'auto' | 'openai' | 'anthropic' | 'ollama'} [streamFormat] - The wire format of the stream.
+ * @property {string} [responsePath] - A JSONPath-like path to the signal in the response body.
+ * @property {'text' | 'json'} [responseMode] - How to interpret the value at `responsePath`.
+ * @property {boolean} [enabled] - Whether the provider takes part in signal generation.
+ * @property {string} [embeddingPath] - A JSONPath-like path to the embedding in the response body of an embedding provider.
+ * @property {number} [requestsPerMinute] - The most requests per minute.
+ * @property {number} [dailyRequestLimit] - The most requests per day.
+ * @property {number} [dailyTokenLimit] - The most tokens per day.
+ * @property {number} [inputTokenPrice] - The price of a million input tokens, in USD.
+ * @property {number} [outputTokenPrice] - The price of a million output tokens, in USD.
  */
 export const ProviderSpecSchema = z.object({
   id: z.string().min(1, { message: "ID is required" }),
   name: z.string().optional(),
-  endpoint: z.string().url({ message: "Invalid URL format" }),
-  model: z.string().optional(),
-  headers: z.record(z.string()).optional(),
-  requestTemplate: z.string().optional().refine((val) => {
-    if (!val) return true; // Optional field is valid if empty
+  // Placeholders such as https://{{RESOURCE}}.openai.azure.com are filled in at call time.
+  endpoint: z.string().refine((val) => {
     try {
-      JSON.parse(val);
-      return true;
+      const url = new URL(val.replace(/\{\{.+?\}\}/g, 'placeholder'));
+      return url.protocol === 'http:' || url.protocol === 'https:';
     } catch {
       return false;
     }
-  }, { message: "Request template must be a valid JSON string" }),
+  }, { message: "Invalid URL format" }),
+  model: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  // Templates are checked by rendering them with awkward sample values, since placeholders may sit outside strings.
+  requestTemplate: z.string().optional().superRefine((val, ctx) => {
+    if (!val) return; // Optional field is valid if empty
+    const problem = checkJsonTemplate(val);
+    if (problem) ctx.addIssue({ code: 'custom', message: `Request template must render to valid JSON (${problem})` });
+  }),
   timeoutMs: z.number().int().positive().optional(),
   maxRetries: z.number().int().min(0).optional(),
+  stream: z.boolean().optional(),
+  streamFormat: z.enum(['auto', 'openai', 'anthropic', 'ollama']).optional(),
+  responsePath: z.string().optional().refine((val) => {
+    if (!val) return true;
+    try {
+      parseResponsePath(val);
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: "Response path must look like $.content[0].text" }),
+  responseMode: z.enum(['text', 'json']).optional(),
+  enabled: z.boolean().optional(),
+  embeddingPath: z.string().optional().refine((val) => {
+    if (!val) return true;
+    try {
+      parseResponsePath(val);
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: "Embedding path must look like $.data[0].embedding" }),
+  requestsPerMinute: z.number().int().positive().optional(),
+  dailyRequestLimit: z.number().int().positive().optional(),
+  dailyTokenLimit: z.number().int().positive().optional(),
+  inputTokenPrice: z.number().min(0).optional(),
+  outputTokenPrice: z.number().min(0).optional(),
 });
 
 /**
@@ -58,3 +104,127 @@ export const ParsedSignalSchema = z.object({
   takeProfit: z.number().positive(),
   reasoning: z.string().optional(),
 }).partial();
+
+/**
+ * @name EncryptedPayloadSchema
+ * @description Zod schema for a passphrase-encrypted payload, see `secretCipher`.
+ */
+export const EncryptedPayloadSchema = z.object({
+  cipher: z.literal('pbkdf2-sha256+hmac-ctr'),
+  iterations: z.number().int().positive().max(MAX_PBKDF2_ITERATIONS),
+  salt: z.string(),
+  iv: z.string(),
+  data: z.string(),
+  mac: z.string(),
+});
+
+/**
+ * @name ProviderBundleSchema
+ * @description Zod schema for the envelope of a provider export bundle. The entries themselves
+ * are validated one by one with `ProviderSpecSchema` so a single bad entry does not reject the file.
+ * @property {'signals-generator/providers'} format - Identifies the file as a provider bundle.
+ * @property {number} version - The bundle format version.
+ * @property {string} [exportedAt] - When the bundle was exported, as an ISO timestamp.
+ * @property {unknown[]} providers - The provider specs.
+ * @property {object} [secrets] - The providers' secrets, encrypted with a passphrase.
+ */
+export const ProviderBundleSchema = z.object({
+  format: z.literal('signals-generator/providers', { message: "Not a provider bundle" }),
+  version: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  providers: z.array(z.unknown()),
+  secrets: EncryptedPayloadSchema.optional(),
+});
+
+const SignalTypeSchema = z.enum(['BUY', 'SELL', 'HOLD']);
+
+/**
+ * @name SignalHistorySchema
+ * @description Zod schema for a playbook entry, used to validate imported signal histories.
+ * Mirrors `SignalHistory`; the indicator snapshot is kept as-is since its shape varies.
+ * @property {string} id - The ID of the history record.
+ * @property {object} signal - The trading signal, with its risk metrics.
+ * @property {'WIN' | 'LOSS' | 'PENDING' | 'CANCELLED'} outcome - The outcome of the trade.
+ * @property {number} entryPrice - The entry price.
+ * @property {number} [closedAt] - When the trade was closed; the latest close wins when merging.
+ * @property {string} [origin] - The label of the playbook export the entry came from.
+ */
+export const SignalHistorySchema = z.object({
+  id: z.string().min(1, { message: "ID is required" }),
+  signal: z.object({
+    id: z.string().min(1),
+    symbol: z.string().min(1),
+    type: SignalTypeSchema,
+    confidence: z.number().min(0).max(100),
+    price: z.number().positive(),
+    timestamp: z.number().int().nonnegative(),
+    strategy: z.string().optional(),
+    indicators: z.record(z.string(), z.any()).optional(),
+    riskMetrics: z.object({
+      stopLoss: z.number(),
+      takeProfit: z.number(),
+      riskRewardRatio: z.number(),
+      positionSizePercent: z.number(),
+      maxDrawdownPercent: z.number().optional(),
+    }),
+    exchange: z.string().optional(),
+    status: z.enum(['NEW', 'PENDING', 'CLOSED', 'CANCELLED']).optional(),
+    reasoning: z.string().optional(),
+    consensus: z.object({
+      strategy: z.string(),
+      disagreement: z.number(),
+      priceDispersion: z.number(),
+      dissenters: z.array(z.string()),
+      votes: z.object({ BUY: z.number(), SELL: z.number(), HOLD: z.number() }),
+    }).optional(),
+    promptVersion: z.number().int().optional(),
+    cost: z.object({
+      inputTokens: z.number(),
+      outputTokens: z.number(),
+      cost: z.number(),
+      estimated: z.boolean(),
+      byProvider: z.record(z.string(), z.number()),
+    }).optional(),
+  }),
+  outcome: z.enum(['WIN', 'LOSS', 'PENDING', 'CANCELLED']),
+  entryPrice: z.number().positive(),
+  exitPrice: z.number().positive().optional(),
+  pnl: z.number().optional(),
+  pnlPercent: z.number().optional(),
+  durationMs: z.number().nonnegative().optional(),
+  closedAt: z.number().int().nonnegative().optional(),
+  hitTarget: z.enum(['TP', 'SL', 'MANUAL']).nullable().optional(),
+  providerSignals: z.array(z.object({
+    providerId: z.string(),
+    type: SignalTypeSchema,
+    confidence: z.number().optional(),
+    price: z.number().optional(),
+    stopLoss: z.number().optional(),
+    takeProfit: z.number().optional(),
+    reasoning: z.string().optional(),
+  })).optional(),
+  embedding: z.object({
+    providerId: z.string(),
+    model: z.string().optional(),
+    vector: z.array(z.number()),
+  }).optional(),
+  origin: z.string().min(1).optional(),
+});
+
+/**
+ * @name PlaybookBundleSchema
+ * @description Zod schema for the envelope of a playbook export. The entries are validated one by one
+ * with `SignalHistorySchema` so a single bad entry does not reject the file.
+ * @property {'signals-generator/playbook'} format - Identifies the file as a playbook export.
+ * @property {number} version - The bundle format version.
+ * @property {string} [exportedAt] - When the playbook was exported, as an ISO timestamp.
+ * @property {string} [origin] - Who or what exported it; tags the imported signals.
+ * @property {unknown[]} signals - The signal histories.
+ */
+export const PlaybookBundleSchema = z.object({
+  format: z.literal('signals-generator/playbook', { message: "Not a playbook export" }),
+  version: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  origin: z.string().optional(),
+  signals: z.array(z.unknown()),
+});
@@ -0,0 +1,150 @@
+// app/screens/AnalyticsScreen.tsx
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView } from 'react-native';
+import { Button, Text } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import { BreakdownDimension, PlaybookAnalytics, getPlaybookAnalytics } from '../services/analyticsService';
+import { OriginFilter } from '../services/playbookService';
+
+interface AnalyticsScreenProps {
+  onClose: () => void;
+}
+
+const DIMENSIONS: BreakdownDimension[] = ['symbol', 'type', 'strategy', 'confidence', 'hour'];
+
+const ORIGINS: { key: OriginFilter; label: string }[] = [
+  { key: 'all', label: 'allOrigins' },
+  { key: 'local', label: 'originLocal' },
+  { key: 'imported', label: 'originImported' },
+];
+
+/** The most points drawn in the equity curve; longer curves are sampled evenly. */
+const MAX_CURVE_BARS = 60;
+
+const fmt = (value: number, digits = 2) => (Number.isFinite(value) ? value.toFixed(digits) : '∞');
+
+/**
+ * Formats a duration in hours, or days once it is longer than two days.
+ * @param {number} ms The duration.
+ * @returns {string} The formatted duration.
+ */
+const formatHold = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  return hours > 48 ? `${fmt(hours / 24, 1)}d` : `${fmt(hours, 1)}h`;
+};
+
+/**
+ * Draws an equity curve as a row of bars, scaled between its lowest and highest values.
+ * @param {object} props - The component's props.
+ * @param {number[]} props.values - The equity values, in chronological order.
+ * @param {number} props.initial - The starting equity; bars below it are red.
+ * @returns {JSX.Element} The rendered component.
+ */
+function EquityBars({ values, initial }: { values: number[]; initial: number }) {
+  const step = Math.max(1, Math.ceil(values.length / MAX_CURVE_BARS));
+  const sampled = values.filter((_, i) => i % step === 0 || i === values.length - 1);
+  const min = Math.min(...sampled);
+  const range = Math.max(...sampled) - min || 1;
+  return (
+    <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: 80, marginVertical: 8 }}>
+      {sampled.map((value, i) => (
+        <View
+          key={i}
+          style={{
+            flex: 1,
+            marginHorizontal: 0.5,
+            height: `${10 + ((value - min) / range) * 90}%`,
+            backgroundColor: value >= initial ? '#4caf50' : '#f44336',
+          }}
+        />
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Shows performance analytics over the playbook: headline statistics, the equity curve and
+ * results broken down by symbol, signal type, strategy, confidence and hour of day.
+ * @param {AnalyticsScreenProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function AnalyticsScreen({ onClose }: AnalyticsScreenProps) {
+  const { t } = useTranslation();
+  const [analytics, setAnalytics] = useState<PlaybookAnalytics | null>(null);
+  const [dimension, setDimension] = useState<BreakdownDimension>('symbol');
+  const [origin, setOrigin] = useState<OriginFilter>('all');
+
+  useEffect(() => {
+    getPlaybookAnalytics({ origin }).then(setAnalytics);
+  }, [origin]);
+
+  if (!analytics) return null;
+  const a = analytics;
+  const stats: [string, string][] = [
+    [t('statTrades'), t('statTradesValue', { wins: a.wins, losses: a.losses, pending: a.pending, cancelled: a.cancelled })],
+    [t('statWinRate'), `${fmt(a.winRate, 1)}%`],
+    [t('statReturn'), `${fmt(a.totalReturnPercent)}%`],
+    [t('statMaxDrawdown'), `${fmt(a.maxDrawdownPercent)}%`],
+    [t('statSharpeSortino'), `${fmt(a.sharpe)} / ${fmt(a.sortino)}`],
+    [t('statProfitFactor'), fmt(a.profitFactor)],
+    [t('statExpectancy'), `${fmt(a.expectancyPercent)}%`],
+    [t('statAvgWinLoss'), `${fmt(a.avgWinPercent)}% / ${fmt(a.avgLossPercent)}%`],
+    [t('statAvgHold'), formatHold(a.avgHoldMs)],
+    [t('statStreaks'), t('statStreaksValue', { win: a.streaks.longestWin, loss: a.streaks.longestLoss, current: a.streaks.current })],
+  ];
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Text variant="headlineMedium" style={{ marginBottom: 10 }}>{t('analytics')}</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: 5 }}>
+        {ORIGINS.map((o) => (
+          <Button key={o.key} compact mode={o.key === origin ? 'contained' : 'text'} onPress={() => setOrigin(o.key)}>
+            {t(o.label)}
+          </Button>
+        ))}
+      </View>
+
+      <ScrollView style={{ flex: 1 }}>
+        {stats.map(([label, value]) => (
+          <View key={label} style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 2 }}>
+            <Text variant="bodyMedium" style={{ color: '#666' }}>{label}</Text>
+            <Text variant="bodyMedium">{value}</Text>
+          </View>
+        ))}
+
+        <Text variant="titleMedium" style={{ marginTop: 15 }}>{t('equityCurve')}</Text>
+        {a.equityCurve.length > 1 ? (
+          <EquityBars values={a.equityCurve.map((p) => p.equity)} initial={a.equityCurve[0].equity} />
+        ) : (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('noClosedTrades')}</Text>
+        )}
+
+        <Text variant="titleMedium" style={{ marginTop: 15 }}>{t('breakdown')}</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+          {DIMENSIONS.map((d) => (
+            <Button key={d} compact mode={d === dimension ? 'contained' : 'text'} onPress={() => setDimension(d)}>
+              {t(`breakdownBy.${d}`)}
+            </Button>
+          ))}
+        </View>
+        {a.breakdowns[dimension].map((row) => (
+          <View key={row.key} style={{ paddingVertical: 4, borderBottomColor: '#eee', borderBottomWidth: 1 }}>
+            <Text variant="bodyMedium" style={{ fontWeight: 'bold' }}>{row.key}</Text>
+            <Text variant="bodySmall" style={{ color: '#666' }}>
+              {t('breakdownRow', {
+                total: row.total,
+                wins: row.wins,
+                losses: row.losses,
+                winRate: fmt(row.winRate, 1),
+                avgPnl: fmt(row.avgPnlPercent),
+                totalPnl: fmt(row.totalPnlPercent),
+              })}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <Button onPress={onClose}>{t('close')}</Button>
+    </View>
+  );
+}
@@ -0,0 +1,153 @@
+// app/screens/PromptTemplatesScreen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, ScrollView, Alert } from 'react-native';
+import { Button, Text, TextInput } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import { PROMPT_VARIABLES, PromptTemplateSettings, checkPromptTemplate } from '../services/promptTemplates';
+import { PromptVersionStats, getPromptVersionStats } from '../services/playbookService';
+import {
+  deletePromptTemplateVersion,
+  getPromptTemplates,
+  savePromptTemplateVersion,
+  setActivePromptVersion,
+  setPromptSplit,
+} from '../utils/promptTemplateStore';
+
+interface PromptTemplatesScreenProps {
+  onClose: () => void;
+}
+
+/**
+ * Lets the user write new versions of the signal prompt, choose the active version, run an
+ * A/B split between two versions and compare the win rate of each version.
+ * @param {PromptTemplatesScreenProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function PromptTemplatesScreen({ onClose }: PromptTemplatesScreenProps) {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<PromptTemplateSettings | null>(null);
+  const [stats, setStats] = useState<PromptVersionStats[]>([]);
+  const [body, setBody] = useState('');
+  const [label, setLabel] = useState('');
+  const [sharePercent, setSharePercent] = useState('50');
+
+  const refresh = useCallback(async () => {
+    const [loaded, versionStats] = await Promise.all([getPromptTemplates(), getPromptVersionStats()]);
+    setSettings(loaded);
+    setStats(versionStats);
+    return loaded;
+  }, []);
+
+  useEffect(() => {
+    refresh().then((loaded) => {
+      setBody(loaded.versions.find((v) => v.version === loaded.activeVersion)?.body ?? '');
+    });
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert(t('failed'), error.message);
+    } finally {
+      refresh();
+    }
+  };
+
+  const save = (activate: boolean) =>
+    run(async () => {
+      const version = await savePromptTemplateVersion(body, { label, activate });
+      setLabel('');
+      Alert.alert(t('success'), t('promptVersionSaved', { version: version.version }));
+    });
+
+  const startSplit = (versionB: number) =>
+    run(async () => {
+      const share = parseFloat(sharePercent);
+      await setPromptSplit({ versionA: settings!.activeVersion, versionB, shareB: (Number.isFinite(share) ? share : 50) / 100 });
+    });
+
+  if (!settings) return null;
+  const { split } = settings;
+  const problem = body ? checkPromptTemplate(body) : null;
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Text variant="headlineMedium" style={{ marginBottom: 10 }}>{t('promptTemplates')}</Text>
+
+      <ScrollView style={{ flex: 1 }}>
+        {split ? (
+          <View style={{ padding: 10, backgroundColor: '#eef5ff', borderRadius: 5, marginBottom: 10 }}>
+            <Text>
+              {t('promptSplitRunning', { a: split.versionA, b: split.versionB, share: Math.round(split.shareB * 100) })}
+            </Text>
+            <Button compact onPress={() => run(() => setPromptSplit(null))}>{t('stopSplit')}</Button>
+          </View>
+        ) : (
+          <TextInput
+            style={{ marginBottom: 10 }}
+            label={t('splitShare')}
+            value={sharePercent}
+            onChangeText={setSharePercent}
+            keyboardType="number-pad"
+          />
+        )}
+
+        {settings.versions.map((v) => {
+          const versionStats = stats.find((s) => s.version === v.version);
+          const active = v.version === settings.activeVersion;
+          const inSplit = !!split && (split.versionA === v.version || split.versionB === v.version);
+          return (
+            <View key={v.version} style={{ padding: 10, backgroundColor: '#fff', borderRadius: 5, marginBottom: 8, borderColor: active ? '#4caf50' : '#eee', borderWidth: 1 }}>
+              <Text variant="titleMedium">
+                v{v.version}{v.label ? ` · ${v.label}` : ''}{active ? ` · ${t('activeVersion')}` : ''}
+              </Text>
+              <Text variant="bodySmall" style={{ color: '#666' }}>
+                {versionStats
+                  ? t('promptVersionStats', {
+                      total: versionStats.total,
+                      winRate: versionStats.winRate,
+                      wins: versionStats.wins,
+                      losses: versionStats.losses,
+                      avgPnl: versionStats.avgPnl,
+                    })
+                  : t('noTrackRecord')}
+              </Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: 5 }}>
+                <Button compact onPress={() => setBody(v.body)}>{t('loadIntoEditor')}</Button>
+                {!active && (
+                  <Button compact onPress={() => run(() => setActivePromptVersion(v.version))}>{t('setActive')}</Button>
+                )}
+                {!active && !split && (
+                  <Button compact onPress={() => startSplit(v.version)}>{t('splitWithActive')}</Button>
+                )}
+                {!active && !inSplit && (
+                  <Button compact textColor="red" onPress={() => run(() => deletePromptTemplateVersion(v.version))}>
+                    {t('delete')}
+                  </Button>
+                )}
+              </View>
+            </View>
+          );
+        })}
+
+        <Text variant="titleMedium" style={{ marginTop: 10 }}>{t('newPromptVersion')}</Text>
+        <Text variant="bodySmall" style={{ color: '#666', marginBottom: 5 }}>
+          {t('promptVariables', {
+            names: PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(', '),
+            section: '{{#if extraContext}}...{{/if}}',
+          })}
+        </Text>
+        <TextInput style={{ marginBottom: 5 }} label={t('promptVersionLabel')} value={label} onChangeText={setLabel} />
+        <TextInput value={body} onChangeText={setBody} multiline autoCapitalize="none" style={{ minHeight: 200 }} />
+        {problem && <Text variant="bodySmall" style={{ color: 'red' }}>{problem}</Text>}
+        <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 5 }}>
+          <Button disabled={!!problem || !body} onPress={() => save(false)}>{t('saveVersion')}</Button>
+          <Button mode="contained" disabled={!!problem || !body} onPress={() => save(true)}>{t('saveAndActivate')}</Button>
+        </View>
+      </ScrollView>
+
+      <Button onPress={onClose}>{t('close')}</Button>
+    </View>
+  );
+}
@@ -0,0 +1,126 @@
+// app/screens/ProviderDashboardScreen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, ScrollView } from 'react-native';
+import { Button, Text } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import CircuitStatusDot, { getStatusColor } from '../components/CircuitStatusDot';
+import { useSignalStore } from '../store/useSignalStore';
+import { ProviderMetricsSummary, getProviderMetricsSummaries } from '../services/providerMetricsService';
+
+interface ProviderDashboardScreenProps {
+  onClose: () => void;
+}
+
+/** The periods the dashboard can show, in milliseconds. */
+const RANGES: { key: string; ms: number }[] = [
+  { key: '1h', ms: 60 * 60 * 1000 },
+  { key: '24h', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const time = (at: number) => new Date(at).toLocaleString();
+
+/**
+ * Shows each provider's success rate, latency percentiles, schema-failure rate, circuit state
+ * over time and latest errors, from the calls recorded by the adapters.
+ * @param {ProviderDashboardScreenProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function ProviderDashboardScreen({ onClose }: ProviderDashboardScreenProps) {
+  const { t } = useTranslation();
+  const providersWithHealth = useSignalStore((state) => state.providersWithHealth);
+  const refreshProviders = useSignalStore((state) => state.refreshProviders);
+  const [range, setRange] = useState(RANGES[1]);
+  const [summaries, setSummaries] = useState<ProviderMetricsSummary[]>([]);
+
+  const load = useCallback(async () => {
+    await refreshProviders();
+    const ids = useSignalStore.getState().providersWithHealth.map((p) => p.spec.id);
+    setSummaries(await getProviderMetricsSummaries(ids, Date.now() - range.ms));
+  }, [range, refreshProviders]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const renderSummary = (summary: ProviderMetricsSummary) => {
+    const provider = providersWithHealth.find((p) => p.spec.id === summary.providerId);
+    if (!provider) return null;
+    const span = summary.timeline.reduce((total, s) => total + (s.end - s.start), 0) || 1;
+    return (
+      <View key={summary.providerId} style={{ padding: 10, backgroundColor: '#fff', borderRadius: 5, marginBottom: 8, borderColor: '#eee', borderWidth: 1 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <CircuitStatusDot state={provider.health.state} />
+          <Text variant="titleMedium">{provider.spec.name || provider.spec.id}</Text>
+        </View>
+
+        {summary.calls === 0 ? (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('noCallsInRange')}</Text>
+        ) : (
+          <>
+            <Text variant="bodySmall">
+              {t('dashboardRates', {
+                calls: summary.calls,
+                success: percent(summary.successRate),
+                schema: percent(summary.schemaFailureRate),
+              })}
+            </Text>
+            <Text variant="bodySmall">{t('dashboardLatency', { p50: summary.p50LatencyMs, p95: summary.p95LatencyMs })}</Text>
+            <Text variant="bodySmall" style={{ color: '#666' }}>
+              {Object.entries(summary.outcomes).map(([outcome, n]) => `${outcome} ${n}`).join(' · ')}
+            </Text>
+          </>
+        )}
+
+        {/* Time spent in each circuit state over the period, left to right. */}
+        <View style={{ flexDirection: 'row', height: 8, borderRadius: 4, overflow: 'hidden', marginVertical: 6 }}>
+          {summary.timeline.map((segment) => (
+            <View key={segment.start} style={{ flex: (segment.end - segment.start) / span, backgroundColor: getStatusColor(segment.state) }} />
+          ))}
+        </View>
+        {summary.transitions.slice(-3).reverse().map((transition) => (
+          <Text key={transition.at} variant="bodySmall" style={{ color: '#666' }}>
+            {time(transition.at)}: {transition.from} → {transition.to}{transition.reason ? ` (${transition.reason})` : ''}
+          </Text>
+        ))}
+
+        {summary.recentErrors.length > 0 && (
+          <>
+            <Text variant="labelMedium" style={{ marginTop: 6 }}>{t('recentErrors')}</Text>
+            {summary.recentErrors.map((error) => (
+              <Text key={error.at} variant="bodySmall" style={{ color: 'red' }}>
+                {time(error.at)} · {error.outcome}: {error.error}
+              </Text>
+            ))}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Text variant="headlineMedium" style={{ marginBottom: 10 }}>{t('providerDashboard')}</Text>
+
+      <View style={{ flexDirection: 'row', marginBottom: 10 }}>
+        {RANGES.map((r) => (
+          <Button key={r.key} compact mode={r.key === range.key ? 'contained' : 'text'} onPress={() => setRange(r)}>
+            {r.key}
+          </Button>
+        ))}
+        <Button compact onPress={load}>{t('refresh')}</Button>
+      </View>
+
+      <ScrollView style={{ flex: 1 }}>
+        {summaries.length > 0 ? (
+          summaries.map(renderSummary)
+        ) : (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('none')}</Text>
+        )}
+      </ScrollView>
+
+      <Button onPress={onClose}>{t('close')}</Button>
+    </View>
+  );
+}
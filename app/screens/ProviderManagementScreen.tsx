@@ -0,0 +1,184 @@
+// app/screens/ProviderManagementScreen.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Modal, ScrollView, Alert } from 'react-native';
+import { Button, Text, TextInput, Switch } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import LLMConfigModal from '../components/LLMConfigModal';
+import ProviderDiagnosticsPanel from '../components/ProviderDiagnosticsPanel';
+import CircuitStatusDot from '../components/CircuitStatusDot';
+import { useSignalStore } from '../store/useSignalStore';
+import { ProviderWithHealth } from '../hooks/useSignalGenerator';
+import { ProviderSpec, removeProviderSpec, setProviderEnabled, storeProviderSecret } from '../utils/providerStore';
+import { discoverSpecPlaceholders } from '../services/placeholders';
+import { resetHealthStatus } from '../utils/providerHealthStore';
+import { formatUsd } from '../services/usageAccounting';
+
+interface ProviderManagementScreenProps {
+  onClose: () => void;
+}
+
+/**
+ * Lists the configured providers with their health and lets the user add, edit, enable or disable,
+ * rotate the key of, reset the circuit of, diagnose and delete each one.
+ * @param {ProviderManagementScreenProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function ProviderManagementScreen({ onClose }: ProviderManagementScreenProps) {
+  const { t } = useTranslation();
+  const providersWithHealth = useSignalStore((state) => state.providersWithHealth);
+  const refreshProviders = useSignalStore((state) => state.refreshProviders);
+  // null: closed; undefined spec: adding a new provider.
+  const [editing, setEditing] = useState<{ spec?: ProviderSpec } | null>(null);
+  const [diagnosing, setDiagnosing] = useState<ProviderSpec | null>(null);
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [newSecrets, setNewSecrets] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    refreshProviders();
+  }, [refreshProviders]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert(t('failed'), error.message);
+    } finally {
+      refreshProviders();
+    }
+  };
+
+  const confirmDelete = (spec: ProviderSpec) => {
+    Alert.alert(t('deleteProviderTitle'), t('deleteProviderMessage', { name: spec.name || spec.id }), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('delete'), style: 'destructive', onPress: () => run(() => removeProviderSpec(spec.id)) },
+    ]);
+  };
+
+  const saveSecrets = (spec: ProviderSpec) =>
+    run(async () => {
+      for (const [secretName, value] of Object.entries(newSecrets)) {
+        if (value) await storeProviderSecret(spec.id, secretName, value);
+      }
+      setRotatingId(null);
+      setNewSecrets({});
+      Alert.alert(t('success'), t('keyRotated', { name: spec.name || spec.id }));
+    });
+
+  const renderProvider = ({ spec, health, missingPlaceholders = [], usage }: ProviderWithHealth) => {
+    const enabled = spec.enabled !== false;
+    const secretNames = discoverSpecPlaceholders(spec).map((p) => p.name);
+    return (
+      <View key={spec.id} style={{ padding: 10, backgroundColor: '#fff', borderRadius: 5, marginBottom: 8, borderColor: '#eee', borderWidth: 1 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <CircuitStatusDot state={health.state} />
+          <View style={{ flex: 1 }}>
+            <Text variant="titleMedium" style={{ color: enabled ? undefined : '#999' }}>{spec.name || spec.id}</Text>
+            <Text variant="bodySmall" style={{ color: '#666' }}>
+              {spec.id} · {health.state} · {t('recentCalls', {
+                total: health.window?.length ?? 0,
+                failed: health.failureCount,
+                slow: health.window?.filter((r) => r.slow).length ?? 0,
+              })}
+            </Text>
+            {health.state !== 'CLOSED' && health.openReason && (
+              <Text variant="bodySmall" style={{ color: 'red' }}>
+                {t('circuitOpenReason', {
+                  reason: health.openReason,
+                  time: health.openUntil ? new Date(health.openUntil).toLocaleTimeString() : '—',
+                })}
+              </Text>
+            )}
+            {health.lastError && (
+              <Text variant="bodySmall" style={{ color: '#666' }}>
+                {t('lastError', { errorClass: health.lastError.errorClass, message: health.lastError.message })}
+              </Text>
+            )}
+            {usage && (
+              <Text variant="bodySmall" style={{ color: '#666' }}>
+                {t('providerUsage', {
+                  requests: spec.dailyRequestLimit ? `${usage.dailyRequests}/${spec.dailyRequestLimit}` : usage.dailyRequests,
+                  tokens: spec.dailyTokenLimit ? `${usage.dailyTokens}/${spec.dailyTokenLimit}` : usage.dailyTokens,
+                  cost: formatUsd(usage.dailyCost),
+                  total: formatUsd(usage.totalCost),
+                })}
+              </Text>
+            )}
+            {missingPlaceholders.length > 0 && (
+              <Text variant="bodySmall" style={{ color: '#b26a00' }}>
+                {t('missingPlaceholders', { names: missingPlaceholders.join(', ') })}
+              </Text>
+            )}
+          </View>
+          <Text variant="bodySmall" style={{ marginRight: 6 }}>{t('enabled')}</Text>
+          <Switch value={enabled} onValueChange={(value) => run(() => setProviderEnabled(spec.id, value))} />
+        </View>
+
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: 5 }}>
+          <Button compact onPress={() => setEditing({ spec })}>{t('edit')}</Button>
+          {secretNames.length > 0 && (
+            <Button compact onPress={() => { setRotatingId(rotatingId === spec.id ? null : spec.id); setNewSecrets({}); }}>
+              {t('rotateKey')}
+            </Button>
+          )}
+          <Button compact onPress={() => setDiagnosing(spec)}>{t('diagnose')}</Button>
+          {(health.state !== 'CLOSED' || health.failureCount > 0) && (
+            <Button compact onPress={() => run(() => resetHealthStatus(spec.id))}>{t('resetCircuit')}</Button>
+          )}
+          <Button compact textColor="red" onPress={() => confirmDelete(spec)}>{t('delete')}</Button>
+        </View>
+
+        {rotatingId === spec.id && (
+          <View style={{ marginTop: 5 }}>
+            {secretNames.map((secretName) => (
+              <TextInput
+                key={secretName}
+                style={{ marginBottom: 5 }}
+                label={t('newSecretValue', { name: secretName })}
+                value={newSecrets[secretName] ?? ''}
+                onChangeText={(value) => setNewSecrets({ ...newSecrets, [secretName]: value })}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            ))}
+            <Button mode="contained" disabled={!Object.values(newSecrets).some(Boolean)} onPress={() => saveSecrets(spec)}>
+              {t('saveKey')}
+            </Button>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Modal animationType="slide" visible={editing !== null} onRequestClose={() => setEditing(null)}>
+        {editing && (
+          <LLMConfigModal initialSpec={editing.spec} onClose={() => setEditing(null)} onSaveSuccess={refreshProviders} />
+        )}
+      </Modal>
+
+      <Modal animationType="slide" visible={diagnosing !== null} onRequestClose={() => setDiagnosing(null)}>
+        <ScrollView style={{ padding: 20 }}>
+          {diagnosing && <ProviderDiagnosticsPanel spec={diagnosing} onClose={() => setDiagnosing(null)} />}
+        </ScrollView>
+      </Modal>
+
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+        <Text variant="headlineMedium">{t('manageProviders')}</Text>
+        <Button mode="contained" onPress={() => setEditing({})}>
+          {t('addProvider')}
+        </Button>
+      </View>
+
+      <ScrollView style={{ flex: 1 }}>
+        {providersWithHealth.length > 0 ? (
+          providersWithHealth.map(renderProvider)
+        ) : (
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('none')}</Text>
+        )}
+      </ScrollView>
+
+      <Button onPress={onClose}>{t('close')}</Button>
+    </View>
+  );
+}
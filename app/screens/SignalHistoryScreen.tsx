@@ -0,0 +1,180 @@
+// app/screens/SignalHistoryScreen.tsx
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { View, FlatList, Modal, Pressable } from 'react-native';
+import { Button, Text, TextInput } from 'react-native-paper';
+import { useTranslation } from 'react-i18next';
+import SignalHistoryDetail from '../components/SignalHistoryDetail';
+import PlaybookBundleModal from '../components/PlaybookBundleModal';
+import { useSignalStore } from '../store/useSignalStore';
+import { SignalHistory, SignalType } from '../types';
+import { filterSignalHistory, getSignalStrategy, loadPlaybook } from '../services/playbookService';
+
+interface SignalHistoryScreenProps {
+  onClose: () => void;
+}
+
+const TYPES: SignalType[] = ['BUY', 'SELL', 'HOLD'];
+const OUTCOMES: SignalHistory['outcome'][] = ['PENDING', 'WIN', 'LOSS', 'CANCELLED'];
+
+/** The date ranges to filter by, as the age of the oldest signal shown. */
+const RANGES: { key: string; ms?: number }[] = [
+  { key: 'all' },
+  { key: '24h', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+  { key: '30d', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+/** Rows have a fixed height so the list can skip measuring them. */
+const ROW_HEIGHT = 56;
+
+const OUTCOME_COLORS: Record<SignalHistory['outcome'], string> = {
+  PENDING: '#666',
+  WIN: 'green',
+  LOSS: 'red',
+  CANCELLED: '#999',
+};
+
+/**
+ * A row of chips to pick one value or none.
+ * @param {object} props - The component's props.
+ * @param {string[]} props.values - The values to choose from.
+ * @param {string | undefined} props.selected - The chosen value, or undefined for all.
+ * @param {(value?: string) => void} props.onSelect - Called with the new choice.
+ * @param {string} props.allLabel - The label of the "all" chip.
+ * @returns {JSX.Element} The rendered component.
+ */
+function ChoiceRow({ values, selected, onSelect, allLabel }: {
+  values: string[];
+  selected?: string;
+  onSelect: (value?: string) => void;
+  allLabel: string;
+}) {
+  return (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+      <Button compact mode={selected === undefined ? 'contained' : 'text'} onPress={() => onSelect(undefined)}>{allLabel}</Button>
+      {values.map((value) => (
+        <Button key={value} compact mode={selected === value ? 'contained' : 'text'} onPress={() => onSelect(value)}>
+          {value}
+        </Button>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * A single signal in the history list. Memoized, since the list can hold the whole playbook.
+ */
+const HistoryRow = memo(function HistoryRow({ item, onPress }: { item: SignalHistory; onPress: (item: SignalHistory) => void }) {
+  return (
+    <Pressable
+      onPress={() => onPress(item)}
+      style={{ height: ROW_HEIGHT, justifyContent: 'center', paddingHorizontal: 10, borderBottomColor: '#eee', borderBottomWidth: 1 }}
+    >
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+        <Text variant="titleSmall">{item.signal.symbol} · {item.signal.type}</Text>
+        <Text variant="bodySmall" style={{ color: OUTCOME_COLORS[item.outcome] }}>
+          {item.outcome}
+          {typeof item.pnlPercent === 'number' ? ` ${item.pnlPercent.toFixed(2)}%` : ''}
+        </Text>
+      </View>
+      <Text variant="bodySmall" style={{ color: '#666' }} numberOfLines={1}>
+        {new Date(item.signal.timestamp).toLocaleString()} · {item.signal.confidence}% · {getSignalStrategy(item)}
+      </Text>
+    </Pressable>
+  );
+});
+
+/**
+ * Lists the signals in the playbook with filters, and opens a signal to see its details or to close, cancel or delete it.
+ * @param {SignalHistoryScreenProps} props - The component's props.
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function SignalHistoryScreen({ onClose }: SignalHistoryScreenProps) {
+  const { t } = useTranslation();
+  const refreshProviders = useSignalStore((state) => state.refreshProviders);
+  const [playbook, setPlaybook] = useState<SignalHistory[]>([]);
+  const [symbol, setSymbol] = useState('');
+  const [type, setType] = useState<SignalType>();
+  const [outcome, setOutcome] = useState<SignalHistory['outcome']>();
+  const [range, setRange] = useState(RANGES[0]);
+  const [strategy, setStrategy] = useState<string>();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  const load = useCallback(async () => {
+    setPlaybook(await loadPlaybook());
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const strategies = useMemo(() => [...new Set(playbook.map(getSignalStrategy).filter(Boolean))].sort(), [playbook]);
+  const filtered = useMemo(
+    () => filterSignalHistory(playbook, { symbol, type, outcome, strategy, from: range.ms ? Date.now() - range.ms : undefined }),
+    [playbook, symbol, type, outcome, strategy, range]
+  );
+  const selected = selectedId ? playbook.find((s) => s.id === selectedId) : undefined;
+
+  const openItem = useCallback((item: SignalHistory) => setSelectedId(item.id), []);
+  const renderItem = useCallback(({ item }: { item: SignalHistory }) => <HistoryRow item={item} onPress={openItem} />, [openItem]);
+  const getItemLayout = useCallback(
+    (_: unknown, index: number) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index }),
+    []
+  );
+
+  // Closing or deleting a signal changes the providers' track records too.
+  const onChanged = useCallback(() => {
+    load();
+    refreshProviders();
+  }, [load, refreshProviders]);
+
+  return (
+    <View style={{ flex: 1, padding: 20 }}>
+      <Text variant="headlineMedium" style={{ marginBottom: 10 }}>{t('signalHistory')}</Text>
+
+      <TextInput dense label={t('symbol')} value={symbol} onChangeText={setSymbol} autoCapitalize="characters" />
+      <ChoiceRow values={TYPES} selected={type} onSelect={(v) => setType(v as SignalType)} allLabel={t('allTypes')} />
+      <ChoiceRow values={OUTCOMES} selected={outcome} onSelect={(v) => setOutcome(v as SignalHistory['outcome'])} allLabel={t('allOutcomes')} />
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+        {RANGES.map((r) => (
+          <Button key={r.key} compact mode={r.key === range.key ? 'contained' : 'text'} onPress={() => setRange(r)}>
+            {r.ms ? r.key : t('allTime')}
+          </Button>
+        ))}
+      </View>
+      {strategies.length > 1 && (
+        <ChoiceRow values={strategies} selected={strategy} onSelect={setStrategy} allLabel={t('allStrategies')} />
+      )}
+
+      <Text variant="bodySmall" style={{ color: '#666', marginVertical: 5 }}>
+        {t('signalCount', { count: filtered.length, total: playbook.length })}
+      </Text>
+      <FlatList
+        style={{ flex: 1 }}
+        data={filtered}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        getItemLayout={getItemLayout}
+        initialNumToRender={15}
+        maxToRenderPerBatch={20}
+        windowSize={7}
+        removeClippedSubviews
+        ListEmptyComponent={
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('noMatchingSignals')}</Text>
+        }
+      />
+
+      <Button onPress={() => setSharing(true)}>{t('sharePlaybook')}</Button>
+      <Button onPress={onClose}>{t('close')}</Button>
+
+      <Modal animationType="slide" visible={sharing} onRequestClose={() => setSharing(false)}>
+        <PlaybookBundleModal onClose={() => setSharing(false)} onImportSuccess={onChanged} />
+      </Modal>
+
+      <Modal animationType="slide" visible={!!selected} onRequestClose={() => setSelectedId(null)}>
+        {selected && <SignalHistoryDetail item={selected} onChanged={onChanged} onClose={() => setSelectedId(null)} />}
+      </Modal>
+    </View>
+  );
+}
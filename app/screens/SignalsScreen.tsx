@@ -1,6 +1,6 @@
 // app/screens/SignalsScreen.tsx
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, Modal, FlatList } from 'react-native';
+import { View, StyleSheet, Modal, FlatList, Alert, ScrollView } from 'react-native';
 import {
   Provider as PaperProvider,
   Button,
@@ -9,30 +9,36 @@ import {
   ActivityIndicator,
 } from 'react-native-paper';
 import { useSignalGenerator } from '../hooks/useSignalGenerator';
+import { useLiveTicker } from '../hooks/useLiveTicker';
 import { globalErrorHandler } from '../services/errorHandler';
 import '../i18n';
 import { useTranslation } from 'react-i18next';
 import SignalCard from '../components/SignalCard';
 import LLMConfigModal from '../components/LLMConfigModal';
+import ProviderBundleModal from '../components/ProviderBundleModal';
+import ProviderDiagnosticsPanel from '../components/ProviderDiagnosticsPanel';
+import CircuitStatusDot from '../components/CircuitStatusDot';
+import ProviderManagementScreen from './ProviderManagementScreen';
+import PromptTemplatesScreen from './PromptTemplatesScreen';
+import ProviderDashboardScreen from './ProviderDashboardScreen';
+import SignalHistoryScreen from './SignalHistoryScreen';
+import AnalyticsScreen from './AnalyticsScreen';
+import MarketDataSourcePicker from '../components/MarketDataSourcePicker';
 import { TradingSignal } from '../types';
-import { CircuitState } from '../utils/providerHealthStore';
+import { ProviderSpec } from '../utils/providerStore';
+import { AggregationMode } from '../services/signalService';
+import { listAggregationStrategies } from '../services/aggregationStrategies';
+import { formatUsd } from '../services/usageAccounting';
+import { ProviderPerformance } from '../services/providerPerformanceService';
 
 /**
- * Returns a color based on the circuit state.
- * @param {CircuitState} state - The circuit state.
- * @returns {string} The color corresponding to the state.
+ * Formats a provider's track record as hits/calls, hit rate and average return.
+ * @param {ProviderPerformance} performance - The provider's track record.
+ * @returns {string} The formatted record.
  */
-const getStatusColor = (state: CircuitState) => {
-  switch (state) {
-    case 'CLOSED':
-      return 'green';
-    case 'HALF_OPEN':
-      return 'orange';
-    case 'OPEN':
-      return 'red';
-    default:
-      return 'grey';
-  }
+const formatRecord = (performance: ProviderPerformance) => {
+  const pnl = performance.avgPnlPercent;
+  return `${performance.hits}/${performance.calls} · ${Math.round(performance.hitRate * 100)}% · ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}%`;
 };
 
 /**
@@ -42,16 +48,53 @@ const getStatusColor = (state: CircuitState) => {
  */
 export default function SignalsScreen() {
   const { t, i18n } = useTranslation();
-  const { loading, lastSignal, lastResponses, generate, providersWithHealth, refreshProviders } = useSignalGenerator();
+  const {
+    loading,
+    lastSignal,
+    lastResponses,
+    generate,
+    providersWithHealth,
+    refreshProviders,
+    resolvingOutcomes,
+    resolveOutcomes,
+    streamingText,
+  } = useSignalGenerator();
   const [modalVisible, setModalVisible] = useState(false);
+  const [bundleModalVisible, setBundleModalVisible] = useState(false);
+  const [diagnosing, setDiagnosing] = useState<ProviderSpec | null>(null);
+  const [managing, setManaging] = useState(false);
   const [symbol, setSymbol] = useState('BTCUSDT');
+  const [aggregation, setAggregation] = useState<AggregationMode>('WEIGHTED');
+  const [extraContext, setExtraContext] = useState('');
+  const [editingPrompts, setEditingPrompts] = useState(false);
+  const [showingDashboard, setShowingDashboard] = useState(false);
+  const [showingHistory, setShowingHistory] = useState(false);
+  const [showingAnalytics, setShowingAnalytics] = useState(false);
+  const [sourceRevision, setSourceRevision] = useState(0);
+  const ticker = useLiveTicker(symbol, sourceRevision);
 
   useEffect(() => {
     ErrorUtils.setGlobalHandler(globalErrorHandler);
   }, []);
 
+  // Show the track records on the current symbol, as aggregation weighs them, once the symbol stops changing.
+  useEffect(() => {
+    if (!symbol.trim()) return;
+    const timer = setTimeout(() => refreshProviders(symbol.trim()), 800);
+    return () => clearTimeout(timer);
+  }, [symbol, refreshProviders]);
+
   const handleGenerate = () => {
-    generate(symbol);
+    generate(symbol, aggregation, { extraContext: extraContext.trim() || undefined });
+  };
+
+  const handleResolveOutcomes = async () => {
+    try {
+      const count = await resolveOutcomes();
+      Alert.alert(t('outcomesUpdated'), t('outcomesResolvedCount', { count }));
+    } catch (error) {
+      Alert.alert(t('failed'), error.message);
+    }
   };
 
   const onSaveSuccess = () => {
@@ -70,6 +113,64 @@ export default function SignalsScreen() {
         <LLMConfigModal onClose={() => setModalVisible(false)} onSaveSuccess={onSaveSuccess} />
       </Modal>
 
+      <Modal
+        animationType="slide"
+        visible={bundleModalVisible}
+        onRequestClose={() => setBundleModalVisible(false)}
+      >
+        <ProviderBundleModal onClose={() => setBundleModalVisible(false)} onImportSuccess={onSaveSuccess} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={managing}
+        onRequestClose={() => setManaging(false)}
+      >
+        <ProviderManagementScreen onClose={() => setManaging(false)} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={editingPrompts}
+        onRequestClose={() => setEditingPrompts(false)}
+      >
+        <PromptTemplatesScreen onClose={() => setEditingPrompts(false)} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={showingDashboard}
+        onRequestClose={() => setShowingDashboard(false)}
+      >
+        <ProviderDashboardScreen onClose={() => setShowingDashboard(false)} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={showingHistory}
+        onRequestClose={() => setShowingHistory(false)}
+      >
+        <SignalHistoryScreen onClose={() => setShowingHistory(false)} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={showingAnalytics}
+        onRequestClose={() => setShowingAnalytics(false)}
+      >
+        <AnalyticsScreen onClose={() => setShowingAnalytics(false)} />
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={diagnosing !== null}
+        onRequestClose={() => setDiagnosing(null)}
+      >
+        <ScrollView style={{ padding: 20 }}>
+          {diagnosing && <ProviderDiagnosticsPanel spec={diagnosing} onClose={() => setDiagnosing(null)} />}
+        </ScrollView>
+      </Modal>
+
       <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
         <Text variant="headlineMedium">{t('tradingSignals')}</Text>
         <Button mode="contained" onPress={() => setModalVisible(true)}>
@@ -78,6 +179,27 @@ export default function SignalsScreen() {
       </View>
 
       <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginBottom: 10 }}>
+        <Button onPress={() => setManaging(true)}>
+          {t('manageProviders')}
+        </Button>
+        <Button onPress={() => setBundleModalVisible(true)}>
+          {t('shareProviders')}
+        </Button>
+        <Button onPress={() => setEditingPrompts(true)}>
+          {t('promptTemplates')}
+        </Button>
+        <Button onPress={() => setShowingDashboard(true)}>
+          {t('providerDashboard')}
+        </Button>
+        <Button onPress={() => setShowingHistory(true)}>
+          {t('signalHistory')}
+        </Button>
+        <Button onPress={() => setShowingAnalytics(true)}>
+          {t('analytics')}
+        </Button>
+        <Button onPress={handleResolveOutcomes} loading={resolvingOutcomes} disabled={resolvingOutcomes}>
+          {t('checkOutcomes')}
+        </Button>
         <Button onPress={() => i18n.changeLanguage('en')}>EN</Button>
         <Button onPress={() => i18n.changeLanguage('ar')}>AR</Button>
       </View>
@@ -87,8 +209,23 @@ export default function SignalsScreen() {
         {providersWithHealth.length > 0 ? (
           providersWithHealth.map(p => (
             <View key={p.spec.id} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 5 }}>
-              <View style={{ width: 10, height: 10, borderRadius: 5, marginRight: 10, backgroundColor: getStatusColor(p.health.state) }} />
-              <Text>{p.spec.name || p.spec.id}</Text>
+              <CircuitStatusDot state={p.health.state} />
+              <Text style={{ color: p.spec.enabled === false ? '#999' : undefined }}>
+                {p.spec.name || p.spec.id}{p.spec.enabled === false ? ` (${t('disabled')})` : ''}
+              </Text>
+              <Text variant="bodySmall" style={{ color: '#666', marginLeft: 8 }}>
+                {p.performance
+                  ? `${formatRecord(p.performance)} · ${p.performance.symbol ? t('recordOnSymbol', { symbol: p.performance.symbol }) : t('recordAllSymbols')}`
+                  : t('noTrackRecord')}
+              </Text>
+              {p.missingPlaceholders && p.missingPlaceholders.length > 0 && (
+                <Text variant="bodySmall" style={{ color: '#b26a00', marginLeft: 8 }}>
+                  {t('missingPlaceholders', { names: p.missingPlaceholders.join(', ') })}
+                </Text>
+              )}
+              <Button compact style={{ marginLeft: 'auto' }} onPress={() => setDiagnosing(p.spec)}>
+                {t('diagnose')}
+              </Button>
             </View>
           ))
         ) : (
@@ -114,8 +251,53 @@ export default function SignalsScreen() {
         </Button>
       </View>
 
+      <TextInput
+        style={{ marginBottom: 20 }}
+        value={extraContext}
+        onChangeText={setExtraContext}
+        label={t('extraContext')}
+        multiline
+      />
+
+      <View style={{ marginBottom: 10 }}>
+        <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('aggregation')}</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+          {listAggregationStrategies().map((strategy) => (
+            <Button
+              key={strategy.id}
+              compact
+              mode={aggregation === strategy.id ? 'contained-tonal' : 'text'}
+              onPress={() => setAggregation(strategy.id)}
+            >
+              {t(`aggregationModes.${strategy.id}`, { defaultValue: strategy.name })}
+            </Button>
+          ))}
+        </View>
+      </View>
+
+      <MarketDataSourcePicker symbol={symbol} onChange={() => setSourceRevision((r) => r + 1)} />
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 10 }}>
+        <View style={{ width: 10, height: 10, borderRadius: 5, marginRight: 10, backgroundColor: ticker.status === 'open' ? 'green' : 'grey' }} />
+        <Text variant="titleMedium">
+          {ticker.price !== null ? `${symbol.toUpperCase()} ${ticker.price}` : t('liveStatus', { status: ticker.status })}
+        </Text>
+      </View>
+
       {loading && <ActivityIndicator animating={true} style={{ marginVertical: 20 }} />}
 
+      {loading && Object.keys(streamingText).length > 0 && (
+        <View style={{ marginBottom: 20 }}>
+          <Text variant="bodySmall" style={{ color: '#666', fontStyle: 'italic' }}>{t('streaming')}</Text>
+          {Object.entries(streamingText).map(([providerId, text]) => (
+            <Text key={providerId} variant="bodySmall" numberOfLines={3}>
+              <Text style={{ fontWeight: 'bold' }}>{providerId}: </Text>
+              {text.slice(-240)}
+            </Text>
+          ))}
+        </View>
+      )}
+
       {lastSignal && (
         <View style={{ flex: 1 }}>
           <Text variant="titleLarge">{t('lastSignal')}</Text>
@@ -132,6 +314,14 @@ export default function SignalsScreen() {
                 <Text style={{ fontWeight: 'bold' }}>{response.providerId}: </Text>
                 {response.ok ? `${t('success')} (${response.parsed?.type})` : `${t('failed')} (${response.error})`}
               </Text>
+              {response.usage && (
+                <Text variant="bodySmall" style={{ color: '#666' }}>
+                  {t(response.usage.estimated ? 'callUsageEstimated' : 'callUsage', {
+                    tokens: response.usage.inputTokens + response.usage.outputTokens,
+                    cost: formatUsd(response.cost ?? 0),
+                  })}
+                </Text>
+              )}
             </View>
           ))}
         </View>
@@ -0,0 +1,116 @@
+// app/services/__tests__/aggregationStrategies.test.ts
+import {
+  createQuorumStrategy,
+  getAggregationStrategy,
+  listAggregationStrategies,
+  measureDisagreement,
+  measurePriceDispersion,
+  registerAggregationStrategy,
+} from '../aggregationStrategies';
+import { aggregateSignals } from '../signalService';
+import { LLMResponseParsed, SignalType } from '../../types';
+
+const vote = (providerId: string, type: SignalType, confidence: number, price = 100, extra = {}): LLMResponseParsed => ({
+  providerId,
+  ok: true,
+  raw: {},
+  parsed: { type, confidence, price, stopLoss: price - 5, takeProfit: price + 10, reasoning: providerId, ...extra },
+});
+
+const aggregate = (mode: string, parsed: LLMResponseParsed[]) => aggregateSignals(parsed, mode)!;
+
+describe('aggregationStrategies', () => {
+  describe('disagreement metrics', () => {
+    it('should be 0 when unanimous and 1 for an even three-way split', () => {
+      expect(measureDisagreement([vote('a', 'BUY', 60), vote('b', 'BUY', 70)])).toBe(0);
+      expect(measureDisagreement([vote('a', 'BUY', 60), vote('b', 'SELL', 60), vote('c', 'HOLD', 60)])).toBeCloseTo(1);
+    });
+
+    it('should measure the price spread as a percentage of the mean', () => {
+      expect(measurePriceDispersion([vote('a', 'BUY', 60, 90), vote('b', 'BUY', 60, 110)])).toBeCloseTo(10);
+      expect(measurePriceDispersion([vote('a', 'BUY', 60)])).toBe(0);
+    });
+  });
+
+  it('should record the dissenters and vote counts on every result', () => {
+    const parsed = [vote('a', 'BUY', 80), vote('b', 'BUY', 70), vote('c', 'SELL', 60)];
+    listAggregationStrategies().forEach((strategy) => {
+      const result = aggregate(strategy.id, parsed);
+      expect(result.consensus!.strategy).toBe(strategy.id);
+      expect(result.consensus!.votes).toEqual({ BUY: 2, SELL: 1, HOLD: 0 });
+      expect(result.consensus!.dissenters).toEqual(parsed.filter((p) => p.parsed!.type !== result.type).map((p) => p.providerId));
+    });
+  });
+
+  it('should keep the original MAJORITY, WEIGHTED and FIRST behavior', () => {
+    const parsed = [vote('a', 'SELL', 40), vote('b', 'SELL', 40), vote('c', 'BUY', 95)];
+    expect(aggregate('MAJORITY', parsed).type).toBe('SELL');
+    expect(aggregate('WEIGHTED', parsed).type).toBe('BUY');
+    expect(aggregate('FIRST', parsed)).toMatchObject({ type: 'SELL', confidence: 40, price: 100 });
+  });
+
+  it('should take the winning group’s medians in MEDIAN mode', () => {
+    const parsed = [vote('a', 'BUY', 60, 100), vote('b', 'BUY', 70, 101), vote('c', 'BUY', 90, 150)];
+    expect(aggregate('MEDIAN', parsed)).toMatchObject({ type: 'BUY', price: 101, stopLoss: 96, takeProfit: 111, confidence: 70 });
+  });
+
+  describe('UNANIMOUS_VETO', () => {
+    it('should trade when every directional vote agrees, treating HOLD as an abstention', () => {
+      expect(aggregate('UNANIMOUS_VETO', [vote('a', 'BUY', 80), vote('b', 'HOLD', 90)]).type).toBe('BUY');
+    });
+
+    it('should fall back to HOLD when any provider takes the other side', () => {
+      const result = aggregate('UNANIMOUS_VETO', [vote('a', 'BUY', 90), vote('b', 'BUY', 90), vote('c', 'SELL', 30)]);
+      expect(result).toMatchObject({ type: 'HOLD', confidence: 0, price: 100, stopLoss: 0, takeProfit: 0 });
+      expect(result.reasoning).toContain('SELL: c');
+      expect(result.consensus!.dissenters).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('QUORUM', () => {
+    it('should ignore low-confidence votes and require a majority of all providers', () => {
+      const parsed = [vote('a', 'BUY', 80), vote('b', 'BUY', 50), vote('c', 'SELL', 70)];
+      const result = aggregate('QUORUM', parsed);
+      expect(result.type).toBe('HOLD');
+      expect(result.reasoning).toContain('1 of 3');
+
+      parsed[1].parsed!.confidence = 65;
+      expect(aggregate('QUORUM', parsed)).toMatchObject({ type: 'BUY', confidence: 73 });
+    });
+
+    it('should accept custom thresholds', () => {
+      const strategy = createQuorumStrategy({ minConfidence: 40, quorum: 0.3 });
+      expect(strategy.aggregate([vote('a', 'SELL', 45), vote('b', 'BUY', 30), vote('c', 'HOLD', 20)], { performance: {} }).type).toBe('SELL');
+    });
+  });
+
+  describe('BAYESIAN', () => {
+    it('should let one confident vote outweigh two hesitant ones', () => {
+      const parsed = [vote('a', 'SELL', 40), vote('b', 'SELL', 40), vote('c', 'BUY', 95)];
+      const result = aggregate('BAYESIAN', parsed);
+      expect(result.type).toBe('BUY');
+      expect(result.confidence).toBeGreaterThan(50);
+      expect(result.confidence).toBeLessThan(95);
+    });
+
+    it('should temper votes by track record', () => {
+      const parsed = [vote('veteran', 'SELL', 70), vote('rookie', 'BUY', 70)];
+      const performance = {
+        veteran: { providerId: 'veteran', calls: 40, hits: 30, hitRate: 0.75, avgPnlPercent: 1, brierScore: 0.2, weight: 0.7 },
+        rookie: { providerId: 'rookie', calls: 40, hits: 10, hitRate: 0.25, avgPnlPercent: -1, brierScore: 0.4, weight: 0.3 },
+      };
+      expect(aggregateSignals(parsed, 'BAYESIAN', performance)!.type).toBe('SELL');
+    });
+  });
+
+  it('should support custom strategies and reject unknown ones', () => {
+    registerAggregationStrategy({
+      id: 'ALWAYS_HOLD',
+      name: 'Always hold',
+      description: 'Never trades.',
+      aggregate: () => ({ type: 'HOLD', confidence: 100, price: 0, stopLoss: 0, takeProfit: 0, reasoning: '' }),
+    });
+    expect(aggregate('ALWAYS_HOLD', [vote('a', 'BUY', 99)]).type).toBe('HOLD');
+    expect(() => getAggregationStrategy('NOPE')).toThrow('Unknown aggregation strategy: NOPE');
+  });
+});
@@ -0,0 +1,99 @@
+// app/services/__tests__/analyticsService.test.ts
+import { computePlaybookAnalytics, confidenceBucket } from '../analyticsService';
+import { calculateProfitFactor, calculateSortinoRatio, calculateStreaks } from '../performanceMetrics';
+import { SignalHistory, SignalType } from '../../types';
+
+const T0 = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const makeHistory = (
+  id: string,
+  symbol: string,
+  type: SignalType,
+  outcome: SignalHistory['outcome'],
+  confidence: number,
+  timestamp: number,
+  close?: { pnlPercent: number; durationMs: number },
+  strategy = 'WEIGHTED'
+): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome,
+  ...(close ? { ...close, closedAt: timestamp + close.durationMs } : {}),
+  signal: {
+    id,
+    symbol,
+    type,
+    confidence,
+    price: 100,
+    timestamp,
+    riskMetrics: { stopLoss: 95, takeProfit: 110, riskRewardRatio: 2, positionSizePercent: 50 },
+    consensus: { strategy, disagreement: 0, priceDispersion: 0, dissenters: [], votes: { BUY: 1, SELL: 0, HOLD: 0 } },
+  },
+});
+
+// Closed in the order a, b, c, d: two wins, then two losses.
+const PLAYBOOK: SignalHistory[] = [
+  makeHistory('d', 'ETHUSDT', 'BUY', 'LOSS', 40, T0 + DAY + 3 * HOUR, { pnlPercent: -2, durationMs: 12 * HOUR }),
+  makeHistory('a', 'BTCUSDT', 'BUY', 'WIN', 85, T0, { pnlPercent: 10, durationMs: 2 * HOUR }),
+  makeHistory('c', 'BTCUSDT', 'SELL', 'LOSS', 72, T0 + DAY, { pnlPercent: -5, durationMs: 6 * HOUR }, 'MAJORITY'),
+  makeHistory('b', 'ETHUSDT', 'BUY', 'WIN', 91, T0 + 3 * HOUR, { pnlPercent: 4, durationMs: 4 * HOUR }),
+  makeHistory('e', 'BTCUSDT', 'HOLD', 'PENDING', 55, T0 + 2 * DAY),
+  makeHistory('f', 'ETHUSDT', 'BUY', 'CANCELLED', 65, T0 + 2 * DAY + 3 * HOUR, { pnlPercent: 1, durationMs: HOUR }),
+];
+
+describe('analyticsService', () => {
+  it('should compute the trade statistics from closed wins and losses only', () => {
+    const a = computePlaybookAnalytics(PLAYBOOK, { initialEquity: 100, usePositionSize: false });
+    expect(a).toMatchObject({ total: 6, pending: 1, cancelled: 1, wins: 2, losses: 2, winRate: 50 });
+    expect(a.avgWinPercent).toBeCloseTo(7);
+    expect(a.avgLossPercent).toBeCloseTo(-3.5);
+    expect(a.expectancyPercent).toBeCloseTo(1.75);
+    expect(a.profitFactor).toBeCloseTo(2);
+    expect(a.avgHoldMs).toBe(6 * HOUR);
+    expect(a.streaks).toEqual({ longestWin: 2, longestLoss: 2, current: -2 });
+  });
+
+  it('should compound the equity curve in closing order and measure its risk', () => {
+    const a = computePlaybookAnalytics(PLAYBOOK, { initialEquity: 100, usePositionSize: false });
+    expect(a.equityCurve.map((p) => p.t)).toEqual([T0, T0 + 2 * HOUR, T0 + 7 * HOUR, T0 + DAY + 6 * HOUR, T0 + DAY + 15 * HOUR]);
+    expect(a.equityCurve.map((p) => p.equity)).toEqual([100, 110, 114.4, 108.68, 106.5064].map((v) => expect.closeTo(v, 6)));
+    expect(a.totalReturnPercent).toBeCloseTo(6.5064);
+    expect(a.maxDrawdownPercent).toBeCloseTo(6.9);
+    expect(a.sharpe).toBeCloseTo(1.75 / Math.sqrt(44.25));
+    expect(a.sortino).toBeCloseTo(1.75 / Math.sqrt(29 / 3));
+
+    // By default each trade only moves its position size of the equity.
+    expect(computePlaybookAnalytics(PLAYBOOK, { initialEquity: 100 }).totalReturnPercent).toBeCloseTo(3.378275);
+  });
+
+  it('should break the results down by symbol, type, strategy, confidence and hour', () => {
+    const { breakdowns } = computePlaybookAnalytics(PLAYBOOK);
+    expect(breakdowns.symbol).toEqual([
+      { key: 'BTCUSDT', total: 3, wins: 1, losses: 1, winRate: 50, avgPnlPercent: 2.5, totalPnlPercent: 5 },
+      { key: 'ETHUSDT', total: 3, wins: 1, losses: 1, winRate: 50, avgPnlPercent: 1, totalPnlPercent: 2 },
+    ]);
+    expect(breakdowns.type.map((r) => [r.key, r.total, r.wins, r.losses])).toEqual([['BUY', 4, 2, 1], ['SELL', 1, 0, 1], ['HOLD', 1, 0, 0]]);
+    expect(breakdowns.strategy.map((r) => [r.key, r.total])).toEqual([['WEIGHTED', 5], ['MAJORITY', 1]]);
+    expect(breakdowns.confidence.map((r) => r.key)).toEqual(['90-100', '80-89', '70-79', '60-69', '50-59', '0-49']);
+    expect(breakdowns.hour.map((r) => [r.key, r.total, r.winRate])).toEqual([['00', 3, 50], ['03', 3, 50]]);
+  });
+
+  it('should return neutral statistics for a playbook without closed trades', () => {
+    const a = computePlaybookAnalytics([PLAYBOOK[4]]);
+    expect(a).toMatchObject({ total: 1, pending: 1, winRate: 0, expectancyPercent: 0, profitFactor: 0, totalReturnPercent: 0, maxDrawdownPercent: 0, sharpe: 0, sortino: 0 });
+    expect(a.equityCurve).toHaveLength(1);
+    expect(computePlaybookAnalytics([]).breakdowns.symbol).toEqual([]);
+  });
+
+  describe('performanceMetrics', () => {
+    it('should compute profit factors, Sortino ratios, streaks and confidence buckets', () => {
+      expect(calculateProfitFactor([3, 1])).toBe(Infinity);
+      expect(calculateProfitFactor([])).toBe(0);
+      expect(calculateSortinoRatio([1, 2])).toBe(0);
+      expect(calculateStreaks([true, false, false, false, true])).toEqual({ longestWin: 1, longestLoss: 3, current: 1 });
+      expect([0, 49.9, 50, 79, 89.5, 90, 100].map(confidenceBucket)).toEqual(['0-49', '0-49', '50-59', '70-79', '80-89', '90-100', '90-100']);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// app/services/__tests__/backtestService.test.ts
+import {
+  buildSnapshotAt,
+  createDeterministicAdapter,
+  createRecordedAdapter,
+  createRecordingAdapter,
+  runBacktest,
+} from '../backtestService';
+import { buildEquityCurve, calculateMaxDrawdown, calculateSharpeRatio } from '../performanceMetrics';
+import { timeframeToMs } from '../multiTimeframeService';
+import { Candle, Timeframe } from '../../types';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2024, 0, 1);
+
+/** A gently rising, oscillating hourly series so that both targets and stops get hit. */
+const makeCandles = (count: number): Candle[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.1 + 3 * Math.sin(i / 4);
+    const open = 100 + (i - 1) * 0.1 + 3 * Math.sin((i - 1) / 4);
+    return { t: T0 + i * HOUR, open, high: Math.max(open, close) + 0.5, low: Math.min(open, close) - 0.5, close, volume: 10 };
+  });
+
+const trendFollower = createDeterministicAdapter('trend', ({ mtf }) => {
+  const last = mtf['1h'].lastCandle!.close;
+  return { type: 'BUY', confidence: 70, price: last, stopLoss: last - 2, takeProfit: last + 2 };
+});
+
+describe('backtestService', () => {
+  describe('buildSnapshotAt', () => {
+    it('should only use candles that had closed at the snapshot time', () => {
+      const candles = { '1h': makeCandles(10) };
+      const snapshot = buildSnapshotAt(candles, T0 + 5 * HOUR);
+      expect(snapshot['1h'].lastCandle!.t).toBe(T0 + 4 * HOUR);
+    });
+  });
+
+  describe('runBacktest', () => {
+    it('should never let a provider see a candle that had not closed yet', async () => {
+      const seen: number[] = [];
+      const spy = createDeterministicAdapter('spy', ({ mtf, timestamp }) => {
+        (Object.keys(mtf) as Timeframe[]).forEach((tf) => {
+          const last = mtf[tf].lastCandle;
+          if (last) seen.push(timestamp - (last.t + timeframeToMs(tf)));
+        });
+        return { type: 'HOLD', confidence: 50, price: 100 };
+      });
+
+      const report = await runBacktest({
+        symbol: 'BTCUSDT',
+        candles: { '1h': makeCandles(80), '4h': [] },
+        stepTimeframe: '1h',
+        adapters: [spy],
+        warmupCandles: 20,
+      });
+
+      expect(report.steps).toBe(59);
+      expect(report.trades).toHaveLength(0);
+      expect(Math.min(...seen)).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should simulate trades and report performance', async () => {
+      const report = await runBacktest({
+        symbol: 'BTCUSDT',
+        candles: { '1h': makeCandles(200) },
+        stepTimeframe: '1h',
+        adapters: [trendFollower],
+      });
+
+      expect(report.trades.length).toBeGreaterThan(0);
+      expect(report.wins + report.losses).toBe(report.trades.length);
+      expect(report.equityCurve).toHaveLength(report.trades.length + 1);
+      expect(report.equityCurve[0].equity).toBe(10000);
+      report.trades.forEach((trade) => {
+        expect(trade.outcome).not.toBe('PENDING');
+        expect(trade.closedAt!).toBeGreaterThanOrEqual(trade.signal.timestamp);
+      });
+      const finalEquity = report.equityCurve[report.equityCurve.length - 1].equity;
+      expect(report.totalReturnPercent).toBeCloseTo((finalEquity / 10000 - 1) * 100, 6);
+    });
+
+    it('should reproduce a run from recorded responses', async () => {
+      const options = { symbol: 'BTCUSDT', candles: { '1h': makeCandles(150) }, stepTimeframe: '1h' as Timeframe };
+      const { adapter, recordings } = createRecordingAdapter(trendFollower);
+      const live = await runBacktest({ ...options, adapters: [adapter] });
+      const replay = await runBacktest({ ...options, adapters: [createRecordedAdapter('trend', recordings)] });
+
+      expect(replay.trades.map((t) => t.exitPrice)).toEqual(live.trades.map((t) => t.exitPrice));
+      expect(replay.equityCurve).toEqual(live.equityCurve);
+    });
+  });
+
+  describe('performanceMetrics', () => {
+    it('should compound returns into an equity curve', () => {
+      const curve = buildEquityCurve([{ t: 1, returnPercent: 10 }, { t: 2, returnPercent: -50 }], 100, 0);
+      expect(curve[0].equity).toBe(100);
+      expect(curve[1].equity).toBeCloseTo(110, 6);
+      expect(curve[2].equity).toBeCloseTo(55, 6);
+    });
+
+    it('should calculate the maximum drawdown from the running peak', () => {
+      expect(calculateMaxDrawdown([100, 120, 90, 130, 104])).toBeCloseTo(25, 6);
+      expect(calculateMaxDrawdown([100, 110, 120])).toBe(0);
+    });
+
+    it('should calculate the Sharpe ratio', () => {
+      // mean = 2, sample sd = 2
+      expect(calculateSharpeRatio([0, 2, 4])).toBeCloseTo(1, 6);
+      expect(calculateSharpeRatio([1, 1, 1])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// app/services/__tests__/levelDetection.test.ts
+import { buildVolumeProfile, clusterPivots, detectLevels, findSwingPivots, suggestRiskLevels } from '../levelDetection';
+import { buildTradingSignal } from '../signalService';
+import { Candle, TimeframeAnalysis } from '../../types';
+
+const HOUR = 3_600_000;
+const bar = (i: number, low: number, high: number, volume = 1): Candle => ({
+  t: i * HOUR, open: (low + high) / 2, high, low, close: (low + high) / 2, volume,
+});
+
+/** Oscillates between a floor near 90 and a ceiling near 110, ending mid-range at 100. */
+function rangeBound(): Candle[] {
+  const swing = [100, 104, 108, 110, 106, 102, 98, 94, 91, 90, 94, 98];
+  const candles: Candle[] = [];
+  for (let cycle = 0; cycle < 4; cycle++) {
+    swing.forEach((mid) => {
+      const i = candles.length;
+      // Wicks overshoot the body so the pivots come from highs and lows, not closes.
+      candles.push(bar(i, mid - 1 + (cycle % 2) * 0.2, mid + 1 - (cycle % 2) * 0.2));
+    });
+  }
+  candles.push(bar(candles.length, 99, 101));
+  return candles;
+}
+
+describe('levelDetection', () => {
+  describe('findSwingPivots', () => {
+    it('should find swing highs and lows from wicks', () => {
+      const candles = [bar(0, 1, 2), bar(1, 2, 5), bar(2, 1, 3), bar(3, 0, 2), bar(4, 1, 3)];
+      expect(findSwingPivots(candles, 1, 1)).toEqual([
+        { index: 1, t: HOUR, price: 5, type: 'HIGH' },
+        { index: 3, t: 3 * HOUR, price: 0, type: 'LOW' },
+      ]);
+    });
+
+    it('should report a flat top once', () => {
+      const candles = [bar(0, 1, 2), bar(1, 1, 5), bar(2, 1, 5), bar(3, 1, 2)];
+      expect(findSwingPivots(candles, 1, 1).filter((p) => p.type === 'HIGH').map((p) => p.index)).toEqual([1]);
+    });
+  });
+
+  describe('clusterPivots', () => {
+    it('should merge pivots within tolerance and count touches', () => {
+      const pivots = [100, 100.4, 110, 99.8].map((price, i) => ({ index: i, t: i, price, type: 'LOW' as const }));
+      const zones = clusterPivots(pivots, 1);
+      expect(zones.map((z) => z.touches)).toEqual([3, 1]);
+      expect(zones[0].low).toBe(99.8);
+      expect(zones[0].high).toBe(100.4);
+      expect(zones[0].lastTouched).toBe(3);
+    });
+  });
+
+  describe('buildVolumeProfile', () => {
+    it('should spread each candle’s volume over the bins it covers', () => {
+      const profile = buildVolumeProfile([bar(0, 0, 10, 10), bar(1, 0, 5, 4)], 2);
+      expect(profile.map((b) => b.volume)).toEqual([9, 5]);
+    });
+  });
+
+  describe('detectLevels', () => {
+    it('should find the repeatedly tested floor and ceiling of a range', () => {
+      const { support, resistance } = detectLevels(rangeBound());
+      expect(support[0].price).toBeCloseTo(89.1, 0);
+      expect(support[0].touches).toBeGreaterThanOrEqual(3);
+      expect(resistance[0].price).toBeCloseTo(110.9, 0);
+      expect(resistance[0].touches).toBeGreaterThanOrEqual(3);
+      expect(Math.max(...support.concat(resistance).map((z) => z.strength))).toBe(100);
+    });
+
+    it('should fall back to the recent extremes when there are no pivots', () => {
+      const candles = [bar(0, 1, 2), bar(1, 2, 3), bar(2, 3, 4)];
+      const { support, resistance } = detectLevels(candles);
+      expect(support.map((z) => z.price)).toEqual([1]);
+      expect(resistance.map((z) => z.price)).toEqual([4]);
+    });
+  });
+
+  describe('suggestRiskLevels', () => {
+    const zone = (price: number) => ({ price, low: price - 1, high: price + 1, touches: 2, lastTouched: 0, strength: 50 });
+    const analysis: TimeframeAnalysis = {
+      timeframe: '1h', trend: 'NEUTRAL', volatility: 4,
+      levels: { support: [zone(90)], resistance: [zone(110)] },
+    };
+
+    it('should anchor the stop below support and the target at resistance for a BUY', () => {
+      expect(suggestRiskLevels('BUY', 100, analysis)).toEqual({ stopLoss: 88, takeProfit: 110 });
+    });
+
+    it('should mirror the anchors for a SELL', () => {
+      expect(suggestRiskLevels('SELL', 100, analysis)).toEqual({ stopLoss: 112, takeProfit: 90 });
+    });
+
+    it('should fill only the levels the providers left out', () => {
+      const aggregated = { type: 'BUY' as const, confidence: 70, price: 100, stopLoss: 95, takeProfit: 0, reasoning: '' };
+      const signal = buildTradingSignal('BTCUSDT', aggregated, { '1h': analysis } as any);
+      expect(signal.riskMetrics.stopLoss).toBe(95);
+      expect(signal.riskMetrics.takeProfit).toBe(110);
+      expect(signal.riskMetrics.riskRewardRatio).toBe(2);
+    });
+  });
+});
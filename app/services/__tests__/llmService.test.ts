@@ -13,13 +13,13 @@ jest.mock('../../utils/providerHealthStore');
 describe('buildAdapterFromSpec', () => {
   beforeEach(() => {
     // Reset mocks before each test
-    (healthStore.getHealthStatus as jest.Mock).mockClear();
+    (healthStore.acquireCallPermit as jest.Mock).mockClear();
     (healthStore.recordSuccess as jest.Mock).mockClear();
     (healthStore.recordFailure as jest.Mock).mockClear();
   });
 
   it('should build a request, call the endpoint, and parse the response', async () => {
-    (healthStore.getHealthStatus as jest.Mock).mockResolvedValue({ state: 'CLOSED', failureCount: 0 });
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
     const mockSpec: ProviderSpec = {
       id: 'test-provider',
       endpoint: 'https://api.test.com/generate',
@@ -72,23 +72,63 @@ describe('buildAdapterFromSpec', () => {
     fetchSpy.mockRestore();
   });
 
-  it('should open the circuit after 3 consecutive failures', async () => {
+  it('should record a classified failure after retrying', async () => {
     const mockSpec: ProviderSpec = { id: 'failing-provider', endpoint: 'https://api.fail.com' };
-    (healthStore.getHealthStatus as jest.Mock).mockResolvedValue({ state: 'CLOSED', failureCount: 2, lastAttempt: Date.now() });
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({
+      allowed: true,
+      probe: false,
+      health: { state: 'CLOSED', failureCount: 2, lastAttempt: Date.now() },
+    });
 
     const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockRejectedValue(new Error('API Error'));
 
     const adapter = buildAdapterFromSpec(mockSpec);
     await adapter.call('Test prompt');
 
-    expect(healthStore.recordFailure).toHaveBeenCalledWith('failing-provider');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(healthStore.recordFailure).toHaveBeenCalledWith(
+      'failing-provider',
+      { errorClass: 'NETWORK', message: 'API Error' },
+      expect.any(Number)
+    );
 
     fetchSpy.mockRestore();
   });
 
+  it('should time each attempt on its own, without earlier attempts or the backoff', async () => {
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(helpers, 'sleep').mockImplementation(async (ms) => {
+      now += ms;
+    });
+    const content = '{"type":"BUY","confidence":80,"price":50000,"stopLoss":49000,"takeProfit":51000}';
+    const fetchSpy = jest
+      .spyOn(helpers, 'fetchWithTimeout')
+      .mockImplementationOnce(async () => {
+        now += 9000;
+        throw Object.assign(new Error('Request timed out'), { name: 'AbortError' });
+      })
+      .mockImplementationOnce(async () => {
+        now += 300;
+        return { ok: true, json: () => Promise.resolve({ choices: [{ message: { content } }] }) } as Response;
+      });
+
+    const result = await buildAdapterFromSpec({ id: 'retried-provider', endpoint: 'https://api.test.com' }).call('Test prompt');
+
+    expect(result.ok).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(healthStore.recordSuccess).toHaveBeenCalledWith('retried-provider', 300);
+    jest.restoreAllMocks();
+  });
+
   it('should not make a request if the circuit is open', async () => {
     const mockSpec: ProviderSpec = { id: 'open-provider', endpoint: 'https://api.open.com' };
-    (healthStore.getHealthStatus as jest.Mock).mockResolvedValue({ state: 'OPEN', failureCount: 3, lastAttempt: Date.now() });
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({
+      allowed: false,
+      probe: false,
+      health: { state: 'OPEN', failureCount: 3, lastAttempt: Date.now() },
+    });
 
     const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout');
 
@@ -101,4 +141,94 @@ describe('buildAdapterFromSpec', () => {
 
     fetchSpy.mockRestore();
   });
+
+  describe('diagnose', () => {
+    const spec: ProviderSpec = {
+      id: 'diag-provider',
+      endpoint: 'https://api.test.com/generate',
+      headers: { Authorization: 'Bearer {{API_KEY}}' },
+      requestTemplate: JSON.stringify({ prompt: '{{prompt}}' }),
+    };
+
+    const respond = (status: number, body: string) =>
+      jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({ ok: status < 400, status, text: () => Promise.resolve(body) } as Response);
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should report the masked request and schema issues without touching the circuit breaker', async () => {
+      const fetchSpy = respond(200, JSON.stringify({ choices: [{ message: { content: '{"type":"LONG","confidence":120}' } }] }));
+      const adapter = buildAdapterFromSpec(spec, { secrets: { API_KEY: 'sk-unsaved-1234' } });
+      const report = await adapter.diagnose('Check');
+
+      expect(fetchSpy.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-unsaved-1234');
+      expect(report.request.headers.Authorization).toBe('Bearer ••••1234');
+      expect(JSON.parse(report.request.body)).toEqual({ prompt: 'Check' });
+      expect(report).toMatchObject({ status: 200, ok: false, candidates: 1, extractedText: '{"type":"LONG","confidence":120}' });
+      expect(report.schemaIssues).toEqual([
+        expect.stringMatching(/^#1 type: /),
+        expect.stringMatching(/^#1 confidence: /),
+      ]);
+      expect(healthStore.acquireCallPermit).not.toHaveBeenCalled();
+      expect(healthStore.recordSuccess).not.toHaveBeenCalled();
+      expect(healthStore.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should keep the raw body of failed and streamed responses', async () => {
+      respond(401, '{"error":{"message":"invalid api key"}}');
+      const failed = await buildAdapterFromSpec(spec).diagnose();
+      expect(failed).toMatchObject({ status: 401, ok: false, error: 'HTTP 401', rawBody: '{"error":{"message":"invalid api key"}}' });
+
+      respond(200, 'data: {"choices":[{"delta":{"content":"{\\"type\\":\\"HOLD\\"}"}}]}\n\ndata: [DONE]\n\n');
+      const streamed = await buildAdapterFromSpec({ ...spec, stream: true, streamFormat: 'openai' }).diagnose();
+      expect(streamed).toMatchObject({ ok: true, parsed: { type: 'HOLD' }, extractedText: '{"type":"HOLD"}' });
+    });
+
+    it('should report transport errors', async () => {
+      jest.spyOn(helpers, 'fetchWithTimeout').mockRejectedValue(new Error('Network request failed'));
+      const report = await buildAdapterFromSpec(spec).diagnose();
+      expect(report).toMatchObject({ status: null, ok: false, error: 'Error: Network request failed' });
+    });
+  });
+
+  describe('embed', () => {
+    const spec: ProviderSpec = {
+      id: 'embedder',
+      endpoint: 'https://api.test.com/embeddings',
+      model: 'embed-small',
+      requestTemplate: '{"model":"{{model}}","input":"{{prompt}}"}',
+      embeddingPath: '$.data[0].embedding',
+    };
+
+    beforeEach(() => {
+      (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should read the embedding at the embedding path', async () => {
+      const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ embedding: [0.1, -0.2, 0.3] }], usage: { prompt_tokens: 7, total_tokens: 7 } }),
+      } as Response);
+
+      const result = await buildAdapterFromSpec(spec).embed('1h: BULLISH');
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body as string)).toEqual({ model: 'embed-small', input: '1h: BULLISH' });
+      expect(result).toMatchObject({ ok: true, vector: [0.1, -0.2, 0.3] });
+      expect(healthStore.recordSuccess).toHaveBeenCalledWith('embedder', expect.any(Number));
+    });
+
+    it('should fail without an embedding in the response, without retrying', async () => {
+      const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ embedding: 'nope' }] }),
+      } as Response);
+
+      const result = await buildAdapterFromSpec(spec).embed('text');
+      expect(result).toMatchObject({ ok: false, error: 'No embedding found at $.data[0].embedding' });
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(healthStore.recordFailure).toHaveBeenCalledWith('embedder', expect.objectContaining({ errorClass: 'SCHEMA' }), expect.any(Number));
+
+      expect(await buildAdapterFromSpec({ ...spec, embeddingPath: undefined }).embed('text')).toMatchObject({ ok: false });
+    });
+  });
 });
@@ -0,0 +1,242 @@
+// app/services/__tests__/llmStreaming.test.ts
+import * as streaming from '../llmStreaming';
+import { createStreamDecoder, openStream, readStreamedText, XhrLike } from '../llmStreaming';
+import { buildAdapterFromSpec } from '../llmService';
+import { ProviderSpec } from '../../utils/providerStore';
+import * as healthStore from '../../utils/providerHealthStore';
+
+jest.mock('../../utils/providerStore', () => ({
+  getProviderSecrets: jest.fn().mockResolvedValue({}),
+}));
+jest.mock('../../utils/providerHealthStore');
+
+/** A local stand-in for a streamed `Response` that hands out the given chunks one read at a time. */
+function streamResponse(chunks: string[], { ok = true, status = 200, stallAfter = Infinity } = {}): Response {
+  let i = 0;
+  const reader = {
+    read: () =>
+      i >= stallAfter
+        ? new Promise(() => {})
+        : Promise.resolve(i < chunks.length ? { done: false, value: chunks[i++] } : { done: true, value: undefined }),
+    cancel: jest.fn(() => Promise.resolve()),
+  };
+  return { ok, status, body: { getReader: () => reader } } as unknown as Response;
+}
+
+/** A local stand-in for XMLHttpRequest that the test drives by hand. */
+class FakeXhr implements XhrLike {
+  readyState = 0;
+  status = 0;
+  responseText = '';
+  onreadystatechange: (() => void) | null = null;
+  onprogress: (() => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  sent: { method?: string; url?: string; headers: Record<string, string>; body?: string } = { headers: {} };
+  aborted = false;
+  open(method: string, url: string) {
+    Object.assign(this.sent, { method, url });
+  }
+  setRequestHeader(name: string, value: string) {
+    this.sent.headers[name] = value;
+  }
+  getResponseHeader(name: string) {
+    return !this.aborted && name === 'Retry-After' ? '3' : null;
+  }
+  getAllResponseHeaders() {
+    return this.aborted ? '' : 'content-type: text/event-stream\r\nretry-after: 3\r\n';
+  }
+  send(body?: string) {
+    this.sent.body = body;
+  }
+  abort() {
+    this.aborted = true;
+  }
+  respond(status: number) {
+    this.status = status;
+    this.readyState = 2;
+    this.onreadystatechange?.();
+  }
+  receive(text: string) {
+    this.readyState = 3;
+    this.responseText += text;
+    this.onprogress?.();
+  }
+  finish() {
+    this.readyState = 4;
+    this.onreadystatechange?.();
+    this.onload?.();
+  }
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+const SIGNAL = '{"type":"BUY","confidence":80,"price":50000,"stopLoss":49000,"takeProfit":51000}';
+
+/** Splits text into pieces of `size` characters, like a network would. */
+const split = (text: string, size: number) => text.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!;
+
+describe('llmStreaming', () => {
+  describe('createStreamDecoder', () => {
+    it('should decode OpenAI SSE deltas split across chunks', () => {
+      const sse = [
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        'data: [DONE]\n\n',
+      ].join('');
+      const decoder = createStreamDecoder('openai');
+      const deltas = split(sse, 7).flatMap((c) => decoder.push(c)).concat(decoder.flush());
+      expect(deltas.join('')).toBe('Hello');
+    });
+
+    it('should decode Anthropic events and skip the event lines', () => {
+      const sse = [
+        'event: message_start\ndata: {"type":"message_start","message":{}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'event: ping\ndata: {"type":"ping"}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ].join('');
+      const decoder = createStreamDecoder('anthropic');
+      expect(decoder.push(sse).join('')).toBe('Hi');
+    });
+
+    it('should decode Ollama NDJSON, including a last line without a newline', () => {
+      const decoder = createStreamDecoder('ollama');
+      const deltas = decoder.push('{"response":"a","done":false}\r\n{"message":{"content":"b"},"done":false}\n{"response":"c"');
+      expect(deltas).toEqual(['a', 'b']);
+      expect(decoder.push(',"done":true}')).toEqual([]);
+      expect(decoder.flush()).toEqual(['c']);
+    });
+
+    it('should surface errors reported inside the stream', () => {
+      const decoder = createStreamDecoder();
+      expect(() => decoder.push('data: {"type":"error","error":{"message":"overloaded"}}\n')).toThrow('overloaded');
+    });
+  });
+
+  describe('readStreamedText', () => {
+    it('should report the accumulated text as it grows', async () => {
+      const progress: string[] = [];
+      const res = streamResponse(['{"response":"ab"}\n', '{"response":"c"}\n']);
+      const text = await readStreamedText(res, { idleTimeoutMs: 1000, onProgress: (t) => progress.push(t) });
+      expect(text).toBe('abc');
+      expect(progress).toEqual(['ab', 'abc']);
+    });
+
+    it('should give up on a stalled stream', async () => {
+      const res = streamResponse(['{"response":"a"}\n'], { stallAfter: 1 });
+      await expect(readStreamedText(res, { idleTimeoutMs: 20 })).rejects.toThrow('Stream idle for 20ms');
+    });
+
+    it('should give up on a stream that keeps trickling past the total timeout', async () => {
+      const reader = {
+        read: () => new Promise((r) => setTimeout(() => r({ done: false, value: '{"response":"."}\n' }), 5)),
+        cancel: jest.fn(() => Promise.resolve()),
+      };
+      const res = { ok: true, body: { getReader: () => reader } } as unknown as Response;
+      await expect(readStreamedText(res, { idleTimeoutMs: 1000, totalTimeoutMs: 30 })).rejects.toThrow('Stream timed out after 30ms');
+      expect(reader.cancel).toHaveBeenCalled();
+    });
+
+    it('should fall back to the whole body where streaming is unavailable', async () => {
+      const res = { ok: true, text: () => Promise.resolve('{"response":"all"}') } as unknown as Response;
+      expect(await readStreamedText(res, { idleTimeoutMs: 1000 })).toBe('all');
+    });
+  });
+
+  describe('openStream', () => {
+    const init = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"stream":true}' };
+
+    it('should hand out the body as XMLHttpRequest progress reports it', async () => {
+      const xhr = new FakeXhr();
+      const opening = openStream('https://api.test.com/chat', init, 1000, () => xhr);
+      expect(xhr.sent).toEqual({ method: 'POST', url: 'https://api.test.com/chat', headers: init.headers, body: init.body });
+
+      xhr.respond(200);
+      const res = await opening;
+      expect(res.ok).toBe(true);
+
+      const progress: string[] = [];
+      const reading = readStreamedText(res, { idleTimeoutMs: 1000, onProgress: (t) => progress.push(t) });
+      xhr.receive('{"response":"a"}\n{"resp');
+      await flush();
+      expect(progress).toEqual(['a']);
+      xhr.receive('onse":"b"}\n');
+      await flush();
+      xhr.finish();
+      expect(await reading).toBe('ab');
+      expect(progress).toEqual(['a', 'ab']);
+    });
+
+    it('should expose the status and headers of a rejected request', async () => {
+      const xhr = new FakeXhr();
+      const opening = openStream('https://api.test.com/chat', init, 1000, () => xhr);
+      xhr.respond(429);
+      const res = await opening;
+      expect(res).toMatchObject({ ok: false, status: 429 });
+      expect(res.headers.get('Retry-After')).toBe('3');
+      await res.body!.getReader().cancel();
+      expect(xhr.aborted).toBe(true);
+      expect(res.headers.get('Retry-After')).toBe('3');
+    });
+
+    it('should time out when no headers arrive, and fail on network errors', async () => {
+      const slow = new FakeXhr();
+      await expect(openStream('https://api.test.com/chat', init, 20, () => slow)).rejects.toThrow('timed out after 20ms');
+      expect(slow.aborted).toBe(true);
+
+      const broken = new FakeXhr();
+      const opening = openStream('https://api.test.com/chat', init, 1000, () => broken);
+      broken.onerror!();
+      await expect(opening).rejects.toThrow('Network request failed');
+    });
+  });
+
+  describe('buildAdapterFromSpec with stream: true', () => {
+    const spec: ProviderSpec = {
+      id: 'streaming-provider',
+      endpoint: 'https://api.test.com/chat',
+      requestTemplate: JSON.stringify({ model: 'm', prompt: '{{prompt}}' }),
+      stream: true,
+      streamFormat: 'openai',
+      maxRetries: 0,
+    };
+
+    beforeEach(() => {
+      (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+      (healthStore.recordSuccess as jest.Mock).mockClear();
+      (healthStore.recordFailure as jest.Mock).mockClear();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should request a stream, report progress and validate the completed text', async () => {
+      const sse = split(SIGNAL, 10).map((piece) => `data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`);
+      const fetchSpy = jest.spyOn(streaming, 'openStream').mockResolvedValue(streamResponse([...sse, 'data: [DONE]\n\n']));
+      const onProgress = jest.fn();
+
+      const result = await buildAdapterFromSpec(spec).call('Test prompt', {}, { onProgress });
+
+      expect(JSON.parse(fetchSpy.mock.calls[0][1].body)).toEqual({ model: 'm', prompt: 'Test prompt', stream: true });
+      expect(onProgress).toHaveBeenCalledTimes(sse.length);
+      expect(onProgress).toHaveBeenLastCalledWith(SIGNAL);
+      expect(result).toMatchObject({ ok: true, raw: SIGNAL, parsed: { type: 'BUY', confidence: 80 } });
+      expect(healthStore.recordSuccess).toHaveBeenCalledWith('streaming-provider', expect.any(Number));
+    });
+
+    it('should record a failure and close the stream when it is rejected', async () => {
+      const res = streamResponse([], { ok: false, status: 429 });
+      jest.spyOn(streaming, 'openStream').mockResolvedValue(res);
+      const result = await buildAdapterFromSpec(spec).call('Test prompt');
+      expect(result).toMatchObject({ ok: false, error: 'HTTP 429', errorClass: 'RATE_LIMIT' });
+      expect(res.body!.getReader().cancel).toHaveBeenCalled();
+      expect(healthStore.recordFailure).toHaveBeenCalledWith(
+        'streaming-provider',
+        expect.objectContaining({ errorClass: 'RATE_LIMIT', status: 429 }),
+        expect.any(Number)
+      );
+    });
+  });
+});
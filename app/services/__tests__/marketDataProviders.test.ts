@@ -0,0 +1,119 @@
+// app/services/__tests__/marketDataProviders.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createBinanceProvider,
+  createFileDataSource,
+  createKrakenProvider,
+  LOCAL_FILE_SOURCE_ID,
+  listMarketDataProviders,
+  parseCandleFile,
+  registerMarketDataProvider,
+  resolveMarketDataProvider,
+} from '../marketDataProviders';
+import { fetchKlineData } from '../multiTimeframeService';
+import { setDefaultMarketDataSource, setSymbolMarketDataSource } from '../../utils/marketDataSourceStore';
+import { deleteCandleFile, listCandleFiles, saveCandleFile } from '../../utils/candleFileStore';
+import * as helpers from '../_utils_helpers';
+
+const mockFetch = (body: any) =>
+  jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({ ok: true, json: () => Promise.resolve(body) } as Response);
+
+describe('marketDataProviders', () => {
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('createBinanceProvider', () => {
+    it('should request klines and map them to candles', async () => {
+      const fetchSpy = mockFetch([[1000, '1', '2', '0.5', '1.5', '10']]);
+      const candles = await createBinanceProvider('https://binance.test').fetchCandles('btcusdt', '4h', 5, 42);
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://binance.test/klines?symbol=BTCUSDT&interval=4h&limit=5&startTime=42', {}, 8000
+      );
+      expect(candles).toEqual([{ t: 1000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }]);
+    });
+  });
+
+  describe('createKrakenProvider', () => {
+    it('should map timeframes to minutes and convert seconds to milliseconds', async () => {
+      const rows = [
+        [1, '1', '2', '0.5', '1.5', '1.2', '10', 5],
+        [2, '1.5', '3', '1', '2.5', '2.0', '20', 7],
+      ];
+      const fetchSpy = mockFetch({ error: [], result: { XXBTZUSD: rows, last: 2 } });
+      const candles = await createKrakenProvider('https://kraken.test').fetchCandles('XBTUSD', '4h', 1);
+
+      expect(fetchSpy).toHaveBeenCalledWith('https://kraken.test/OHLC?pair=XBTUSD&interval=240', {}, 8000);
+      expect(candles).toEqual([{ t: 2000, open: 1.5, high: 3, low: 1, close: 2.5, volume: 20 }]);
+    });
+
+    it('should surface API errors', async () => {
+      mockFetch({ error: ['EQuery:Unknown asset pair'], result: {} });
+      await expect(createKrakenProvider('https://kraken.test').fetchCandles('NOPE', '1h', 10)).rejects.toThrow(
+        'Unknown asset pair'
+      );
+    });
+  });
+
+  describe('parseCandleFile', () => {
+    it('should parse CSV with a header row and second timestamps', () => {
+      const csv = 'time,open,high,low,close,volume\n1700000060,2,3,1,2.5,7\n1700000000,1,2,0.5,1.5,10\n';
+      expect(parseCandleFile(csv)).toEqual([
+        { t: 1700000000000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 },
+        { t: 1700000060000, open: 2, high: 3, low: 1, close: 2.5, volume: 7 },
+      ]);
+    });
+
+    it('should parse JSON candle objects and Binance-style arrays', () => {
+      const objects = JSON.stringify([{ t: 1700000000000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }]);
+      const arrays = JSON.stringify([[1700000000000, '1', '2', '0.5', '1.5', '10']]);
+      expect(parseCandleFile(objects)).toEqual(parseCandleFile(arrays));
+    });
+
+    it('should reject files with missing columns', () => {
+      expect(() => parseCandleFile('time,open,close\n1,2,3')).toThrow('CSV must have');
+    });
+  });
+
+  describe('resolveMarketDataProvider', () => {
+    it('should prefer a per-symbol override over the global default', async () => {
+      expect((await resolveMarketDataProvider('BTCUSDT')).id).toBe('binance');
+
+      await setDefaultMarketDataSource('kraken');
+      expect((await resolveMarketDataProvider('BTCUSDT')).id).toBe('kraken');
+
+      await setSymbolMarketDataSource('btcusdt', 'binance');
+      expect((await resolveMarketDataProvider('BTCUSDT')).id).toBe('binance');
+      expect((await resolveMarketDataProvider('XBTUSD')).id).toBe('kraken');
+    });
+
+    it('should route fetchKlineData through a registered file source', async () => {
+      const load = jest.fn().mockResolvedValue('t,open,high,low,close,volume\n1000,1,2,0.5,1.5,10\n2000,2,3,1,2.5,7');
+      registerMarketDataProvider(createFileDataSource({ id: 'local', load }));
+      await setSymbolMarketDataSource('MYCOIN', 'local');
+
+      const candles = await fetchKlineData('MYCOIN', '1h', 1);
+
+      expect(load).toHaveBeenCalledWith('MYCOIN', '1h');
+      expect(candles).toEqual([{ t: 2000 * 1000, open: 2, high: 3, low: 1, close: 2.5, volume: 7 }]);
+    });
+
+    it('should serve pasted candle files from the built-in local file source', async () => {
+      expect(listMarketDataProviders().map((p) => p.id)).toContain(LOCAL_FILE_SOURCE_ID);
+      await setSymbolMarketDataSource('MYCOIN', LOCAL_FILE_SOURCE_ID);
+      await saveCandleFile('mycoin', '4h', '[[1000, 1, 2, 0.5, 1.5, 10]]');
+      await saveCandleFile('MYCOIN', '1d', '[[1000, 1, 2, 0.5, 1.5, 10]]');
+
+      expect(await fetchKlineData('MYCOIN', '4h')).toEqual([{ t: 1000 * 1000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }]);
+      await expect(fetchKlineData('MYCOIN', '1h')).rejects.toThrow('No candle file for MYCOIN 1h');
+      expect(await (await resolveMarketDataProvider('MYCOIN')).listSymbols()).toEqual(['MYCOIN']);
+
+      await deleteCandleFile('MYCOIN', '4h');
+      expect(await listCandleFiles()).toEqual({ MYCOIN: ['1d'] });
+      await deleteCandleFile('MYCOIN', '1d');
+      expect(await listCandleFiles()).toEqual({});
+    });
+  });
+});
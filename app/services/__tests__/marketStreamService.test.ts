@@ -0,0 +1,184 @@
+// app/services/__tests__/marketStreamService.test.ts
+import {
+  createMarketStream,
+  getMarketStream,
+  mergeCandles,
+  startMarketStream,
+  stopMarketStream,
+  upsertCandle,
+  WebSocketLike,
+} from '../marketStreamService';
+import { createBinanceProvider, MarketDataProvider } from '../marketDataProviders';
+import { Candle } from '../../types';
+
+const MIN = 60_000;
+const candle = (i: number, close = 100 + i): Candle => ({ t: i * MIN, open: close, high: close + 1, low: close - 1, close, volume: 1 });
+
+/** A local stand-in for a WebSocket that the test drives by hand. */
+class FakeSocket implements WebSocketLike {
+  onopen: ((ev?: any) => void) | null = null;
+  onmessage: ((ev: { data: any }) => void) | null = null;
+  onclose: ((ev?: any) => void) | null = null;
+  onerror: ((ev?: any) => void) | null = null;
+  closed = false;
+  constructor(public url: string) {}
+  open() {
+    this.onopen?.();
+  }
+  sendKline(c: Candle, closed: boolean, interval = '1m') {
+    const k = { t: c.t, o: String(c.open), h: String(c.high), l: String(c.low), c: String(c.close), v: String(c.volume), x: closed, i: interval };
+    this.onmessage?.({ data: JSON.stringify({ stream: `btcusdt@kline_${interval}`, data: { e: 'kline', k } }) });
+  }
+  close() {
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+const flush = () => new Promise((r) => jest.requireActual('timers').setImmediate(r));
+
+describe('marketStreamService', () => {
+  describe('candle buffers', () => {
+    it('should replace the forming candle and append new ones up to capacity', () => {
+      let buffer = [candle(0), candle(1)];
+      buffer = upsertCandle(buffer, candle(1, 150), 2);
+      expect(buffer.map((c) => c.close)).toEqual([100, 150]);
+      buffer = upsertCandle(buffer, candle(2), 2);
+      expect(buffer.map((c) => c.t)).toEqual([1 * MIN, 2 * MIN]);
+      expect(upsertCandle(buffer, candle(0), 2)).toBe(buffer);
+    });
+
+    it('should merge backfilled candles by open time, keeping only the live forming candle from the buffer', () => {
+      const merged = mergeCandles([candle(0, 50), candle(3, 999)], [candle(0), candle(1), candle(2), candle(3)], 10);
+      expect(merged.map((c) => c.t)).toEqual([0, MIN, 2 * MIN, 3 * MIN]);
+      // Older buffered candles give way to REST; the newest is still forming and may be ahead of it.
+      expect(merged.map((c) => c.close)).toEqual([100, 101, 102, 999]);
+    });
+
+    it('should replace a candle left forming when the socket dropped once REST has newer ones', () => {
+      const merged = mergeCandles([candle(0), candle(1, 999)], [candle(1), candle(2)], 10);
+      expect(merged.map((c) => c.close)).toEqual([100, 101, 102]);
+    });
+  });
+
+  describe('createMarketStream', () => {
+    let sockets: FakeSocket[];
+    const fetchCandles = jest.fn();
+    const provider: MarketDataProvider = { ...createBinanceProvider('https://binance.test', 'wss://binance.test'), fetchCandles };
+
+    beforeEach(() => {
+      sockets = [];
+      fetchCandles.mockReset();
+    });
+
+    const createSocket = (url: string) => {
+      const s = new FakeSocket(url);
+      sockets.push(s);
+      return s;
+    };
+
+    const makeStream = () =>
+      createMarketStream({
+        symbol: 'BTCUSDT',
+        timeframes: ['1m'],
+        provider,
+        bufferSize: 50,
+        reconnectInitialMs: 1000,
+        createSocket,
+      });
+
+    it('should backfill, connect and re-analyze on each closed candle', async () => {
+      fetchCandles.mockResolvedValue([candle(0), candle(1)]);
+      const stream = makeStream();
+      const events: string[] = [];
+      stream.subscribe((e) => events.push(e.type === 'status' ? `status:${e.status}` : e.type));
+
+      await stream.start();
+      expect(sockets[0].url).toBe('wss://binance.test/stream?streams=btcusdt@kline_1m');
+      expect(stream.isWarm('1m')).toBe(false);
+
+      sockets[0].open();
+      expect(stream.isWarm('1m')).toBe(true);
+      expect(stream.getAnalysis('1m')!.lastCandle!.t).toBe(MIN);
+
+      const indicators = stream.getAnalysis('1m')!.indicators;
+      sockets[0].sendKline(candle(2, 120), false);
+      expect(stream.getCandles('1m')).toHaveLength(3);
+      // The forming candle tracks the price; indicators wait for the close.
+      expect(stream.getAnalysis('1m')).toMatchObject({ lastCandle: { t: 2 * MIN, close: 120 }, indicators });
+
+      sockets[0].sendKline(candle(2, 125), true);
+      expect(stream.getCandles('1m')).toHaveLength(3);
+      expect(stream.getAnalysis('1m')!.lastCandle!.close).toBe(125);
+      expect(events).toEqual(['status:connecting', 'status:open', 'tick', 'tick', 'candle']);
+      stream.stop();
+    });
+
+    it('should backfill a gap when a candle is skipped', async () => {
+      fetchCandles.mockResolvedValueOnce([candle(0), candle(1)]);
+      const stream = makeStream();
+      await stream.start();
+      sockets[0].open();
+      // The socket drops the close of candle 1, so the buffer holds it as it was while forming.
+      sockets[0].sendKline(candle(1, 999), false);
+
+      fetchCandles.mockResolvedValueOnce([candle(1), candle(2), candle(3)]);
+      sockets[0].sendKline(candle(4), true);
+      await flush();
+
+      expect(fetchCandles).toHaveBeenLastCalledWith('BTCUSDT', '1m', 50, MIN);
+      expect(stream.getCandles('1m').map((c) => c.t / MIN)).toEqual([0, 1, 2, 3, 4]);
+      expect(stream.getCandles('1m')[1].close).toBe(101);
+      stream.stop();
+    });
+
+    it('should reconnect with exponential backoff and backfill after reconnecting', async () => {
+      jest.useFakeTimers();
+      try {
+        fetchCandles.mockResolvedValue([candle(0)]);
+        const stream = makeStream();
+        await stream.start();
+        sockets[0].open();
+
+        sockets[0].close();
+        expect(stream.getStatus()).toBe('reconnecting');
+        jest.advanceTimersByTime(999);
+        expect(sockets).toHaveLength(1);
+        jest.advanceTimersByTime(1);
+        expect(sockets).toHaveLength(2);
+
+        sockets[1].close();
+        jest.advanceTimersByTime(1999);
+        expect(sockets).toHaveLength(2);
+        jest.advanceTimersByTime(1);
+        expect(sockets).toHaveLength(3);
+
+        const callsBefore = fetchCandles.mock.calls.length;
+        sockets[2].open();
+        expect(stream.getStatus()).toBe('open');
+        expect(fetchCandles.mock.calls.length).toBe(callsBefore + 1);
+
+        stream.stop();
+        expect(sockets[2].closed).toBe(true);
+        jest.advanceTimersByTime(60_000);
+        expect(sockets).toHaveLength(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should replace a running stream when the symbol moves to another source', async () => {
+      fetchCandles.mockResolvedValue([candle(0)]);
+      const kraken: MarketDataProvider = { ...provider, id: 'kraken' };
+      const first = await startMarketStream('BTCUSDT', ['1m'], { provider, createSocket });
+      expect(await startMarketStream('btcusdt', ['1m'], { provider, createSocket })).toBe(first);
+
+      await flush();
+      const second = await startMarketStream('BTCUSDT', ['1m'], { provider: kraken, createSocket });
+      expect(second).not.toBe(first);
+      expect(first.getStatus()).toBe('stopped');
+      expect(getMarketStream('BTCUSDT')).toMatchObject({ sourceId: 'kraken' });
+      stopMarketStream('BTCUSDT');
+    });
+  });
+});
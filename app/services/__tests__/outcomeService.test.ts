@@ -0,0 +1,156 @@
+// app/services/__tests__/outcomeService.test.ts
+import { cancelSignal, closeSignalManually, resolveSignalOutcome, resolvePendingOutcomes } from '../outcomeService';
+import * as multiTimeframeService from '../multiTimeframeService';
+import * as playbookService from '../playbookService';
+import { createMemorySignalHistoryStorage, setSignalHistoryStorage } from '../../utils/signalHistoryStorage';
+import { Candle, SignalHistory, SignalType } from '../../types';
+
+jest.mock('../multiTimeframeService', () => ({
+  ...jest.requireActual('../multiTimeframeService'),
+  fetchKlineData: jest.fn(),
+}));
+jest.mock('../playbookService');
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2024, 0, 1);
+
+const makeHistory = (type: SignalType, stopLoss: number, takeProfit: number, id = 'sig-1'): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome: 'PENDING',
+  signal: {
+    id,
+    symbol: 'BTCUSDT',
+    type,
+    confidence: 70,
+    price: 100,
+    timestamp: T0,
+    riskMetrics: { stopLoss, takeProfit, riskRewardRatio: 2, positionSizePercent: 2 },
+  },
+});
+
+const candle = (hoursAfter: number, open: number, high: number, low: number, close: number): Candle => ({
+  t: T0 + hoursAfter * HOUR, open, high, low, close, volume: 1,
+});
+
+describe('outcomeService', () => {
+  describe('resolveSignalOutcome', () => {
+    it('should close a BUY as a win when the take profit is touched first', () => {
+      const candles = [
+        candle(-1, 90, 120, 80, 100), // before the signal, must be ignored
+        candle(0, 100, 103, 97, 102),
+        candle(1, 102, 110, 101, 108),
+      ];
+      const update = resolveSignalOutcome(makeHistory('BUY', 95, 110), candles);
+      expect(update).toMatchObject({
+        outcome: 'WIN',
+        hitTarget: 'TP',
+        exitPrice: 110,
+        pnl: 10,
+        pnlPercent: 10,
+        closedAt: T0 + HOUR,
+        durationMs: HOUR,
+      });
+    });
+
+    it('should close a SELL as a loss when the stop loss is touched first', () => {
+      const candles = [candle(0, 100, 101, 98, 99), candle(1, 99, 106, 98, 104)];
+      const update = resolveSignalOutcome(makeHistory('SELL', 105, 90), candles);
+      expect(update).toMatchObject({ outcome: 'LOSS', hitTarget: 'SL', exitPrice: 105, pnl: -5 });
+    });
+
+    it('should assume the stop loss was hit first when a candle touches both levels', () => {
+      const candles = [candle(0, 100, 112, 94, 100)];
+      expect(resolveSignalOutcome(makeHistory('BUY', 95, 110), candles)).toMatchObject({ outcome: 'LOSS', hitTarget: 'SL' });
+    });
+
+    it('should fill at the open when price gaps through a level', () => {
+      const candles = [candle(0, 100, 101, 99, 100), candle(1, 90, 92, 88, 91)];
+      expect(resolveSignalOutcome(makeHistory('BUY', 95, 110), candles)).toMatchObject({ exitPrice: 90, pnl: -10 });
+    });
+
+    it('should leave the signal pending while neither level is touched', () => {
+      const candles = [candle(0, 100, 104, 96, 101), candle(1, 101, 105, 97, 102)];
+      expect(resolveSignalOutcome(makeHistory('BUY', 95, 110), candles)).toBeNull();
+    });
+
+    it('should expire a HOLD signal once the expiry window has passed', () => {
+      const candles = [candle(0, 100, 101, 99, 100), candle(2, 104, 105, 103, 104)];
+      expect(resolveSignalOutcome(makeHistory('HOLD', 95, 110), candles, { holdExpiryMs: 3 * HOUR })).toBeNull();
+
+      const update = resolveSignalOutcome(makeHistory('HOLD', 95, 110), candles, { holdExpiryMs: 2 * HOUR });
+      expect(update).toMatchObject({ outcome: 'CANCELLED', hitTarget: null, exitPrice: 104, pnl: 0 });
+    });
+  });
+
+  describe('closeSignalManually', () => {
+    it('should close a trade by hand as a win or a loss depending on its PnL', () => {
+      const sell = makeHistory('SELL', 105, 90);
+      expect(closeSignalManually(sell, 96, T0 + HOUR)).toMatchObject({
+        outcome: 'WIN',
+        hitTarget: 'MANUAL',
+        exitPrice: 96,
+        pnl: 4,
+        pnlPercent: 4,
+        durationMs: HOUR,
+        closedAt: T0 + HOUR,
+        signal: { status: 'CLOSED' },
+      });
+      expect(closeSignalManually(makeHistory('BUY', 95, 110), 100, T0 + HOUR).outcome).toBe('LOSS');
+      expect(closeSignalManually(makeHistory('HOLD', 95, 110), 101, T0 + HOUR)).toMatchObject({ outcome: 'CANCELLED', hitTarget: 'MANUAL' });
+      expect(() => closeSignalManually(sell, NaN)).toThrow('Exit price must be a positive number');
+    });
+
+    it('should cancel a signal without an exit price or PnL', () => {
+      const update = cancelSignal(makeHistory('BUY', 95, 110), T0 + 2 * HOUR);
+      expect(update).toMatchObject({ outcome: 'CANCELLED', hitTarget: null, closedAt: T0 + 2 * HOUR, signal: { status: 'CANCELLED' } });
+      expect(update.pnlPercent).toBeUndefined();
+    });
+  });
+
+  describe('resolvePendingOutcomes', () => {
+    it('should fetch candles per symbol and persist resolved outcomes', async () => {
+      const pending = makeHistory('BUY', 95, 110);
+      (playbookService.queryPlaybook as jest.Mock).mockResolvedValue([pending]);
+      (playbookService.updateSignalOutcome as jest.Mock).mockResolvedValue(true);
+      (multiTimeframeService.fetchKlineData as jest.Mock).mockResolvedValue([
+        candle(0, 100, 111, 99, 109),
+        candle(1, 109, 130, 108, 125), // still forming at `now`, must be ignored
+      ]);
+
+      const resolved = await resolvePendingOutcomes({ now: T0 + HOUR + 1 });
+
+      expect(playbookService.queryPlaybook).toHaveBeenCalledWith({ outcome: 'PENDING' });
+      expect(multiTimeframeService.fetchKlineData).toHaveBeenCalledTimes(1);
+      expect(multiTimeframeService.fetchKlineData).toHaveBeenCalledWith('BTCUSDT', '1m', 1000, T0);
+      expect(playbookService.updateSignalOutcome).toHaveBeenCalledWith(
+        'sig-1',
+        expect.objectContaining({ outcome: 'WIN', exitPrice: 110 }),
+        { expectOutcome: 'PENDING' }
+      );
+      expect(resolved.map((r) => r.id)).toEqual(['sig-1']);
+    });
+
+    it('should not overwrite a signal closed by hand while the candles were loading', async () => {
+      const actual = jest.requireActual('../playbookService');
+      (playbookService.queryPlaybook as jest.Mock).mockImplementation(actual.queryPlaybook);
+      (playbookService.updateSignalOutcome as jest.Mock).mockImplementation(actual.updateSignalOutcome);
+      const manual = makeHistory('BUY', 95, 110, 'manual');
+      const auto = makeHistory('BUY', 95, 110, 'auto');
+      setSignalHistoryStorage(createMemorySignalHistoryStorage([manual, auto]));
+
+      (multiTimeframeService.fetchKlineData as jest.Mock).mockImplementation(async () => {
+        // The user closes one of the signals on the history screen during the fetch.
+        await actual.updateSignalOutcome('manual', closeSignalManually(manual, 104, T0 + HOUR / 2));
+        return [candle(0, 100, 111, 99, 109)];
+      });
+
+      const resolved = await resolvePendingOutcomes({ now: T0 + 2 * HOUR });
+
+      expect(resolved.map((r) => r.id)).toEqual(['auto']);
+      const stored = await actual.queryPlaybook();
+      expect(stored.find((s: SignalHistory) => s.id === 'manual')).toMatchObject({ outcome: 'WIN', hitTarget: 'MANUAL', exitPrice: 104 });
+      expect(stored.find((s: SignalHistory) => s.id === 'auto')).toMatchObject({ outcome: 'WIN', hitTarget: 'TP', exitPrice: 110 });
+    });
+  });
+});
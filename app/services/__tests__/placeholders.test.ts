@@ -0,0 +1,95 @@
+// app/services/__tests__/placeholders.test.ts
+import { discoverSpecPlaceholders, findMissingPlaceholders, findPlaceholders } from '../placeholders';
+import { buildAdapterFromSpec } from '../llmService';
+import { ProviderSpecSchema } from '../../schemas';
+import { ProviderSpec } from '../../utils/providerStore';
+import * as helpers from '../_utils_helpers';
+import * as healthStore from '../../utils/providerHealthStore';
+
+jest.mock('../../utils/providerStore', () => ({
+  getProviderSecrets: jest.fn().mockResolvedValue({
+    RESOURCE: 'acme',
+    DEPLOYMENT: 'gpt4o-prod',
+    API_VERSION: '2024-06-01',
+    API_KEY: 'azure-key',
+    ORG_ID: 'org-42',
+  }),
+}));
+jest.mock('../../utils/providerHealthStore');
+
+const AZURE: ProviderSpec = {
+  id: 'azure',
+  endpoint: 'https://{{RESOURCE}}.openai.azure.com/openai/deployments/{{DEPLOYMENT}}/chat/completions?api-version={{API_VERSION}}',
+  headers: { 'api-key': '{{API_KEY}}', 'OpenAI-Organization': '{{ ORG_ID }}' },
+  requestTemplate: JSON.stringify({ messages: [{ role: 'user', content: '{{prompt}}' }], user: '{{ORG_ID}}', key: '{{BODY_KEY}}' }),
+};
+
+describe('placeholders', () => {
+  it('should list unique, trimmed names in order', () => {
+    expect(findPlaceholders('{{a}} {{ b }} {{a}} {{}}')).toEqual(['a', 'b']);
+  });
+
+  it('should discover non built-in placeholders across endpoint, headers and template', () => {
+    expect(discoverSpecPlaceholders(AZURE)).toEqual([
+      { name: 'RESOURCE', locations: ['endpoint'], optional: false },
+      { name: 'DEPLOYMENT', locations: ['endpoint'], optional: false },
+      { name: 'API_VERSION', locations: ['endpoint'], optional: false },
+      { name: 'API_KEY', locations: ['headers'], optional: false },
+      { name: 'ORG_ID', locations: ['headers', 'requestTemplate'], optional: false },
+      { name: 'BODY_KEY', locations: ['requestTemplate'], optional: false },
+    ]);
+    // The modal passes the headers as the JSON text being edited.
+    expect(discoverSpecPlaceholders({ endpoint: 'https://x.test', headers: '{"Authorization": "Bearer {{API_KEY}}"}' }))
+      .toEqual([{ name: 'API_KEY', locations: ['headers'], optional: false }]);
+    // A template being typed may not parse yet.
+    expect(discoverSpecPlaceholders({ requestTemplate: '{"k":"{{KEY}}", {{#if' }))
+      .toEqual([{ name: 'KEY', locations: ['requestTemplate'], optional: false }]);
+  });
+
+  it('should treat defaulted and self-guarded placeholders as optional', () => {
+    const spec: ProviderSpec = {
+      id: 'x',
+      endpoint: 'https://x.test',
+      requestTemplate: '{"messages":{{messages}},"t":{{TEMP|default:0.2}},{{#if ORG}}"org":"{{ORG}}",{{/if}}"k":"{{KEY}}"}',
+    };
+    expect(discoverSpecPlaceholders(spec)).toEqual([
+      { name: 'TEMP', locations: ['requestTemplate'], optional: true },
+      { name: 'ORG', locations: ['requestTemplate'], optional: true },
+      { name: 'KEY', locations: ['requestTemplate'], optional: false },
+    ]);
+    expect(findMissingPlaceholders(spec, {})).toEqual(['KEY']);
+  });
+
+  it('should report placeholders without a stored value', () => {
+    expect(findMissingPlaceholders(AZURE, { RESOURCE: 'acme', API_KEY: 'k', ORG_ID: '' })).toEqual([
+      'DEPLOYMENT',
+      'API_VERSION',
+      'ORG_ID',
+      'BODY_KEY',
+    ]);
+    expect(findMissingPlaceholders({ id: 'local', endpoint: 'http://localhost:11434/api/generate' }, null)).toEqual([]);
+  });
+
+  it('should accept placeholder endpoints but still reject invalid URLs', () => {
+    expect(ProviderSpecSchema.safeParse(AZURE).success).toBe(true);
+    expect(ProviderSpecSchema.safeParse({ id: 'x', endpoint: '{{BASE_URL}}' }).success).toBe(false);
+    expect(ProviderSpecSchema.safeParse({ id: 'x', endpoint: 'ftp://files.test/llm' }).success).toBe(false);
+  });
+
+  it('should render stored values into the endpoint, headers and body', async () => {
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+    const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ message: { content: '{"type":"HOLD"}' } }] }),
+    } as Response);
+
+    const result = await buildAdapterFromSpec(AZURE).call('Analyze');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://acme.openai.azure.com/openai/deployments/gpt4o-prod/chat/completions?api-version=2024-06-01');
+    expect(init!.headers).toMatchObject({ 'api-key': 'azure-key', 'OpenAI-Organization': 'org-42' });
+    expect(JSON.parse(init!.body as string)).toEqual({ messages: [{ role: 'user', content: 'Analyze' }], user: 'org-42', key: '' });
+    expect(result.ok).toBe(true);
+
+    fetchSpy.mockRestore();
+  });
+});
@@ -0,0 +1,182 @@
+// app/services/__tests__/playbookBundle.test.ts
+import {
+  PLAYBOOK_CSV_COLUMNS,
+  exportPlaybookBundle,
+  exportPlaybookCsv,
+  formatPlaybookCsv,
+  importPlaybook,
+  parseCsvRows,
+  parsePlaybookCsv,
+  previewPlaybookImport,
+} from '../playbookBundle';
+import { loadPlaybook, savePlaybook } from '../playbookService';
+import { computePlaybookAnalytics } from '../analyticsService';
+import { config } from '../../config';
+import { createMemorySignalHistoryStorage, setSignalHistoryStorage } from '../../utils/signalHistoryStorage';
+import { SignalHistory } from '../../types';
+
+const T0 = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+const makeHistory = (id: string, overrides: Partial<SignalHistory> = {}): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome: 'PENDING',
+  signal: {
+    id,
+    symbol: 'BTCUSDT',
+    type: 'BUY',
+    confidence: 72,
+    price: 100,
+    timestamp: T0,
+    strategy: 'dynamic-llm-consensus',
+    status: 'NEW',
+    reasoning: 'Breakout above "resistance", volume up,\nRSI rising',
+    riskMetrics: { stopLoss: 95, takeProfit: 110, riskRewardRatio: 2, positionSizePercent: 2 },
+  },
+  ...overrides,
+});
+
+const closed = (outcome: 'WIN' | 'LOSS', closedAt: number): Partial<SignalHistory> => ({
+  outcome,
+  exitPrice: outcome === 'WIN' ? 110 : 95,
+  pnl: outcome === 'WIN' ? 10 : -5,
+  pnlPercent: outcome === 'WIN' ? 10 : -5,
+  durationMs: closedAt - T0,
+  closedAt,
+  hitTarget: outcome === 'WIN' ? 'TP' : 'SL',
+});
+
+const PLAYBOOK: SignalHistory[] = [
+  makeHistory('a', closed('WIN', T0 + HOUR)),
+  makeHistory('b', { signal: { ...makeHistory('b').signal, type: 'SELL', timestamp: T0 + HOUR, indicators: { mtf: {} } } }),
+  makeHistory('c', { ...closed('LOSS', T0 + 3 * HOUR), origin: 'bob', signal: { ...makeHistory('c').signal, timestamp: T0 + 2 * HOUR } }),
+];
+
+/** Moves to a fresh, empty playbook, as if on another device. */
+const switchDevice = () => setSignalHistoryStorage(createMemorySignalHistoryStorage());
+
+describe('playbookBundle', () => {
+  beforeEach(switchDevice);
+
+  it('should round-trip the playbook through a JSON export', async () => {
+    await savePlaybook([...PLAYBOOK, makeHistory('d', { embedding: { providerId: 'e', vector: [1, 2] }, signal: { ...makeHistory('d').signal, timestamp: T0 + 3 * HOUR } })]);
+    const bundle = await exportPlaybookBundle({ origin: ' alice ' });
+    expect(bundle).toMatchObject({ format: 'signals-generator/playbook', version: 1, origin: 'alice' });
+    expect(bundle.signals.find((s) => s.id === 'd')?.embedding).toBeUndefined();
+
+    switchDevice();
+    const preview = await previewPlaybookImport(JSON.stringify(bundle));
+    expect(preview).toMatchObject({ format: 'json', origin: 'alice', duplicates: 0, invalid: [], newIds: ['a', 'b', 'c', 'd'], updatedIds: [], overflow: 0 });
+    expect(await importPlaybook(preview)).toEqual({ added: 4, updated: 0, unchanged: 0, invalid: [], trimmed: 0, trimmedIds: [] });
+
+    const imported = await loadPlaybook();
+    expect(imported.slice(0, 3)).toEqual([{ ...PLAYBOOK[0], origin: 'alice' }, { ...PLAYBOOK[1], origin: 'alice' }, PLAYBOOK[2]]);
+
+    // Importing the same export again changes nothing.
+    expect(await importPlaybook(await previewPlaybookImport(bundle))).toMatchObject({ added: 0, updated: 0, unchanged: 4 });
+  });
+
+  it('should round-trip the flattened columns through a CSV export', async () => {
+    await savePlaybook(PLAYBOOK);
+    const csv = await exportPlaybookCsv();
+    const rows = parseCsvRows(csv);
+    expect(rows[0]).toEqual([...PLAYBOOK_CSV_COLUMNS]);
+    expect(rows).toHaveLength(4);
+    expect(rows[1][PLAYBOOK_CSV_COLUMNS.indexOf('reasoning')]).toBe(PLAYBOOK[0].signal.reasoning);
+
+    switchDevice();
+    const preview = await previewPlaybookImport(csv);
+    expect(preview).toMatchObject({ format: 'csv', invalid: [], newIds: ['a', 'b', 'c'] });
+    await importPlaybook(preview, { origin: 'team-sheet' });
+
+    const imported = await loadPlaybook();
+    expect(imported.map((s) => s.origin)).toEqual(['team-sheet', 'team-sheet', 'bob']);
+    // Everything but the indicator snapshot survives.
+    const { indicators, ...signalB } = PLAYBOOK[1].signal;
+    expect(imported[1]).toEqual({ ...PLAYBOOK[1], signal: signalB, origin: 'team-sheet' });
+    expect(imported[0]).toEqual({ ...PLAYBOOK[0], origin: 'team-sheet' });
+  });
+
+  it('should deduplicate by ID and keep the outcome closed last', async () => {
+    await savePlaybook([PLAYBOOK[0], makeHistory('b'), makeHistory('c', closed('LOSS', T0 + 5 * HOUR))]);
+
+    const incoming = {
+      format: 'signals-generator/playbook',
+      version: 1,
+      signals: [
+        makeHistory('b', closed('LOSS', T0 + 2 * HOUR)),
+        makeHistory('b', closed('WIN', T0 + 4 * HOUR)),
+        makeHistory('c', closed('WIN', T0 + 4 * HOUR)),
+        makeHistory('a'),
+        { id: 'broken', outcome: 'WIN' },
+      ],
+    };
+    const preview = await previewPlaybookImport(incoming);
+    expect(preview.duplicates).toBe(1);
+    expect(preview.newIds).toEqual([]);
+    expect(preview.updatedIds).toEqual(['b']);
+    expect(preview.invalid).toEqual([expect.objectContaining({ index: 4, id: 'broken' })]);
+
+    expect(await importPlaybook(preview)).toMatchObject({ added: 0, updated: 1, unchanged: 2 });
+    const byId = Object.fromEntries((await loadPlaybook()).map((s) => [s.id, s]));
+    expect(byId.b).toMatchObject({ outcome: 'WIN', closedAt: T0 + 4 * HOUR, hitTarget: 'TP' });
+    // The local copy keeps being local, and keeps its later outcome.
+    expect(byId.b.origin).toBeUndefined();
+    expect(byId.c).toMatchObject({ outcome: 'LOSS', closedAt: T0 + 5 * HOUR });
+    expect(byId.a).toEqual(PLAYBOOK[0]);
+  });
+
+  it('should reject CSV rows with cells that are not numbers', async () => {
+    const csv = formatPlaybookCsv(PLAYBOOK.slice(0, 2));
+    const [header, first, second] = parseCsvRows(csv);
+    const broken = [...second];
+    broken[PLAYBOOK_CSV_COLUMNS.indexOf('price')] = 'n/a';
+    broken[PLAYBOOK_CSV_COLUMNS.indexOf('pnl')] = ' ';
+    const noRisk = [...first];
+    ['stopLoss', 'takeProfit', 'riskRewardRatio', 'positionSizePercent'].forEach((column) => {
+      noRisk[PLAYBOOK_CSV_COLUMNS.indexOf(column as (typeof PLAYBOOK_CSV_COLUMNS)[number])] = '';
+    });
+    noRisk[0] = 'no-risk';
+
+    // The reasoning holds commas and line breaks, so it is dropped rather than quoted again.
+    const text = [header, first, broken, noRisk].map((row) => row.slice(0, -1).join(',')).join('\n');
+    expect((parsePlaybookCsv(text)[2] as SignalHistory).signal).not.toHaveProperty('riskMetrics');
+
+    const preview = await previewPlaybookImport(text);
+    expect(preview.newIds).toEqual(['a']);
+    expect(preview.invalid).toEqual([
+      { index: 1, id: 'b', issues: ['signal.price: Invalid input: expected number, received NaN', 'pnl: Invalid input: expected number, received NaN'] },
+      { index: 2, id: 'no-risk', issues: [expect.stringMatching(/^signal\.riskMetrics: /)] },
+    ]);
+  });
+
+  it('should report the signals trimmed to stay within the playbook limit', async () => {
+    jest.replaceProperty(config.playbook, 'maxSignalsToStore', 3);
+    await savePlaybook([PLAYBOOK[1], PLAYBOOK[2]]);
+    const incoming = {
+      format: 'signals-generator/playbook',
+      version: 1,
+      signals: [PLAYBOOK[0], makeHistory('d', { signal: { ...makeHistory('d').signal, timestamp: T0 + 3 * HOUR } })],
+    };
+
+    const preview = await previewPlaybookImport(incoming);
+    expect(preview).toMatchObject({ newIds: ['a', 'd'], overflow: 1 });
+    // The oldest signal is one of those imported, so it is deleted again right away.
+    expect(await importPlaybook(preview)).toMatchObject({ added: 2, trimmed: 1, trimmedIds: ['a'] });
+    expect((await loadPlaybook()).map((s) => s.id)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should reject files that are not playbook exports', async () => {
+    await expect(previewPlaybookImport('{"format":"signals-generator/providers","version":1,"providers":[]}')).rejects.toThrow('Not a playbook export');
+    await expect(previewPlaybookImport('{ nope')).rejects.toThrow('not valid JSON');
+    await expect(previewPlaybookImport({ format: 'signals-generator/playbook', version: 2, signals: [] })).rejects.toThrow('version 2');
+    await expect(previewPlaybookImport('symbol,type\nBTCUSDT,BUY')).rejects.toThrow('no id column');
+    expect(() => parseCsvRows('id,reasoning\na,"open')).toThrow('unclosed quote');
+  });
+
+  it('should let analytics keep local or imported signals only', () => {
+    const origins = (origin: 'all' | 'local' | 'imported') => computePlaybookAnalytics(PLAYBOOK, { origin }).total;
+    expect([origins('all'), origins('local'), origins('imported')]).toEqual([3, 2, 1]);
+  });
+});
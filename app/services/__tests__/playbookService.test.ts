@@ -0,0 +1,153 @@
+// app/services/__tests__/playbookService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addSignalToPlaybook,
+  filterSignalHistory,
+  getPlaybookSummary,
+  getSignalStrategy,
+  loadPlaybook,
+  queryPlaybook,
+  removeSignalFromPlaybook,
+  savePlaybook,
+  updateSignalOutcome,
+} from '../playbookService';
+import {
+  LEGACY_PLAYBOOK_KEY,
+  createMemorySignalHistoryStorage,
+  setSignalHistoryStorage,
+} from '../../utils/signalHistoryStorage';
+import { SignalHistory, SignalType } from '../../types';
+
+const T0 = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeHistory = (
+  id: string,
+  symbol: string,
+  type: SignalType,
+  outcome: SignalHistory['outcome'],
+  timestamp: number,
+  strategy?: string
+): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome,
+  signal: {
+    id,
+    symbol,
+    type,
+    confidence: 70,
+    price: 100,
+    timestamp,
+    strategy: 'dynamic-llm-consensus',
+    riskMetrics: { stopLoss: 95, takeProfit: 110, riskRewardRatio: 2, positionSizePercent: 2 },
+    ...(strategy ? { consensus: { strategy, disagreement: 0, priceDispersion: 0, dissenters: [], votes: { BUY: 1, SELL: 0, HOLD: 0 } } } : {}),
+  },
+});
+
+const PLAYBOOK = [
+  makeHistory('a', 'BTCUSDT', 'BUY', 'WIN', T0, 'MAJORITY'),
+  makeHistory('b', 'ETHUSDT', 'SELL', 'LOSS', T0 + DAY, 'WEIGHTED'),
+  makeHistory('c', 'BTCUSDT', 'SELL', 'PENDING', T0 + 2 * DAY),
+  makeHistory('d', 'btcusdc', 'BUY', 'PENDING', T0 + 3 * DAY, 'WEIGHTED'),
+];
+
+describe('playbookService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    setSignalHistoryStorage(createMemorySignalHistoryStorage());
+  });
+
+  describe('filterSignalHistory', () => {
+    it('should list every signal newest first without filters', () => {
+      expect(filterSignalHistory(PLAYBOOK, {}).map((s) => s.id)).toEqual(['d', 'c', 'b', 'a']);
+    });
+
+    it('should combine the filters', () => {
+      expect(filterSignalHistory(PLAYBOOK, { symbol: ' btc' }).map((s) => s.id)).toEqual(['d', 'c', 'a']);
+      expect(filterSignalHistory(PLAYBOOK, { symbol: 'BTC', type: 'SELL' }).map((s) => s.id)).toEqual(['c']);
+      expect(filterSignalHistory(PLAYBOOK, { outcome: 'PENDING', from: T0 + 3 * DAY }).map((s) => s.id)).toEqual(['d']);
+      expect(filterSignalHistory(PLAYBOOK, { from: T0 + DAY, to: T0 + 2 * DAY }).map((s) => s.id)).toEqual(['c', 'b']);
+      expect(filterSignalHistory(PLAYBOOK, { strategy: 'WEIGHTED' }).map((s) => s.id)).toEqual(['d', 'b']);
+    });
+
+    it('should fall back to the generating strategy for signals without a consensus', () => {
+      expect(getSignalStrategy(PLAYBOOK[0])).toBe('MAJORITY');
+      expect(getSignalStrategy(PLAYBOOK[2])).toBe('dynamic-llm-consensus');
+    });
+  });
+
+  it('should only count resolved trades in the summary win rate', async () => {
+    await savePlaybook([PLAYBOOK[2], PLAYBOOK[3]]);
+    expect(await getPlaybookSummary()).toMatchObject({ total: 2, wins: 0, losses: 0, winRate: 0 });
+
+    await savePlaybook(PLAYBOOK);
+    expect(await getPlaybookSummary()).toMatchObject({ total: 4, wins: 1, losses: 1, winRate: 50 });
+  });
+
+  it('should remove a signal from the playbook', async () => {
+    await savePlaybook(PLAYBOOK);
+    expect(await removeSignalFromPlaybook('b')).toBe(true);
+    expect(await removeSignalFromPlaybook('missing')).toBe(false);
+    expect((await loadPlaybook()).map((s) => s.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  describe('signal history storage', () => {
+    it('should query by symbol, outcome and time', async () => {
+      await savePlaybook([PLAYBOOK[3], PLAYBOOK[1], PLAYBOOK[2], PLAYBOOK[0]]);
+      const ids = async (query: Parameters<typeof queryPlaybook>[0]) => (await queryPlaybook(query)).map((s) => s.id);
+
+      expect(await ids({})).toEqual(['a', 'b', 'c', 'd']);
+      expect(await ids({ symbol: 'BTCUSDT' })).toEqual(['a', 'c']);
+      expect(await ids({ outcome: 'PENDING', order: 'desc' })).toEqual(['d', 'c']);
+      expect(await ids({ outcome: ['WIN', 'LOSS'] })).toEqual(['a', 'b']);
+      expect(await ids({ from: T0 + DAY, to: T0 + 2 * DAY })).toEqual(['b', 'c']);
+      expect(await ids({ order: 'desc', limit: 2 })).toEqual(['d', 'c']);
+    });
+
+    it('should update a single signal without touching the others', async () => {
+      const storage = createMemorySignalHistoryStorage(PLAYBOOK);
+      setSignalHistoryStorage(storage);
+
+      expect(await updateSignalOutcome('c', { outcome: 'WIN', pnlPercent: 3 })).toBe(true);
+      expect(await updateSignalOutcome('missing', { outcome: 'WIN' })).toBe(false);
+      expect(await updateSignalOutcome('c', { outcome: 'LOSS' }, { expectOutcome: 'PENDING' })).toBe(false);
+      expect(await storage.get('c')).toMatchObject({ id: 'c', outcome: 'WIN', pnlPercent: 3, signal: { symbol: 'BTCUSDT' } });
+      expect(await storage.get('d')).toEqual(PLAYBOOK[3]);
+      expect(await storage.count({ outcome: 'PENDING' })).toBe(1);
+    });
+
+    it('should drop the oldest signals beyond the limit', async () => {
+      const storage = createMemorySignalHistoryStorage(PLAYBOOK);
+      expect(await storage.trim(2)).toEqual(['b', 'a']);
+      expect((await storage.query()).map((s) => s.id)).toEqual(['c', 'd']);
+    });
+
+    it('should keep the latest copy of a signal added twice', async () => {
+      await addSignalToPlaybook(PLAYBOOK[0]);
+      await addSignalToPlaybook({ ...PLAYBOOK[0], outcome: 'LOSS' });
+      expect(await loadPlaybook()).toEqual([{ ...PLAYBOOK[0], outcome: 'LOSS' }]);
+    });
+
+    it('should import the old playbook once and remove its key', async () => {
+      await AsyncStorage.setItem(LEGACY_PLAYBOOK_KEY, JSON.stringify(PLAYBOOK.slice(0, 2)));
+      setSignalHistoryStorage(createMemorySignalHistoryStorage([PLAYBOOK[2]]));
+
+      expect((await loadPlaybook()).map((s) => s.id)).toEqual(['a', 'b', 'c']);
+      expect(await AsyncStorage.getItem(LEGACY_PLAYBOOK_KEY)).toBeNull();
+    });
+
+    it('should keep the old playbook if it cannot be imported', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      await AsyncStorage.setItem(LEGACY_PLAYBOOK_KEY, JSON.stringify(PLAYBOOK));
+      const storage = createMemorySignalHistoryStorage();
+      storage.put = jest.fn(() => Promise.reject(new Error('disk full')));
+      setSignalHistoryStorage(storage);
+
+      expect(await loadPlaybook()).toEqual([]);
+      expect(await AsyncStorage.getItem(LEGACY_PLAYBOOK_KEY)).not.toBeNull();
+      await AsyncStorage.removeItem(LEGACY_PLAYBOOK_KEY);
+      warn.mockRestore();
+    });
+  });
+});
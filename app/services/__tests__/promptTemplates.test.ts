@@ -0,0 +1,94 @@
+// app/services/__tests__/promptTemplates.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PROMPT_TEMPLATE, renderSignalPrompt, selectPromptVersion } from '../promptTemplates';
+import { buildSignalPrompt } from '../signalService';
+import { computePromptVersionStats } from '../playbookService';
+import {
+  deletePromptTemplateVersion,
+  getPromptTemplates,
+  savePromptTemplateVersion,
+  setActivePromptVersion,
+  setPromptSplit,
+} from '../../utils/promptTemplateStore';
+import { SignalHistory } from '../../types';
+
+jest.mock('../../utils/providerStore');
+jest.mock('../../utils/providerHealthStore');
+
+const VARS = { symbol: 'BTCUSDT', mtfSummary: 'Trend: "up"\nRSI: 61', examples: 'No relevant past examples found.' };
+
+describe('promptTemplates', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should render the default template like the former hardcoded prompt', () => {
+    expect(buildSignalPrompt(VARS.symbol, VARS.mtfSummary, VARS.examples)).toBe(
+      `Symbol: BTCUSDT\n\n## Current Market Analysis\nTrend: "up"\nRSI: 61\n\n` +
+      `## Relevant Past Examples\nNo relevant past examples found.\n\n` +
+      `## Instruction\nBased on the analysis and past examples, generate a structured JSON trading signal ` +
+      `with fields: type (BUY|SELL|HOLD), confidence (0-100), price (number), stopLoss (number), takeProfit (number), and reasoning (string).`
+    );
+  });
+
+  it('should include extra context and risk settings only when given', () => {
+    const prompt = renderSignalPrompt(DEFAULT_PROMPT_TEMPLATE, { ...VARS, extraContext: 'FOMC at 18:00', positionRiskPercent: 1.5 });
+    expect(prompt).toContain('## Additional Context\nFOMC at 18:00\n\n');
+    expect(prompt).toContain('risk 1.5% of the portfolio');
+    expect(renderSignalPrompt('{{symbol}} on {{timeframes|default:"all timeframes"}}', VARS)).toBe('BTCUSDT on all timeframes');
+  });
+
+  it('should pick the active version, or split between two versions', () => {
+    const versions = [1, 2, 3].map((version) => ({ version, body: `v${version}`, createdAt: 0 }));
+    expect(selectPromptVersion({ versions, activeVersion: 2, split: null }, 0).version).toBe(2);
+
+    const split = { versionA: 1, versionB: 3, shareB: 0.25 };
+    expect(selectPromptVersion({ versions, activeVersion: 1, split }, 0.1).version).toBe(3);
+    expect(selectPromptVersion({ versions, activeVersion: 1, split }, 0.9).version).toBe(1);
+    expect(selectPromptVersion({ versions, activeVersion: 9, split: null }).version).toBe(1);
+  });
+
+  it('should store versions, the active version and the split', async () => {
+    expect(await getPromptTemplates()).toMatchObject({ activeVersion: 1, split: null, versions: [{ version: 1, body: DEFAULT_PROMPT_TEMPLATE }] });
+
+    const v2 = await savePromptTemplateVersion('Signal for {{symbol}}', { label: ' shorter ' });
+    const v3 = await savePromptTemplateVersion('{{symbol}}: {{mtfSummary}}', { activate: true });
+    expect([v2.version, v2.label, v3.version]).toEqual([2, 'shorter', 3]);
+    expect((await getPromptTemplates()).activeVersion).toBe(3);
+
+    await setActivePromptVersion(2);
+    await setPromptSplit({ versionA: 2, versionB: 3, shareB: 0.5 });
+    expect(await getPromptTemplates()).toMatchObject({ activeVersion: 2, split: { versionA: 2, versionB: 3, shareB: 0.5 } });
+
+    await expect(deletePromptTemplateVersion(3)).rejects.toThrow('Prompt version 3 is in use');
+    await setPromptSplit(null);
+    await deletePromptTemplateVersion(3);
+    expect((await getPromptTemplates()).versions.map((v) => v.version)).toEqual([1, 2]);
+    // Numbers are not reused, so stored signals never point at a different text.
+    expect((await savePromptTemplateVersion('again {{symbol}}')).version).toBe(4);
+  });
+
+  it('should reject invalid templates and unknown versions', async () => {
+    await expect(savePromptTemplateVersion('{{#if extraContext}}open')).rejects.toThrow('Invalid prompt template: Unclosed {{#if}}');
+    await expect(setActivePromptVersion(7)).rejects.toThrow('Unknown prompt version 7');
+    await expect(setPromptSplit({ versionA: 1, versionB: 1, shareB: 0.5 })).rejects.toThrow('two different versions');
+  });
+
+  it('should report the win rate per prompt version', () => {
+    const item = (promptVersion: number | undefined, outcome: SignalHistory['outcome'], pnlPercent?: number) =>
+      ({ id: 'x', outcome, pnlPercent, entryPrice: 100, signal: { promptVersion } } as SignalHistory);
+
+    expect(computePromptVersionStats([
+      item(2, 'WIN', 4),
+      item(1, 'LOSS', -2),
+      item(2, 'LOSS', -1),
+      item(2, 'PENDING'),
+      item(1, 'WIN', 3),
+      item(1, 'WIN', 2),
+      item(undefined, 'WIN', 9),
+    ])).toEqual([
+      { version: 1, total: 3, wins: 2, losses: 1, winRate: 66.67, avgPnl: 1 },
+      { version: 2, total: 3, wins: 1, losses: 1, winRate: 50, avgPnl: 1.5 },
+    ]);
+  });
+});
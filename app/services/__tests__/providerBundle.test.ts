@@ -0,0 +1,131 @@
+// app/services/__tests__/providerBundle.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { exportProviderBundle, importProviderBundle, previewProviderImport } from '../providerBundle';
+import { MAX_PBKDF2_ITERATIONS, decryptWithPassphrase, encryptWithPassphrase } from '../secretCipher';
+import { getProviderSecrets, listProviderSpecs, saveProviderSpec, storeProviderSecret } from '../../utils/providerStore';
+
+const OPENAI = { id: 'openai', name: 'OpenAI', endpoint: 'https://api.openai.com/v1/chat/completions', headers: { Authorization: 'Bearer {{API_KEY}}' } };
+const LOCAL = { id: 'local', endpoint: 'http://localhost:11434/api/generate' };
+
+describe('secretCipher', () => {
+  it('should decrypt payloads exported by earlier versions', () => {
+    const payload = {
+      cipher: 'pbkdf2-sha256+hmac-ctr' as const,
+      iterations: 1000,
+      salt: 'c81bb12baf99b47377cd037c3896652a',
+      iv: '1adf7ea1e568579cf676515fa4c982e9',
+      data: 'c15e3c516a596c41030ec425b622b3948927a4d88d',
+      mac: 'b67477e8c932e62f4d9efbe404b4d000941756abf25b7bf721a4bfcbc1503b27',
+    };
+    expect(decryptWithPassphrase(payload, 'correct horse')).toBe('{"API_KEY":"sk-test"}');
+  });
+
+  it('should refuse iteration counts above the cap before deriving a key', () => {
+    const payload = encryptWithPassphrase('secret', 'pass', 1000);
+    expect(() => decryptWithPassphrase({ ...payload, iterations: 1e9 }, 'pass')).toThrow('Unsupported PBKDF2 iteration count');
+    expect(() => encryptWithPassphrase('secret', 'pass', MAX_PBKDF2_ITERATIONS + 1)).toThrow('Unsupported PBKDF2 iteration count');
+  });
+
+  it('should round-trip text and reject a wrong passphrase or tampering', () => {
+    const payload = encryptWithPassphrase('{"key":"sk-ünïcode 🔑"}', 'correct horse', 1000);
+    expect(payload.data).not.toContain('sk-');
+    expect(decryptWithPassphrase(payload, 'correct horse')).toBe('{"key":"sk-ünïcode 🔑"}');
+    expect(() => decryptWithPassphrase(payload, 'wrong')).toThrow('Wrong passphrase');
+    const flipped = (payload.data[0] === '0' ? '1' : '0') + payload.data.slice(1);
+    expect(() => decryptWithPassphrase({ ...payload, data: flipped }, 'correct horse')).toThrow('Wrong passphrase');
+  });
+});
+
+describe('providerBundle', () => {
+  let secure: Record<string, string>;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    secure = {};
+    (SecureStore.getItemAsync as jest.Mock).mockImplementation((k: string) => Promise.resolve(secure[k] ?? null));
+    (SecureStore.setItemAsync as jest.Mock).mockImplementation((k: string, v: string) => Promise.resolve(void (secure[k] = v)));
+    (SecureStore.deleteItemAsync as jest.Mock).mockImplementation((k: string) => Promise.resolve(void delete secure[k]));
+  });
+
+  const switchDevice = async () => {
+    await AsyncStorage.clear();
+    secure = {};
+  };
+
+  it('should export specs without secrets by default', async () => {
+    await saveProviderSpec(OPENAI);
+    await storeProviderSecret('openai', 'API_KEY', 'sk-live');
+    const bundle = await exportProviderBundle();
+    expect(bundle).toMatchObject({ format: 'signals-generator/providers', version: 1, providers: [OPENAI] });
+    expect(bundle.secrets).toBeUndefined();
+    expect(JSON.stringify(bundle)).not.toContain('sk-live');
+  });
+
+  it('should carry secrets encrypted and restore them with the passphrase', async () => {
+    await saveProviderSpec(OPENAI);
+    await saveProviderSpec(LOCAL);
+    await storeProviderSecret('openai', 'API_KEY', 'sk-live');
+    const json = JSON.stringify(await exportProviderBundle({ passphrase: 'team secret' }));
+    expect(json).not.toContain('sk-live');
+
+    await switchDevice();
+    const preview = await previewProviderImport(json);
+    expect(preview).toMatchObject({ conflicts: [], invalid: [], hasSecrets: true });
+
+    await expect(importProviderBundle(preview, { passphrase: 'nope' })).rejects.toThrow('Wrong passphrase');
+    expect(await listProviderSpecs()).toEqual([]);
+
+    const report = await importProviderBundle(preview, { passphrase: 'team secret' });
+    expect(report).toMatchObject({ added: ['openai', 'local'], secretsImported: 1 });
+    expect(await getProviderSecrets('openai')).toEqual({ API_KEY: 'sk-live' });
+  });
+
+  it('should report invalid entries and resolve conflicts per ID', async () => {
+    await saveProviderSpec(OPENAI);
+    await saveProviderSpec(LOCAL);
+    await saveProviderSpec({ ...LOCAL, id: 'local-2' });
+    const bundle = {
+      format: 'signals-generator/providers',
+      version: 1,
+      providers: [
+        { ...OPENAI, name: 'Imported OpenAI' },
+        { ...LOCAL, name: 'Imported local' },
+        { id: 'broken', endpoint: 'not a url' },
+        { ...LOCAL, name: 'Duplicate' },
+        { id: 'new', endpoint: 'https://example.com' },
+      ],
+    };
+
+    const preview = await previewProviderImport(bundle);
+    expect(preview.conflicts).toEqual(['openai', 'local']);
+    expect(preview.invalid).toEqual([
+      { index: 2, id: 'broken', issues: ['endpoint: Invalid URL format'] },
+      { index: 3, id: 'local', issues: ['Duplicate ID in bundle'] },
+    ]);
+
+    const report = await importProviderBundle(preview, { resolutions: { openai: 'overwrite', local: 'rename' } });
+    expect(report).toMatchObject({ added: ['new'], overwritten: ['openai'], renamed: [{ from: 'local', to: 'local-3' }], skipped: [] });
+    const saved = await listProviderSpecs();
+    expect(saved.map((s) => [s.id, s.name])).toEqual([
+      ['openai', 'Imported OpenAI'],
+      ['local', undefined],
+      ['local-2', undefined],
+      ['local-3', 'Imported local'],
+      ['new', undefined],
+    ]);
+
+    const skipped = await importProviderBundle(await previewProviderImport(bundle));
+    expect(skipped).toMatchObject({ added: [], skipped: ['openai', 'local', 'new'] });
+  });
+
+  it('should reject files that are not bundles or are too new', async () => {
+    await expect(previewProviderImport('{oops')).rejects.toThrow('not valid JSON');
+    await expect(previewProviderImport({ providers: [] })).rejects.toThrow('Not a provider bundle');
+    await expect(previewProviderImport({ format: 'signals-generator/providers', version: 99, providers: [] }))
+      .rejects.toThrow('Unsupported bundle version 99');
+    const secrets = { ...encryptWithPassphrase('{}', 'pass', 1000), iterations: 1e9 };
+    await expect(previewProviderImport({ format: 'signals-generator/providers', version: 1, providers: [], secrets }))
+      .rejects.toThrow('Invalid provider bundle');
+  });
+});
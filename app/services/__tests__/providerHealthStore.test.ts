@@ -0,0 +1,133 @@
+// app/services/__tests__/providerHealthStore.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  acquireCallPermit,
+  getHealthStatus,
+  recordFailure,
+  recordSuccess,
+  resetHealthStatus,
+} from '../../utils/providerHealthStore';
+import { classifyHttpError, classifyThrownError, parseRetryAfter } from '../providerErrors';
+import { ProviderError } from '../../types';
+import { config } from '../../config';
+
+const SERVER_ERROR: ProviderError = { errorClass: 'SERVER', message: 'HTTP 500', status: 500 };
+const headers = (values: Record<string, string>) => ({ get: (name: string) => values[name] ?? null });
+
+describe('providerHealthStore', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await resetHealthStatus('p');
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should only judge the failure rate once the window has the minimum number of calls', async () => {
+    await recordSuccess('p');
+    await recordFailure('p', SERVER_ERROR);
+    expect((await getHealthStatus('p')).state).toBe('CLOSED');
+
+    // 2 failures in 3 calls reaches the 50% failure rate.
+    await recordFailure('p', SERVER_ERROR);
+    const health = await getHealthStatus('p');
+    expect(health).toMatchObject({
+      state: 'OPEN',
+      failureCount: 2,
+      openUntil: now + config.circuitBreaker.openTimeoutMs,
+      openReason: '67% of the last 3 calls failed',
+      lastError: { errorClass: 'SERVER', status: 500, at: now },
+    });
+    expect(health.window!.map((r) => r.failed)).toEqual([false, true, true]);
+  });
+
+  it('should keep a sliding window of the most recent calls', async () => {
+    for (let i = 0; i < config.circuitBreaker.windowSize; i++) await recordSuccess('p');
+    await recordFailure('p', SERVER_ERROR);
+    const health = await getHealthStatus('p');
+    expect(health.window).toHaveLength(config.circuitBreaker.windowSize);
+    expect(health.state).toBe('CLOSED');
+
+    now += config.circuitBreaker.windowMs + 1;
+    await recordSuccess('p');
+    expect((await getHealthStatus('p')).window).toHaveLength(1);
+  });
+
+  it('should open for the Retry-After of a rate limit without counting it as a failure', async () => {
+    await recordFailure('p', classifyHttpError({ status: 429, headers: headers({ 'Retry-After': '5' }) }));
+    const health = await getHealthStatus('p');
+    expect(health).toMatchObject({ state: 'OPEN', failureCount: 0, openUntil: now + 5000, openReason: 'Rate limited (HTTP 429)' });
+    expect(health.window![0]).toMatchObject({ failed: false, errorClass: 'RATE_LIMIT' });
+
+    now += 5000;
+    expect((await getHealthStatus('p')).state).toBe('HALF_OPEN');
+  });
+
+  it('should let a single probe through when half-open, and close the circuit when it succeeds', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('p', SERVER_ERROR);
+    expect(await acquireCallPermit('p')).toMatchObject({ allowed: false, probe: false });
+
+    now += config.circuitBreaker.openTimeoutMs;
+    const [first, second] = await Promise.all([acquireCallPermit('p'), acquireCallPermit('p')]);
+    expect(first).toMatchObject({ allowed: true, probe: true });
+    expect(second).toMatchObject({ allowed: false, probe: false });
+
+    await recordSuccess('p', 1200);
+    const health = await getHealthStatus('p');
+    expect(health).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+    expect(health.openReason).toBeUndefined();
+    expect(health.window).toHaveLength(1);
+    expect(await acquireCallPermit('p')).toMatchObject({ allowed: true, probe: false });
+  });
+
+  it('should reopen the circuit when the probe fails, honoring Retry-After', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('p', SERVER_ERROR);
+    now += config.circuitBreaker.openTimeoutMs;
+    await acquireCallPermit('p');
+
+    await recordFailure('p', { errorClass: 'SERVER', message: 'HTTP 503', status: 503, retryAfterMs: 120000 });
+    expect(await getHealthStatus('p')).toMatchObject({ state: 'OPEN', openUntil: now + 120000, openReason: 'Probe failed: HTTP 503' });
+    // The next probe can go out once the circuit half-opens again.
+    now += 120000;
+    expect(await acquireCallPermit('p')).toMatchObject({ allowed: true, probe: true });
+  });
+
+  it('should open the circuit when most calls are slow', async () => {
+    const slow = config.circuitBreaker.slowCallMs;
+    await recordSuccess('p', slow);
+    await recordSuccess('p', slow + 1);
+    await recordSuccess('p', slow * 2);
+    expect(await getHealthStatus('p')).toMatchObject({ state: 'OPEN', failureCount: 0, openReason: '100% of the last 3 calls were slow' });
+  });
+
+  it('should keep an open circuit open when a call that was already in flight reports back', async () => {
+    await recordFailure('p', classifyHttpError({ status: 429, headers: headers({ 'Retry-After': '30' }) }));
+    await recordSuccess('p');
+    await recordFailure('p', SERVER_ERROR);
+    expect(await getHealthStatus('p')).toMatchObject({ state: 'OPEN', openUntil: now + 30000, lastError: { errorClass: 'SERVER' } });
+  });
+
+  describe('providerErrors', () => {
+    it('should classify HTTP statuses and thrown errors', () => {
+      expect(classifyHttpError({ status: 401 })).toEqual({ errorClass: 'CLIENT', message: 'HTTP 401', status: 401 });
+      expect(classifyHttpError({ status: 504 }).errorClass).toBe('TIMEOUT');
+      expect(classifyHttpError({ status: 502, headers: headers({}) })).toMatchObject({ errorClass: 'SERVER', retryAfterMs: undefined });
+      const abort = Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+      expect(classifyThrownError(abort).errorClass).toBe('TIMEOUT');
+      expect(classifyThrownError(new Error('Stream idle for 9000ms')).errorClass).toBe('TIMEOUT');
+      expect(classifyThrownError(new TypeError('Network request failed'))).toEqual({ errorClass: 'NETWORK', message: 'Network request failed' });
+    });
+
+    it('should parse Retry-After as seconds or as an HTTP date', () => {
+      const at = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('120')).toBe(120000);
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', at)).toBe(30000);
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', at)).toBe(0);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+// app/services/__tests__/providerManagement.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useSignalStore } from '../../store/useSignalStore';
+import { generateTradingSignal } from '../signalService';
+import { listProviderSpecs, saveProviderSpec, setProviderEnabled } from '../../utils/providerStore';
+import { getHealthStatus, recordFailure, resetHealthStatus } from '../../utils/providerHealthStore';
+import { ProviderError } from '../../types';
+
+jest.mock('@react-native-community/netinfo', () => ({ fetch: jest.fn(() => Promise.resolve({ isConnected: true })) }));
+jest.mock('../signalService', () => ({ generateTradingSignal: jest.fn() }));
+
+const SERVER_ERROR: ProviderError = { errorClass: 'SERVER', message: 'HTTP 500', status: 500 };
+
+describe('provider management', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await Promise.all(['a', 'b'].map(resetHealthStatus));
+    (generateTradingSignal as jest.Mock).mockReset().mockResolvedValue({ final: null, providerResponses: [] });
+    await saveProviderSpec({ id: 'a', endpoint: 'https://a.test' });
+    await saveProviderSpec({ id: 'b', endpoint: 'https://b.test' });
+  });
+
+  it('should persist whether a provider is enabled', async () => {
+    await setProviderEnabled('b', false);
+    expect(await listProviderSpecs()).toEqual([
+      { id: 'a', endpoint: 'https://a.test' },
+      { id: 'b', endpoint: 'https://b.test', enabled: false },
+    ]);
+    await setProviderEnabled('b', true);
+    expect((await listProviderSpecs())[1].enabled).toBe(true);
+    await expect(setProviderEnabled('missing', false)).rejects.toThrow('Unknown provider: missing');
+  });
+
+  it('should skip disabled providers when generating', async () => {
+    await setProviderEnabled('b', false);
+    await useSignalStore.getState().refreshProviders();
+    await useSignalStore.getState().generate('BTCUSDT');
+    expect((generateTradingSignal as jest.Mock).mock.calls[0][1].map((s: { id: string }) => s.id)).toEqual(['a']);
+
+    await setProviderEnabled('a', false);
+    await useSignalStore.getState().refreshProviders();
+    await expect(useSignalStore.getState().generate('BTCUSDT')).rejects.toThrow('No enabled, healthy LLM providers');
+  });
+
+  it('should clear the health state on reset', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('a', SERVER_ERROR);
+    expect(await getHealthStatus('a')).toMatchObject({ state: 'OPEN', failureCount: 3 });
+
+    await resetHealthStatus('a');
+    expect(await getHealthStatus('a')).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+  });
+});
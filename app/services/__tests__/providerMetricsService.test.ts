@@ -0,0 +1,118 @@
+// app/services/__tests__/providerMetricsService.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { buildStateTimeline, summarizeProviderMetrics } from '../providerMetricsService';
+import { percentile } from '../performanceMetrics';
+import {
+  METRICS_RETENTION,
+  clearProviderMetrics,
+  getProviderMetrics,
+  recordCallMetric,
+} from '../../utils/providerMetricsStore';
+import { acquireCallPermit, recordFailure, recordSuccess, resetHealthStatus } from '../../utils/providerHealthStore';
+import { ProviderCallMetric } from '../../types';
+import { config } from '../../config';
+
+const call = (at: number, latencyMs: number, outcome: ProviderCallMetric['outcome'] = 'SUCCESS'): ProviderCallMetric => ({
+  at,
+  latencyMs,
+  outcome,
+  error: outcome === 'SUCCESS' ? undefined : `${outcome} error`,
+});
+
+describe('providerMetricsService', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should interpolate percentiles between ranks', () => {
+    expect(percentile([], 50)).toBe(0);
+    expect(percentile([400, 100, 300, 200], 50)).toBe(250);
+    expect(percentile([100, 200, 300, 400, 500], 95)).toBe(480);
+    expect(percentile([100, 200], 100)).toBe(200);
+  });
+
+  it('should summarize the calls within the period', () => {
+    const summary = summarizeProviderMetrics(
+      {
+        providerId: 'p',
+        calls: [
+          call(now - 10_000, 9000, 'TIMEOUT'),
+          call(now - 4000, 100),
+          call(now - 3000, 300),
+          call(now - 2000, 200, 'SCHEMA'),
+          call(now - 1000, 400, 'SERVER'),
+        ],
+        transitions: [],
+      },
+      { since: now - 5000, now, recentErrorCount: 1 }
+    );
+    expect(summary).toMatchObject({
+      calls: 4,
+      successRate: 0.5,
+      schemaFailureRate: 0.25,
+      p50LatencyMs: 250,
+      p95LatencyMs: 385,
+      outcomes: { SUCCESS: 2, SCHEMA: 1, SERVER: 1 },
+    });
+    expect(summary.recentErrors).toEqual([call(now - 1000, 400, 'SERVER')]);
+    expect(summary.timeline).toEqual([{ state: 'CLOSED', start: now - 5000, end: now }]);
+  });
+
+  it('should rebuild the circuit states over the period from the transitions', () => {
+    const transitions = [
+      { at: 100, from: 'CLOSED' as const, to: 'OPEN' as const, reason: 'Rate limited (HTTP 429)' },
+      { at: 200, from: 'OPEN' as const, to: 'HALF_OPEN' as const },
+      { at: 250, from: 'HALF_OPEN' as const, to: 'CLOSED' as const },
+    ];
+    expect(buildStateTimeline(transitions, 150, 300)).toEqual([
+      { state: 'OPEN', start: 150, end: 200 },
+      { state: 'HALF_OPEN', start: 200, end: 250 },
+      { state: 'CLOSED', start: 250, end: 300 },
+    ]);
+    // Without an earlier transition, the period starts in the state the first transition left.
+    expect(buildStateTimeline(transitions, 0, 150)).toEqual([
+      { state: 'CLOSED', start: 0, end: 100 },
+      { state: 'OPEN', start: 100, end: 150 },
+    ]);
+  });
+
+  it('should keep the stored history within the retention limits', async () => {
+    await recordCallMetric('p', call(now - METRICS_RETENTION.maxAgeMs - 1, 100));
+    for (let i = 0; i < METRICS_RETENTION.maxCalls + 5; i++) {
+      await recordCallMetric('p', call(now + i, i));
+    }
+    const metrics = await getProviderMetrics('p');
+    expect(metrics.calls).toHaveLength(METRICS_RETENTION.maxCalls);
+    expect(metrics.calls[0].latencyMs).toBe(5);
+
+    await clearProviderMetrics('p');
+    expect((await getProviderMetrics('p')).calls).toEqual([]);
+  });
+
+  it('should record the circuit transitions of the health store', async () => {
+    await resetHealthStatus('p');
+    for (let i = 0; i < 3; i++) await recordFailure('p', { errorClass: 'SERVER', message: 'HTTP 500', status: 500 });
+    now += config.circuitBreaker.openTimeoutMs;
+    await acquireCallPermit('p');
+    now += 1000;
+    await recordSuccess('p', 800);
+
+    const { transitions } = await getProviderMetrics('p');
+    expect(transitions.map((t) => [t.from, t.to])).toEqual([
+      ['CLOSED', 'OPEN'],
+      ['OPEN', 'HALF_OPEN'],
+      ['HALF_OPEN', 'CLOSED'],
+    ]);
+    expect(transitions[0].reason).toBe('100% of the last 3 calls failed');
+
+    for (let i = 0; i < 3; i++) await recordFailure('p', { errorClass: 'SERVER', message: 'HTTP 500', status: 500 });
+    await resetHealthStatus('p');
+    expect((await getProviderMetrics('p')).transitions.slice(-1)[0]).toMatchObject({ from: 'OPEN', to: 'CLOSED', reason: 'Reset manually' });
+  });
+});
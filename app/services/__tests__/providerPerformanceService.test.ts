@@ -0,0 +1,91 @@
+// app/services/__tests__/providerPerformanceService.test.ts
+import {
+  computeProviderPerformance,
+  computeSymbolPerformance,
+  getProviderWeight,
+  scoreProviderVote,
+} from '../providerPerformanceService';
+import { aggregateSignals } from '../signalService';
+import { LLMResponseParsed, ProviderSignal, SignalHistory } from '../../types';
+
+const resolved = (symbol: string, exitPrice: number, votes: ProviderSignal[]): SignalHistory => ({
+  id: `${symbol}-${exitPrice}`,
+  signal: {
+    id: 's', symbol, type: 'BUY', confidence: 60, price: 100, timestamp: 0,
+    riskMetrics: { stopLoss: 90, takeProfit: 110, riskRewardRatio: 1, positionSizePercent: 2 },
+  },
+  outcome: exitPrice > 100 ? 'WIN' : 'LOSS',
+  entryPrice: 100,
+  exitPrice,
+  providerSignals: votes,
+});
+
+const vote = (providerId: string, type: ProviderSignal['type'], confidence = 80): ProviderSignal => ({ providerId, type, confidence });
+
+describe('providerPerformanceService', () => {
+  describe('scoreProviderVote', () => {
+    it('should score votes against the realized move, not the consensus', () => {
+      const item = resolved('BTCUSDT', 90, []);
+      expect(scoreProviderVote(vote('a', 'BUY'), item)).toBeCloseTo(-10);
+      expect(scoreProviderVote(vote('b', 'SELL'), item)).toBeCloseTo(10);
+      expect(scoreProviderVote(vote('c', 'HOLD'), item)).toBeNull();
+      expect(scoreProviderVote(vote('a', 'BUY'), { ...item, outcome: 'PENDING', exitPrice: undefined })).toBeNull();
+    });
+  });
+
+  describe('computeProviderPerformance', () => {
+    const history = [
+      resolved('BTCUSDT', 110, [vote('good', 'BUY', 90), vote('bad', 'SELL', 90)]),
+      resolved('BTCUSDT', 95, [vote('good', 'SELL', 70), vote('bad', 'BUY', 60)]),
+      resolved('ETHUSDT', 105, [vote('good', 'SELL', 50), vote('bad', 'BUY', 50)]),
+    ];
+
+    it('should compute hit rate, average PnL, calibration and a prior-smoothed weight', () => {
+      const perf = computeProviderPerformance(history);
+      expect(perf.good).toMatchObject({ calls: 3, hits: 2 });
+      expect(perf.good.hitRate).toBeCloseTo(2 / 3);
+      expect(perf.good.avgPnlPercent).toBeCloseTo((10 + 5 - 5) / 3);
+      expect(perf.good.brierScore).toBeCloseTo((0.01 + 0.09 + 0.25) / 3);
+      expect(perf.good.weight).toBeCloseTo(4 / 7);
+      expect(perf.bad.weight).toBeCloseTo(3 / 7);
+    });
+
+    it('should filter by symbol', () => {
+      const perf = computeProviderPerformance(history, 'btcusdt');
+      expect(perf.good).toMatchObject({ calls: 2, hits: 2 });
+      expect(perf.bad).toMatchObject({ calls: 2, hits: 0 });
+    });
+
+    it('should prefer the record on the symbol once it has enough votes', () => {
+      const perf = computeSymbolPerformance(history, 'BTCUSDT', 2);
+      expect(perf.good).toMatchObject({ calls: 2, hits: 2, symbol: 'BTCUSDT' });
+      // Too few votes on ETHUSDT: the record across all symbols is used.
+      const fallback = computeSymbolPerformance(history, 'ETHUSDT', 2).good;
+      expect(fallback).toMatchObject({ calls: 3, hits: 2 });
+      expect(fallback.symbol).toBeUndefined();
+    });
+
+    it('should give providers without a record the prior mean', () => {
+      expect(getProviderWeight({}, 'new')).toBe(0.5);
+    });
+  });
+
+  describe('PERFORMANCE_WEIGHTED aggregation', () => {
+    const response = (providerId: string, type: 'BUY' | 'SELL', confidence: number): LLMResponseParsed => ({
+      providerId, ok: true, raw: {}, parsed: { type, confidence, price: 100 },
+    });
+
+    it('should weigh votes by each provider’s track record', () => {
+      const history = Array.from({ length: 20 }, (_, i) => resolved('BTCUSDT', 110 + i, [vote('veteran', 'BUY')]));
+      const performance = computeProviderPerformance(history, 'BTCUSDT');
+      const parsed = [response('veteran', 'BUY', 70), response('new1', 'SELL', 70), response('new2', 'SELL', 70)];
+
+      expect(aggregateSignals(parsed, 'WEIGHTED')!.type).toBe('SELL');
+      // 22/24 * 70 = 64.2 for BUY against 2 * 0.5 * 70 = 70 for SELL; a small edge is not enough...
+      expect(aggregateSignals(parsed, 'PERFORMANCE_WEIGHTED', performance)!.type).toBe('SELL');
+      // ...but a high-confidence call from the proven provider is.
+      parsed[0].parsed!.confidence = 90;
+      expect(aggregateSignals(parsed, 'PERFORMANCE_WEIGHTED', performance)!.type).toBe('BUY');
+    });
+  });
+});
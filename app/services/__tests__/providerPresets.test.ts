@@ -0,0 +1,105 @@
+// app/services/__tests__/providerPresets.test.ts
+import { PROVIDER_PRESETS, buildSpecFromPreset, getProviderPreset } from '../providerPresets';
+import { buildAdapterFromSpec } from '../llmService';
+import { ProviderSpecSchema } from '../../schemas';
+import * as helpers from '../_utils_helpers';
+import * as healthStore from '../../utils/providerHealthStore';
+
+jest.mock('../../utils/providerStore', () => ({
+  getProviderSecrets: jest.fn().mockResolvedValue({ API_KEY: 'sk-test' }),
+}));
+jest.mock('../../utils/providerHealthStore');
+
+const SIGNAL = { type: 'BUY', confidence: 72, price: 100, stopLoss: 95, takeProfit: 110 };
+const TEXT = `Analysis done.\n${JSON.stringify(SIGNAL)}`;
+
+const chatCompletion = { choices: [{ message: { role: 'assistant', content: TEXT } }] };
+
+// A prompt shaped like the one generateTradingSignal builds, with quotes, line breaks and braces.
+const PROMPT = 'Symbol: BTC/USD\n\n## Current Market Analysis\nRSI "overbought" at 71\\72, {{not a placeholder}}\n\n## Instruction\nReply in JSON.';
+const SYSTEM = 'You are a "careful" analyst.\nReply with JSON only.';
+
+// Sample responses in each API's documented shape, and where each request puts the prompts.
+const chatUser = (b: any) => b.messages.find((m: any) => m.role === 'user').content;
+const chatSystem = (b: any) => b.messages.find((m: any) => m.role === 'system')?.content;
+const CASES: Record<string, {
+  response: any;
+  prompt: (body: any) => string;
+  system?: (body: any) => string | undefined;
+  auth: Record<string, string>;
+}> = {
+  openai: { response: chatCompletion, prompt: chatUser, system: chatSystem, auth: { Authorization: 'Bearer sk-test' } },
+  anthropic: {
+    response: { content: [{ type: 'text', text: 'Analysis done.' }, { type: 'text', text: JSON.stringify(SIGNAL) }] },
+    prompt: chatUser,
+    system: (b) => b.system,
+    auth: { 'x-api-key': 'sk-test', 'anthropic-version': '2023-06-01' },
+  },
+  gemini: {
+    response: { candidates: [{ content: { role: 'model', parts: [{ text: TEXT }] } }] },
+    prompt: (b) => b.contents[0].parts[0].text,
+    system: (b) => b.systemInstruction.parts[0].text,
+    auth: { 'x-goog-api-key': 'sk-test' },
+  },
+  ollama: { response: { model: 'llama3.1', response: JSON.stringify(SIGNAL), done: true }, prompt: (b) => b.prompt, auth: {} },
+  mistral: { response: chatCompletion, prompt: chatUser, system: chatSystem, auth: { Authorization: 'Bearer sk-test' } },
+  openrouter: { response: chatCompletion, prompt: chatUser, system: chatSystem, auth: { Authorization: 'Bearer sk-test' } },
+  'openai-compatible': { response: chatCompletion, prompt: chatUser, system: chatSystem, auth: { Authorization: 'Bearer sk-test' } },
+};
+
+describe('providerPresets', () => {
+  beforeEach(() => {
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should cover every preset with a test case', () => {
+    expect(PROVIDER_PRESETS.map((p) => p.id).sort()).toEqual(Object.keys(CASES).sort());
+  });
+
+  it.each(PROVIDER_PRESETS.map((p) => [p.id]))('%s should render its request and parse its response', async (id) => {
+    const preset = getProviderPreset(id)!;
+    const spec = buildSpecFromPreset(preset);
+    expect(ProviderSpecSchema.safeParse(spec).success).toBe(true);
+
+    const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout')
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve(CASES[id].response) } as Response);
+
+    const result = await buildAdapterFromSpec(spec).call(PROMPT, { system: SYSTEM });
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(preset.spec.endpoint);
+    expect(init!.headers).toEqual({ 'Content-Type': 'application/json', ...CASES[id].auth });
+    expect(typeof init!.body).toBe('string');
+    const body = JSON.parse(init!.body as string);
+    expect(CASES[id].prompt(body)).toBe(PROMPT);
+    if (CASES[id].system) expect(CASES[id].system!(body)).toBe(SYSTEM);
+    if (preset.spec.requestTemplate!.includes('{{model}}')) {
+      expect(body.model).toBe(preset.spec.model);
+    }
+    expect(result).toMatchObject({ ok: true, parsed: SIGNAL });
+  });
+
+  it('should leave the system prompt out when none is given', async () => {
+    const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout')
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve(CASES.anthropic.response) } as Response);
+
+    await buildAdapterFromSpec(buildSpecFromPreset(getProviderPreset('anthropic')!)).call(PROMPT);
+    await buildAdapterFromSpec(buildSpecFromPreset(getProviderPreset('openai')!)).call(PROMPT);
+
+    const [anthropic, openai] = fetchSpy.mock.calls.map(([, init]) => JSON.parse(init!.body as string));
+    expect(anthropic).not.toHaveProperty('system');
+    expect(openai.messages).toEqual([{ role: 'user', content: PROMPT }]);
+    expect(openai.temperature).toBe(0.2);
+  });
+
+  it('should let overrides replace preset fields without touching the preset', () => {
+    const preset = getProviderPreset('openai')!;
+    const spec = buildSpecFromPreset(preset, { id: 'work-openai', model: 'gpt-4o' });
+    spec.headers!.Authorization = 'changed';
+    expect(spec).toMatchObject({ id: 'work-openai', name: 'OpenAI', model: 'gpt-4o' });
+    expect(preset.spec.headers!.Authorization).toBe('Bearer {{API_KEY}}');
+    expect(getProviderPreset('nope')).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// app/services/__tests__/responseExtraction.test.ts
+import { extractJsonCandidates, extractResponseCandidates, getByPath, parseResponsePath } from '../responseExtraction';
+import { buildAdapterFromSpec } from '../llmService';
+import { ProviderSpecSchema } from '../../schemas';
+import * as helpers from '../_utils_helpers';
+import * as healthStore from '../../utils/providerHealthStore';
+
+jest.mock('../../utils/providerStore', () => ({
+  getProviderSecrets: jest.fn().mockResolvedValue({}),
+}));
+jest.mock('../../utils/providerHealthStore');
+
+const SIGNAL = { type: 'SELL', confidence: 65, price: 100, stopLoss: 105, takeProfit: 90 };
+
+describe('responseExtraction', () => {
+  describe('getByPath', () => {
+    const payload = {
+      content: [{ type: 'thinking', thinking: '...' }, { type: 'text', text: 'hello' }],
+      'odd key': { value: 1 },
+    };
+
+    it('should follow keys, indexes, negative indexes and quoted keys', () => {
+      expect(getByPath(payload, '$.content[1].text')).toBe('hello');
+      expect(getByPath(payload, 'content[-1].type')).toBe('text');
+      expect(getByPath(payload, "$['odd key'].value")).toBe(1);
+      expect(getByPath(payload, '$.content[5].text')).toBeUndefined();
+    });
+
+    it('should collect wildcard matches', () => {
+      expect(getByPath(payload, '$.content[*].text')).toEqual(['hello']);
+      expect(getByPath(payload, '$.content.*.type')).toEqual(['thinking', 'text']);
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => parseResponsePath('$.content[')).toThrow('Invalid response path');
+    });
+  });
+
+  describe('extractJsonCandidates', () => {
+    it('should prefer fenced json blocks over stray braces', () => {
+      const text = 'Using {placeholders} here.\n```json\n{"type":"BUY"}\n```\nand ```\n{"type":"SELL"}\n```';
+      expect(extractJsonCandidates(text)).toEqual([{ type: 'BUY' }, { type: 'SELL' }]);
+    });
+
+    it('should find several objects instead of one greedy match', () => {
+      const text = 'First {"a":1} then {"b":{"c":"}"}} done.';
+      expect(extractJsonCandidates(text)).toEqual([{ a: 1 }, { b: { c: '}' } }]);
+    });
+  });
+
+  describe('extractResponseCandidates', () => {
+    it('should fall back to the heuristics when the path finds nothing', () => {
+      const raw = { choices: [{ message: { content: JSON.stringify(SIGNAL) } }] };
+      expect(extractResponseCandidates(raw, { responsePath: '$.missing' }).candidates).toEqual([SIGNAL]);
+    });
+
+    it('should treat the value as the signal itself in json mode', () => {
+      const raw = { result: { signal: SIGNAL } };
+      expect(extractResponseCandidates(raw, { responsePath: '$.result.signal', responseMode: 'json' }).candidates).toEqual([SIGNAL]);
+    });
+  });
+
+  describe('ProviderSpecSchema', () => {
+    it('should accept headers and validate response paths', () => {
+      const spec = { id: 'p', endpoint: 'https://api.test.com', headers: { 'x-api-key': '{{API_KEY}}' } };
+      expect(ProviderSpecSchema.safeParse({ ...spec, responsePath: '$.content[0].text', responseMode: 'text' }).success).toBe(true);
+      const bad = ProviderSpecSchema.safeParse({ ...spec, responsePath: '$.[' });
+      expect(bad.success).toBe(false);
+      expect(bad.error!.issues[0].message).toContain('Response path');
+    });
+  });
+
+  describe('buildAdapterFromSpec', () => {
+    beforeEach(() => {
+      (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const respond = (body: any) =>
+      jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({ ok: true, json: () => Promise.resolve(body) } as Response);
+
+    it('should parse tool-call arguments through a response path', async () => {
+      respond({
+        choices: [{ message: { content: null, tool_calls: [{ function: { name: 'signal', arguments: JSON.stringify(SIGNAL) } }] } }],
+      });
+      const adapter = buildAdapterFromSpec({
+        id: 'tools',
+        endpoint: 'https://api.test.com',
+        responsePath: '$.choices[0].message.tool_calls[0].function.arguments',
+        responseMode: 'json',
+      });
+      expect(await adapter.call('p')).toMatchObject({ ok: true, parsed: SIGNAL });
+    });
+
+    it('should parse Anthropic content blocks and fenced JSON without a path', async () => {
+      respond({ content: [{ type: 'text', text: `Here you go:\n\`\`\`json\n${JSON.stringify(SIGNAL)}\n\`\`\`\nNote: {risky}` }] });
+      const adapter = buildAdapterFromSpec({ id: 'anthropic', endpoint: 'https://api.test.com' });
+      expect(await adapter.call('p')).toMatchObject({ ok: true, parsed: SIGNAL });
+    });
+
+    it('should skip objects that are not valid signals', async () => {
+      respond({ text: `{"type":"MAYBE"} ${JSON.stringify(SIGNAL)}` });
+      const adapter = buildAdapterFromSpec({ id: 'two-blocks', endpoint: 'https://api.test.com' });
+      expect(await adapter.call('p')).toMatchObject({ ok: true, parsed: SIGNAL });
+    });
+  });
+});
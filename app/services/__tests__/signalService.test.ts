@@ -1,5 +1,5 @@
 // app/services/__tests__/signalService.test.ts
-import { generateTradingSignal } from '../signalService';
+import { generateTradingSignal, SIGNAL_SYSTEM_PROMPT } from '../signalService';
 import * as providerStore from '../../utils/providerStore';
 import * as multiTimeframeService from '../multiTimeframeService';
 import * as llmService from '../llmService';
@@ -30,18 +30,24 @@ describe('generateTradingSignal', () => {
     (playbookService.findRelevantSignals as jest.Mock).mockResolvedValue([]);
     (playbookService.formatSignalsForPrompt as jest.Mock).mockReturnValue('No relevant past examples found.');
 
-    const mockAdapter = { call: jest.fn().mockResolvedValue(mockLlmResponse) };
+    const mockAdapter = { spec: mockSpecs[0], call: jest.fn().mockResolvedValue(mockLlmResponse) };
     (llmService.buildAdapterFromSpec as jest.Mock).mockReturnValue(mockAdapter);
 
     const { final } = await generateTradingSignal('BTCUSDT', mockSpecs);
 
     // Verify that the prompt contains the RAG context
-    expect(mockAdapter.call).toHaveBeenCalledWith(expect.stringContaining("## Relevant Past Examples"));
+    expect(mockAdapter.call).toHaveBeenCalledWith(
+      expect.stringContaining("## Relevant Past Examples"),
+      { system: SIGNAL_SYSTEM_PROMPT },
+      { onProgress: expect.any(Function) }
+    );
 
     // Verify that the final signal is correctly aggregated
     expect(final).toBeDefined();
     expect(final?.type).toBe('BUY');
     expect(final?.confidence).toBe(75);
     expect(final?.price).toBe(60000);
+    // With no saved templates the built-in prompt, version 1, is used.
+    expect(final?.promptVersion).toBe(1);
   });
 });
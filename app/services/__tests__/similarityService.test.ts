@@ -0,0 +1,155 @@
+// app/services/__tests__/similarityService.test.ts
+import {
+  FEATURE_TIMEFRAMES,
+  TIMEFRAME_FEATURES,
+  buildFeatureVector,
+  cosineSimilarity,
+  featureSimilarity,
+  selectNearestSignals,
+} from '../similarityService';
+import { findRelevantSignals, formatSignalsForPrompt, loadPlaybook, rankRelevantSignals, savePlaybook } from '../playbookService';
+import { buildAdapterFromSpec } from '../llmService';
+import { listProviderSpecs } from '../../utils/providerStore';
+import { createMemorySignalHistoryStorage, setSignalHistoryStorage } from '../../utils/signalHistoryStorage';
+import { SignalHistory, Timeframe, TimeframeAnalysis } from '../../types';
+
+jest.mock('../llmService', () => ({ buildAdapterFromSpec: jest.fn() }));
+jest.mock('../../utils/providerStore', () => ({ listProviderSpecs: jest.fn() }));
+
+const T0 = Date.UTC(2024, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeMtf = (trend: TimeframeAnalysis['trend'], rsi: number) =>
+  Object.fromEntries(
+    FEATURE_TIMEFRAMES.map((tf) => [
+      tf,
+      {
+        timeframe: tf,
+        trend,
+        volatility: 2,
+        lastCandle: { t: T0, open: 100, high: 101, low: 99, close: 100, volume: 12 },
+        support: [95],
+        resistance: [105],
+        volumeInfo: { avg: 10, last: 12 },
+        indicators: {
+          ema20: 101,
+          ema50: 100,
+          rsi14: rsi,
+          macd: { macd: 0.5, signal: 0.3, histogram: 0.2 },
+          bollinger: { upper: 104, middle: 100, lower: 96, bandwidth: 0.08 },
+          stochastic: { k: rsi, d: rsi },
+          adx: { adx: 25, plusDI: 20, minusDI: 15 },
+          obv: null,
+          vwap: null,
+        },
+      },
+    ])
+  ) as Record<Timeframe, TimeframeAnalysis>;
+
+const makeHistory = (
+  id: string,
+  outcome: SignalHistory['outcome'],
+  timestamp: number,
+  mtf: Record<Timeframe, TimeframeAnalysis>,
+  symbol = 'BTCUSDT'
+): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome,
+  pnlPercent: outcome === 'WIN' ? 2 : -1,
+  signal: { id, symbol, type: 'BUY', confidence: 70, price: 100, timestamp, indicators: { mtf } },
+});
+
+describe('similarityService', () => {
+  it('should scale every feature of each timeframe to about [-1, 1]', () => {
+    const vector = buildFeatureVector(makeMtf('BULLISH', 70));
+    expect(vector).toHaveLength(FEATURE_TIMEFRAMES.length * TIMEFRAME_FEATURES.length);
+    expect(vector.every((v) => v !== null && v >= -1 && v <= 1)).toBe(true);
+    expect(vector.slice(0, 6)).toEqual([1, Math.tanh(1), Math.tanh(5 / 6), Math.tanh(5 / 6), Math.tanh(Math.log(1.2)), 0.4]);
+
+    // Timeframes without a last candle contribute no features.
+    const sparse = buildFeatureVector({ '1h': { timeframe: '1h', trend: 'BEARISH', volatility: 0 } });
+    expect(sparse.every((v) => v === null)).toBe(true);
+  });
+
+  it('should measure similarity over shared features and penalize missing ones', () => {
+    const a = buildFeatureVector(makeMtf('BULLISH', 70));
+    expect(featureSimilarity(a, a)).toBe(1);
+    expect(featureSimilarity(a, buildFeatureVector(makeMtf('BULLISH', 60)))).toBeGreaterThan(
+      featureSimilarity(a, buildFeatureVector(makeMtf('BEARISH', 60)))
+    );
+    const half = a.map((v, i) => (i % 2 === 0 ? v : null));
+    expect(featureSimilarity(a, half)).toBeCloseTo(0.5);
+    expect(featureSimilarity(a, a.map(() => null))).toBe(0);
+
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+
+  it('should keep the nearest wins and losses both', () => {
+    const ranked = [
+      { ...makeHistory('w1', 'WIN', T0, makeMtf('BULLISH', 70)), similarity: 0.9 },
+      { ...makeHistory('w2', 'WIN', T0, makeMtf('BULLISH', 70)), similarity: 0.8 },
+      { ...makeHistory('w3', 'WIN', T0, makeMtf('BULLISH', 70)), similarity: 0.7 },
+      { ...makeHistory('c1', 'CANCELLED', T0, makeMtf('BULLISH', 70)), similarity: 0.6 },
+      { ...makeHistory('l1', 'LOSS', T0, makeMtf('BULLISH', 70)), similarity: 0.2 },
+    ];
+    expect(selectNearestSignals(ranked, 3, false).map((s) => s.id)).toEqual(['w1', 'w2', 'w3']);
+    expect(selectNearestSignals(ranked, 3).map((s) => s.id)).toEqual(['w1', 'w2', 'l1']);
+    expect(selectNearestSignals(ranked, 4).map((s) => s.id)).toEqual(['w1', 'w2', 'w3', 'l1']);
+  });
+
+  describe('retrieval', () => {
+    const current = makeMtf('BULLISH', 70);
+    const PLAYBOOK = [
+      makeHistory('near', 'WIN', T0, makeMtf('BULLISH', 68)),
+      makeHistory('recent', 'WIN', T0 + DAY, makeMtf('BULLISH', 30)),
+      makeHistory('loss', 'LOSS', T0 + 2 * DAY, makeMtf('BEARISH', 70)),
+      makeHistory('pending', 'PENDING', T0 + 3 * DAY, makeMtf('BULLISH', 70)),
+      makeHistory('other', 'WIN', T0 + 3 * DAY, makeMtf('BULLISH', 70), 'ETHUSDT'),
+    ];
+
+    beforeEach(() => {
+      setSignalHistoryStorage(createMemorySignalHistoryStorage());
+      (listProviderSpecs as jest.Mock).mockResolvedValue([]);
+      (buildAdapterFromSpec as jest.Mock).mockReset();
+    });
+
+    it('should rank by feature similarity rather than trend labels and recency', () => {
+      expect(rankRelevantSignals(PLAYBOOK, 'BTCUSDT', current, 1, false).map((s) => s.id)).toEqual(['near']);
+      const ranked = rankRelevantSignals(PLAYBOOK, 'BTCUSDT', current, 2);
+      expect(ranked.map((s) => s.id)).toEqual(['near', 'loss']);
+      expect(formatSignalsForPrompt(ranked)).toContain(`- Similarity: ${(ranked[0].similarity! * 100).toFixed(0)}%`);
+      expect(formatSignalsForPrompt(PLAYBOOK.slice(0, 1))).not.toContain('Similarity');
+    });
+
+    it('should rank by embeddings with an enabled embedding provider and store them', async () => {
+      const embedder = { id: 'embedder', endpoint: 'https://api.test.com/embeddings', model: 'small', embeddingPath: '$.data[0].embedding' };
+      (listProviderSpecs as jest.Mock).mockResolvedValue([embedder]);
+      const embed = jest.fn(async (text: string) => ({ providerId: 'embedder', ok: true, vector: text.includes('BEARISH') ? [0, 1] : [1, 0] }));
+      (buildAdapterFromSpec as jest.Mock).mockReturnValue({ embed });
+      await savePlaybook(PLAYBOOK);
+
+      const found = await findRelevantSignals('BTCUSDT', current, 2);
+      expect(found.map((s) => [s.id, s.similarity])).toEqual([['recent', 1], ['loss', 0]]);
+      // The current snapshot, then the three past signals of the symbol with an outcome.
+      expect(embed).toHaveBeenCalledTimes(4);
+      expect((await loadPlaybook()).find((s) => s.id === 'near')?.embedding).toEqual({ providerId: 'embedder', model: 'small', vector: [1, 0] });
+
+      embed.mockClear();
+      await findRelevantSignals('BTCUSDT', current, 2);
+      expect(embed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to features when embedding fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      (listProviderSpecs as jest.Mock).mockResolvedValue([{ id: 'embedder', endpoint: 'https://x.test', embeddingPath: '$.e' }]);
+      (buildAdapterFromSpec as jest.Mock).mockReturnValue({ embed: async () => ({ providerId: 'embedder', ok: false, error: 'HTTP 500' }) });
+      await savePlaybook(PLAYBOOK);
+
+      expect((await findRelevantSignals('BTCUSDT', current, 1)).map((s) => s.id)).toEqual(['near']);
+      (console.warn as jest.Mock).mockRestore();
+    });
+  });
+});
@@ -0,0 +1,262 @@
+// app/services/__tests__/sqliteSignalHistoryStorage.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { createSqliteSignalHistoryStorage } from '../../utils/sqliteSignalHistoryStorage';
+import { LEGACY_PLAYBOOK_KEY, getSignalHistoryStorage, setSignalHistoryStorage } from '../../utils/signalHistoryStorage';
+import { SignalHistory } from '../../types';
+
+type FakeRow = { seq: number; id: string; symbol: string; outcome: string; timestamp: number; data: string };
+
+/**
+ * An in-memory stand-in for an expo-sqlite database that understands the statements the storage sends.
+ * Every statement is recorded, with whether it ran inside a transaction.
+ */
+class FakeDatabase {
+  rows: FakeRow[] = [];
+  statements: { sql: string; params: unknown[]; inTransaction: boolean }[] = [];
+  private seq = 0;
+  private inTransaction = false;
+
+  async execAsync(statement: string) {
+    this.record(statement, []);
+  }
+
+  async runAsync(statement: string, ...args: unknown[]) {
+    const { sql, params } = this.record(statement, args);
+    const before = this.rows.length;
+    if (/^INSERT OR REPLACE INTO signal_history/.test(sql)) {
+      const [id, symbol, outcome, timestamp, data] = params as [string, string, string, number, string];
+      this.rows = this.rows.filter((row) => row.id !== id);
+      this.rows.push({ seq: ++this.seq, id, symbol, outcome, timestamp, data });
+      return { changes: 1 };
+    }
+    if (/^UPDATE signal_history SET/.test(sql)) {
+      const [symbol, outcome, timestamp, data, id] = params as [string, string, number, string, string];
+      const row = this.rows.find((r) => r.id === id);
+      if (row) Object.assign(row, { symbol, outcome, timestamp, data });
+      return { changes: row ? 1 : 0 };
+    }
+    if (/^DELETE FROM signal_history WHERE id = \?$/.test(sql)) {
+      this.rows = this.rows.filter((row) => row.id !== params[0]);
+    } else if (/^DELETE FROM signal_history$/.test(sql)) {
+      this.rows = [];
+    } else {
+      throw new Error(`Unexpected statement: ${sql}`);
+    }
+    return { changes: before - this.rows.length };
+  }
+
+  async getAllAsync<T>(statement: string, ...args: unknown[]): Promise<T[]> {
+    const { sql, params } = this.record(statement, args);
+    if (/NOT IN \( SELECT seq FROM signal_history ORDER BY timestamp DESC, seq DESC LIMIT \? \) RETURNING id$/.test(sql)) {
+      const keep = new Set(this.sorted(this.rows, 'DESC').slice(0, params[0] as number).map((row) => row.seq));
+      const removed = this.rows.filter((row) => !keep.has(row.seq));
+      this.rows = this.rows.filter((row) => keep.has(row.seq));
+      return removed.map(({ id }) => ({ id }) as T);
+    }
+    const match = /^SELECT data FROM signal_history (.*?) ?ORDER BY timestamp (ASC|DESC), seq (ASC|DESC)(?: LIMIT (\d+))?$/.exec(sql);
+    if (!match) throw new Error(`Unexpected query: ${sql}`);
+    const found = this.sorted(this.filter(match[1], params), match[2] as 'ASC' | 'DESC');
+    return found.slice(0, match[4] === undefined ? undefined : Number(match[4])).map(({ data }) => ({ data }) as T);
+  }
+
+  async getFirstAsync<T>(statement: string, ...args: unknown[]): Promise<T | null> {
+    const { sql, params } = this.record(statement, args);
+    const count = /^SELECT COUNT\(\*\) AS n FROM signal_history ?(.*)$/.exec(sql);
+    if (count) return { n: this.filter(count[1], params).length } as T;
+    if (sql === 'SELECT data FROM signal_history WHERE id = ?') {
+      const row = this.rows.find((r) => r.id === params[0]);
+      return row ? ({ data: row.data } as T) : null;
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  async withExclusiveTransactionAsync(task: (txn: FakeDatabase) => Promise<void>) {
+    const snapshot = this.rows.map((row) => ({ ...row }));
+    this.inTransaction = true;
+    try {
+      await task(this);
+    } catch (err) {
+      this.rows = snapshot;
+      throw err;
+    } finally {
+      this.inTransaction = false;
+    }
+  }
+
+  /** Records a statement with its whitespace collapsed, and its parameters, which may be passed as a list or as an array. */
+  private record(statement: string, args: unknown[]): { sql: string; params: unknown[] } {
+    const sql = statement.replace(/\s+/g, ' ').trim();
+    const params = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+    this.statements.push({ sql, params, inTransaction: this.inTransaction });
+    return { sql, params };
+  }
+
+  /** Applies a WHERE clause made of the conditions `whereClause` builds. */
+  private filter(where: string, params: unknown[]): FakeRow[] {
+    const conditions = where ? where.replace(/^WHERE /, '').split(' AND ') : [];
+    let next = 0;
+    const tests = conditions.map((condition) => {
+      const inList = /^outcome IN \((.*)\)$/.exec(condition);
+      if (inList) {
+        const values = inList[1] === 'NULL' ? [] : inList[1].split(', ').map(() => params[next++]);
+        return (row: FakeRow) => values.includes(row.outcome);
+      }
+      const value = params[next++];
+      if (condition === 'symbol = ?') return (row: FakeRow) => row.symbol === value;
+      if (condition === 'timestamp >= ?') return (row: FakeRow) => row.timestamp >= (value as number);
+      if (condition === 'timestamp <= ?') return (row: FakeRow) => row.timestamp <= (value as number);
+      throw new Error(`Unexpected condition: ${condition}`);
+    });
+    return this.rows.filter((row) => tests.every((test) => test(row)));
+  }
+
+  private sorted(rows: FakeRow[], direction: 'ASC' | 'DESC'): FakeRow[] {
+    const sign = direction === 'ASC' ? 1 : -1;
+    return [...rows].sort((a, b) => sign * (a.timestamp - b.timestamp || a.seq - b.seq));
+  }
+}
+
+const T0 = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+const makeHistory = (id: string, symbol: string, outcome: SignalHistory['outcome'], timestamp: number): SignalHistory => ({
+  id,
+  entryPrice: 100,
+  outcome,
+  signal: { id, symbol, type: 'BUY', confidence: 70, price: 100, timestamp, strategy: 'dynamic-llm-consensus' },
+});
+
+const ITEMS = [
+  makeHistory('a', 'BTCUSDT', 'WIN', T0),
+  makeHistory('b', 'ETHUSDT', 'LOSS', T0 + HOUR),
+  makeHistory('c', 'BTCUSDT', 'PENDING', T0 + 2 * HOUR),
+  makeHistory('d', 'BTCUSDT', 'LOSS', T0 + 3 * HOUR),
+];
+
+const ids = (items: SignalHistory[]) => items.map((item) => item.id);
+
+describe('sqliteSignalHistoryStorage', () => {
+  let db: FakeDatabase;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    db = new FakeDatabase();
+    (SQLite.openDatabaseAsync as jest.Mock).mockReset().mockResolvedValue(db);
+  });
+
+  it('should create the schema once and filter queries in SQL', async () => {
+    const storage = createSqliteSignalHistoryStorage('test.db');
+    await storage.put(ITEMS);
+
+    expect(SQLite.openDatabaseAsync).toHaveBeenCalledTimes(1);
+    expect(SQLite.openDatabaseAsync).toHaveBeenCalledWith('test.db');
+    expect(db.statements[0].sql).toContain('CREATE TABLE IF NOT EXISTS signal_history');
+
+    expect(ids(await storage.query())).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(await storage.query({ symbol: 'BTCUSDT', outcome: ['WIN', 'LOSS'], order: 'desc' }))).toEqual(['d', 'a']);
+    expect(db.statements.at(-1)).toMatchObject({
+      sql: 'SELECT data FROM signal_history WHERE symbol = ? AND outcome IN (?, ?) ORDER BY timestamp DESC, seq DESC',
+      params: ['BTCUSDT', 'WIN', 'LOSS'],
+    });
+    expect(ids(await storage.query({ from: T0 + HOUR, to: T0 + 2 * HOUR, limit: 1 }))).toEqual(['b']);
+    expect(db.statements.at(-1)?.sql).toMatch(/WHERE timestamp >= \? AND timestamp <= \? ORDER BY .* LIMIT 1$/);
+    expect(await storage.count({ outcome: [] })).toBe(0);
+    expect(db.statements.at(-1)?.sql).toBe('SELECT COUNT(*) AS n FROM signal_history WHERE outcome IN (NULL)');
+    expect(await storage.count({ symbol: 'BTCUSDT', limit: 1 })).toBe(3);
+  });
+
+  it('should replace items by ID inside a transaction', async () => {
+    const storage = createSqliteSignalHistoryStorage();
+    await storage.put(ITEMS.slice(0, 2));
+    await storage.put([{ ...ITEMS[0], outcome: 'LOSS' }]);
+
+    const inserts = db.statements.filter((s) => s.sql.startsWith('INSERT OR REPLACE'));
+    expect(inserts).toHaveLength(3);
+    expect(inserts.every((s) => s.inTransaction)).toBe(true);
+    expect(inserts[2].params.slice(0, 4)).toEqual(['a', 'BTCUSDT', 'LOSS', T0]);
+    expect(await storage.get('a')).toEqual({ ...ITEMS[0], outcome: 'LOSS' });
+    expect(await storage.count()).toBe(2);
+  });
+
+  it('should read and write an update in one transaction and keep the columns in step', async () => {
+    const storage = createSqliteSignalHistoryStorage();
+    await storage.put(ITEMS);
+
+    const updated = await storage.update('c', { outcome: 'WIN', exitPrice: 110, id: 'ignored' } as Partial<SignalHistory>);
+    expect(updated).toEqual({ ...ITEMS[2], outcome: 'WIN', exitPrice: 110 });
+    const statements = db.statements.slice(-2);
+    expect(statements.map((s) => s.sql)).toEqual([
+      'SELECT data FROM signal_history WHERE id = ?',
+      'UPDATE signal_history SET symbol = ?, outcome = ?, timestamp = ?, data = ? WHERE id = ?',
+    ]);
+    expect(statements.every((s) => s.inTransaction)).toBe(true);
+    expect(ids(await storage.query({ outcome: 'WIN' }))).toEqual(['a', 'c']);
+
+    expect(await storage.update('missing', { outcome: 'WIN' })).toBeNull();
+    // A conditional update leaves an item whose outcome has moved on alone.
+    expect(await storage.update('c', { outcome: 'LOSS' }, { expectOutcome: 'PENDING' })).toBeNull();
+    expect(db.statements.at(-1)?.sql).toBe('SELECT data FROM signal_history WHERE id = ?');
+    expect(await storage.update('d', { outcome: 'CANCELLED' }, { expectOutcome: 'LOSS' })).toMatchObject({ outcome: 'CANCELLED' });
+    expect(await storage.remove('c')).toBe(true);
+    expect(await storage.remove('c')).toBe(false);
+  });
+
+  it('should trim everything but the newest items with a NOT IN subquery', async () => {
+    const storage = createSqliteSignalHistoryStorage();
+    await storage.put([ITEMS[3], ITEMS[0], ITEMS[2], ITEMS[1]]);
+
+    expect((await storage.trim(2)).sort()).toEqual(['a', 'b']);
+    expect(db.statements.at(-1)).toMatchObject({
+      sql: 'DELETE FROM signal_history WHERE seq NOT IN ( SELECT seq FROM signal_history ORDER BY timestamp DESC, seq DESC LIMIT ? ) RETURNING id',
+      params: [2],
+    });
+    expect(ids(await storage.query())).toEqual(['c', 'd']);
+
+    expect(await storage.trim(-1)).toHaveLength(2);
+    expect(await storage.count()).toBe(0);
+    expect(await storage.trim(0)).toEqual([]);
+  });
+
+  it('should replace every item, all or none', async () => {
+    const storage = createSqliteSignalHistoryStorage();
+    await storage.put(ITEMS);
+    await storage.replaceAll(ITEMS.slice(1, 2));
+    expect(ids(await storage.query())).toEqual(['b']);
+
+    await expect(storage.replaceAll([ITEMS[0], { id: 'broken' } as SignalHistory])).rejects.toThrow();
+    expect(ids(await storage.query())).toEqual(['b']);
+  });
+
+  it('should try to open the database again after a failure', async () => {
+    (SQLite.openDatabaseAsync as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+    const storage = createSqliteSignalHistoryStorage();
+
+    await expect(storage.count()).rejects.toThrow('disk full');
+    expect(await storage.count()).toBe(0);
+    expect(SQLite.openDatabaseAsync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should import the AsyncStorage playbook into SQLite on first use', async () => {
+    await AsyncStorage.setItem(LEGACY_PLAYBOOK_KEY, JSON.stringify(ITEMS.slice(0, 3)));
+    setSignalHistoryStorage(createSqliteSignalHistoryStorage());
+
+    const storage = await getSignalHistoryStorage();
+    expect(ids(await storage.query())).toEqual(['a', 'b', 'c']);
+    expect(db.statements.filter((s) => s.sql.startsWith('INSERT OR REPLACE'))).toHaveLength(3);
+    expect(await AsyncStorage.getItem(LEGACY_PLAYBOOK_KEY)).toBeNull();
+  });
+
+  it('should keep the AsyncStorage playbook when the import fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (SQLite.openDatabaseAsync as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+    await AsyncStorage.setItem(LEGACY_PLAYBOOK_KEY, JSON.stringify(ITEMS));
+    setSignalHistoryStorage(createSqliteSignalHistoryStorage());
+
+    const storage = await getSignalHistoryStorage();
+    expect(await AsyncStorage.getItem(LEGACY_PLAYBOOK_KEY)).not.toBeNull();
+    // The database opens on the next use, and the next start imports the playbook.
+    expect(await storage.count()).toBe(0);
+    warn.mockRestore();
+  });
+});
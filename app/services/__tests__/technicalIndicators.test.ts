@@ -0,0 +1,143 @@
+// app/services/__tests__/technicalIndicators.test.ts
+import {
+  calculateADX,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateStochastic,
+  calculateVWAP,
+  formatIndicators,
+  computeIndicators,
+} from '../technicalIndicators';
+import { Candle } from '../../types';
+
+const fromCloses = (closes: number[]): Candle[] =>
+  closes.map((close, t) => ({ t, open: close, high: close, low: close, close, volume: 1 }));
+
+const fromHLC = (rows: [number, number, number][]): Candle[] =>
+  rows.map(([high, low, close], t) => ({ t, open: close, high, low, close, volume: 1 }));
+
+describe('technicalIndicators', () => {
+  describe('calculateEMA', () => {
+    it('should return null if there are not enough candles', () => {
+      expect(calculateEMA(fromCloses([1, 2]), 3)).toBeNull();
+    });
+
+    it('should seed with the SMA and lag a linear series by (period - 1) / 2', () => {
+      // Seed = SMA(1, 2, 3) = 2, k = 0.5, each later close adds 1.
+      expect(calculateEMA(fromCloses([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]), 3)).toBeCloseTo(9, 10);
+    });
+  });
+
+  describe('calculateRSI', () => {
+    it('should return null if there are not enough candles', () => {
+      expect(calculateRSI(fromCloses([1, 2, 3]), 3)).toBeNull();
+    });
+
+    it('should apply Wilder smoothing', () => {
+      // Changes: +1, +1, -1 (seed: gain 2/3, loss 1/3), then +1, +1 -> gain 23/27, loss 4/27.
+      expect(calculateRSI(fromCloses([10, 11, 12, 11, 12, 13]), 3)).toBeCloseTo(100 - 100 / (1 + 23 / 4), 10);
+    });
+
+    it('should return 100 for a series that only rises', () => {
+      expect(calculateRSI(fromCloses([1, 2, 3, 4, 5]), 3)).toBe(100);
+    });
+  });
+
+  describe('calculateMACD', () => {
+    it('should return null if there are not enough candles', () => {
+      expect(calculateMACD(fromCloses([1, 2, 3, 4, 5, 6]), 3, 5, 3)).toBeNull();
+    });
+
+    it('should calculate the MACD, signal and histogram', () => {
+      const result = calculateMACD(fromCloses([10, 11, 12, 11, 12, 13, 12, 14, 15, 14]), 3, 5, 3)!;
+      expect(result.macd).toBeCloseTo(0.4255015432, 8);
+      expect(result.signal).toBeCloseTo(0.476871142, 8);
+      expect(result.histogram).toBeCloseTo(-0.0513695988, 8);
+    });
+  });
+
+  describe('calculateBollingerBands', () => {
+    it('should use the population standard deviation around the SMA', () => {
+      // mean = 3, variance = 2
+      const bands = calculateBollingerBands(fromCloses([1, 2, 3, 4, 5]), 5, 2)!;
+      expect(bands.middle).toBe(3);
+      expect(bands.upper).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+      expect(bands.lower).toBeCloseTo(3 - 2 * Math.SQRT2, 10);
+      expect(bands.bandwidth).toBeCloseTo((4 * Math.SQRT2) / 3, 10);
+    });
+  });
+
+  describe('calculateStochastic', () => {
+    it('should calculate %K from the range and %D as its average', () => {
+      const candles = fromHLC([
+        [10, 0, 5],
+        [10, 0, 10],
+        [10, 0, 0],
+        [12, 2, 7],
+      ]);
+      // %K over 3 candles: (10-0)/10, (0-0)/10, (7-0)/12 -> 100, 0, 58.33
+      const result = calculateStochastic(candles, 3, 2)!;
+      expect(result.k).toBeCloseTo(700 / 12, 10);
+      expect(result.d).toBeCloseTo(700 / 24, 10);
+    });
+  });
+
+  describe('calculateADX', () => {
+    it('should return null if there are not enough candles', () => {
+      expect(calculateADX(fromHLC([[2, 1, 1.5], [3, 2, 2.5]]), 3)).toBeNull();
+    });
+
+    it('should calculate the ADX and directional indicators', () => {
+      const candles = fromHLC([
+        [12, 10, 11],
+        [13, 11, 12.5],
+        [14, 12, 13],
+        [13.5, 11.5, 12],
+        [15, 12.5, 14.5],
+        [16, 14, 15.5],
+        [15.5, 13, 14],
+      ]);
+      const result = calculateADX(candles, 3)!;
+      expect(result.adx).toBeCloseTo(58.358546969, 6);
+      expect(result.plusDI).toBeCloseTo(27.733333333, 6);
+      expect(result.minusDI).toBeCloseTo(16.533333333, 6);
+    });
+  });
+
+  describe('calculateOBV', () => {
+    it('should add volume on up closes and subtract it on down closes', () => {
+      const candles: Candle[] = [
+        { t: 0, open: 0, high: 0, low: 0, close: 10, volume: 100 },
+        { t: 1, open: 0, high: 0, low: 0, close: 11, volume: 200 },
+        { t: 2, open: 0, high: 0, low: 0, close: 11, volume: 300 },
+        { t: 3, open: 0, high: 0, low: 0, close: 9, volume: 50 },
+      ];
+      expect(calculateOBV(candles)).toBe(150);
+    });
+  });
+
+  describe('calculateVWAP', () => {
+    it('should weight the typical price by volume', () => {
+      const candles: Candle[] = [
+        { t: 0, open: 0, high: 12, low: 9, close: 9, volume: 1 }, // typical = 10
+        { t: 1, open: 0, high: 22, low: 19, close: 19, volume: 3 }, // typical = 20
+      ];
+      expect(calculateVWAP(candles)).toBeCloseTo(17.5, 10);
+      expect(calculateVWAP(candles, 1)).toBeCloseTo(20, 10);
+    });
+
+    it('should return null without volume', () => {
+      expect(calculateVWAP([{ t: 0, open: 1, high: 1, low: 1, close: 1, volume: 0 }])).toBeNull();
+    });
+  });
+
+  describe('formatIndicators', () => {
+    it('should omit indicators that could not be computed', () => {
+      const text = formatIndicators(computeIndicators(fromCloses([10, 11, 12, 11, 12, 13, 12, 14, 15, 14])));
+      expect(text).toBe('OBV=3.00 | VWAP=12.40');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+// app/services/__tests__/templateEngine.test.ts
+import { checkJsonTemplate, parseTemplate, renderTemplate } from '../templateEngine';
+import { buildChatMessages } from '../llmService';
+
+jest.mock('../../utils/providerStore');
+jest.mock('../../utils/providerHealthStore');
+
+const TRICKY_PROMPTS = [
+  'He said "buy" and left',
+  'Line one\nLine two\r\n\tindented',
+  'C:\\path\\to\\file and a trailing backslash \\',
+  'Braces {"a": 1} and {{prompt}} stay literal',
+  'Unicode: 📈 ع \u2028 \u0000 end',
+  '',
+];
+
+describe('templateEngine', () => {
+  describe('json context', () => {
+    it.each(TRICKY_PROMPTS.map((p) => [p]))('should keep %j intact inside a string', (prompt) => {
+      const body = renderTemplate('{"messages":[{"role":"user","content":"{{prompt}}"}]}', { prompt }, 'json');
+      expect(JSON.parse(body).messages[0].content).toBe(prompt);
+    });
+
+    it('should keep the text around a placeholder in the same string', () => {
+      const body = renderTemplate('{"text":"Prompt: {{prompt}} (end)"}', { prompt: 'say "hi"\n' }, 'json');
+      expect(JSON.parse(body).text).toBe('Prompt: say "hi"\n (end)');
+    });
+
+    it('should insert values outside strings as JSON values', () => {
+      const body = renderTemplate(
+        '{"n":{{n}},"flag":{{flag}},"num":{{numText}},"word":{{word}},"missing":{{missing}},"messages":{{messages}}}',
+        { n: 3, flag: true, numText: '0.5', word: 'hello "you"', messages: buildChatMessages('Hi\n"there"', 'Be brief') },
+        'json'
+      );
+      expect(JSON.parse(body)).toEqual({
+        n: 3,
+        flag: true,
+        num: 0.5,
+        word: 'hello "you"',
+        missing: null,
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hi\n"there"' },
+        ],
+      });
+    });
+
+    it('should not let a quote inside an earlier value confuse string tracking', () => {
+      const body = renderTemplate('{"a":"{{x}}","b":{{y}}}', { x: 'ends with "', y: 7 }, 'json');
+      expect(JSON.parse(body)).toEqual({ a: 'ends with "', b: 7 });
+    });
+  });
+
+  describe('filters', () => {
+    it('should apply json, default, trim and raw', () => {
+      expect(renderTemplate('{"p":{{prompt|json}}}', { prompt: '42' }, 'json')).toBe('{"p":"42"}');
+      expect(renderTemplate('{"t":{{t|default:0.2}}}', {}, 'json')).toBe('{"t":0.2}');
+      expect(renderTemplate('{"t":{{t|default:0.2}}}', { t: 1 }, 'json')).toBe('{"t":1}');
+      expect(renderTemplate('{{who|default:"the team"}}', { who: '' })).toBe('the team');
+      expect(renderTemplate('[{{ name | trim }}]', { name: '  x  ' })).toBe('[x]');
+      expect(renderTemplate('{"o":{{obj|raw}}}', { obj: '{"a":1}' }, 'json')).toBe('{"o":{"a":1}}');
+    });
+
+    it('should reject unknown filters', () => {
+      expect(() => parseTemplate('{{prompt|upper}}')).toThrow('Unknown template filter: upper');
+    });
+  });
+
+  describe('conditionals', () => {
+    const template = '{"model":"m",{{#if system}}"system":"{{system}}",{{/if}}"prompt":"{{prompt}}"}';
+
+    it('should include optional fields only when the value is set', () => {
+      expect(JSON.parse(renderTemplate(template, { prompt: 'p', system: 'be "terse"' }, 'json')))
+        .toEqual({ model: 'm', system: 'be "terse"', prompt: 'p' });
+      expect(JSON.parse(renderTemplate(template, { prompt: 'p', system: '' }, 'json'))).toEqual({ model: 'm', prompt: 'p' });
+    });
+
+    it('should support else, unless, nesting and dotted names', () => {
+      const text = '{{#if user.name}}Hi {{user.name}}{{else}}Hi{{/if}}{{#unless quiet}}!{{/unless}}{{#if a}}{{#if b}}ab{{/if}}{{/if}}';
+      expect(renderTemplate(text, { user: { name: 'Ann' }, a: 1, b: 1 })).toBe('Hi Ann!ab');
+      expect(renderTemplate(text, { quiet: true, a: 1, b: [] })).toBe('Hi');
+    });
+
+    it('should report malformed sections', () => {
+      expect(() => parseTemplate('{{#if a}}x')).toThrow('Unclosed {{#if}}');
+      expect(() => parseTemplate('{{#if a}}x{{/unless}}')).toThrow('Unexpected {{/unless}}');
+      expect(() => parseTemplate('x{{else}}')).toThrow('Unexpected {{else}}');
+    });
+  });
+
+  describe('url and text contexts', () => {
+    it('should percent-encode values in a URL, keeping path characters before the query', () => {
+      expect(renderTemplate('https://{{host}}/v1/{{path}}?q={{q}}&k={{key}}', {
+        host: 'api.test:8080',
+        path: 'models/m 1',
+        q: 'a&b=c',
+        key: 'k/+',
+      }, 'url')).toBe('https://api.test:8080/v1/models/m%201?q=a%26b%3Dc&k=k%2F%2B');
+    });
+
+    it('should strip line breaks from header values', () => {
+      expect(renderTemplate('Bearer {{API_KEY}}', { API_KEY: 'abc\r\nX-Injected: 1' }, 'text')).toBe('Bearer abc X-Injected: 1');
+    });
+  });
+
+  describe('checkJsonTemplate', () => {
+    it('should accept legacy templates and templates with placeholders outside strings', () => {
+      expect(checkJsonTemplate(JSON.stringify({ prompt: '{{prompt}}', model: '{{model}}' }))).toBeNull();
+      expect(checkJsonTemplate('{"messages":{{messages}},"temperature":{{temperature|default:0.2}}}')).toBeNull();
+      expect(checkJsonTemplate('{"a":1,{{#if system}}"system":"{{system}}",{{/if}}"p":"{{prompt}}"}')).toBeNull();
+    });
+
+    it('should reject templates that are not valid JSON for some values', () => {
+      expect(checkJsonTemplate('{"p": "{{prompt}}"')).toMatch(/valid JSON/);
+      expect(checkJsonTemplate('{"a":1 {{#if system}},"s":"{{system}}"{{/if}},}')).toMatch(/valid JSON/);
+      expect(checkJsonTemplate('{"p":"{{prompt|shout}}"}')).toBe('Unknown template filter: shout');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+// app/services/__tests__/usageAccounting.test.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  calculateCost,
+  checkProviderLimits,
+  estimateTokens,
+  extractUsage,
+  measureUsage,
+  summarizeSignalCost,
+} from '../usageAccounting';
+import { buildAdapterFromSpec } from '../llmService';
+import * as helpers from '../_utils_helpers';
+import * as healthStore from '../../utils/providerHealthStore';
+import { getProviderUsage, recordProviderRequest, recordProviderTokens } from '../../utils/providerUsageStore';
+import { ProviderSpec } from '../../utils/providerStore';
+
+jest.mock('../../utils/providerStore', () => ({
+  getProviderSecrets: jest.fn().mockResolvedValue({}),
+}));
+jest.mock('../../utils/providerHealthStore');
+
+const SIGNAL = '{"type":"BUY","confidence":80,"price":100,"stopLoss":95,"takeProfit":110}';
+const spec: ProviderSpec = { id: 'p', endpoint: 'https://api.test.com', inputTokenPrice: 3, outputTokenPrice: 15 };
+
+describe('usageAccounting', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    now = Date.parse('2026-03-01T23:59:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    (healthStore.acquireCallPermit as jest.Mock).mockResolvedValue({ allowed: true, probe: false, health: { state: 'CLOSED', failureCount: 0 } });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should read the usage reported by common providers', () => {
+    expect(extractUsage({ usage: { prompt_tokens: 120, completion_tokens: 30 } })).toEqual({ inputTokens: 120, outputTokens: 30, estimated: false });
+    expect(extractUsage({ usage: { input_tokens: 50, output_tokens: 10 } })).toMatchObject({ inputTokens: 50, outputTokens: 10 });
+    expect(extractUsage({ usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 3 } })).toMatchObject({ inputTokens: 7, outputTokens: 3 });
+    expect(extractUsage({ prompt_eval_count: 9, eval_count: 4 })).toMatchObject({ inputTokens: 9, outputTokens: 4 });
+    expect(extractUsage({ choices: [] })).toBeNull();
+    expect(extractUsage('streamed text')).toBeNull();
+  });
+
+  it('should estimate usage the provider did not report, and price it', () => {
+    expect(estimateTokens('abcdefghi')).toBe(3);
+    const usage = measureUsage('x'.repeat(40), 'y'.repeat(400), null);
+    expect(usage).toEqual({ inputTokens: 100, outputTokens: 10, estimated: true });
+    expect(calculateCost(spec, { inputTokens: 1_000_000, outputTokens: 2000, estimated: false })).toBeCloseTo(3.03);
+    expect(calculateCost({ id: 'free', endpoint: '' }, usage)).toBe(0);
+  });
+
+  it('should refuse calls over the rate limit and the daily budgets', async () => {
+    await recordProviderRequest('p');
+    await recordProviderRequest('p');
+    await recordProviderTokens('p', { inputTokens: 800, outputTokens: 100, estimated: false }, 0.01);
+    const usage = await getProviderUsage('p');
+
+    expect(checkProviderLimits({ ...spec, requestsPerMinute: 2 }, usage)).toBe('2 requests per minute reached');
+    expect(checkProviderLimits({ ...spec, dailyRequestLimit: 2 }, usage)).toBe('daily limit of 2 requests reached');
+    expect(checkProviderLimits({ ...spec, dailyTokenLimit: 1000 }, usage, 50)).toBeNull();
+    expect(checkProviderLimits({ ...spec, dailyTokenLimit: 1000 }, usage, 150)).toBe('daily budget of 1000 tokens reached (900 used)');
+
+    // A minute later the rate limit frees up, and the next UTC day starts the daily counters over.
+    now += 60 * 1000;
+    const nextDay = await getProviderUsage('p');
+    expect(nextDay).toMatchObject({ day: '2026-03-02', recentRequests: [], dailyRequests: 0, dailyTokens: 0, totalRequests: 2, totalTokens: 900 });
+    expect(nextDay.totalCost).toBeCloseTo(0.01);
+  });
+
+  it('should record usage and cost in the adapter and refuse calls once the budget is spent', async () => {
+    const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ message: { content: SIGNAL } }], usage: { prompt_tokens: 1000, completion_tokens: 200 } }),
+    } as Response);
+    const adapter = buildAdapterFromSpec({ ...spec, dailyRequestLimit: 1 });
+
+    const first = await adapter.call('prompt');
+    expect(first).toMatchObject({ ok: true, usage: { inputTokens: 1000, outputTokens: 200, estimated: false } });
+    expect(first.cost).toBeCloseTo(0.006);
+    expect(await getProviderUsage('p')).toMatchObject({ dailyRequests: 1, dailyTokens: 1200 });
+
+    const second = await adapter.call('prompt');
+    expect(second).toMatchObject({ ok: false, budgetExceeded: true, error: 'Budget exceeded for p: daily limit of 1 requests reached.' });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(healthStore.acquireCallPermit).toHaveBeenCalledTimes(1);
+
+    expect(summarizeSignalCost([first, second, { ...first, providerId: 'q', cost: undefined }])).toMatchObject({
+      inputTokens: 2000,
+      outputTokens: 400,
+      estimated: false,
+      byProvider: { p: first.cost, q: 0 },
+    });
+  });
+
+  it('should check the budgets again before retrying', async () => {
+    jest.spyOn(helpers, 'sleep').mockResolvedValue(undefined);
+    const fetchSpy = jest.spyOn(helpers, 'fetchWithTimeout').mockResolvedValue({ ok: false, status: 503, headers: new Headers() } as Response);
+    const adapter = buildAdapterFromSpec({ ...spec, dailyRequestLimit: 2, maxRetries: 3 });
+
+    const result = await adapter.call('prompt');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ ok: false, budgetExceeded: true, errorClass: 'SERVER' });
+    expect(result.error).toContain('budget exceeded for p: daily limit of 2 requests reached');
+    expect(await getProviderUsage('p')).toMatchObject({ dailyRequests: 2 });
+  });
+
+  it('should not lose concurrent usage updates', async () => {
+    await Promise.all([
+      recordProviderRequest('p'),
+      recordProviderTokens('p', { inputTokens: 10, outputTokens: 5, estimated: false }, 0.5),
+      recordProviderRequest('p'),
+      recordProviderTokens('p', { inputTokens: 20, outputTokens: 5, estimated: false }, 0.25),
+    ]);
+    expect(await getProviderUsage('p')).toMatchObject({ dailyRequests: 2, dailyTokens: 40, dailyCost: 0.75, totalRequests: 2 });
+  });
+});
@@ -37,6 +37,11 @@ export function extractTextFromObject(obj: any): string | null {
     if (c.message && typeof c.message.content === 'string') return c.message.content;
     if (typeof c.text === 'string') return c.text;
   }
+  // Anthropic messages: a list of content blocks.
+  if (Array.isArray(obj.content)) {
+    const parts = obj.content.filter((b: any) => b && typeof b.text === 'string').map((b: any) => b.text);
+    if (parts.length) return parts.join('');
+  }
   // Gemini-like
   if (obj.candidates && Array.isArray(obj.candidates) && obj.candidates[0]) {
     const cand = obj.candidates[0];
@@ -0,0 +1,380 @@
+/**
+ * @file A registry of strategies for combining several providers' votes into one consensus.
+ *
+ * Every strategy reports how contested its result was: the normalized entropy of the votes,
+ * the spread of the suggested entry prices, and which providers voted against the result.
+ */
+import { ConsensusInfo, LLMResponseParsed, SignalType } from '../types';
+import { getProviderWeight, ProviderPerformance } from './providerPerformanceService';
+
+/**
+ * The built-in aggregation modes.
+ * @typedef {'MAJORITY' | 'WEIGHTED' | 'FIRST' | 'PERFORMANCE_WEIGHTED' | 'MEDIAN' | 'UNANIMOUS_VETO' | 'QUORUM' | 'BAYESIAN'} BuiltInAggregationMode
+ */
+export type BuiltInAggregationMode =
+  | 'MAJORITY'
+  | 'WEIGHTED'
+  | 'FIRST'
+  | 'PERFORMANCE_WEIGHTED'
+  | 'MEDIAN'
+  | 'UNANIMOUS_VETO'
+  | 'QUORUM'
+  | 'BAYESIAN';
+
+/**
+ * The ID of a registered aggregation strategy: a built-in mode or a custom one.
+ * @typedef {BuiltInAggregationMode | string} AggregationMode
+ */
+export type AggregationMode = BuiltInAggregationMode | (string & {});
+
+/**
+ * The consensus produced by aggregating several provider responses.
+ * @interface AggregatedSignal
+ * @property {SignalType} type - The winning signal type.
+ * @property {number} confidence - The confidence of the consensus, from 0 to 100.
+ * @property {number} price - The entry price of the winning group.
+ * @property {number} stopLoss - The stop loss of the winning group.
+ * @property {number} takeProfit - The take profit of the winning group.
+ * @property {string} reasoning - The reasoning of each provider in the winning group.
+ * @property {ConsensusInfo} [consensus] - How contested the consensus was.
+ */
+export interface AggregatedSignal {
+  type: SignalType;
+  confidence: number;
+  price: number;
+  stopLoss: number;
+  takeProfit: number;
+  reasoning: string;
+  consensus?: ConsensusInfo;
+}
+
+/**
+ * Extra inputs available to strategies.
+ * @interface AggregationContext
+ * @property {Record<string, ProviderPerformance>} performance - Provider track records on the symbol.
+ */
+export interface AggregationContext {
+  performance: Record<string, ProviderPerformance>;
+}
+
+/**
+ * A strategy for combining provider votes.
+ * @interface AggregationStrategy
+ * @property {string} id - The strategy's ID, used as its `AggregationMode`.
+ * @property {string} name - A human-readable name.
+ * @property {string} description - A one-line description of how votes are combined.
+ * @property {boolean} [usesPerformance] - Whether the strategy reads provider track records, so callers know to load them.
+ * @property {Function} aggregate - Combines non-empty, successful responses into a consensus.
+ */
+export interface AggregationStrategy {
+  id: string;
+  name: string;
+  description: string;
+  usesPerformance?: boolean;
+  aggregate: (parsed: LLMResponseParsed[], context: AggregationContext) => AggregatedSignal;
+}
+
+const SIGNAL_TYPES: SignalType[] = ['BUY', 'SELL', 'HOLD'];
+
+const voteOf = (p: LLMResponseParsed) => (p.parsed!.type || 'HOLD') as SignalType;
+const confidenceOf = (p: LLMResponseParsed) => p.parsed!.confidence ?? 50;
+const mean = (arr: number[]) => (arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0);
+
+/**
+ * Returns the median of a list of numbers.
+ * @param {number[]} arr The numbers.
+ * @returns {number} The median, or 0 for an empty list.
+ */
+export function median(arr: number[]): number {
+  if (arr.length === 0) return 0;
+  const sorted = [...arr].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Groups responses by the signal type they voted for, in order of first appearance.
+ * @param {LLMResponseParsed[]} parsed The successful provider responses.
+ * @returns {Map<SignalType, LLMResponseParsed[]>} The responses per signal type.
+ */
+export function groupVotes(parsed: LLMResponseParsed[]): Map<SignalType, LLMResponseParsed[]> {
+  const groups = new Map<SignalType, LLMResponseParsed[]>();
+  parsed.forEach((p) => groups.set(voteOf(p), [...(groups.get(voteOf(p)) ?? []), p]));
+  return groups;
+}
+
+/**
+ * Measures how split the votes are as their Shannon entropy, normalized so that 0 is
+ * unanimous and 1 is an even split across BUY, SELL and HOLD.
+ * @param {LLMResponseParsed[]} parsed The successful provider responses.
+ * @returns {number} The disagreement, from 0 to 1.
+ */
+export function measureDisagreement(parsed: LLMResponseParsed[]): number {
+  if (parsed.length === 0) return 0;
+  const entropy = Array.from(groupVotes(parsed).values()).reduce((h, items) => {
+    const p = items.length / parsed.length;
+    return h - p * Math.log(p);
+  }, 0);
+  return entropy / Math.log(SIGNAL_TYPES.length);
+}
+
+/**
+ * Measures the spread of the suggested entry prices as their coefficient of variation.
+ * @param {LLMResponseParsed[]} parsed The successful provider responses.
+ * @returns {number} The standard deviation as a percentage of the mean price, or 0 with fewer than two prices.
+ */
+export function measurePriceDispersion(parsed: LLMResponseParsed[]): number {
+  const prices = parsed.map((p) => p.parsed!.price).filter((v): v is number => Number.isFinite(v) && v! > 0);
+  if (prices.length < 2) return 0;
+  const m = mean(prices);
+  const variance = mean(prices.map((v) => (v - m) ** 2));
+  return (Math.sqrt(variance) / m) * 100;
+}
+
+/**
+ * Picks the signal type with the highest score. Ties go to the type that was voted for first.
+ * @param {Map<SignalType, LLMResponseParsed[]>} groups The votes per signal type.
+ * @param {(items: LLMResponseParsed[]) => number} score Scores a group.
+ * @returns {SignalType} The winning signal type.
+ */
+function pickWinner(groups: Map<SignalType, LLMResponseParsed[]>, score: (items: LLMResponseParsed[]) => number): SignalType {
+  let winner: SignalType = 'HOLD';
+  let best = -Infinity;
+  groups.forEach((items, type) => {
+    const s = score(items);
+    if (s > best) {
+      best = s;
+      winner = type;
+    }
+  });
+  return winner;
+}
+
+/**
+ * Builds a strategy's result from the winning type and the responses backing it.
+ * @param {string} strategy The strategy ID.
+ * @param {SignalType} type The winning signal type.
+ * @param {LLMResponseParsed[]} parsed All successful provider responses.
+ * @param {LLMResponseParsed[]} backers The responses the levels are taken from.
+ * @param {object} [options] - Overrides.
+ * @param {boolean} [options.useMedian] - Take medians of the backers' levels instead of means.
+ * @param {number} [options.confidence] - The consensus confidence; defaults to the backers' mean confidence.
+ * @param {string} [options.reasoning] - The consensus reasoning; defaults to the backers' reasoning.
+ * @returns {AggregatedSignal} The consensus.
+ */
+function buildResult(
+  strategy: string,
+  type: SignalType,
+  parsed: LLMResponseParsed[],
+  backers: LLMResponseParsed[],
+  options: { useMedian?: boolean; confidence?: number; reasoning?: string } = {}
+): AggregatedSignal {
+  const combine = options.useMedian ? median : mean;
+  const levels = (field: 'price' | 'stopLoss' | 'takeProfit', from: LLMResponseParsed[]) =>
+    combine(from.map((p) => p.parsed![field] as number).filter(Number.isFinite));
+  // A forced HOLD may have no backers; its entry price is still needed to track the outcome.
+  const priceSource = backers.length > 0 ? backers : parsed;
+  const votes = { BUY: 0, SELL: 0, HOLD: 0 } as Record<SignalType, number>;
+  parsed.forEach((p) => votes[voteOf(p)]++);
+
+  return {
+    type,
+    confidence: Math.round(options.confidence ?? combine(backers.map(confidenceOf))),
+    price: levels('price', priceSource),
+    stopLoss: levels('stopLoss', backers),
+    takeProfit: levels('takeProfit', backers),
+    reasoning: options.reasoning ?? backers.map((p) => p.parsed!.reasoning || 'No reasoning provided.').join('\n---\n'),
+    consensus: {
+      strategy,
+      disagreement: measureDisagreement(parsed),
+      priceDispersion: measurePriceDispersion(parsed),
+      dissenters: parsed.filter((p) => voteOf(p) !== type).map((p) => p.providerId),
+      votes,
+    },
+  };
+}
+
+/**
+ * Describes who voted for what, e.g. "BUY: a, b; SELL: c".
+ * @param {Map<SignalType, LLMResponseParsed[]>} groups The votes per signal type.
+ * @returns {string} The description.
+ */
+function describeVotes(groups: Map<SignalType, LLMResponseParsed[]>): string {
+  return Array.from(groups.entries())
+    .map(([type, items]) => `${type}: ${items.map((p) => p.providerId).join(', ')}`)
+    .join('; ');
+}
+
+/** Picks the type with the most votes. */
+const majority: AggregationStrategy = {
+  id: 'MAJORITY',
+  name: 'Majority',
+  description: 'The signal type with the most votes wins.',
+  aggregate(parsed) {
+    const groups = groupVotes(parsed);
+    const type = pickWinner(groups, (items) => items.length);
+    return buildResult('MAJORITY', type, parsed, groups.get(type)!);
+  },
+};
+
+/** Picks the type with the highest summed confidence. */
+const weighted: AggregationStrategy = {
+  id: 'WEIGHTED',
+  name: 'Weighted',
+  description: 'Each vote counts by its confidence.',
+  aggregate(parsed) {
+    const groups = groupVotes(parsed);
+    const type = pickWinner(groups, (items) => items.reduce((s, p) => s + confidenceOf(p), 0));
+    return buildResult('WEIGHTED', type, parsed, groups.get(type)!);
+  },
+};
+
+/** Follows the highest-priority provider that responded. */
+const first: AggregationStrategy = {
+  id: 'FIRST',
+  name: 'First',
+  description: 'Follows the first provider, in configured order, that gave a valid response.',
+  aggregate(parsed) {
+    const type = voteOf(parsed[0]);
+    return buildResult('FIRST', type, parsed, groupVotes(parsed).get(type)!);
+  },
+};
+
+/** Weighs each vote's confidence by the provider's track record. */
+const performanceWeighted: AggregationStrategy = {
+  id: 'PERFORMANCE_WEIGHTED',
+  name: 'Track record',
+  description: 'Each vote counts by its confidence times the provider’s prior-smoothed hit rate on the symbol.',
+  usesPerformance: true,
+  aggregate(parsed, { performance }) {
+    const groups = groupVotes(parsed);
+    const type = pickWinner(groups, (items) =>
+      items.reduce((s, p) => s + getProviderWeight(performance, p.providerId) * confidenceOf(p), 0)
+    );
+    return buildResult('PERFORMANCE_WEIGHTED', type, parsed, groups.get(type)!);
+  },
+};
+
+/** Like WEIGHTED, but robust to a single outlying price or confidence. */
+const medianConsensus: AggregationStrategy = {
+  id: 'MEDIAN',
+  name: 'Median',
+  description: 'Each vote counts by its confidence; prices, levels and confidence are the winning group’s medians.',
+  aggregate(parsed) {
+    const groups = groupVotes(parsed);
+    const type = pickWinner(groups, (items) => items.reduce((s, p) => s + confidenceOf(p), 0));
+    return buildResult('MEDIAN', type, parsed, groups.get(type)!, { useMedian: true });
+  },
+};
+
+/** Trades only when no provider takes the opposite side. */
+const unanimousVeto: AggregationStrategy = {
+  id: 'UNANIMOUS_VETO',
+  name: 'Unanimous (veto)',
+  description: 'HOLD votes abstain; any provider voting the opposite direction vetoes the trade.',
+  aggregate(parsed) {
+    const groups = groupVotes(parsed);
+    const buys = groups.get('BUY') ?? [];
+    const sells = groups.get('SELL') ?? [];
+    if (buys.length > 0 && sells.length > 0) {
+      return buildResult('UNANIMOUS_VETO', 'HOLD', parsed, groups.get('HOLD') ?? [], {
+        confidence: 0,
+        reasoning: `Vetoed: providers disagree on direction (${describeVotes(groups)}).`,
+      });
+    }
+    const type: SignalType = buys.length > 0 ? 'BUY' : sells.length > 0 ? 'SELL' : 'HOLD';
+    return buildResult('UNANIMOUS_VETO', type, parsed, groups.get(type)!);
+  },
+};
+
+/**
+ * Creates a quorum strategy: only votes at or above `minConfidence` count, and the leading
+ * type must gather more than `quorum` of all responses, otherwise the result is HOLD.
+ * @param {object} [options] - The quorum settings.
+ * @param {number} [options.minConfidence=60] - The minimum confidence for a vote to count.
+ * @param {number} [options.quorum=0.5] - The fraction of all responses the winner must exceed.
+ * @returns {AggregationStrategy} The strategy.
+ */
+export function createQuorumStrategy(options: { minConfidence?: number; quorum?: number } = {}): AggregationStrategy {
+  const { minConfidence = 60, quorum = 0.5 } = options;
+  return {
+    id: 'QUORUM',
+    name: 'Quorum',
+    description: `Votes below ${minConfidence}% confidence are ignored; the winner needs over ${Math.round(quorum * 100)}% of all providers.`,
+    aggregate(parsed) {
+      const groups = groupVotes(parsed.filter((p) => confidenceOf(p) >= minConfidence));
+      const type = pickWinner(groups, (items) => items.length);
+      const backers = groups.get(type) ?? [];
+      if (backers.length > quorum * parsed.length) {
+        return buildResult('QUORUM', type, parsed, backers);
+      }
+      return buildResult('QUORUM', 'HOLD', parsed, [], {
+        confidence: 0,
+        reasoning: `No quorum: ${backers.length} of ${parsed.length} providers agreed with at least ${minConfidence}% confidence.`,
+      });
+    },
+  };
+}
+
+/**
+ * Pools votes as independent evidence. A vote for a type with confidence c is a likelihood of c
+ * for that type and (1 - c) / 2 for each other type, tempered by the provider's track record
+ * (a provider at the prior mean counts once). The posterior of the winner is the confidence.
+ */
+const bayesian: AggregationStrategy = {
+  id: 'BAYESIAN',
+  name: 'Bayesian',
+  description: 'Pools votes as independent evidence, tempered by each provider’s track record.',
+  usesPerformance: true,
+  aggregate(parsed, { performance }) {
+    const logPosterior = { BUY: 0, SELL: 0, HOLD: 0 } as Record<SignalType, number>;
+    parsed.forEach((p) => {
+      const c = Math.min(0.99, Math.max(0.01, confidenceOf(p) / 100));
+      const reliability = 2 * getProviderWeight(performance, p.providerId);
+      SIGNAL_TYPES.forEach((type) => {
+        logPosterior[type] += reliability * Math.log(type === voteOf(p) ? c : (1 - c) / 2);
+      });
+    });
+    const maxLog = Math.max(...SIGNAL_TYPES.map((t) => logPosterior[t]));
+    const unnormalized = SIGNAL_TYPES.map((t) => Math.exp(logPosterior[t] - maxLog));
+    const total = unnormalized.reduce((a, b) => a + b, 0);
+    const groups = groupVotes(parsed);
+    const type = pickWinner(groups, (items) => logPosterior[voteOf(items[0])]);
+    const posterior = unnormalized[SIGNAL_TYPES.indexOf(type)] / total;
+    return buildResult('BAYESIAN', type, parsed, groups.get(type)!, { confidence: posterior * 100 });
+  },
+};
+
+const strategies = new Map<string, AggregationStrategy>();
+
+/**
+ * Registers an aggregation strategy, replacing any strategy with the same ID.
+ * @param {AggregationStrategy} strategy The strategy.
+ */
+export function registerAggregationStrategy(strategy: AggregationStrategy) {
+  strategies.set(strategy.id, strategy);
+}
+
+/**
+ * Returns a registered aggregation strategy.
+ * @param {AggregationMode} id The strategy ID.
+ * @returns {AggregationStrategy} The strategy.
+ * @throws {Error} If no strategy is registered under the ID.
+ */
+export function getAggregationStrategy(id: AggregationMode): AggregationStrategy {
+  const strategy = strategies.get(id);
+  if (!strategy) throw new Error(`Unknown aggregation strategy: ${id}`);
+  return strategy;
+}
+
+/**
+ * Lists the registered aggregation strategies in registration order.
+ * @returns {AggregationStrategy[]} The strategies.
+ */
+export function listAggregationStrategies(): AggregationStrategy[] {
+  return Array.from(strategies.values());
+}
+
+[weighted, majority, performanceWeighted, medianConsensus, bayesian, createQuorumStrategy(), unanimousVeto, first].forEach(
+  registerAggregationStrategy
+);
@@ -0,0 +1,213 @@
+/**
+ * @file Performance analytics over the playbook: equity curve, risk-adjusted returns, streaks and breakdowns.
+ *
+ * Only signals closed as a win or a loss count as trades. Pending and cancelled signals are
+ * counted but do not affect any return statistic. Trades are ordered by the time they closed.
+ */
+import { SignalHistory, SignalType } from '../types';
+import { OriginFilter, getSignalStrategy, loadPlaybook, matchesOrigin } from './playbookService';
+import {
+  EquityPoint,
+  buildEquityCurve,
+  calculateMaxDrawdown,
+  calculateProfitFactor,
+  calculateSharpeRatio,
+  calculateSortinoRatio,
+  calculateStreaks,
+  mean,
+} from './performanceMetrics';
+
+/**
+ * The results of a group of signals.
+ * @interface BreakdownRow
+ * @property {string} key - What the signals have in common, e.g. a symbol or a confidence bucket.
+ * @property {number} total - The number of signals in the group.
+ * @property {number} wins - The winning trades.
+ * @property {number} losses - The losing trades.
+ * @property {number} winRate - Wins as a percentage of wins and losses; 0 without closed trades.
+ * @property {number} avgPnlPercent - The average PnL of the closed trades, in percent.
+ * @property {number} totalPnlPercent - The sum of the PnL of the closed trades, in percent.
+ */
+export interface BreakdownRow {
+  key: string;
+  total: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgPnlPercent: number;
+  totalPnlPercent: number;
+}
+
+/** The ways the analytics group signals. */
+export type BreakdownDimension = 'symbol' | 'type' | 'strategy' | 'confidence' | 'hour';
+
+/**
+ * Performance analytics of a playbook.
+ * @interface PlaybookAnalytics
+ * @property {number} total - All signals.
+ * @property {number} pending - Signals still open.
+ * @property {number} cancelled - Cancelled or expired signals.
+ * @property {number} wins - Winning trades.
+ * @property {number} losses - Losing trades.
+ * @property {number} winRate - Wins as a percentage of wins and losses; 0 without closed trades.
+ * @property {number} avgWinPercent - The average PnL of the winning trades, in percent.
+ * @property {number} avgLossPercent - The average PnL of the losing trades, in percent (negative).
+ * @property {number} expectancyPercent - The average PnL per closed trade, in percent.
+ * @property {number} profitFactor - Gross profit over gross loss; Infinity without losses.
+ * @property {number} totalReturnPercent - The return of the equity curve.
+ * @property {EquityPoint[]} equityCurve - Equity after each closed trade, starting with the initial equity.
+ * @property {number} maxDrawdownPercent - The largest peak-to-trough decline of the equity curve.
+ * @property {number} sharpe - The per-trade Sharpe ratio of the equity returns.
+ * @property {number} sortino - The per-trade Sortino ratio of the equity returns.
+ * @property {number} avgHoldMs - The average time from signal to close of the closed trades.
+ * @property {{ longestWin: number, longestLoss: number, current: number }} streaks - The longest runs of wins and losses, and the current run (negative for losses).
+ * @property {Record<BreakdownDimension, BreakdownRow[]>} breakdowns - The results per symbol,
+ * signal type, strategy, confidence bucket and UTC hour of day the signal was generated.
+ */
+export interface PlaybookAnalytics {
+  total: number;
+  pending: number;
+  cancelled: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgWinPercent: number;
+  avgLossPercent: number;
+  expectancyPercent: number;
+  profitFactor: number;
+  totalReturnPercent: number;
+  equityCurve: EquityPoint[];
+  maxDrawdownPercent: number;
+  sharpe: number;
+  sortino: number;
+  avgHoldMs: number;
+  streaks: { longestWin: number; longestLoss: number; current: number };
+  breakdowns: Record<BreakdownDimension, BreakdownRow[]>;
+}
+
+/**
+ * Options for the analytics.
+ * @interface AnalyticsOptions
+ * @property {number} [initialEquity=10000] - The starting equity of the curve.
+ * @property {boolean} [usePositionSize=true] - Whether each trade risks its signal's `positionSizePercent` of the equity,
+ * as the backtester does, or the whole equity.
+ * @property {OriginFilter} [origin='all'] - Whether to analyze local signals, imported ones or both.
+ */
+export interface AnalyticsOptions {
+  initialEquity?: number;
+  usePositionSize?: boolean;
+  origin?: OriginFilter;
+}
+
+const SIGNAL_TYPES: SignalType[] = ['BUY', 'SELL', 'HOLD'];
+
+/**
+ * Names the confidence bucket of a signal: below 50, then in steps of 10.
+ * @param {number} confidence The confidence, from 0 to 100.
+ * @returns {string} The bucket, e.g. "70-79".
+ */
+export function confidenceBucket(confidence: number): string {
+  if (!(confidence >= 50)) return '0-49';
+  if (confidence >= 90) return '90-100';
+  const low = Math.floor(confidence / 10) * 10;
+  return `${low}-${low + 9}`;
+}
+
+const isTrade = (item: SignalHistory) => item.outcome === 'WIN' || item.outcome === 'LOSS';
+const winRateOf = (wins: number, losses: number) => (wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0);
+
+/**
+ * Groups signals and summarizes each group.
+ * @param {SignalHistory[]} list The signals.
+ * @param {(item: SignalHistory) => string} keyOf Names the group of a signal.
+ * @param {string[]} [order] - The order of known keys; other keys follow by descending number of signals.
+ * @returns {BreakdownRow[]} One row per group.
+ */
+function breakdown(list: SignalHistory[], keyOf: (item: SignalHistory) => string, order?: string[]): BreakdownRow[] {
+  const groups = new Map<string, SignalHistory[]>();
+  list.forEach((item) => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  const rows = [...groups.entries()].map(([key, items]) => {
+    const pnls = items.filter(isTrade).map((i) => i.pnlPercent ?? 0);
+    const wins = items.filter((i) => i.outcome === 'WIN').length;
+    const losses = items.filter((i) => i.outcome === 'LOSS').length;
+    return {
+      key,
+      total: items.length,
+      wins,
+      losses,
+      winRate: winRateOf(wins, losses),
+      avgPnlPercent: mean(pnls),
+      totalPnlPercent: pnls.reduce((a, b) => a + b, 0),
+    };
+  });
+  const rank = (key: string) => (order?.includes(key) ? order.indexOf(key) : Infinity);
+  return rows.sort((a, b) => rank(a.key) - rank(b.key) || b.total - a.total || a.key.localeCompare(b.key));
+}
+
+/**
+ * Computes performance analytics over a playbook.
+ * @param {SignalHistory[]} playbook The signals, in any order.
+ * @param {AnalyticsOptions} [options] - Options.
+ * @returns {PlaybookAnalytics} The analytics.
+ */
+export function computePlaybookAnalytics(playbook: SignalHistory[], options: AnalyticsOptions = {}): PlaybookAnalytics {
+  const { initialEquity = 10000, usePositionSize = true, origin } = options;
+  const list = playbook.filter((item) => matchesOrigin(item, origin));
+  const closedAt = (item: SignalHistory) => item.closedAt ?? item.signal.timestamp;
+  const trades = list.filter(isTrade).sort((a, b) => closedAt(a) - closedAt(b));
+  const pnls = trades.map((t) => t.pnlPercent ?? 0);
+  const winPnls = trades.filter((t) => t.outcome === 'WIN').map((t) => t.pnlPercent ?? 0);
+  const lossPnls = trades.filter((t) => t.outcome === 'LOSS').map((t) => t.pnlPercent ?? 0);
+
+  const returns = trades.map((t, i) => (usePositionSize ? (pnls[i] * (t.signal.riskMetrics?.positionSizePercent ?? 100)) / 100 : pnls[i]));
+  const equityCurve = buildEquityCurve(
+    trades.map((t, i) => ({ t: closedAt(t), returnPercent: returns[i] })),
+    initialEquity,
+    trades[0]?.signal.timestamp
+  );
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+  const holds = trades.map((t) => t.durationMs ?? closedAt(t) - t.signal.timestamp);
+
+  return {
+    total: list.length,
+    pending: list.filter((i) => i.outcome === 'PENDING').length,
+    cancelled: list.filter((i) => i.outcome === 'CANCELLED').length,
+    wins: winPnls.length,
+    losses: lossPnls.length,
+    winRate: winRateOf(winPnls.length, lossPnls.length),
+    avgWinPercent: mean(winPnls),
+    avgLossPercent: mean(lossPnls),
+    expectancyPercent: mean(pnls),
+    profitFactor: calculateProfitFactor(pnls),
+    totalReturnPercent: ((finalEquity - initialEquity) / initialEquity) * 100,
+    equityCurve,
+    maxDrawdownPercent: calculateMaxDrawdown(equityCurve.map((p) => p.equity)),
+    sharpe: calculateSharpeRatio(returns),
+    sortino: calculateSortinoRatio(returns),
+    avgHoldMs: mean(holds),
+    streaks: calculateStreaks(trades.map((t) => t.outcome === 'WIN')),
+    breakdowns: {
+      symbol: breakdown(list, (i) => i.signal.symbol),
+      type: breakdown(list, (i) => i.signal.type, SIGNAL_TYPES),
+      strategy: breakdown(list, (i) => getSignalStrategy(i) || 'unknown'),
+      confidence: breakdown(list, (i) => confidenceBucket(i.signal.confidence), ['90-100', '80-89', '70-79', '60-69', '50-59', '0-49']),
+      hour: breakdown(
+        list,
+        (i) => String(new Date(i.signal.timestamp).getUTCHours()).padStart(2, '0'),
+        Array.from({ length: 24 }, (_, h) => String(h).padStart(2, '0'))
+      ),
+    },
+  };
+}
+
+/**
+ * Loads the playbook and computes its analytics.
+ * @param {AnalyticsOptions} [options] - Options.
+ * @returns {Promise<PlaybookAnalytics>} A promise that resolves to the analytics.
+ */
+export async function getPlaybookAnalytics(options: AnalyticsOptions = {}): Promise<PlaybookAnalytics> {
+  return computePlaybookAnalytics(await loadPlaybook(), options);
+}
@@ -0,0 +1,259 @@
+/**
+ * @file Replays the signal pipeline over historical candles to evaluate prompts, providers and aggregation modes.
+ *
+ * At every step the multi-timeframe analysis is rebuilt from the candles that had
+ * closed by then, so no future data leaks into the prompt. Signals are filled at the
+ * next candle's open and closed by the same rules the live outcome tracker uses.
+ */
+import { Candle, LLMResponseParsed, SignalHistory, Timeframe, TimeframeAnalysis } from '../types';
+import { analyzeTimeframe, generateMultiTimeframeSummary, timeframeToMs } from './multiTimeframeService';
+import { formatSignalsForPrompt, rankRelevantSignals } from './playbookService';
+import { AggregationMode, aggregateSignals, buildSignalPrompt, buildTradingSignal } from './signalService';
+import { computeClosingFields, resolveSignalOutcome } from './outcomeService';
+import { buildEquityCurve, calculateMaxDrawdown, calculateSharpeRatio, EquityPoint } from './performanceMetrics';
+
+/**
+ * Anything that can answer a prompt like an adapter from `buildAdapterFromSpec`.
+ * During a backtest `extra` carries the step's `timestamp` and `mtf` snapshot.
+ * @interface BacktestAdapter
+ */
+export interface BacktestAdapter {
+  call: (prompt: string, extra?: Record<string, any>) => Promise<LLMResponseParsed>;
+}
+
+/**
+ * The context a deterministic provider decides on.
+ * @interface BacktestStepContext
+ * @property {string} prompt - The prompt that would be sent to a provider.
+ * @property {number} timestamp - The UNIX timestamp of the step.
+ * @property {Record<Timeframe, TimeframeAnalysis>} mtf - The analysis as it looked at the step.
+ */
+export interface BacktestStepContext {
+  prompt: string;
+  timestamp: number;
+  mtf: Record<Timeframe, TimeframeAnalysis>;
+}
+
+/**
+ * Options for a backtest run.
+ * @interface BacktestOptions
+ * @property {string} symbol - The trading symbol.
+ * @property {Partial<Record<Timeframe, Candle[]>>} candles - Historical candles per timeframe.
+ * @property {Timeframe} stepTimeframe - The timeframe whose candles drive the simulation; must be present in `candles`.
+ * @property {BacktestAdapter[]} adapters - The providers to query at each step.
+ * @property {AggregationMode} [aggregation='WEIGHTED'] - The method for aggregating signals.
+ * @property {number} [startTime] - Only generate signals at or after this timestamp.
+ * @property {number} [endTime] - Only generate signals at or before this timestamp.
+ * @property {number} [warmupCandles=50] - Step candles to skip before the first signal.
+ * @property {number} [positionSizePercent=100] - The share of equity committed to each trade.
+ * @property {number} [initialEquity=10000] - The starting equity.
+ * @property {number} [holdExpiryMs] - Expiry for trades without usable stop loss or take profit.
+ */
+export interface BacktestOptions {
+  symbol: string;
+  candles: Partial<Record<Timeframe, Candle[]>>;
+  stepTimeframe: Timeframe;
+  adapters: BacktestAdapter[];
+  aggregation?: AggregationMode;
+  startTime?: number;
+  endTime?: number;
+  warmupCandles?: number;
+  positionSizePercent?: number;
+  initialEquity?: number;
+  holdExpiryMs?: number;
+}
+
+/**
+ * The result of a backtest run.
+ * @interface BacktestReport
+ * @property {string} symbol - The trading symbol.
+ * @property {number} steps - The number of steps at which providers were queried.
+ * @property {SignalHistory[]} trades - The simulated trades, closed.
+ * @property {number} wins - The number of winning trades.
+ * @property {number} losses - The number of losing trades.
+ * @property {number} winRate - Wins as a percentage of decided trades.
+ * @property {number} totalReturnPercent - The return on the initial equity.
+ * @property {EquityPoint[]} equityCurve - Equity after each closed trade.
+ * @property {number} maxDrawdownPercent - The largest peak-to-trough equity decline.
+ * @property {number} sharpe - The per-trade Sharpe ratio of equity returns.
+ */
+export interface BacktestReport {
+  symbol: string;
+  steps: number;
+  trades: SignalHistory[];
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalReturnPercent: number;
+  equityCurve: EquityPoint[];
+  maxDrawdownPercent: number;
+  sharpe: number;
+}
+
+/**
+ * Creates a provider that answers from a pure function of the step context.
+ * @param {string} providerId The provider ID to report.
+ * @param {(ctx: BacktestStepContext) => LLMResponseParsed['parsed'] | null} decide Returns the parsed signal, or null to fail the call.
+ * @returns {BacktestAdapter} The adapter.
+ */
+export function createDeterministicAdapter(
+  providerId: string,
+  decide: (ctx: BacktestStepContext) => LLMResponseParsed['parsed'] | null
+): BacktestAdapter {
+  return {
+    async call(prompt, extra = {}) {
+      const parsed = decide({ prompt, timestamp: extra.timestamp, mtf: extra.mtf });
+      return parsed
+        ? { providerId, raw: parsed, ok: true, parsed }
+        : { providerId, raw: null, ok: false, error: 'No decision' };
+    },
+  };
+}
+
+/**
+ * Creates a provider that replays responses recorded per step timestamp.
+ * @param {string} providerId The provider ID to report.
+ * @param {Record<number, LLMResponseParsed>} recordings The recorded responses, keyed by step timestamp.
+ * @returns {BacktestAdapter} The adapter.
+ */
+export function createRecordedAdapter(providerId: string, recordings: Record<number, LLMResponseParsed>): BacktestAdapter {
+  return {
+    async call(_prompt, extra = {}) {
+      return recordings[extra.timestamp] ?? { providerId, raw: null, ok: false, error: `No recording for ${extra.timestamp}` };
+    },
+  };
+}
+
+/**
+ * Wraps an adapter so every response is recorded by step timestamp, for later replay with `createRecordedAdapter`.
+ * @param {BacktestAdapter} adapter The adapter to wrap, e.g. one built by `buildAdapterFromSpec`.
+ * @returns {{ adapter: BacktestAdapter, recordings: Record<number, LLMResponseParsed> }} The recording adapter and its recordings.
+ */
+export function createRecordingAdapter(adapter: BacktestAdapter) {
+  const recordings: Record<number, LLMResponseParsed> = {};
+  return {
+    recordings,
+    adapter: {
+      async call(prompt: string, extra: Record<string, any> = {}) {
+        const res = await adapter.call(prompt, extra);
+        recordings[extra.timestamp] = res;
+        return res;
+      },
+    } as BacktestAdapter,
+  };
+}
+
+/**
+ * Rebuilds the multi-timeframe analysis from the candles that had closed at a point in time.
+ * @param {Partial<Record<Timeframe, Candle[]>>} candles Historical candles per timeframe.
+ * @param {number} asOf The UNIX timestamp of the snapshot.
+ * @returns {Record<Timeframe, TimeframeAnalysis>} The analysis as it would have looked at `asOf`.
+ */
+export function buildSnapshotAt(
+  candles: Partial<Record<Timeframe, Candle[]>>,
+  asOf: number
+): Record<Timeframe, TimeframeAnalysis> {
+  const snapshot = {} as Record<Timeframe, TimeframeAnalysis>;
+  (Object.keys(candles) as Timeframe[]).forEach((tf) => {
+    const tfMs = timeframeToMs(tf);
+    // Same window size as a live fetch.
+    const closed = (candles[tf] ?? []).filter((c) => c.t + tfMs <= asOf).slice(-200);
+    snapshot[tf] = closed.length > 0 ? analyzeTimeframe(closed, tf) : { timeframe: tf, trend: 'NEUTRAL', volatility: 0 };
+  });
+  return snapshot;
+}
+
+/**
+ * Runs a backtest. Only one trade is open at a time; providers are not queried while a trade is open.
+ * @param {BacktestOptions} options The backtest options.
+ * @returns {Promise<BacktestReport>} A promise that resolves to the backtest report.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const {
+    symbol,
+    candles,
+    stepTimeframe,
+    adapters,
+    aggregation = 'WEIGHTED',
+    warmupCandles = 50,
+    positionSizePercent = 100,
+    initialEquity = 10000,
+  } = options;
+  const stepCandles = [...(candles[stepTimeframe] ?? [])].sort((a, b) => a.t - b.t);
+  const stepMs = timeframeToMs(stepTimeframe);
+  const resolveOptions = { holdExpiryMs: options.holdExpiryMs };
+
+  const trades: SignalHistory[] = [];
+  let open: SignalHistory | null = null;
+  let steps = 0;
+
+  for (let i = warmupCandles; i < stepCandles.length - 1; i++) {
+    const asOf = stepCandles[i].t + stepMs;
+    const seen = stepCandles.slice(0, i + 1);
+
+    if (open) {
+      const update = resolveSignalOutcome(open, seen, resolveOptions);
+      if (!update) continue;
+      trades.push({ ...open, ...update });
+      open = null;
+    }
+
+    if (options.startTime !== undefined && asOf < options.startTime) continue;
+    if (options.endTime !== undefined && asOf > options.endTime) break;
+
+    const mtf = buildSnapshotAt(candles, asOf);
+    const examples = rankRelevantSignals(trades.filter((t) => (t.closedAt ?? Infinity) <= asOf), symbol, mtf);
+    const prompt = buildSignalPrompt(symbol, generateMultiTimeframeSummary(mtf), formatSignalsForPrompt(examples));
+
+    steps++;
+    const responses = await Promise.all(adapters.map((a) => a.call(prompt, { timestamp: asOf, mtf })));
+    const aggregated = aggregateSignals(responses.filter((r) => r.ok && r.parsed), aggregation);
+    if (!aggregated || aggregated.type === 'HOLD') continue;
+
+    // Fill at the open of the next step candle, the first price available after the signal.
+    const fill = stepCandles[i + 1];
+    const signal = buildTradingSignal(symbol, aggregated, mtf, { timestamp: fill.t });
+    open = { id: signal.id, signal, outcome: 'PENDING', entryPrice: fill.open };
+  }
+
+  if (open) {
+    // Close whatever is still open at the last available price.
+    const update = resolveSignalOutcome(open, stepCandles, resolveOptions);
+    if (update) {
+      trades.push({ ...open, ...update });
+    } else {
+      const last = stepCandles[stepCandles.length - 1];
+      const closing = computeClosingFields(open, last.close, last.t);
+      trades.push({
+        ...open,
+        ...closing,
+        outcome: closing.pnl >= 0 ? 'WIN' : 'LOSS',
+        hitTarget: null,
+        signal: { ...open.signal, status: 'CLOSED' },
+      });
+    }
+  }
+
+  const wins = trades.filter((t) => t.outcome === 'WIN').length;
+  const losses = trades.filter((t) => t.outcome === 'LOSS').length;
+  const returns = trades.map((t) => ((t.pnlPercent ?? 0) * positionSizePercent) / 100);
+  const equityCurve = buildEquityCurve(
+    trades.map((t, idx) => ({ t: t.closedAt ?? t.signal.timestamp, returnPercent: returns[idx] })),
+    initialEquity,
+    stepCandles[warmupCandles]?.t
+  );
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+
+  return {
+    symbol,
+    steps,
+    trades,
+    wins,
+    losses,
+    winRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+    totalReturnPercent: ((finalEquity - initialEquity) / initialEquity) * 100,
+    equityCurve,
+    maxDrawdownPercent: calculateMaxDrawdown(equityCurve.map((p) => p.equity)),
+    sharpe: calculateSharpeRatio(returns),
+  };
+}
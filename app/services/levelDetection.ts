@@ -0,0 +1,216 @@
+/**
+ * @file Detects support and resistance zones from swing pivots.
+ *
+ * Swing highs and lows (using wicks, not closes) are clustered into price zones.
+ * Each zone is scored by how often it was touched, how recently, and optionally
+ * how much volume traded inside it according to a volume profile.
+ */
+import { Candle, PriceZone, SignalType, TimeframeAnalysis } from '../types';
+import { calculateATR } from './multiTimeframeService';
+
+/**
+ * A swing high or low.
+ * @interface SwingPivot
+ * @property {number} index - The index of the candle in the input series.
+ * @property {number} t - The candle's timestamp.
+ * @property {number} price - The high of a swing high, or the low of a swing low.
+ * @property {'HIGH' | 'LOW'} type - The kind of pivot.
+ */
+export interface SwingPivot {
+  index: number;
+  t: number;
+  price: number;
+  type: 'HIGH' | 'LOW';
+}
+
+/**
+ * A price bin of a volume profile.
+ * @interface VolumeProfileBin
+ * @property {number} low - The lower bound of the bin.
+ * @property {number} high - The upper bound of the bin.
+ * @property {number} volume - The volume traded within the bin.
+ */
+export interface VolumeProfileBin {
+  low: number;
+  high: number;
+  volume: number;
+}
+
+/**
+ * Options for level detection.
+ * @interface LevelDetectionOptions
+ * @property {number} [left=3] - Candles to the left a pivot must exceed.
+ * @property {number} [right=3] - Candles to the right a pivot must exceed.
+ * @property {number} [tolerance] - Maximum distance between pivots of the same zone; defaults to half the ATR(14).
+ * @property {boolean} [useVolumeProfile=true] - Whether to weight zones by the volume traded inside them.
+ * @property {number} [maxLevels=3] - The maximum number of zones returned per side.
+ */
+export interface LevelDetectionOptions {
+  left?: number;
+  right?: number;
+  tolerance?: number;
+  useVolumeProfile?: boolean;
+  maxLevels?: number;
+}
+
+/**
+ * Finds swing highs and lows. A swing high is a candle whose high is above the highs of
+ * the `left` candles before it and not below the highs of the `right` candles after it
+ * (and vice versa for lows), so a flat top yields a single pivot.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [left=3] Candles to the left a pivot must exceed.
+ * @param {number} [right=3] Candles to the right a pivot must exceed.
+ * @returns {SwingPivot[]} The pivots in chronological order.
+ */
+export function findSwingPivots(candles: Candle[], left = 3, right = 3): SwingPivot[] {
+  const pivots: SwingPivot[] = [];
+  for (let i = left; i < candles.length - right; i++) {
+    const c = candles[i];
+    const before = candles.slice(i - left, i);
+    const after = candles.slice(i + 1, i + 1 + right);
+    if (before.every(b => c.high > b.high) && after.every(a => c.high >= a.high)) {
+      pivots.push({ index: i, t: c.t, price: c.high, type: 'HIGH' });
+    }
+    if (before.every(b => c.low < b.low) && after.every(a => c.low <= a.low)) {
+      pivots.push({ index: i, t: c.t, price: c.low, type: 'LOW' });
+    }
+  }
+  return pivots;
+}
+
+/**
+ * Builds a volume profile by spreading each candle's volume evenly over its high-low range.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [bins=24] The number of price bins.
+ * @returns {VolumeProfileBin[]} The bins, lowest price first.
+ */
+export function buildVolumeProfile(candles: Candle[], bins = 24): VolumeProfileBin[] {
+  if (candles.length === 0) return [];
+  const min = Math.min(...candles.map(c => c.low));
+  const max = Math.max(...candles.map(c => c.high));
+  const size = (max - min) / bins || 1;
+  const profile = Array.from({ length: bins }, (_, i) => ({ low: min + i * size, high: min + (i + 1) * size, volume: 0 }));
+  for (const c of candles) {
+    const range = c.high - c.low;
+    for (const bin of profile) {
+      const overlap = Math.min(c.high, bin.high) - Math.max(c.low, bin.low);
+      if (range === 0) {
+        if (c.low >= bin.low && c.low <= bin.high) {
+          bin.volume += c.volume;
+          break;
+        }
+      } else if (overlap > 0) {
+        bin.volume += (c.volume * overlap) / range;
+      }
+    }
+  }
+  return profile;
+}
+
+/**
+ * Groups pivots whose prices lie within `tolerance` of the running zone average.
+ * Zones are returned unscored (`strength` 0).
+ * @param {SwingPivot[]} pivots The pivots to cluster.
+ * @param {number} tolerance The maximum distance from a zone's average price.
+ * @returns {PriceZone[]} The zones, lowest price first.
+ */
+export function clusterPivots(pivots: SwingPivot[], tolerance: number): PriceZone[] {
+  const sorted = [...pivots].sort((a, b) => a.price - b.price);
+  const clusters: SwingPivot[][] = [];
+  for (const p of sorted) {
+    const current = clusters[clusters.length - 1];
+    const avg = current ? current.reduce((a, b) => a + b.price, 0) / current.length : NaN;
+    if (current && p.price - avg <= tolerance) current.push(p);
+    else clusters.push([p]);
+  }
+  return clusters.map(members => ({
+    price: members.reduce((a, b) => a + b.price, 0) / members.length,
+    low: members[0].price,
+    high: members[members.length - 1].price,
+    touches: members.length,
+    lastTouched: Math.max(...members.map(m => m.t)),
+    strength: 0,
+  }));
+}
+
+/**
+ * Detects support zones below and resistance zones above the last close.
+ * Falls back to the lowest low and highest high of the last 50 candles when no pivots are found.
+ * @param {Candle[]} candles An array of candles.
+ * @param {LevelDetectionOptions} [options] - Detection options.
+ * @returns {{ support: PriceZone[], resistance: PriceZone[] }} The zones per side, nearest to the price first. `strength` is 0-100.
+ */
+export function detectLevels(
+  candles: Candle[],
+  options: LevelDetectionOptions = {}
+): { support: PriceZone[]; resistance: PriceZone[] } {
+  if (candles.length === 0) return { support: [], resistance: [] };
+  const { left = 3, right = 3, useVolumeProfile = true, maxLevels = 3 } = options;
+  const last = candles[candles.length - 1];
+  const tolerance = options.tolerance ?? (calculateATR(candles, 14) * 0.5 || last.close * 0.0025);
+
+  let zones = clusterPivots(findSwingPivots(candles, left, right), tolerance);
+  if (zones.length === 0) {
+    const recent = candles.slice(-50);
+    const fallback = (price: number): PriceZone => ({ price, low: price, high: price, touches: 1, lastTouched: last.t, strength: 0 });
+    zones = [fallback(Math.min(...recent.map(c => c.low))), fallback(Math.max(...recent.map(c => c.high)))];
+  }
+
+  const first = candles[0].t;
+  const span = last.t - first || 1;
+  const profile = useVolumeProfile ? buildVolumeProfile(candles) : [];
+  const totalVolume = profile.reduce((a, b) => a + b.volume, 0);
+  const volumeNear = (zone: PriceZone) =>
+    profile
+      .filter(bin => bin.high >= zone.low - tolerance && bin.low <= zone.high + tolerance)
+      .reduce((a, b) => a + b.volume, 0);
+
+  const raw = zones.map(zone => {
+    const recency = (zone.lastTouched - first) / span;
+    const volumeShare = totalVolume > 0 ? volumeNear(zone) / totalVolume : 0;
+    return zone.touches * (0.5 + 0.5 * recency) * (1 + volumeShare);
+  });
+  const maxRaw = Math.max(...raw) || 1;
+  const scored = zones.map((zone, i) => ({ ...zone, strength: Math.round((raw[i] / maxRaw) * 100) }));
+
+  const distance = (z: PriceZone) => Math.abs(z.price - last.close);
+  return {
+    support: scored.filter(z => z.price < last.close).sort((a, b) => distance(a) - distance(b)).slice(0, maxLevels),
+    resistance: scored.filter(z => z.price >= last.close).sort((a, b) => distance(a) - distance(b)).slice(0, maxLevels),
+  };
+}
+
+/**
+ * Suggests a stop loss and take profit anchored on the nearest detected zones.
+ * For a BUY the stop goes just below the nearest support and the target at the nearest
+ * resistance; a SELL is mirrored.
+ * @param {SignalType} type The signal type.
+ * @param {number} entry The entry price.
+ * @param {TimeframeAnalysis} analysis The analysis holding the detected levels.
+ * @param {number} [bufferAtr=0.25] - How far beyond the zone to place the stop, in ATRs.
+ * @returns {{ stopLoss: number | null, takeProfit: number | null }} The suggested levels, null where no zone is available.
+ */
+export function suggestRiskLevels(
+  type: SignalType,
+  entry: number,
+  analysis: TimeframeAnalysis,
+  bufferAtr = 0.25
+): { stopLoss: number | null; takeProfit: number | null } {
+  if (type === 'HOLD' || !analysis.levels) return { stopLoss: null, takeProfit: null };
+  const buffer = (analysis.volatility || 0) * bufferAtr;
+  const below = analysis.levels.support.concat(analysis.levels.resistance).filter(z => z.price < entry);
+  const above = analysis.levels.support.concat(analysis.levels.resistance).filter(z => z.price > entry);
+  const nearestBelow = below.sort((a, b) => b.price - a.price)[0];
+  const nearestAbove = above.sort((a, b) => a.price - b.price)[0];
+
+  if (type === 'BUY') {
+    return {
+      stopLoss: nearestBelow ? nearestBelow.low - buffer : null,
+      takeProfit: nearestAbove ? nearestAbove.price : null,
+    };
+  }
+  return {
+    stopLoss: nearestAbove ? nearestAbove.high + buffer : null,
+    takeProfit: nearestBelow ? nearestBelow.price : null,
+  };
+}
@@ -6,126 +6,419 @@
  * to handle provider failures gracefully.
  */
 import { ProviderSpec, getProviderSecrets } from '../utils/providerStore';
-import { getHealthStatus, recordSuccess, recordFailure } from '../utils/providerHealthStore';
-import { fetchWithTimeout, sleep, extractTextFromObject } from './_utils_helpers';
+import { acquireCallPermit, recordSuccess, recordFailure } from '../utils/providerHealthStore';
+import { recordCallMetric } from '../utils/providerMetricsStore';
+import { getProviderUsage, recordProviderRequest, recordProviderTokens } from '../utils/providerUsageStore';
+import { fetchWithTimeout, sleep } from './_utils_helpers';
+import { createStreamDecoder, openStream, readStreamedText } from './llmStreaming';
+import { extractResponseCandidates, getByPath } from './responseExtraction';
+import { findMissingPlaceholders } from './placeholders';
+import { ERROR_POLICIES, classifyHttpError, classifyThrownError } from './providerErrors';
+import { renderTemplate } from './templateEngine';
+import { calculateCost, checkProviderLimits, estimateTokens, measureUsage } from './usageAccounting';
 import { ParsedSignalSchema } from '../schemas';
-import { LLMResponseParsed } from '../types';
+import { EmbeddingResult, LLMResponseParsed, ProviderDiagnostics, ProviderError, TokenUsage } from '../types';
+
+/** The prompt sent by diagnostic calls. */
+export const DIAGNOSTIC_PROMPT =
+  'This is a connection test. The market trades at 100. Reply with only a JSON object with the fields ' +
+  'type (BUY, SELL or HOLD), confidence (0 to 100), price, stopLoss, takeProfit and reasoning.';
+
+/** The request body used when a spec has no template. */
+const DEFAULT_REQUEST_TEMPLATE = JSON.stringify({ prompt: '{{prompt}}', model: '{{model}}' });
 
 /**
- * Replaces placeholders in a template string with values from a variables object.
- * Placeholders are in the format `{{key}}`.
- * @param {string} template The template string.
- * @param {Record<string, any>} vars An object containing key-value pairs for replacement.
- * @returns {string} The rendered string.
+ * Builds a chat `messages` array from a prompt and an optional system prompt.
+ * @param {string} prompt The user prompt.
+ * @param {string} [system] - The system prompt.
+ * @returns {{ role: string, content: string }[]} The messages.
  */
-function renderTemplate(template: string, vars: Record<string, any>): string {
-  return template.replace(/\{\{(.+?)\}\}/g, (_, key) => {
-    const k = key.trim();
-    return String(vars[k] ?? '');
+export function buildChatMessages(prompt: string, system?: string): { role: string; content: string }[] {
+  return [...(system ? [{ role: 'system', content: system }] : []), { role: 'user', content: prompt }];
+}
+
+/**
+ * Decodes percent-encoding for display, leaving malformed sequences as they are.
+ * @param {string} url The URL.
+ * @returns {string} The readable URL.
+ */
+function readableUrl(url: string): string {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Masks a secret for display, keeping only its last four characters when it is long enough.
+ * @param {string} value The secret.
+ * @returns {string} The masked secret.
+ */
+function maskSecret(value: string): string {
+  return value.length > 8 ? `••••${value.slice(-4)}` : '••••';
+}
+
+/**
+ * Finds the signal in a response payload.
+ * @param {ProviderSpec} spec The provider spec, for its response path and mode.
+ * @param {any} raw The response payload, or the accumulated text of a streamed response.
+ * @returns {{ text: string | null, candidates: object[], parsed?: LLMResponseParsed['parsed'], issues: string[] }}
+ * The searched text, the JSON objects found in it, the first valid signal (preferring one with a type)
+ * and the schema issues of the candidates that failed validation.
+ */
+function evaluateResponse(spec: ProviderSpec, raw: any) {
+  const { text, candidates } = extractResponseCandidates(raw, {
+    responsePath: spec.responsePath,
+    responseMode: spec.responseMode,
   });
+  const results = candidates.map((c) => ParsedSignalSchema.safeParse(c));
+  const valid = results.flatMap((r) => (r.success ? [r.data] : []));
+  const issues = results.flatMap((r, i) =>
+    r.success ? [] : r.error.issues.map((issue) => `#${i + 1} ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  );
+  return { text, candidates, parsed: valid.find((v) => v.type) ?? valid[0], issues };
+}
+
+/**
+ * Options for building an adapter.
+ * @interface AdapterOptions
+ * @property {Record<string, string>} [secrets] - Secrets to use instead of the stored ones, e.g. for a spec that has not been saved yet.
+ */
+export interface AdapterOptions {
+  secrets?: Record<string, string>;
+}
+
+/**
+ * Options for a single adapter call.
+ * @interface CallOptions
+ * @property {(text: string) => void} [onProgress] - For streaming providers, called with the accumulated text as it arrives.
+ */
+export interface CallOptions {
+  onProgress?: (text: string) => void;
 }
 
 /**
  * Builds a generic LLM adapter from a provider specification.
  * This function allows for dynamic, runtime configuration of any LLM provider.
  * @param {ProviderSpec} spec The `ProviderSpec` object describing the LLM provider.
- * @returns {{spec: ProviderSpec, call: (prompt: string, extra?: Record<string, any>) => Promise<LLMResponseParsed>}} An adapter object with a `call` method to interact with the LLM API.
+ * @param {AdapterOptions} [adapterOptions] - Adapter options.
+ * @returns {{spec: ProviderSpec, call: (prompt: string, extra?: Record<string, any>, options?: CallOptions) => Promise<LLMResponseParsed>, embed: (text: string) => Promise<EmbeddingResult>, diagnose: (prompt?: string) => Promise<ProviderDiagnostics>}}
+ * An adapter object with a `call` method to interact with the LLM API, an `embed` method for embedding providers and a `diagnose` method to troubleshoot it.
  */
-export function buildAdapterFromSpec(spec: ProviderSpec) {
+export function buildAdapterFromSpec(spec: ProviderSpec, adapterOptions: AdapterOptions = {}) {
   const timeout = spec.timeoutMs ?? 9000;
   const retries = spec.maxRetries ?? 1;
 
   /**
-   * Makes a call to the LLM provider's API.
-   * @param {string} prompt The prompt to send to the LLM.
-   * @param {Record<string, any>} [extra] - Extra variables to use in the request template.
-   * @returns {Promise<LLMResponseParsed>} A promise that resolves to the parsed response from the LLM.
+   * Renders the URL, headers and body of a request. Stored secrets can be used anywhere;
+   * `prompt`, `model`, `system` and `messages` always take precedence over secrets of the same name.
+   * Each part is escaped for its context, so prompts with quotes or line breaks stay valid JSON.
+   * @param {string} prompt The prompt.
+   * @param {Record<string, any>} extra Extra template variables; `extra.system` becomes the system message.
+   * @param {Record<string, string>} secrets The values for secret placeholders.
+   * @returns {{ url: string, headers: Record<string, string>, body: any }} The URL, the headers and the body, parsed as JSON when possible.
+   * @throws {Error} If a template cannot be parsed.
    */
-  async function call(prompt: string, extra: Record<string, any> = {}): Promise<LLMResponseParsed> {
-    // 1. Check provider health before making a call
-    const health = await getHealthStatus(spec.id);
-    if (health.state === 'OPEN') {
-      return {
-        providerId: spec.id,
-        raw: null,
-        ok: false,
-        error: `Circuit breaker is open for ${spec.id}. Temporarily unavailable.`,
-      };
-    }
-
-    const secrets = await getProviderSecrets(spec.id) || {};
+  function buildRequest(prompt: string, extra: Record<string, any>, secrets: Record<string, string>) {
+    const vars = {
+      ...secrets,
+      prompt,
+      model: spec.model ?? '',
+      messages: buildChatMessages(prompt, extra.system),
+      ...extra,
+    };
+    const url = renderTemplate(spec.endpoint, vars, 'url');
 
     // Build headers: merge spec.headers and replace any placeholders with secrets.
     const headers: Record<string, string> = {};
     if (spec.headers) {
       for (const k of Object.keys(spec.headers)) {
-        let val = spec.headers[k];
-        val = renderTemplate(val, { ...secrets, ...extra });
-        headers[k] = val;
+        headers[k] = renderTemplate(spec.headers[k], vars, 'text');
       }
     }
 
     // Build body from the request template.
-    const tmpl = spec.requestTemplate ?? JSON.stringify({ prompt: '{{prompt}}', model: '{{model}}' });
-    const bodyText = renderTemplate(tmpl, { prompt, model: spec.model ?? '', ...extra });
+    const bodyText = renderTemplate(spec.requestTemplate || DEFAULT_REQUEST_TEMPLATE, vars, 'json');
     const body = (() => {
-      try { return JSON.parse(bodyText); } catch (e) { return bodyText; }
+      try {
+        return JSON.parse(bodyText);
+      } catch (e) {
+        console.warn(`Request template for provider ${spec.id} did not render to JSON; sending it as text.`);
+        return bodyText;
+      }
     })();
+    // Streaming providers need to be asked to stream, unless the template already decides.
+    if (spec.stream && body && typeof body === 'object' && !('stream' in body)) {
+      body.stream = true;
+    }
+    return { url, headers: { 'Content-Type': 'application/json', ...headers }, body };
+  }
+
+  async function loadSecrets(): Promise<Record<string, string>> {
+    return adapterOptions.secrets ?? (await getProviderSecrets(spec.id)) ?? {};
+  }
+
+  /**
+   * Makes a call to the LLM provider's API.
+   * @param {string} prompt The prompt to send to the LLM.
+   * @param {Record<string, any>} [extra] - Extra variables to use in the request template.
+   * @param {CallOptions} [options] - Call options.
+   * @returns {Promise<LLMResponseParsed>} A promise that resolves to the parsed response from the LLM.
+   */
+  async function call(prompt: string, extra: Record<string, any> = {}, options: CallOptions = {}): Promise<LLMResponseParsed> {
+    let request: ReturnType<typeof buildRequest>;
+    try {
+      request = buildRequest(prompt, extra, await loadSecrets());
+    } catch (err) {
+      // A broken template is a configuration problem, not a provider outage, so the breaker is left alone.
+      return { providerId: spec.id, raw: null, ok: false, error: `Invalid template: ${(err as Error).message}` };
+    }
+    const { url, headers, body } = request;
+    const bodyText = typeof body === 'string' ? body : JSON.stringify(body);
+
+    // 1. Check the provider's rate limit and budgets. Checked before the circuit, so a refused call never takes the probe.
+    const limit = checkProviderLimits(spec, await getProviderUsage(spec.id), estimateTokens(bodyText));
+    if (limit) {
+      return { providerId: spec.id, raw: null, ok: false, error: `Budget exceeded for ${spec.id}: ${limit}.`, budgetExceeded: true };
+    }
 
-    // Fetch with retries logic.
+    // 2. Check provider health before making a call. A half-open circuit lets a single probe through.
+    const permit = await acquireCallPermit(spec.id);
+    if (!permit.allowed) {
+      const { health } = permit;
+      return {
+        providerId: spec.id,
+        raw: null,
+        ok: false,
+        error: health.state === 'OPEN'
+          ? `Circuit breaker is open for ${spec.id}. Temporarily unavailable.${health.openReason ? ` ${health.openReason}.` : ''}`
+          : `Circuit breaker for ${spec.id} is testing recovery. Temporarily unavailable.`,
+      };
+    }
+
+    // 3. Fetch with retries logic. Only failures whose class allows it are retried, and never the half-open probe.
+    // Each attempt is timed on its own, so earlier attempts and the backoff don't make the call look slow.
+    let started = Date.now();
+    let latencyMs = 0;
+    const maxRetries = permit.probe ? 0 : retries;
     let attempt = 0;
-    let lastErr: any = null;
-    while (attempt <= retries) {
+    let failure: ProviderError = { errorClass: 'NETWORK', message: 'No attempt made' };
+    let raw: any = null;
+    let usage: TokenUsage | undefined;
+    let cost: number | undefined;
+    let refused: string | null = null;
+    while (attempt <= maxRetries) {
+      // A retry is a new request, so it has to fit in the rate limit and budgets as well.
+      if (attempt > 0) {
+        refused = checkProviderLimits(spec, await getProviderUsage(spec.id), estimateTokens(bodyText));
+        if (refused) break;
+      }
+      raw = null;
+      started = Date.now();
       try {
-        const res = await fetchWithTimeout(spec.endpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', ...headers },
-          body: typeof body === 'string' ? body : JSON.stringify(body),
-        }, timeout);
+        await recordProviderRequest(spec.id);
+        const init = { method: 'POST', headers, body: bodyText };
+        const res = spec.stream ? await openStream(url, init, timeout) : await fetchWithTimeout(url, init, timeout);
 
-        const raw = await res.json();
-        const text = extractTextFromObject(raw);
-
-        // Attempt to parse a JSON block from the response text.
-        let parsedJson: object | undefined;
-        if (text) {
-          const match = text.match(/\{[\s\S]*\}/);
-          if (match) {
-            try {
-              parsedJson = JSON.parse(match[0]);
-            } catch {
-              // Not a valid JSON object, do nothing.
-            }
+        if (!res.ok) {
+          // Nothing is read from an error stream, so drop it rather than leave it open across retries.
+          if (spec.stream) await res.body?.getReader().cancel();
+          failure = classifyHttpError(res);
+        } else {
+          if (spec.stream) {
+            // The completed text goes through the same JSON extraction and validation as a full body.
+            raw = await readStreamedText(res, { format: spec.streamFormat, idleTimeoutMs: timeout, onProgress: options.onProgress });
+          } else {
+            raw = await res.json();
           }
-        }
 
-        if (parsedJson) {
-          const validationResult = ParsedSignalSchema.safeParse(parsedJson);
-          if (validationResult.success) {
-            await recordSuccess(spec.id);
-            return { providerId: spec.id, raw, ok: true, parsed: validationResult.data };
-          } else {
+          // Find the JSON objects in the response and keep the first valid signal, preferring one with a type.
+          const { text, candidates, parsed, issues } = evaluateResponse(spec, raw);
+          // Tokens are paid for whether or not the response holds a valid signal.
+          usage = measureUsage(raw, bodyText, text);
+          cost = calculateCost(spec, usage);
+          await recordProviderTokens(spec.id, usage, cost);
+          if (parsed) {
+            latencyMs = Date.now() - started;
+            await recordSuccess(spec.id, latencyMs);
+            await recordCallMetric(spec.id, { at: started, latencyMs, outcome: 'SUCCESS' });
+            return { providerId: spec.id, raw, ok: true, parsed, usage, cost };
+          }
+          if (candidates.length > 0) {
             // Log the validation error for debugging, but treat it as a failed parse.
-            console.warn(`Validation failed for provider ${spec.id}:`, validationResult.error.errors);
-            return { providerId: spec.id, raw, ok: false, error: 'Invalid response schema' };
+            console.warn(`Validation failed for provider ${spec.id}:`, issues);
+            failure = { errorClass: 'SCHEMA', message: 'Invalid response schema' };
+          } else {
+            failure = { errorClass: 'SCHEMA', message: 'No valid JSON found in response' };
           }
         }
-
-        // If no JSON was found or parsed, return a failed response.
-        const result = { providerId: spec.id, raw, ok: false, error: 'No valid JSON found in response' };
-        await recordFailure(spec.id);
-        return result;
       } catch (err) {
-        lastErr = err;
-        attempt++;
-        if (attempt <= retries) await sleep(200 * Math.pow(2, attempt));
+        failure = classifyThrownError(err);
       }
+      latencyMs = Date.now() - started;
+
+      if (!ERROR_POLICIES[failure.errorClass].retryable) break;
+      attempt++;
+      if (attempt <= maxRetries) await sleep(200 * Math.pow(2, attempt));
+    }
+
+    // If all retries fail, record the failure, timed as the last attempt, and return the error.
+    await recordFailure(spec.id, failure, latencyMs);
+    await recordCallMetric(spec.id, { at: started, latencyMs, outcome: failure.errorClass, error: failure.message });
+    if (refused) {
+      return {
+        providerId: spec.id,
+        raw,
+        ok: false,
+        error: `${failure.message}. Not retried, budget exceeded for ${spec.id}: ${refused}.`,
+        errorClass: failure.errorClass,
+        budgetExceeded: true,
+        usage,
+        cost,
+      };
     }
+    return { providerId: spec.id, raw, ok: false, error: failure.message, errorClass: failure.errorClass, usage, cost };
+  }
 
-    // If all retries fail, record the failure and return the error.
-    await recordFailure(spec.id);
-    return { providerId: spec.id, raw: null, ok: false, error: String(lastErr) };
+  /**
+   * Asks an embedding provider for the embedding of a text, found at the spec's `embeddingPath`.
+   * The text fills the `{{prompt}}` placeholder. Rate limits, budgets and the circuit breaker apply as
+   * for `call`, but failures are not retried.
+   * @param {string} text The text to embed.
+   * @returns {Promise<EmbeddingResult>} A promise that resolves to the embedding, or the reason there is none.
+   */
+  async function embed(text: string): Promise<EmbeddingResult> {
+    if (!spec.embeddingPath) {
+      return { providerId: spec.id, ok: false, error: `${spec.id} is not an embedding provider` };
+    }
+    let request: ReturnType<typeof buildRequest>;
+    try {
+      request = buildRequest(text, {}, await loadSecrets());
+    } catch (err) {
+      return { providerId: spec.id, ok: false, error: `Invalid template: ${(err as Error).message}` };
+    }
+    const { url, headers, body } = request;
+    const bodyText = typeof body === 'string' ? body : JSON.stringify(body);
+
+    const limit = checkProviderLimits(spec, await getProviderUsage(spec.id), estimateTokens(bodyText));
+    if (limit) {
+      return { providerId: spec.id, ok: false, error: `Budget exceeded for ${spec.id}: ${limit}.`, budgetExceeded: true };
+    }
+    const permit = await acquireCallPermit(spec.id);
+    if (!permit.allowed) {
+      return { providerId: spec.id, ok: false, error: `Circuit breaker for ${spec.id} is ${permit.health.state}. Temporarily unavailable.` };
+    }
+
+    const started = Date.now();
+    let failure: ProviderError;
+    let usage: TokenUsage | undefined;
+    let cost: number | undefined;
+    try {
+      await recordProviderRequest(spec.id);
+      const res = await fetchWithTimeout(url, { method: 'POST', headers, body: bodyText }, timeout);
+      if (!res.ok) {
+        failure = classifyHttpError(res);
+      } else {
+        const raw = await res.json();
+        usage = measureUsage(raw, bodyText, '');
+        cost = calculateCost(spec, usage);
+        await recordProviderTokens(spec.id, usage, cost);
+        const vector = getByPath(raw, spec.embeddingPath);
+        if (Array.isArray(vector) && vector.length > 0 && vector.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+          const latencyMs = Date.now() - started;
+          await recordSuccess(spec.id, latencyMs);
+          await recordCallMetric(spec.id, { at: started, latencyMs, outcome: 'SUCCESS' });
+          return { providerId: spec.id, ok: true, vector, usage, cost };
+        }
+        failure = { errorClass: 'SCHEMA', message: `No embedding found at ${spec.embeddingPath}` };
+      }
+    } catch (err) {
+      failure = classifyThrownError(err);
+    }
+
+    const latencyMs = Date.now() - started;
+    await recordFailure(spec.id, failure, latencyMs);
+    await recordCallMetric(spec.id, { at: started, latencyMs, outcome: failure.errorClass, error: failure.message });
+    return { providerId: spec.id, ok: false, error: failure.message, usage, cost };
+  }
+
+  /**
+   * Sends a single request and reports every step, for troubleshooting a provider.
+   * Unlike `call`, it ignores and does not update the circuit breaker, and it does not retry.
+   * @param {string} [prompt=DIAGNOSTIC_PROMPT] - The prompt to send.
+   * @returns {Promise<ProviderDiagnostics>} What was sent, what came back and how it was parsed.
+   */
+  async function diagnose(prompt: string = DIAGNOSTIC_PROMPT): Promise<ProviderDiagnostics> {
+    const secrets = await loadSecrets();
+    const report: ProviderDiagnostics = {
+      providerId: spec.id,
+      request: { url: spec.endpoint, method: 'POST', headers: {}, body: '' },
+      status: null,
+      latencyMs: 0,
+      rawBody: null,
+      extractedText: null,
+      candidates: 0,
+      schemaIssues: [],
+      missingPlaceholders: findMissingPlaceholders(spec, secrets),
+      ok: false,
+    };
+
+    let request: ReturnType<typeof buildRequest>;
+    let masked: ReturnType<typeof buildRequest>;
+    try {
+      request = buildRequest(prompt, {}, secrets);
+      masked = buildRequest(
+        prompt,
+        {},
+        Object.fromEntries(Object.entries(secrets).map(([k, v]) => [k, maskSecret(String(v))]))
+      );
+    } catch (err) {
+      report.error = `Invalid template: ${(err as Error).message}`;
+      return report;
+    }
+    const { url, headers, body } = request;
+    report.request = {
+      url: readableUrl(masked.url),
+      method: 'POST',
+      headers: masked.headers,
+      body: typeof masked.body === 'string' ? masked.body : JSON.stringify(masked.body, null, 2),
+    };
+
+    const started = Date.now();
+    try {
+      const res = await fetchWithTimeout(url, {
+        method: 'POST',
+        headers,
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      }, timeout);
+      report.status = res.status;
+      report.rawBody = await res.text();
+      report.latencyMs = Date.now() - started;
+      if (!res.ok) report.error = `HTTP ${res.status}`;
+
+      let raw: any = report.rawBody;
+      if (spec.stream) {
+        const decoder = createStreamDecoder(spec.streamFormat);
+        const streamed = [...decoder.push(report.rawBody), ...decoder.flush()].join('');
+        if (streamed) raw = streamed;
+      }
+      if (raw === report.rawBody) {
+        try { raw = JSON.parse(report.rawBody); } catch { /* Not JSON: search the text as-is. */ }
+      }
+
+      const { text, candidates, parsed, issues } = evaluateResponse(spec, raw);
+      report.extractedText = text;
+      report.candidates = candidates.length;
+      report.schemaIssues = issues;
+      report.parsed = parsed;
+      report.ok = !!parsed && !report.error;
+    } catch (err) {
+      report.latencyMs = Date.now() - started;
+      report.error = String(err);
+    }
+    return report;
   }
 
-  return { spec, call };
+  return { spec, call, embed, diagnose };
 }
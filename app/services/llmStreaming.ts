@@ -0,0 +1,308 @@
+/**
+ * @file Reads streamed LLM responses and turns them into text deltas.
+ *
+ * Supports server-sent events from OpenAI-compatible and Anthropic APIs and the
+ * newline-delimited JSON that Ollama streams. Each line is decoded on its own, so the
+ * same decoder also copes with mixed or unlabelled formats in `auto` mode.
+ *
+ * React Native's `fetch` buffers the whole body, so streamed requests go through
+ * `XMLHttpRequest`, whose progress events do deliver the body as it arrives.
+ */
+import { fetchWithTimeout } from './_utils_helpers';
+
+/** How long a streamed response may take in total, however steadily it arrives. */
+export const STREAM_TOTAL_TIMEOUT_MS = 120_000;
+
+/**
+ * The wire format of a streamed response.
+ * @typedef {'auto' | 'openai' | 'anthropic' | 'ollama'} StreamFormat
+ */
+export type StreamFormat = 'auto' | 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * An incremental decoder that turns raw chunks into text deltas.
+ * @interface StreamDecoder
+ * @property {(chunk: string) => string[]} push - Feeds a chunk and returns the deltas of every line it completed.
+ * @property {() => string[]} flush - Returns the deltas of a trailing line without a newline.
+ */
+export interface StreamDecoder {
+  push: (chunk: string) => string[];
+  flush: () => string[];
+}
+
+/**
+ * Extracts the text delta from one decoded stream event.
+ * @param {any} event The JSON payload of an SSE `data:` line or an NDJSON line.
+ * @param {StreamFormat} [format='auto'] - The expected format; `auto` accepts any of them.
+ * @returns {string} The text delta, or an empty string for events without text.
+ * @throws {Error} If the event reports an error.
+ */
+export function extractStreamDelta(event: any, format: StreamFormat = 'auto'): string {
+  if (!event || typeof event !== 'object') return '';
+  if (event.error) {
+    throw new Error(event.error.message ?? String(event.error));
+  }
+  const openai = format === 'auto' || format === 'openai';
+  const anthropic = format === 'auto' || format === 'anthropic';
+  const ollama = format === 'auto' || format === 'ollama';
+
+  if (openai && Array.isArray(event.choices)) {
+    const choice = event.choices[0];
+    return choice?.delta?.content ?? choice?.text ?? '';
+  }
+  if (anthropic && event.type === 'content_block_delta') {
+    return event.delta?.text ?? '';
+  }
+  if (ollama && typeof event.response === 'string') return event.response;
+  if (ollama && typeof event.message?.content === 'string') return event.message.content;
+  return '';
+}
+
+/**
+ * Creates a decoder for a streamed response. SSE `event:`, `id:` and comment lines are skipped,
+ * as is the OpenAI `[DONE]` sentinel.
+ * @param {StreamFormat} [format='auto'] - The expected format.
+ * @returns {StreamDecoder} The decoder.
+ */
+export function createStreamDecoder(format: StreamFormat = 'auto'): StreamDecoder {
+  let buffer = '';
+
+  const decodeLine = (rawLine: string): string => {
+    let line = rawLine.trim();
+    if (!line || line.startsWith(':') || line.startsWith('event:') || line.startsWith('id:') || line.startsWith('retry:')) {
+      return '';
+    }
+    if (line.startsWith('data:')) line = line.slice(5).trim();
+    if (line === '[DONE]') return '';
+    let event;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      return ''; // Ignore keep-alives and other non-JSON lines.
+    }
+    return extractStreamDelta(event, format);
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      return lines.map(decodeLine).filter(Boolean);
+    },
+    flush() {
+      const line = buffer;
+      buffer = '';
+      return [decodeLine(line)].filter(Boolean);
+    },
+  };
+}
+
+/**
+ * The minimal XMLHttpRequest surface `openStream` relies on, so tests can supply a stand-in.
+ * @interface XhrLike
+ */
+export interface XhrLike {
+  readyState: number;
+  status: number;
+  responseText: string;
+  onreadystatechange: (() => void) | null;
+  onprogress: (() => void) | null;
+  onload: (() => void) | null;
+  onerror: (() => void) | null;
+  ontimeout: (() => void) | null;
+  open: (method: string, url: string) => void;
+  setRequestHeader: (name: string, value: string) => void;
+  getResponseHeader: (name: string) => string | null;
+  getAllResponseHeaders: () => string;
+  send: (body?: string) => void;
+  abort: () => void;
+}
+
+/**
+ * Parses the raw header block of an `XMLHttpRequest` response.
+ * @param {string} raw The headers, one `Name: value` pair per line.
+ * @returns {Map<string, string>} The header values, keyed by lower-cased name.
+ */
+function parseResponseHeaders(raw: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  raw.split(/\r?\n/).forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  });
+  return headers;
+}
+
+/**
+ * Sends a request whose response is streamed, and resolves once the response headers arrive.
+ * The returned response's body hands out the text received since the previous read, as
+ * `XMLHttpRequest` progress events report it. Without `XMLHttpRequest` (e.g. in Node), it
+ * falls back to `fetch`.
+ * @param {string} url The URL.
+ * @param {{ method: string, headers: Record<string, string>, body: string }} init The request.
+ * @param {number} timeoutMs How long to wait for the response headers.
+ * @param {() => XhrLike} [createXhr] - Creates the request; defaults to the global `XMLHttpRequest`.
+ * @returns {Promise<Response>} A promise that resolves to the response.
+ * @throws {Error} If the request fails or the headers do not arrive within `timeoutMs`.
+ */
+export function openStream(
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string },
+  timeoutMs: number,
+  createXhr?: () => XhrLike
+): Promise<Response> {
+  if (!createXhr && typeof XMLHttpRequest === 'undefined') return fetchWithTimeout(url, init, timeoutMs);
+  const xhr = createXhr ? createXhr() : (new XMLHttpRequest() as unknown as XhrLike);
+
+  return new Promise((resolve, reject) => {
+    let read = 0;
+    let finished = false;
+    let failure: Error | null = null;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+    const fail = (error: Error) => {
+      failure = error;
+      reject(error);
+      notify();
+    };
+    const headersTimer = setTimeout(() => {
+      xhr.abort();
+      fail(new Error(`Request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    const reader = {
+      async read(): Promise<{ done: boolean; value?: string }> {
+        while (true) {
+          if (failure) throw failure;
+          if (xhr.responseText.length > read) {
+            const value = xhr.responseText.slice(read);
+            read = xhr.responseText.length;
+            return { done: false, value };
+          }
+          if (finished) return { done: true };
+          await new Promise<void>((r) => (wake = r));
+        }
+      },
+      async cancel() {
+        finished = true;
+        xhr.abort();
+      },
+    };
+
+    let headersReceived = false;
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState >= 2 && !headersReceived) {
+        headersReceived = true;
+        clearTimeout(headersTimer);
+        // Read the headers now: once the request is aborted, `getResponseHeader` returns null.
+        const received = parseResponseHeaders(xhr.getAllResponseHeaders());
+        resolve({
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          headers: { get: (name: string) => received.get(name.toLowerCase()) ?? null },
+          body: { getReader: () => reader },
+        } as unknown as Response);
+      }
+      notify();
+    };
+    // Setting a progress handler is what makes React Native report the body incrementally.
+    xhr.onprogress = notify;
+    xhr.onload = () => {
+      finished = true;
+      notify();
+    };
+    xhr.onerror = () => {
+      clearTimeout(headersTimer);
+      fail(new Error('Network request failed'));
+    };
+    xhr.ontimeout = xhr.onerror;
+
+    xhr.open(init.method, url);
+    Object.entries(init.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.send(init.body);
+  });
+}
+
+/**
+ * Races a promise against a timer.
+ * @param {Promise<T>} promise The promise.
+ * @param {number} ms How long to wait.
+ * @param {string} message The message of the error thrown when the time runs out.
+ * @returns {Promise<T>} A promise that settles like `promise`, or rejects once `ms` have passed.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Yields the body of a response as text chunks as they arrive. Where the response does not
+ * expose a readable body, the whole text is yielded once it has arrived.
+ * @param {Response} res The response.
+ * @param {number} idleTimeoutMs How long to wait for the next chunk before giving up.
+ * @param {number} [totalTimeoutMs=STREAM_TOTAL_TIMEOUT_MS] - How long the whole body may take.
+ * @returns {AsyncGenerator<string>} The text chunks.
+ * @throws {Error} If no chunk arrives within `idleTimeoutMs`, or the body is not complete within `totalTimeoutMs`.
+ */
+export async function* readResponseText(
+  res: Response,
+  idleTimeoutMs: number,
+  totalTimeoutMs = STREAM_TOTAL_TIMEOUT_MS
+): AsyncGenerator<string> {
+  const deadline = Date.now() + totalTimeoutMs;
+  const reader = (res.body as any)?.getReader?.();
+  if (!reader) {
+    yield await withTimeout(res.text(), totalTimeoutMs, `Stream timed out after ${totalTimeoutMs}ms`);
+    return;
+  }
+  const decoder = typeof TextDecoder !== 'undefined' ? new TextDecoder() : null;
+  try {
+    while (true) {
+      const remaining = deadline - Date.now();
+      const { done, value } = await (remaining < idleTimeoutMs
+        ? withTimeout(reader.read(), Math.max(0, remaining), `Stream timed out after ${totalTimeoutMs}ms`)
+        : withTimeout(reader.read(), idleTimeoutMs, `Stream idle for ${idleTimeoutMs}ms`));
+      if (done) break;
+      if (typeof value === 'string') yield value;
+      else if (decoder) yield decoder.decode(value, { stream: true });
+      else yield String.fromCharCode(...value);
+    }
+  } catch (err) {
+    reader.cancel?.().catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Reads a streamed response to the end, reporting the accumulated text as it grows.
+ * @param {Response} res The response.
+ * @param {object} options - Reading options.
+ * @param {StreamFormat} [options.format='auto'] - The expected format.
+ * @param {number} options.idleTimeoutMs - How long to wait for the next chunk before giving up.
+ * @param {number} [options.totalTimeoutMs=STREAM_TOTAL_TIMEOUT_MS] - How long the whole response may take.
+ * @param {(text: string) => void} [options.onProgress] - Called with the accumulated text after each delta.
+ * @returns {Promise<string>} A promise that resolves to the complete text.
+ */
+export async function readStreamedText(
+  res: Response,
+  options: { format?: StreamFormat; idleTimeoutMs: number; totalTimeoutMs?: number; onProgress?: (text: string) => void }
+): Promise<string> {
+  const decoder = createStreamDecoder(options.format ?? 'auto');
+  let text = '';
+  const append = (deltas: string[]) => {
+    if (deltas.length === 0) return;
+    text += deltas.join('');
+    options.onProgress?.(text);
+  };
+  for await (const chunk of readResponseText(res, options.idleTimeoutMs, options.totalTimeoutMs)) {
+    append(decoder.push(chunk));
+  }
+  append(decoder.flush());
+  return text;
+}
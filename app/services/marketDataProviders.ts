@@ -0,0 +1,283 @@
+/**
+ * @file Market data sources behind a common interface.
+ *
+ * Binance and Kraken are built in, and local CSV/JSON data can be registered with
+ * `createFileDataSource`. The built-in "Local files" source serves the candle files pasted into
+ * the app (see `candleFileStore`). Which source serves a symbol is chosen in `marketDataSourceStore`.
+ */
+import { fetchWithTimeout } from './_utils_helpers';
+import { Candle, Timeframe } from '../types';
+import { config } from '../config';
+import { getMarketDataSelection } from '../utils/marketDataSourceStore';
+import { listCandleFiles, loadCandleFile } from '../utils/candleFileStore';
+
+/**
+ * A single kline update received from a live stream.
+ * @interface KlineStreamUpdate
+ * @property {Timeframe} timeframe - The timeframe of the candle.
+ * @property {Candle} candle - The candle, possibly still forming.
+ * @property {boolean} closed - Whether the candle is final.
+ */
+export interface KlineStreamUpdate {
+  timeframe: Timeframe;
+  candle: Candle;
+  closed: boolean;
+}
+
+/**
+ * A source of candle data.
+ * @interface MarketDataProvider
+ * @property {string} id - A unique identifier, e.g. "binance".
+ * @property {string} name - A user-friendly display name.
+ * @property {(tf: Timeframe) => string} mapTimeframe - Maps a timeframe to the source's own interval notation.
+ * @property {(symbol: string, timeframe: Timeframe, limit: number, startTime?: number) => Promise<Candle[]>} fetchCandles - Fetches up to `limit` candles, the most recent ones unless `startTime` is set.
+ * @property {() => Promise<string[]>} listSymbols - Lists the symbols the source can serve.
+ * @property {object} [stream] - Live kline streaming support, if the source has it.
+ * @property {(symbol: string, timeframes: Timeframe[]) => string} stream.buildUrl - Builds the WebSocket URL for a symbol's kline streams.
+ * @property {(data: string) => KlineStreamUpdate | null} stream.parseMessage - Parses a stream message; returns null for anything that is not a kline.
+ */
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  mapTimeframe: (tf: Timeframe) => string;
+  fetchCandles: (symbol: string, timeframe: Timeframe, limit: number, startTime?: number) => Promise<Candle[]>;
+  listSymbols: () => Promise<string[]>;
+  stream?: {
+    buildUrl: (symbol: string, timeframes: Timeframe[]) => string;
+    parseMessage: (data: string) => KlineStreamUpdate | null;
+  };
+}
+
+/**
+ * Creates a Binance market data source, with live kline streaming.
+ * @param {string} [baseUrl] - The REST API base URL.
+ * @param {string} [wsUrl] - The WebSocket base URL.
+ * @returns {MarketDataProvider} The provider.
+ */
+export function createBinanceProvider(
+  baseUrl: string = config.api.binanceBaseUrl,
+  wsUrl: string = config.api.binanceWsUrl
+): MarketDataProvider {
+  const mapTimeframe = (tf: Timeframe) => tf; // 1m, 5m, 15m, 1h, 4h, 1d are valid for Binance
+  return {
+    id: 'binance',
+    name: 'Binance',
+    mapTimeframe,
+    async fetchCandles(symbol, timeframe, limit, startTime) {
+      let url = `${baseUrl}/klines?symbol=${symbol.toUpperCase()}&interval=${mapTimeframe(timeframe)}&limit=${limit}`;
+      if (startTime !== undefined) url += `&startTime=${startTime}`;
+      const res = await fetchWithTimeout(url, {}, 8000);
+      if (!res.ok) throw new Error(`Binance Klines fetch failed: ${res.status}`);
+      const data = await res.json();
+      return data.map((d: any) => ({
+        t: d[0], open: Number(d[1]), high: Number(d[2]), low: Number(d[3]), close: Number(d[4]), volume: Number(d[5])
+      }));
+    },
+    async listSymbols() {
+      const res = await fetchWithTimeout(`${baseUrl}/exchangeInfo`, {}, 8000);
+      if (!res.ok) throw new Error(`Binance exchangeInfo fetch failed: ${res.status}`);
+      const data = await res.json();
+      return (data.symbols ?? []).map((s: any) => s.symbol);
+    },
+    stream: {
+      buildUrl: (symbol, timeframes) =>
+        `${wsUrl}/stream?streams=${timeframes.map((tf) => `${symbol.toLowerCase()}@kline_${mapTimeframe(tf)}`).join('/')}`,
+      parseMessage(data) {
+        const msg = JSON.parse(data);
+        const k = (msg.data ?? msg).k;
+        if (!k) return null;
+        return {
+          timeframe: k.i,
+          candle: { t: k.t, open: Number(k.o), high: Number(k.h), low: Number(k.l), close: Number(k.c), volume: Number(k.v) },
+          closed: Boolean(k.x),
+        };
+      },
+    },
+  };
+}
+
+const KRAKEN_INTERVALS: Record<Timeframe, string> = { '1m': '1', '5m': '5', '15m': '15', '1h': '60', '4h': '240', '1d': '1440' };
+
+/**
+ * Creates a Kraken market data source. Symbols are Kraken pair names, e.g. "XBTUSD".
+ * Kraken returns at most 720 candles per request.
+ * @param {string} [baseUrl] - The public REST API base URL.
+ * @returns {MarketDataProvider} The provider.
+ */
+export function createKrakenProvider(baseUrl: string = config.api.krakenBaseUrl): MarketDataProvider {
+  const mapTimeframe = (tf: Timeframe) => KRAKEN_INTERVALS[tf];
+  return {
+    id: 'kraken',
+    name: 'Kraken',
+    mapTimeframe,
+    async fetchCandles(symbol, timeframe, limit, startTime) {
+      let url = `${baseUrl}/OHLC?pair=${symbol.toUpperCase()}&interval=${mapTimeframe(timeframe)}`;
+      if (startTime !== undefined) url += `&since=${Math.floor(startTime / 1000)}`;
+      const res = await fetchWithTimeout(url, {}, 8000);
+      if (!res.ok) throw new Error(`Kraken OHLC fetch failed: ${res.status}`);
+      const data = await res.json();
+      if (data.error?.length) throw new Error(`Kraken OHLC fetch failed: ${data.error.join(', ')}`);
+      // The result is keyed by Kraken's canonical pair name, which may differ from the requested one.
+      const pairKey = Object.keys(data.result ?? {}).find((k) => k !== 'last');
+      const rows: any[] = pairKey ? data.result[pairKey] : [];
+      const candles: Candle[] = rows.map((d) => ({
+        t: d[0] * 1000, open: Number(d[1]), high: Number(d[2]), low: Number(d[3]), close: Number(d[4]), volume: Number(d[6])
+      }));
+      return startTime !== undefined ? candles.slice(0, limit) : candles.slice(-limit);
+    },
+    async listSymbols() {
+      const res = await fetchWithTimeout(`${baseUrl}/AssetPairs`, {}, 8000);
+      if (!res.ok) throw new Error(`Kraken AssetPairs fetch failed: ${res.status}`);
+      const data = await res.json();
+      return Object.values(data.result ?? {}).map((p: any) => p.altname);
+    },
+  };
+}
+
+/**
+ * Parses candles from CSV or JSON text.
+ *
+ * JSON may be an array of `Candle` objects or of Binance-style arrays
+ * (`[openTime, open, high, low, close, volume]`). CSV needs a header row with
+ * `t` (or `time`/`timestamp`), `open`, `high`, `low`, `close` and `volume` columns.
+ * Timestamps in seconds are converted to milliseconds.
+ * @param {string} content The file content.
+ * @returns {Candle[]} The candles, sorted by time.
+ */
+export function parseCandleFile(content: string): Candle[] {
+  const text = content.trim();
+  const toMs = (t: number) => (t < 1e11 ? t * 1000 : t);
+  let candles: Candle[];
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const data = JSON.parse(text);
+    const rows: any[] = Array.isArray(data) ? data : data.candles ?? [];
+    candles = rows.map((d) =>
+      Array.isArray(d)
+        ? { t: toMs(Number(d[0])), open: Number(d[1]), high: Number(d[2]), low: Number(d[3]), close: Number(d[4]), volume: Number(d[5] ?? 0) }
+        : {
+            t: toMs(Number(d.t ?? d.time ?? d.timestamp)),
+            open: Number(d.open), high: Number(d.high), low: Number(d.low), close: Number(d.close), volume: Number(d.volume ?? 0),
+          }
+    );
+  } else {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter((l) => l.trim());
+    const header = headerLine.split(',').map((h) => h.trim().toLowerCase());
+    const col = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    const idx = {
+      t: col('t', 'time', 'timestamp', 'date'),
+      open: col('open'), high: col('high'), low: col('low'), close: col('close'), volume: col('volume'),
+    };
+    if (Object.entries(idx).some(([k, i]) => i === -1 && k !== 'volume')) {
+      throw new Error('CSV must have t/time/timestamp, open, high, low and close columns');
+    }
+    candles = lines.map((line) => {
+      const cells = line.split(',').map((c) => c.trim());
+      const rawT = cells[idx.t];
+      const t = /^\d+(\.\d+)?$/.test(rawT) ? toMs(Number(rawT)) : Date.parse(rawT);
+      return {
+        t, open: Number(cells[idx.open]), high: Number(cells[idx.high]), low: Number(cells[idx.low]),
+        close: Number(cells[idx.close]), volume: idx.volume === -1 ? 0 : Number(cells[idx.volume]),
+      };
+    });
+  }
+
+  if (candles.some((c) => ![c.t, c.open, c.high, c.low, c.close].every(Number.isFinite))) {
+    throw new Error('Candle file contains invalid rows');
+  }
+  return candles.sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Creates a market data source that reads candles from local CSV/JSON content.
+ * @param {object} options - The source options.
+ * @param {string} options.id - A unique identifier for the source.
+ * @param {string} [options.name] - A user-friendly display name.
+ * @param {(symbol: string, timeframe: Timeframe) => Promise<string>} options.load - Returns the file content for a symbol and timeframe.
+ * @param {string[] | (() => Promise<string[]>)} [options.symbols] - The symbols the files cover, or a function listing them.
+ * @returns {MarketDataProvider} The provider.
+ */
+export function createFileDataSource(options: {
+  id: string;
+  name?: string;
+  load: (symbol: string, timeframe: Timeframe) => Promise<string>;
+  symbols?: string[] | (() => Promise<string[]>);
+}): MarketDataProvider {
+  return {
+    id: options.id,
+    name: options.name ?? options.id,
+    mapTimeframe: (tf) => tf,
+    async fetchCandles(symbol, timeframe, limit, startTime) {
+      const candles = parseCandleFile(await options.load(symbol, timeframe));
+      return startTime !== undefined
+        ? candles.filter((c) => c.t >= startTime).slice(0, limit)
+        : candles.slice(-limit);
+    },
+    async listSymbols() {
+      return typeof options.symbols === 'function' ? options.symbols() : options.symbols ?? [];
+    },
+  };
+}
+
+/** The ID of the source serving the candle files pasted into the app. */
+export const LOCAL_FILE_SOURCE_ID = 'file';
+
+/**
+ * Creates the source serving the candle files pasted into the app, stored by `candleFileStore`.
+ * A timeframe without a file fails to load, like a timeframe an exchange does not serve.
+ * @returns {MarketDataProvider} The provider.
+ */
+export function createLocalFileSource(): MarketDataProvider {
+  return createFileDataSource({
+    id: LOCAL_FILE_SOURCE_ID,
+    name: 'Local files',
+    async load(symbol, timeframe) {
+      const content = await loadCandleFile(symbol, timeframe);
+      if (content === null) throw new Error(`No candle file for ${symbol.toUpperCase()} ${timeframe}`);
+      return content;
+    },
+    symbols: async () => Object.keys(await listCandleFiles()),
+  });
+}
+
+const registry = new Map<string, MarketDataProvider>();
+
+/**
+ * Registers a market data source, replacing any source with the same ID.
+ * @param {MarketDataProvider} provider The provider to register.
+ */
+export function registerMarketDataProvider(provider: MarketDataProvider) {
+  registry.set(provider.id, provider);
+}
+
+/**
+ * Retrieves a registered market data source.
+ * @param {string} id The ID of the provider.
+ * @returns {MarketDataProvider | null} The provider, or null if none is registered under that ID.
+ */
+export function getMarketDataProvider(id: string): MarketDataProvider | null {
+  return registry.get(id) ?? null;
+}
+
+/**
+ * Lists all registered market data sources.
+ * @returns {MarketDataProvider[]} The providers.
+ */
+export function listMarketDataProviders(): MarketDataProvider[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Resolves the market data source for a symbol: its own override, else the global default, else Binance.
+ * @param {string} symbol The trading symbol.
+ * @returns {Promise<MarketDataProvider>} A promise that resolves to the provider.
+ */
+export async function resolveMarketDataProvider(symbol: string): Promise<MarketDataProvider> {
+  const selection = await getMarketDataSelection();
+  const id = selection.symbolSources[symbol.toUpperCase()] ?? selection.defaultSourceId;
+  return registry.get(id) ?? registry.get('binance')!;
+}
+
+registerMarketDataProvider(createBinanceProvider());
+registerMarketDataProvider(createKrakenProvider());
+registerMarketDataProvider(createLocalFileSource());
@@ -0,0 +1,313 @@
+/**
+ * @file Streams live klines over WebSocket into rolling in-memory candle buffers.
+ *
+ * Each stream backfills its buffers over REST, then applies kline updates as they
+ * arrive and re-analyzes a timeframe whenever one of its candles closes; in between,
+ * each tick updates the analysis' forming candle. Dropped connections are retried
+ * with exponential backoff, and missed candles are backfilled from the stream's source.
+ */
+import { Candle, Timeframe, TimeframeAnalysis } from '../types';
+import { analyzeTimeframe, timeframeToMs } from './multiTimeframeService';
+import { MarketDataProvider, resolveMarketDataProvider } from './marketDataProviders';
+
+/**
+ * The minimal WebSocket surface the stream relies on, so tests can supply a stand-in.
+ * @interface WebSocketLike
+ */
+export interface WebSocketLike {
+  onopen: ((ev?: any) => void) | null;
+  onmessage: ((ev: { data: any }) => void) | null;
+  onclose: ((ev?: any) => void) | null;
+  onerror: ((ev?: any) => void) | null;
+  close: () => void;
+}
+
+/**
+ * The connection status of a market stream.
+ * @typedef {'idle' | 'connecting' | 'open' | 'reconnecting' | 'stopped' | 'unsupported'} StreamStatus
+ */
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'stopped' | 'unsupported';
+
+/**
+ * An event emitted by a market stream.
+ * @interface StreamEvent
+ * @property {'tick' | 'candle' | 'status'} type - A price update, a closed candle, or a status change.
+ * @property {string} symbol - The trading symbol.
+ * @property {Timeframe} [timeframe] - The timeframe of the candle, for 'tick' and 'candle' events.
+ * @property {Candle} [candle] - The updated candle, for 'tick' and 'candle' events.
+ * @property {StreamStatus} [status] - The new status, for 'status' events.
+ */
+export interface StreamEvent {
+  type: 'tick' | 'candle' | 'status';
+  symbol: string;
+  timeframe?: Timeframe;
+  candle?: Candle;
+  status?: StreamStatus;
+}
+
+/**
+ * Options for a market stream.
+ * @interface MarketStreamOptions
+ * @property {string} symbol - The trading symbol.
+ * @property {Timeframe[]} timeframes - The timeframes to stream.
+ * @property {MarketDataProvider} provider - The market data source; must support streaming to connect.
+ * @property {(url: string) => WebSocketLike} [createSocket] - Opens a socket; defaults to the global `WebSocket`.
+ * @property {number} [bufferSize=200] - The number of candles kept per timeframe.
+ * @property {number} [reconnectInitialMs=1000] - The first reconnect delay.
+ * @property {number} [reconnectMaxMs=30000] - The maximum reconnect delay.
+ */
+export interface MarketStreamOptions {
+  symbol: string;
+  timeframes: Timeframe[];
+  provider: MarketDataProvider;
+  createSocket?: (url: string) => WebSocketLike;
+  bufferSize?: number;
+  reconnectInitialMs?: number;
+  reconnectMaxMs?: number;
+}
+
+/**
+ * A live market stream for one symbol.
+ * @interface MarketStream
+ * @property {string} symbol - The trading symbol.
+ * @property {string} sourceId - The ID of the market data source the stream reads from.
+ */
+export interface MarketStream {
+  symbol: string;
+  sourceId: string;
+  start: () => Promise<void>;
+  stop: () => void;
+  getStatus: () => StreamStatus;
+  getCandles: (tf: Timeframe) => Candle[];
+  getAnalysis: (tf: Timeframe) => TimeframeAnalysis | null;
+  isWarm: (tf: Timeframe) => boolean;
+  subscribe: (listener: (event: StreamEvent) => void) => () => void;
+}
+
+/**
+ * Inserts a candle into a buffer, replacing the candle with the same open time.
+ * Candles older than the newest one in the buffer are ignored.
+ * @param {Candle[]} buffer The buffer, oldest first.
+ * @param {Candle} candle The candle to insert.
+ * @param {number} capacity The maximum number of candles to keep.
+ * @returns {Candle[]} The new buffer.
+ */
+export function upsertCandle(buffer: Candle[], candle: Candle, capacity: number): Candle[] {
+  const last = buffer[buffer.length - 1];
+  if (last && candle.t < last.t) return buffer;
+  const next = last && last.t === candle.t ? [...buffer.slice(0, -1), candle] : [...buffer, candle];
+  return next.slice(-capacity);
+}
+
+/**
+ * Merges candles into a buffer by open time. Where both have a candle, the incoming one is kept:
+ * a buffered candle may have been caught forming when the socket dropped. Only the live forming
+ * candle, the buffer's newest when nothing incoming is newer, is kept from the buffer, since it
+ * may be more recent than a REST snapshot.
+ * @param {Candle[]} buffer The buffer, oldest first.
+ * @param {Candle[]} incoming The candles to merge in.
+ * @param {number} capacity The maximum number of candles to keep.
+ * @returns {Candle[]} The new buffer.
+ */
+export function mergeCandles(buffer: Candle[], incoming: Candle[], capacity: number): Candle[] {
+  const byTime = new Map<number, Candle>();
+  buffer.forEach((c) => byTime.set(c.t, c));
+  const forming = buffer[buffer.length - 1];
+  const isLive = forming !== undefined && incoming.every((c) => c.t <= forming.t);
+  incoming.forEach((c) => {
+    if (!(isLive && c.t === forming.t)) byTime.set(c.t, c);
+  });
+  return Array.from(byTime.values()).sort((a, b) => a.t - b.t).slice(-capacity);
+}
+
+/**
+ * Creates a market stream. Call `start` to backfill and connect.
+ * @param {MarketStreamOptions} options The stream options.
+ * @returns {MarketStream} The stream.
+ */
+export function createMarketStream(options: MarketStreamOptions): MarketStream {
+  const {
+    symbol,
+    timeframes,
+    provider,
+    createSocket = (url: string) => new WebSocket(url) as unknown as WebSocketLike,
+    bufferSize = 200,
+    reconnectInitialMs = 1000,
+    reconnectMaxMs = 30000,
+  } = options;
+
+  const buffers: Partial<Record<Timeframe, Candle[]>> = {};
+  const analyses: Partial<Record<Timeframe, TimeframeAnalysis>> = {};
+  const listeners = new Set<(event: StreamEvent) => void>();
+  let socket: WebSocketLike | null = null;
+  let status: StreamStatus = 'idle';
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const emit = (event: Omit<StreamEvent, 'symbol'>) => {
+    listeners.forEach((l) => l({ symbol, ...event }));
+  };
+
+  const setStatus = (next: StreamStatus) => {
+    if (next === status) return;
+    status = next;
+    emit({ type: 'status', status });
+  };
+
+  const analyze = (tf: Timeframe) => {
+    const buffer = buffers[tf] ?? [];
+    if (buffer.length > 0) analyses[tf] = analyzeTimeframe(buffer, tf);
+  };
+
+  const backfill = async (tf: Timeframe, startTime?: number) => {
+    try {
+      const candles = await provider.fetchCandles(symbol, tf, bufferSize, startTime);
+      buffers[tf] = mergeCandles(buffers[tf] ?? [], candles, bufferSize);
+      analyze(tf);
+    } catch (err) {
+      console.warn(`Market stream backfill failed for ${symbol} ${tf}`, err);
+    }
+  };
+
+  const handleMessage = (data: string) => {
+    let update;
+    try {
+      update = provider.stream!.parseMessage(data);
+    } catch {
+      return; // Ignore malformed frames.
+    }
+    if (!update || !timeframes.includes(update.timeframe)) return;
+    const { timeframe, candle, closed } = update;
+
+    const buffer = buffers[timeframe] ?? [];
+    const last = buffer[buffer.length - 1];
+    if (last && candle.t > last.t + timeframeToMs(timeframe)) {
+      // One or more candles were missed; fill them in from REST.
+      backfill(timeframe, last.t);
+    }
+
+    buffers[timeframe] = upsertCandle(buffer, candle, bufferSize);
+    emit({ type: 'tick', timeframe, candle });
+    const analysis = analyses[timeframe];
+    if (closed) {
+      analyze(timeframe);
+      emit({ type: 'candle', timeframe, candle });
+    } else if (analysis?.lastCandle && candle.t >= analysis.lastCandle.t) {
+      // Indicators wait for the close, but the last price should not lag behind the market.
+      analyses[timeframe] = {
+        ...analysis,
+        lastCandle: candle,
+        volumeInfo: analysis.volumeInfo && { ...analysis.volumeInfo, last: candle.volume },
+      };
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(reconnectMaxMs, reconnectInitialMs * 2 ** attempt);
+    attempt++;
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    reconnectTimer = null;
+    if (stopped) return;
+    if (status !== 'reconnecting') setStatus('connecting');
+    const ws = createSocket(provider.stream!.buildUrl(symbol, timeframes));
+    socket = ws;
+    ws.onopen = () => {
+      const reconnected = attempt > 0;
+      attempt = 0;
+      setStatus('open');
+      if (reconnected) timeframes.forEach((tf) => backfill(tf));
+    };
+    ws.onmessage = (ev) => handleMessage(String(ev.data));
+    ws.onerror = () => ws.close();
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (!stopped) scheduleReconnect();
+    };
+  }
+
+  return {
+    symbol,
+    sourceId: provider.id,
+    async start() {
+      stopped = false;
+      await Promise.all(timeframes.map((tf) => backfill(tf)));
+      if (!provider.stream) {
+        setStatus('unsupported');
+        return;
+      }
+      if (!stopped && !socket && !reconnectTimer) connect();
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      setStatus('stopped');
+    },
+    getStatus: () => status,
+    getCandles: (tf) => buffers[tf] ?? [],
+    getAnalysis: (tf) => analyses[tf] ?? null,
+    isWarm: (tf) => status === 'open' && !!analyses[tf],
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const streams = new Map<string, MarketStream>();
+
+/**
+ * Returns the running stream for a symbol, if any.
+ * @param {string} symbol The trading symbol.
+ * @returns {MarketStream | null} The stream, or null.
+ */
+export function getMarketStream(symbol: string): MarketStream | null {
+  return streams.get(symbol.toUpperCase()) ?? null;
+}
+
+/**
+ * Starts (or returns the already running) stream for a symbol, using the symbol's market data source.
+ * A running stream from another source, left over from before the source was changed, is replaced.
+ * @param {string} symbol The trading symbol.
+ * @param {Timeframe[]} [timeframes] - The timeframes to stream.
+ * @param {Partial<MarketStreamOptions>} [options] - Overrides for the stream options.
+ * @returns {Promise<MarketStream>} A promise that resolves to the stream once it has been started.
+ */
+export async function startMarketStream(
+  symbol: string,
+  timeframes: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'],
+  options: Partial<MarketStreamOptions> = {}
+): Promise<MarketStream> {
+  const key = symbol.toUpperCase();
+  const provider = options.provider ?? (await resolveMarketDataProvider(symbol));
+  // Another caller may have started the stream while the provider was being resolved.
+  const existing = streams.get(key);
+  if (existing?.sourceId === provider.id) return existing;
+  existing?.stop();
+
+  const stream = createMarketStream({ ...options, symbol, timeframes, provider });
+  streams.set(key, stream);
+  stream.start();
+  return stream;
+}
+
+/**
+ * Stops and forgets the stream for a symbol.
+ * @param {string} symbol The trading symbol.
+ */
+export function stopMarketStream(symbol: string) {
+  const key = symbol.toUpperCase();
+  streams.get(key)?.stop();
+  streams.delete(key);
+}
@@ -1,35 +1,41 @@
 /**
- * @file Fetches and analyzes multi-timeframe market data from Binance.
+ * @file Fetches and analyzes multi-timeframe market data from the configured market data sources.
  */
-import { fetchWithTimeout } from './_utils_helpers';
-import { Candle, Timeframe, TimeframeAnalysis } from '../types';
-import { config } from '../config';
+import { Candle, PriceZone, Timeframe, TimeframeAnalysis } from '../types';
+import { resolveMarketDataProvider } from './marketDataProviders';
+import { getMarketStream } from './marketStreamService';
+import { detectLevels } from './levelDetection';
+import { computeIndicators, formatIndicators } from './technicalIndicators';
+
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
 
 /**
- * Maps a timeframe to a Binance API interval string.
- * @param {Timeframe} tf The timeframe to map.
- * @returns {string} The corresponding Binance API interval string.
+ * Returns the duration of a single candle for a timeframe.
+ * @param {Timeframe} tf The timeframe.
+ * @returns {number} The candle duration in milliseconds.
  */
-function intervalMap(tf: Timeframe): string {
-  return tf; // 1m, 5m, 15m, 1h, 4h, 1d are valid for Binance
+export function timeframeToMs(tf: Timeframe): number {
+  return TIMEFRAME_MS[tf];
 }
 
 /**
- * Fetches Kline (candlestick) data from the Binance API.
+ * Fetches Kline (candlestick) data from the market data source selected for the symbol.
  * @param {string} symbol The trading symbol, e.g., 'BTCUSDT'.
  * @param {Timeframe} timeframe The timeframe for the Kline data.
  * @param {number} [limit=200] The number of candles to fetch.
+ * @param {number} [startTime] - If set, fetch candles opening at or after this UNIX timestamp instead of the most recent ones.
  * @returns {Promise<Candle[]>} A promise that resolves to an array of candles.
  */
-export async function fetchKlineData(symbol: string, timeframe: Timeframe, limit = 200): Promise<Candle[]> {
-  const interval = intervalMap(timeframe);
-  const url = `${config.api.binanceBaseUrl}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`;
-  const res = await fetchWithTimeout(url, {}, 8000);
-  if (!res.ok) throw new Error(`Binance Klines fetch failed: ${res.status}`);
-  const data = await res.json();
-  return data.map((d: any) => ({
-    t: d[0], open: Number(d[1]), high: Number(d[2]), low: Number(d[3]), close: Number(d[4]), volume: Number(d[5])
-  }));
+export async function fetchKlineData(symbol: string, timeframe: Timeframe, limit = 200, startTime?: number): Promise<Candle[]> {
+  const provider = await resolveMarketDataProvider(symbol);
+  return provider.fetchCandles(symbol, timeframe, limit, startTime);
 }
 
 /**
@@ -77,18 +83,20 @@ export function analyzeTimeframe(candles: Candle[], timeframe: Timeframe): Timef
   const sma200 = calculateSMAFromCandles(candles, 200);
   let trend: TimeframeAnalysis['trend'] = 'NEUTRAL';
   if (sma50 && sma200) trend = sma50 > sma200 ? 'BULLISH' : 'BEARISH';
-  const closes = candles.map(c => c.close).slice(-50);
-  const support = Math.min(...closes);
-  const resistance = Math.max(...closes);
+  const levels = detectLevels(candles);
   const volAvg = candles.slice(-50).reduce((a, b) => a + b.volume, 0) / Math.min(50, candles.length);
   return {
-    timeframe, lastCandle: last, trend, volatility: atr, support: [support],
-    resistance: [resistance], volumeInfo: { avg: volAvg, last: last.volume }
+    timeframe, lastCandle: last, trend, volatility: atr,
+    support: levels.support.map(z => z.price), resistance: levels.resistance.map(z => z.price),
+    levels, volumeInfo: { avg: volAvg, last: last.volume },
+    indicators: computeIndicators(candles),
   };
 }
 
 /**
  * Fetches and analyzes market data for multiple timeframes.
+ * Timeframes that a live market stream for the symbol already has warm are read from its buffer instead,
+ * as long as the stream reads from the symbol's current market data source.
  * @param {string} symbol The trading symbol, e.g., 'BTCUSDT'.
  * @param {Timeframe[]} [timeframes=['1m', '5m', '15m', '1h', '4h', '1d']] An array of timeframes to analyze.
  * @returns {Promise<Record<Timeframe, TimeframeAnalysis>>} A promise that resolves to a record of timeframe analyses.
@@ -97,8 +105,12 @@ export async function fetchMultiTimeframeData(
   symbol: string,
   timeframes: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d']
 ): Promise<Record<Timeframe, TimeframeAnalysis>> {
+  const running = getMarketStream(symbol);
+  const stream = running && running.sourceId === (await resolveMarketDataProvider(symbol)).id ? running : null;
   const analyses = await Promise.all(
     timeframes.map(async tf => {
+      const live = stream?.isWarm(tf) ? stream.getAnalysis(tf) : null;
+      if (live) return [tf, live];
       try {
         const candles = await fetchKlineData(symbol, tf);
         return [tf, analyzeTimeframe(candles, tf)];
@@ -110,6 +122,19 @@ export async function fetchMultiTimeframeData(
   return Object.fromEntries(analyses) as Record<Timeframe, TimeframeAnalysis>;
 }
 
+/**
+ * Formats the nearest zones as `price(touches x, strength)`.
+ * @param {PriceZone[]} zones The zones, nearest first.
+ * @returns {string} The formatted zones, or 'n/a' when there are none.
+ */
+function formatZones(zones: PriceZone[]): string {
+  if (zones.length === 0) return 'n/a';
+  return zones
+    .slice(0, 2)
+    .map(z => `${Number(z.price.toPrecision(6))}(${z.touches}x,${z.strength})`)
+    .join(',');
+}
+
 /**
  * Generates a human-readable summary of the multi-timeframe analysis.
  * @param {Record<Timeframe, TimeframeAnalysis>} mtf A record of timeframe analyses.
@@ -120,7 +145,10 @@ export function generateMultiTimeframeSummary(mtf: Record<Timeframe, TimeframeAn
     .map(tf => {
       const a = mtf[tf];
       if (!a || !a.lastCandle) return `${tf}: Data unavailable`;
-      return `${tf}: ${a.trend} | last=${a.lastCandle.close} | ATR=${(a.volatility || 0).toFixed(2)}`;
+      const parts = [`${tf}: ${a.trend} | last=${a.lastCandle.close} | ATR=${(a.volatility || 0).toFixed(2)}`];
+      if (a.indicators) parts.push(formatIndicators(a.indicators));
+      if (a.levels) parts.push(`S=${formatZones(a.levels.support)} R=${formatZones(a.levels.resistance)}`);
+      return parts.filter(Boolean).join(' | ');
     })
     .join('\n');
 }
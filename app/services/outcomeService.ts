@@ -0,0 +1,223 @@
+/**
+ * @file Resolves the outcome of pending playbook signals by replaying market candles.
+ *
+ * Each pending signal is checked against the candles that opened after it was
+ * generated. The first candle that touches the stop loss or take profit closes
+ * the trade; signals without a direction (HOLD) or without usable levels expire.
+ */
+import { Candle, SignalHistory, Timeframe } from '../types';
+import { fetchKlineData, timeframeToMs } from './multiTimeframeService';
+import { queryPlaybook, updateSignalOutcome } from './playbookService';
+import { config } from '../config';
+
+const MAX_CANDLES_PER_REQUEST = 1000;
+const RESOLUTION_TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+/**
+ * Options for resolving a signal's outcome.
+ * @interface ResolveOptions
+ * @property {number} [holdExpiryMs] - How long a HOLD signal (or one without usable levels) stays open before it expires.
+ */
+export interface ResolveOptions {
+  holdExpiryMs?: number;
+}
+
+/**
+ * Computes the profit or loss of a closed trade.
+ * @param {SignalHistory} item The signal history item.
+ * @param {number} exitPrice The price at which the trade was exited.
+ * @param {number} closedAt The UNIX timestamp at which the trade was exited.
+ * @returns {Pick<SignalHistory, 'exitPrice' | 'pnl' | 'pnlPercent' | 'durationMs' | 'closedAt'>} The closing fields.
+ */
+export function computeClosingFields(item: SignalHistory, exitPrice: number, closedAt: number) {
+  const entry = item.entryPrice || item.signal.price;
+  let pnl = 0;
+  if (item.signal.type === 'BUY') pnl = exitPrice - entry;
+  else if (item.signal.type === 'SELL') pnl = entry - exitPrice;
+  return {
+    exitPrice,
+    pnl,
+    pnlPercent: entry > 0 ? (pnl / entry) * 100 : 0,
+    durationMs: Math.max(0, closedAt - item.signal.timestamp),
+    closedAt,
+  };
+}
+
+/**
+ * Closes a signal by hand at a given exit price. A profitable trade counts as a win and any
+ * other as a loss; a HOLD signal has no direction, so closing it cancels it.
+ * @param {SignalHistory} item The signal history item.
+ * @param {number} exitPrice The price at which the trade was exited.
+ * @param {number} [closedAt=Date.now()] - The UNIX timestamp at which the trade was exited.
+ * @returns {Partial<SignalHistory>} The fields to update.
+ * @throws {Error} If the exit price is not a positive number.
+ */
+export function closeSignalManually(item: SignalHistory, exitPrice: number, closedAt: number = Date.now()): Partial<SignalHistory> {
+  if (!Number.isFinite(exitPrice) || exitPrice <= 0) {
+    throw new Error('Exit price must be a positive number');
+  }
+  const closing = computeClosingFields(item, exitPrice, closedAt);
+  const outcome = item.signal.type === 'HOLD' ? 'CANCELLED' : closing.pnl > 0 ? 'WIN' : 'LOSS';
+  return {
+    outcome,
+    hitTarget: 'MANUAL',
+    signal: { ...item.signal, status: outcome === 'CANCELLED' ? 'CANCELLED' : 'CLOSED' },
+    ...closing,
+  };
+}
+
+/**
+ * Cancels a signal that was never traded. It keeps no exit price or PnL, so it does not count towards win rates.
+ * @param {SignalHistory} item The signal history item.
+ * @param {number} [closedAt=Date.now()] - The UNIX timestamp of the cancellation.
+ * @returns {Partial<SignalHistory>} The fields to update.
+ */
+export function cancelSignal(item: SignalHistory, closedAt: number = Date.now()): Partial<SignalHistory> {
+  return {
+    outcome: 'CANCELLED',
+    hitTarget: null,
+    signal: { ...item.signal, status: 'CANCELLED' },
+    exitPrice: undefined,
+    pnl: undefined,
+    pnlPercent: undefined,
+    durationMs: Math.max(0, closedAt - item.signal.timestamp),
+    closedAt,
+  };
+}
+
+/**
+ * Determines whether a pending signal was closed by the given candles.
+ *
+ * Only candles that opened at or after the signal's timestamp are considered.
+ * When a single candle touches both levels, the stop loss is assumed to have been hit
+ * first, since the order of moves within a candle is unknown. If a candle opens beyond
+ * a level (a gap), the trade is filled at the open rather than at the level.
+ *
+ * @param {SignalHistory} item The pending signal history item.
+ * @param {Candle[]} candles Candles in chronological order.
+ * @param {ResolveOptions} [options] - Resolution options.
+ * @returns {Partial<SignalHistory> | null} The fields to update, or null if the signal is still open.
+ */
+export function resolveSignalOutcome(
+  item: SignalHistory,
+  candles: Candle[],
+  options: ResolveOptions = {}
+): Partial<SignalHistory> | null {
+  if (item.outcome !== 'PENDING') return null;
+  const { signal } = item;
+  const { stopLoss, takeProfit } = signal.riskMetrics;
+  const after = candles.filter((c) => c.t >= signal.timestamp);
+  if (after.length === 0) return null;
+
+  const hasLevels = [stopLoss, takeProfit].every((v) => Number.isFinite(v) && v > 0);
+  if (signal.type === 'HOLD' || !hasLevels) {
+    const expiresAt = signal.timestamp + (options.holdExpiryMs ?? config.outcomes.holdExpiryMs);
+    const expiry = after.find((c) => c.t >= expiresAt);
+    if (!expiry) return null;
+    return {
+      outcome: 'CANCELLED',
+      hitTarget: null,
+      signal: { ...signal, status: 'CANCELLED' },
+      ...computeClosingFields(item, expiry.open, expiry.t),
+    };
+  }
+
+  const isBuy = signal.type === 'BUY';
+  for (const c of after) {
+    const hitStop = isBuy ? c.low <= stopLoss : c.high >= stopLoss;
+    const hitTarget = isBuy ? c.high >= takeProfit : c.low <= takeProfit;
+    const openedPastStop = isBuy ? c.open <= stopLoss : c.open >= stopLoss;
+    const openedPastTarget = isBuy ? c.open >= takeProfit : c.open <= takeProfit;
+
+    let target: 'TP' | 'SL';
+    let exitPrice: number;
+    if (openedPastStop || openedPastTarget) {
+      target = openedPastStop ? 'SL' : 'TP';
+      exitPrice = c.open;
+    } else if (hitStop || hitTarget) {
+      target = hitStop ? 'SL' : 'TP';
+      exitPrice = hitStop ? stopLoss : takeProfit;
+    } else {
+      continue;
+    }
+
+    return {
+      outcome: target === 'TP' ? 'WIN' : 'LOSS',
+      hitTarget: target,
+      signal: { ...signal, status: 'CLOSED' },
+      ...computeClosingFields(item, exitPrice, c.t),
+    };
+  }
+  return null;
+}
+
+/**
+ * Picks the finest timeframe that covers a time span in a single candle request.
+ * @param {number} spanMs The span to cover, in milliseconds.
+ * @returns {Timeframe} The chosen timeframe.
+ */
+function pickTimeframeForSpan(spanMs: number): Timeframe {
+  return (
+    RESOLUTION_TIMEFRAMES.find((tf) => Math.ceil(spanMs / timeframeToMs(tf)) + 1 <= MAX_CANDLES_PER_REQUEST) ?? '1d'
+  );
+}
+
+let inFlight: Promise<SignalHistory[]> | null = null;
+
+/**
+ * Resolves every pending signal in the playbook against fresh market data.
+ * Candles are fetched once per symbol, starting at the oldest pending signal.
+ * Concurrent calls share the same run.
+ * @param {ResolveOptions & { now?: number }} [options] - Resolution options.
+ * @returns {Promise<SignalHistory[]>} A promise that resolves to the signal history items that were closed.
+ */
+export function resolvePendingOutcomes(options: ResolveOptions & { now?: number } = {}): Promise<SignalHistory[]> {
+  if (!inFlight) {
+    inFlight = runResolution(options).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Performs a single resolution pass over the playbook.
+ * @param {ResolveOptions & { now?: number }} options Resolution options.
+ * @returns {Promise<SignalHistory[]>} The signal history items that were closed.
+ */
+async function runResolution(options: ResolveOptions & { now?: number }): Promise<SignalHistory[]> {
+  const now = options.now ?? Date.now();
+  const pending = await queryPlaybook({ outcome: 'PENDING' });
+
+  const bySymbol: Record<string, SignalHistory[]> = {};
+  pending.forEach((s) => {
+    bySymbol[s.signal.symbol] = bySymbol[s.signal.symbol] || [];
+    bySymbol[s.signal.symbol].push(s);
+  });
+
+  const resolved: SignalHistory[] = [];
+  for (const symbol of Object.keys(bySymbol)) {
+    const items = bySymbol[symbol];
+    const oldest = Math.min(...items.map((s) => s.signal.timestamp));
+    const timeframe = pickTimeframeForSpan(now - oldest);
+
+    let candles: Candle[];
+    try {
+      candles = await fetchKlineData(symbol, timeframe, MAX_CANDLES_PER_REQUEST, oldest);
+    } catch (err) {
+      console.warn(`resolvePendingOutcomes: could not fetch candles for ${symbol}`, err);
+      continue;
+    }
+    // Ignore the candle that is still forming; its high/low are not final.
+    const closed = candles.filter((c) => c.t + timeframeToMs(timeframe) <= now);
+
+    for (const item of items) {
+      const update = resolveSignalOutcome(item, closed, options);
+      // The signal may have been closed or cancelled by hand while the candles were loading; that wins.
+      if (update && (await updateSignalOutcome(item.id, update, { expectOutcome: 'PENDING' }))) {
+        resolved.push({ ...item, ...update });
+      }
+    }
+  }
+  return resolved;
+}
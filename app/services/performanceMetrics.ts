@@ -0,0 +1,138 @@
+/**
+ * @file Pure performance statistics shared by the backtester and playbook analytics.
+ */
+
+/**
+ * A point on an equity curve.
+ * @interface EquityPoint
+ * @property {number} t - The UNIX timestamp of the point.
+ * @property {number} equity - The account equity at that time.
+ */
+export interface EquityPoint {
+  t: number;
+  equity: number;
+}
+
+/**
+ * Builds an equity curve by compounding per-trade returns.
+ * @param {{ t: number; returnPercent: number }[]} trades The trades in chronological order, with their return on equity in percent.
+ * @param {number} [initialEquity=10000] The starting equity.
+ * @param {number} [startTime] - The timestamp of the starting point; defaults to the first trade's timestamp.
+ * @returns {EquityPoint[]} The equity curve, starting with the initial equity.
+ */
+export function buildEquityCurve(
+  trades: { t: number; returnPercent: number }[],
+  initialEquity = 10000,
+  startTime?: number
+): EquityPoint[] {
+  const curve: EquityPoint[] = [{ t: startTime ?? trades[0]?.t ?? 0, equity: initialEquity }];
+  let equity = initialEquity;
+  for (const trade of trades) {
+    equity *= 1 + trade.returnPercent / 100;
+    curve.push({ t: trade.t, equity });
+  }
+  return curve;
+}
+
+/**
+ * Calculates the largest peak-to-trough decline of an equity series.
+ * @param {number[]} equity The equity values in chronological order.
+ * @returns {number} The maximum drawdown as a positive percentage of the peak.
+ */
+export function calculateMaxDrawdown(equity: number[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, ((peak - value) / peak) * 100);
+  }
+  return maxDrawdown;
+}
+
+/**
+ * Calculates the arithmetic mean of a series.
+ * @param {number[]} values The values.
+ * @returns {number} The mean, or 0 for an empty series.
+ */
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Calculates the sample standard deviation of a series.
+ * @param {number[]} values The values.
+ * @returns {number} The standard deviation, or 0 for fewer than two values.
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Calculates a percentile of a series by linear interpolation between the closest ranks.
+ * @param {number[]} values The values, in any order.
+ * @param {number} p The percentile, from 0 to 100.
+ * @returns {number} The percentile, or 0 for an empty series.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Calculates the per-trade Sharpe ratio (not annualized).
+ * @param {number[]} returns The per-trade returns.
+ * @param {number} [riskFree=0] The risk-free return per trade, in the same unit as `returns`.
+ * @returns {number} The Sharpe ratio, or 0 if it is undefined.
+ */
+export function calculateSharpeRatio(returns: number[], riskFree = 0): number {
+  const sd = standardDeviation(returns);
+  return sd > 0 ? (mean(returns) - riskFree) / sd : 0;
+}
+
+/**
+ * Calculates the per-trade Sortino ratio (not annualized), which only penalizes returns below the target.
+ * @param {number[]} returns The per-trade returns.
+ * @param {number} [target=0] The minimum acceptable return per trade, in the same unit as `returns`.
+ * @returns {number} The Sortino ratio, or 0 if it is undefined.
+ */
+export function calculateSortinoRatio(returns: number[], target = 0): number {
+  if (returns.length < 2) return 0;
+  const downside = Math.sqrt(returns.reduce((a, r) => a + Math.min(0, r - target) ** 2, 0) / (returns.length - 1));
+  return downside > 0 ? (mean(returns) - target) / downside : 0;
+}
+
+/**
+ * Calculates the profit factor: gross profit divided by gross loss.
+ * @param {number[]} returns The per-trade returns.
+ * @returns {number} The profit factor; Infinity when there are profits but no losses, and 0 when there are neither.
+ */
+export function calculateProfitFactor(returns: number[]): number {
+  const profit = returns.filter((r) => r > 0).reduce((a, b) => a + b, 0);
+  const loss = -returns.filter((r) => r < 0).reduce((a, b) => a + b, 0);
+  if (loss === 0) return profit > 0 ? Infinity : 0;
+  return profit / loss;
+}
+
+/**
+ * Finds the longest and the current runs of wins and losses.
+ * @param {boolean[]} wins Whether each trade won, in chronological order.
+ * @returns {{ longestWin: number, longestLoss: number, current: number }} The longest winning and losing streaks,
+ * and the current streak: positive for wins, negative for losses.
+ */
+export function calculateStreaks(wins: boolean[]): { longestWin: number; longestLoss: number; current: number } {
+  let longestWin = 0;
+  let longestLoss = 0;
+  let current = 0;
+  for (const won of wins) {
+    current = won ? Math.max(current, 0) + 1 : Math.min(current, 0) - 1;
+    longestWin = Math.max(longestWin, current);
+    longestLoss = Math.max(longestLoss, -current);
+  }
+  return { longestWin, longestLoss, current };
+}
@@ -0,0 +1,125 @@
+/**
+ * @file Finds the `{{name}}` placeholders a provider spec relies on.
+ *
+ * `prompt`, `model`, `system` and `messages` are filled in by the adapter on every call; every
+ * other placeholder, wherever it appears (endpoint, headers or request template), is looked up in
+ * the provider's stored secrets. This module tells the UI which values to ask for and which are
+ * still missing. Placeholders with a `default` filter or guarded by their own `{{#if}}` are optional.
+ */
+import { ProviderSpec } from '../utils/providerStore';
+import { parseTemplate, TemplateNode } from './templateEngine';
+
+/** The placeholders the adapter fills in itself. */
+export const BUILT_IN_PLACEHOLDERS = ['prompt', 'model', 'system', 'messages'];
+
+/**
+ * Where a placeholder was found in a spec.
+ * @typedef {'endpoint' | 'headers' | 'requestTemplate'} PlaceholderLocation
+ */
+export type PlaceholderLocation = 'endpoint' | 'headers' | 'requestTemplate';
+
+/**
+ * A placeholder that needs a stored value.
+ * @interface SpecPlaceholder
+ * @property {string} name - The placeholder name, e.g. `API_KEY`.
+ * @property {PlaceholderLocation[]} locations - The parts of the spec that use it.
+ * @property {boolean} optional - Whether the template still works without a value.
+ */
+export interface SpecPlaceholder {
+  name: string;
+  locations: PlaceholderLocation[];
+  optional: boolean;
+}
+
+/**
+ * Lists the placeholder names in a piece of text, in order of first appearance.
+ * @param {string} text The text to scan.
+ * @returns {string[]} The unique, trimmed placeholder names.
+ */
+export function findPlaceholders(text: string): string[] {
+  return scanPlaceholders(text).map((p) => p.name);
+}
+
+/**
+ * Lists the variables a template reads, including the conditions of its sections.
+ * Text that does not parse yet, such as a template being typed, is scanned for `{{name}}` instead.
+ * @param {string} text The template text.
+ * @returns {{ name: string, optional: boolean }[]} The unique top-level names, in order of first appearance.
+ */
+function scanPlaceholders(text: string): { name: string; optional: boolean }[] {
+  const found: { name: string; optional: boolean }[] = [];
+  const add = (rawName: string, optional: boolean) => {
+    const name = rawName.split('.')[0].trim();
+    if (!name) return;
+    const existing = found.find((p) => p.name === name);
+    if (!existing) found.push({ name, optional });
+    else if (!optional) existing.optional = false;
+  };
+
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(text);
+  } catch {
+    for (const match of text.matchAll(/\{\{(.+?)\}\}/g)) add(match[1], false);
+    return found;
+  }
+
+  const walk = (list: TemplateNode[], guards: string[]) => {
+    for (const node of list) {
+      if (node.kind === 'var') {
+        add(node.name, guards.includes(node.name) || node.filters.some((f) => f.name === 'default'));
+      } else if (node.kind === 'if') {
+        add(node.name, true);
+        walk(node.then, node.negate ? guards : [...guards, node.name]);
+        walk(node.otherwise, node.negate ? [...guards, node.name] : guards);
+      }
+    }
+  };
+  walk(nodes, []);
+  return found;
+}
+
+/**
+ * Finds the placeholders of a spec that are not built in, i.e. the values that must be stored for it.
+ * @param {Pick<ProviderSpec, 'endpoint' | 'headers' | 'requestTemplate'>} spec The spec, or the form fields of one being edited.
+ * Headers may be given as their JSON text.
+ * @returns {SpecPlaceholder[]} The placeholders, in order of first appearance.
+ */
+export function discoverSpecPlaceholders(spec: {
+  endpoint?: string;
+  headers?: Record<string, string> | string;
+  requestTemplate?: string;
+}): SpecPlaceholder[] {
+  const sources: [PlaceholderLocation, string][] = [
+    ['endpoint', spec.endpoint ?? ''],
+    ['headers', typeof spec.headers === 'string' ? spec.headers : Object.values(spec.headers ?? {}).join('\n')],
+    ['requestTemplate', spec.requestTemplate ?? ''],
+  ];
+
+  const found: SpecPlaceholder[] = [];
+  for (const [location, text] of sources) {
+    for (const { name, optional } of scanPlaceholders(text)) {
+      if (BUILT_IN_PLACEHOLDERS.includes(name)) continue;
+      const existing = found.find((p) => p.name === name);
+      if (!existing) {
+        found.push({ name, locations: [location], optional });
+      } else {
+        if (!existing.locations.includes(location)) existing.locations.push(location);
+        if (!optional) existing.optional = false;
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Lists the required placeholders of a spec that have no stored value. They would render as empty strings.
+ * @param {ProviderSpec} spec The provider spec.
+ * @param {Record<string, string> | null} secrets The provider's stored values.
+ * @returns {string[]} The names without a value.
+ */
+export function findMissingPlaceholders(spec: ProviderSpec, secrets: Record<string, string> | null): string[] {
+  return discoverSpecPlaceholders(spec)
+    .filter((p) => !p.optional && !secrets?.[p.name])
+    .map((p) => p.name);
+}
@@ -0,0 +1,409 @@
+/**
+ * @file Exports the playbook to JSON or CSV and imports playbooks exported on other devices.
+ *
+ * The JSON export is a versioned bundle holding every signal history; the CSV export flattens
+ * the signal, its risk metrics and its outcome into one row per signal for spreadsheets. Both can
+ * be imported. Like provider bundles, importing is two-step: `previewPlaybookImport` validates the
+ * entries with `SignalHistorySchema` and compares them with the local playbook, then
+ * `importPlaybook` merges them. Signals are matched by ID; a signal already in the playbook only
+ * takes the outcome of the copy that was closed last. Imported signals are tagged with their
+ * origin, so analytics can tell them apart from the signals generated on this device.
+ */
+import { PlaybookBundleSchema, SignalHistorySchema } from '../schemas';
+import { SignalHistory } from '../types';
+import { config } from '../config';
+import { getSignalHistoryStorage } from '../utils/signalHistoryStorage';
+import { getSignalStrategy, loadPlaybook } from './playbookService';
+import { InvalidBundleEntry } from './providerBundle';
+
+export const PLAYBOOK_BUNDLE_FORMAT = 'signals-generator/playbook';
+export const PLAYBOOK_BUNDLE_VERSION = 1;
+
+/** The origin of imported signals when neither the export nor the user names one. */
+export const DEFAULT_IMPORT_ORIGIN = 'imported';
+
+/**
+ * A playbook export bundle.
+ * @interface PlaybookBundle
+ * @property {string} format - Always `PLAYBOOK_BUNDLE_FORMAT`.
+ * @property {number} version - The bundle format version.
+ * @property {string} exportedAt - When the playbook was exported, as an ISO timestamp.
+ * @property {string} [origin] - Who or what exported it, e.g. a team member's name; tags the signals where they are imported.
+ * @property {SignalHistory[]} signals - The signal histories, without their embeddings.
+ */
+export interface PlaybookBundle {
+  format: typeof PLAYBOOK_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  origin?: string;
+  signals: SignalHistory[];
+}
+
+/**
+ * The result of checking a playbook export before importing it.
+ * @interface PlaybookImportPreview
+ * @property {'json' | 'csv'} format - The format of the export.
+ * @property {string} [origin] - The origin named by the export.
+ * @property {SignalHistory[]} signals - The valid signals, one per ID.
+ * @property {number} duplicates - Valid entries merged into an earlier entry with the same ID.
+ * @property {InvalidBundleEntry[]} invalid - The entries that will not be imported.
+ * @property {string[]} newIds - IDs of valid signals that are not in the local playbook.
+ * @property {string[]} updatedIds - IDs of signals in the local playbook that the import closes later than it.
+ * @property {number} overflow - How many of the oldest signals the import will delete to keep the playbook within `MAX_SIGNALS_TO_STORE`.
+ */
+export interface PlaybookImportPreview {
+  format: 'json' | 'csv';
+  origin?: string;
+  signals: SignalHistory[];
+  duplicates: number;
+  invalid: InvalidBundleEntry[];
+  newIds: string[];
+  updatedIds: string[];
+  overflow: number;
+}
+
+/**
+ * What a playbook import did.
+ * @interface PlaybookImportReport
+ * @property {number} added - Signals that were not in the playbook.
+ * @property {number} updated - Signals whose outcome was replaced by a later one.
+ * @property {number} unchanged - Signals already in the playbook with the same or a later outcome.
+ * @property {InvalidBundleEntry[]} invalid - Entries rejected by validation.
+ * @property {number} trimmed - The oldest signals deleted afterwards to keep the playbook within `MAX_SIGNALS_TO_STORE`.
+ * @property {string[]} trimmedIds - IDs of the signals just added that were among them, and so were not kept.
+ */
+export interface PlaybookImportReport {
+  added: number;
+  updated: number;
+  unchanged: number;
+  invalid: InvalidBundleEntry[];
+  trimmed: number;
+  trimmedIds: string[];
+}
+
+/** The fields that make up a signal's outcome, taken together from the copy closed last. */
+const OUTCOME_FIELDS = ['outcome', 'exitPrice', 'pnl', 'pnlPercent', 'durationMs', 'closedAt', 'hitTarget'] as const;
+
+/** The columns of the CSV export, in order. */
+export const PLAYBOOK_CSV_COLUMNS = [
+  'id',
+  'symbol',
+  'type',
+  'confidence',
+  'price',
+  'timestamp',
+  'strategy',
+  'promptVersion',
+  'status',
+  'stopLoss',
+  'takeProfit',
+  'riskRewardRatio',
+  'positionSizePercent',
+  'outcome',
+  'entryPrice',
+  'exitPrice',
+  'pnl',
+  'pnlPercent',
+  'durationMs',
+  'closedAt',
+  'hitTarget',
+  'origin',
+  'reasoning',
+] as const;
+
+type CsvColumn = (typeof PLAYBOOK_CSV_COLUMNS)[number];
+
+/**
+ * Exports the playbook as a bundle.
+ * @param {object} [options] - Export options.
+ * @param {string} [options.origin] - Labels the export, e.g. with the user's name.
+ * @returns {Promise<PlaybookBundle>} The bundle.
+ */
+export async function exportPlaybookBundle(options: { origin?: string } = {}): Promise<PlaybookBundle> {
+  const origin = options.origin?.trim();
+  // Embeddings are large and tied to this device's embedding provider; the importing device makes its own.
+  const signals = (await loadPlaybook()).map(({ embedding, ...item }) => item);
+  return {
+    format: PLAYBOOK_BUNDLE_FORMAT,
+    version: PLAYBOOK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(origin ? { origin } : {}),
+    signals,
+  };
+}
+
+/**
+ * Quotes a CSV cell when it holds a comma, a quote or a line break.
+ * @param {unknown} value The value; null and undefined become an empty cell.
+ * @returns {string} The cell.
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flattens signals into CSV, one row per signal under a header row of `PLAYBOOK_CSV_COLUMNS`.
+ * The strategy column holds the aggregation strategy when there is one; indicator snapshots,
+ * provider votes and costs are left out.
+ * @param {SignalHistory[]} list The signals.
+ * @returns {string} The CSV text.
+ */
+export function formatPlaybookCsv(list: SignalHistory[]): string {
+  const rows = list.map((item) => {
+    const { signal } = item;
+    const values: Record<CsvColumn, unknown> = {
+      id: item.id,
+      symbol: signal.symbol,
+      type: signal.type,
+      confidence: signal.confidence,
+      price: signal.price,
+      timestamp: signal.timestamp,
+      strategy: getSignalStrategy(item),
+      promptVersion: signal.promptVersion,
+      status: signal.status,
+      stopLoss: signal.riskMetrics?.stopLoss,
+      takeProfit: signal.riskMetrics?.takeProfit,
+      riskRewardRatio: signal.riskMetrics?.riskRewardRatio,
+      positionSizePercent: signal.riskMetrics?.positionSizePercent,
+      outcome: item.outcome,
+      entryPrice: item.entryPrice,
+      exitPrice: item.exitPrice,
+      pnl: item.pnl,
+      pnlPercent: item.pnlPercent,
+      durationMs: item.durationMs,
+      closedAt: item.closedAt,
+      hitTarget: item.hitTarget,
+      origin: item.origin,
+      reasoning: signal.reasoning,
+    };
+    return PLAYBOOK_CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+  });
+  return [PLAYBOOK_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Exports the playbook as CSV.
+ * @returns {Promise<string>} The CSV text; see `formatPlaybookCsv`.
+ */
+export async function exportPlaybookCsv(): Promise<string> {
+  return formatPlaybookCsv(await loadPlaybook());
+}
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may hold commas, doubled quotes and line breaks.
+ * @param {string} text The CSV text.
+ * @returns {string[][]} The rows, without blank lines.
+ * @throws {Error} If a quoted cell is not closed.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error('The CSV has an unclosed quote');
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/** A number as written in a CSV cell, e.g. `-12`, `0.5` or `1e-3`. */
+const CSV_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Rebuilds signal histories from the CSV export. Empty cells are left unset, and numeric
+ * columns holding anything but a number become NaN, so validation rejects the row. The risk
+ * metrics are left out when none of their columns is filled in. The result still has to be
+ * validated.
+ * @param {string} text The CSV text, with a header row naming the columns.
+ * @returns {object[]} One unvalidated entry per row.
+ * @throws {Error} If the header lacks the ID column or a quoted cell is not closed.
+ */
+export function parsePlaybookCsv(text: string): object[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || !header.includes('id')) throw new Error('The CSV has no id column');
+  return rows.map((cells) => {
+    const row = Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ''])) as Record<CsvColumn, string>;
+    const str = (column: CsvColumn) => (row[column] !== undefined && row[column] !== '' ? row[column] : undefined);
+    const num = (column: CsvColumn) => {
+      const value = str(column);
+      if (value === undefined) return undefined;
+      return CSV_NUMBER.test(value.trim()) ? Number(value) : NaN;
+    };
+    const riskMetrics = {
+      stopLoss: num('stopLoss'),
+      takeProfit: num('takeProfit'),
+      riskRewardRatio: num('riskRewardRatio'),
+      positionSizePercent: num('positionSizePercent'),
+    };
+    return {
+      id: row.id,
+      signal: {
+        id: row.id,
+        symbol: row.symbol,
+        type: row.type,
+        confidence: num('confidence'),
+        price: num('price'),
+        timestamp: num('timestamp'),
+        strategy: str('strategy'),
+        promptVersion: num('promptVersion'),
+        status: str('status'),
+        reasoning: str('reasoning'),
+        ...(Object.values(riskMetrics).some((value) => value !== undefined) ? { riskMetrics } : {}),
+      },
+      outcome: row.outcome,
+      entryPrice: num('entryPrice'),
+      exitPrice: num('exitPrice'),
+      pnl: num('pnl'),
+      pnlPercent: num('pnlPercent'),
+      durationMs: num('durationMs'),
+      closedAt: num('closedAt'),
+      hitTarget: str('hitTarget'),
+      origin: str('origin'),
+    };
+  });
+}
+
+/**
+ * Merges another copy of a signal into the one kept. The kept copy takes the other's outcome
+ * only if the other was closed later; a pending copy counts as never closed.
+ * @param {SignalHistory | null} kept The copy kept so far, or null if there is none.
+ * @param {SignalHistory} other The other copy.
+ * @returns {SignalHistory | null} The merged signal, or null if the kept copy is unchanged.
+ */
+export function mergeSignalHistory(kept: SignalHistory | null, other: SignalHistory): SignalHistory | null {
+  if (!kept) return other;
+  if ((other.closedAt ?? -Infinity) <= (kept.closedAt ?? -Infinity)) return null;
+  const outcome = Object.fromEntries(OUTCOME_FIELDS.map((field) => [field, other[field]]));
+  return {
+    ...kept,
+    ...outcome,
+    signal: { ...kept.signal, ...(other.signal.status ? { status: other.signal.status } : {}) },
+  };
+}
+
+/**
+ * Validates a playbook export and compares it with the local playbook.
+ * @param {string | object} input The export: bundle JSON, CSV text or an already parsed bundle.
+ * @returns {Promise<PlaybookImportPreview>} The valid signals, the local changes they make and the rejected entries.
+ * @throws {Error} If the input is neither a playbook bundle nor CSV, or has a newer version than this app understands.
+ */
+export async function previewPlaybookImport(input: string | object): Promise<PlaybookImportPreview> {
+  let raw: unknown = input;
+  let format: PlaybookImportPreview['format'] = 'json';
+  let entries: unknown[];
+  let origin: string | undefined;
+
+  if (typeof input === 'string' && !input.trim().startsWith('{')) {
+    format = 'csv';
+    entries = parsePlaybookCsv(input);
+  } else {
+    if (typeof input === 'string') {
+      try {
+        raw = JSON.parse(input);
+      } catch {
+        throw new Error('The playbook export is not valid JSON');
+      }
+    }
+    const envelope = PlaybookBundleSchema.safeParse(raw);
+    if (!envelope.success) {
+      throw new Error(`Invalid playbook export: ${envelope.error.issues.map((i) => i.message).join(', ')}`);
+    }
+    if (envelope.data.version > PLAYBOOK_BUNDLE_VERSION) {
+      throw new Error(`Unsupported playbook export version ${envelope.data.version}`);
+    }
+    entries = envelope.data.signals;
+    origin = envelope.data.origin?.trim() || undefined;
+  }
+
+  const byId = new Map<string, SignalHistory>();
+  const invalid: InvalidBundleEntry[] = [];
+  let duplicates = 0;
+  entries.forEach((entry, index) => {
+    const id = entry && typeof (entry as any).id === 'string' ? (entry as any).id : undefined;
+    const result = SignalHistorySchema.safeParse(entry);
+    if (!result.success) {
+      invalid.push({ index, id, issues: result.error.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message)) });
+      return;
+    }
+    const item = result.data as SignalHistory;
+    const kept = byId.get(item.id);
+    if (kept) duplicates++;
+    byId.set(item.id, kept ? mergeSignalHistory(kept, item) ?? kept : item);
+  });
+
+  const signals = [...byId.values()];
+  const storage = await getSignalHistoryStorage();
+  const newIds: string[] = [];
+  const updatedIds: string[] = [];
+  for (const item of signals) {
+    const local = await storage.get(item.id);
+    if (!local) newIds.push(item.id);
+    else if (mergeSignalHistory(local, item)) updatedIds.push(item.id);
+  }
+  const overflow = Math.max(0, (await storage.count()) + newIds.length - config.playbook.maxSignalsToStore);
+  return { format, origin, signals, duplicates, invalid, newIds, updatedIds, overflow };
+}
+
+/**
+ * Merges a previewed export into the playbook. New signals without an origin of their own are
+ * tagged with `options.origin`, the export's origin or `DEFAULT_IMPORT_ORIGIN`, in that order;
+ * signals already in the playbook keep their origin and only take a later outcome. The playbook
+ * is then trimmed to `MAX_SIGNALS_TO_STORE`, which may delete imported signals older than the rest.
+ * @param {PlaybookImportPreview} preview The result of `previewPlaybookImport`.
+ * @param {object} [options] - Import options.
+ * @param {string} [options.origin] - Tags the imported signals instead of the export's origin.
+ * @returns {Promise<PlaybookImportReport>} What was imported.
+ */
+export async function importPlaybook(preview: PlaybookImportPreview, options: { origin?: string } = {}): Promise<PlaybookImportReport> {
+  const origin = options.origin?.trim() || preview.origin || DEFAULT_IMPORT_ORIGIN;
+  const storage = await getSignalHistoryStorage();
+  const report: PlaybookImportReport = { added: 0, updated: 0, unchanged: 0, invalid: preview.invalid, trimmed: 0, trimmedIds: [] };
+  const changed: SignalHistory[] = [];
+
+  for (const item of preview.signals) {
+    const local = await storage.get(item.id);
+    const merged = mergeSignalHistory(local, local || item.origin ? item : { ...item, origin });
+    if (!merged) {
+      report.unchanged++;
+      continue;
+    }
+    changed.push(merged);
+    if (local) report.updated++;
+    else report.added++;
+  }
+
+  await storage.put(changed);
+  // Older signals than the playbook keeps are deleted again right away; the report says which.
+  const trimmed = await storage.trim(config.playbook.maxSignalsToStore);
+  const added = new Set(changed.map((item) => item.id));
+  report.trimmed = trimmed.length;
+  report.trimmedIds = trimmed.filter((id) => added.has(id));
+  return report;
+}
@@ -1,33 +1,51 @@
 /**
  * @file Manages the storage and retrieval of trading signal history (the "playbook").
+ *
+ * The signals live in the signal history storage (see `utils/signalHistoryStorage`), which keeps
+ * at most `config.playbook.maxSignalsToStore` of them: adding a signal drops the oldest beyond that.
  */
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SignalHistory, Timeframe, TimeframeAnalysis } from '../types';
+import { SignalHistory, SignalType, Timeframe, TimeframeAnalysis } from '../types';
 import { config } from '../config';
-
-const PLAYBOOK_KEY = '@app:playbook:v1';
+import { SignalHistoryQuery, SignalHistoryUpdateOptions, getSignalHistoryStorage } from '../utils/signalHistoryStorage';
+import { ProviderSpec, listProviderSpecs } from '../utils/providerStore';
+import {
+  RankedSignal,
+  embedSnapshot,
+  isEmbeddingFrom,
+  rankByEmbedding,
+  rankByFeatures,
+  selectNearestSignals,
+} from './similarityService';
 
 /**
- * Loads the playbook from AsyncStorage.
- * @returns {Promise<SignalHistory[]>} A promise that resolves to an array of signal history items.
+ * Loads the whole playbook.
+ * @returns {Promise<SignalHistory[]>} A promise that resolves to an array of signal history items, oldest first.
  */
 export async function loadPlaybook(): Promise<SignalHistory[]> {
+  return queryPlaybook();
+}
+
+/**
+ * Loads the signals matching a query, using the storage's indexes.
+ * @param {SignalHistoryQuery} [query={}] - The query.
+ * @returns {Promise<SignalHistory[]>} A promise that resolves to the matching signal history items.
+ */
+export async function queryPlaybook(query: SignalHistoryQuery = {}): Promise<SignalHistory[]> {
   try {
-    const raw = await AsyncStorage.getItem(PLAYBOOK_KEY);
-    return raw ? JSON.parse(raw) : [];
+    return await (await getSignalHistoryStorage()).query(query);
   } catch (err) {
-    console.warn('loadPlaybook error', err);
+    console.warn('queryPlaybook error', err);
     return [];
   }
 }
 
 /**
- * Saves the playbook to AsyncStorage.
+ * Replaces the whole playbook.
  * @param {SignalHistory[]} list The array of signal history items to save.
  */
 export async function savePlaybook(list: SignalHistory[]) {
   const truncated = list.slice(-config.playbook.maxSignalsToStore);
-  await AsyncStorage.setItem(PLAYBOOK_KEY, JSON.stringify(truncated));
+  await (await getSignalHistoryStorage()).replaceAll(truncated);
 }
 
 /**
@@ -35,31 +53,103 @@ export async function savePlaybook(list: SignalHistory[]) {
  * @param {SignalHistory} item The signal history item to add.
  */
 export async function addSignalToPlaybook(item: SignalHistory) {
-  const current = await loadPlaybook();
-  current.push(item);
-  await savePlaybook(current);
+  const storage = await getSignalHistoryStorage();
+  await storage.put([item]);
+  await storage.trim(config.playbook.maxSignalsToStore);
 }
 
 /**
  * Updates the outcome of a signal in the playbook.
  * @param {string} id The ID of the signal to update.
  * @param {Partial<SignalHistory>} update An object containing the fields to update.
+ * @param {SignalHistoryUpdateOptions} [options] - Conditions on the update, e.g. that the signal is still pending.
  * @returns {Promise<boolean>} A promise that resolves to true if the update was successful, false otherwise.
  */
-export async function updateSignalOutcome(id: string, update: Partial<SignalHistory>): Promise<boolean> {
-  const list = await loadPlaybook();
-  const idx = list.findIndex((s) => s.id === id);
-  if (idx === -1) return false;
-  list[idx] = { ...list[idx], ...update };
-  await savePlaybook(list);
-  return true;
+export async function updateSignalOutcome(id: string, update: Partial<SignalHistory>, options?: SignalHistoryUpdateOptions): Promise<boolean> {
+  return (await (await getSignalHistoryStorage()).update(id, update, options)) !== null;
+}
+
+/**
+ * Removes a signal from the playbook.
+ * @param {string} id The ID of the signal to remove.
+ * @returns {Promise<boolean>} A promise that resolves to true if the signal was found and removed, false otherwise.
+ */
+export async function removeSignalFromPlaybook(id: string): Promise<boolean> {
+  return (await getSignalHistoryStorage()).remove(id);
+}
+
+/**
+ * Criteria for browsing the playbook. Every criterion that is set must match.
+ * @interface SignalHistoryFilter
+ * @property {string} [symbol] - Part of the symbol, matched case-insensitively.
+ * @property {SignalType} [type] - The signal type.
+ * @property {SignalHistory['outcome']} [outcome] - The outcome.
+ * @property {number} [from] - The earliest signal timestamp.
+ * @property {number} [to] - The latest signal timestamp.
+ * @property {string} [strategy] - The strategy, as returned by `getSignalStrategy`.
+ * @property {OriginFilter} [origin='all'] - Whether to keep local signals, imported ones or both.
+ */
+export interface SignalHistoryFilter {
+  symbol?: string;
+  type?: SignalType;
+  outcome?: SignalHistory['outcome'];
+  from?: number;
+  to?: number;
+  strategy?: string;
+  origin?: OriginFilter;
+}
+
+/**
+ * Which signals to keep by where they come from: all of them, those generated on this device, or imported ones.
+ * @typedef {'all' | 'local' | 'imported'} OriginFilter
+ */
+export type OriginFilter = 'all' | 'local' | 'imported';
+
+/**
+ * Tests whether a signal passes an origin filter. Imported signals are those with an origin.
+ * @param {SignalHistory} item The signal history item.
+ * @param {OriginFilter} [origin='all'] - The filter.
+ * @returns {boolean} True if the signal passes.
+ */
+export function matchesOrigin(item: SignalHistory, origin: OriginFilter = 'all'): boolean {
+  return origin === 'all' || (origin === 'imported') === !!item.origin;
 }
 
 /**
- * Clears the playbook from AsyncStorage.
+ * Names the strategy behind a signal: its aggregation strategy when it has one, its generating strategy otherwise.
+ * @param {SignalHistory} item The signal history item.
+ * @returns {string} The strategy, or an empty string if unknown.
+ */
+export function getSignalStrategy(item: SignalHistory): string {
+  return item.signal.consensus?.strategy ?? item.signal.strategy ?? '';
+}
+
+/**
+ * Filters the playbook for browsing.
+ * @param {SignalHistory[]} list The signals.
+ * @param {SignalHistoryFilter} filter The criteria.
+ * @returns {SignalHistory[]} The matching signals, newest first.
+ */
+export function filterSignalHistory(list: SignalHistory[], filter: SignalHistoryFilter): SignalHistory[] {
+  const symbol = filter.symbol?.trim().toUpperCase();
+  return list
+    .filter((item) =>
+      (!symbol || item.signal.symbol.toUpperCase().includes(symbol)) &&
+      (!filter.type || item.signal.type === filter.type) &&
+      (!filter.outcome || item.outcome === filter.outcome) &&
+      (filter.from === undefined || item.signal.timestamp >= filter.from) &&
+      (filter.to === undefined || item.signal.timestamp <= filter.to) &&
+      (!filter.strategy || getSignalStrategy(item) === filter.strategy) &&
+      matchesOrigin(item, filter.origin)
+    )
+    .sort((a, b) => b.signal.timestamp - a.signal.timestamp);
+}
+
+/**
+ * Clears the playbook.
  */
 export async function clearPlaybook() {
-  await AsyncStorage.removeItem(PLAYBOOK_KEY);
+  await (await getSignalHistoryStorage()).replaceAll([]);
 }
 
 /**
@@ -71,7 +161,8 @@ export async function getPlaybookSummary() {
   const total = list.length;
   const wins = list.filter((l) => l.outcome === 'WIN').length;
   const losses = list.filter((l) => l.outcome === 'LOSS').length;
-  const winRate = total > 0 ? (wins / (wins + losses)) * 100 : 0;
+  // Only resolved trades count, so a playbook with nothing but pending signals has a 0% win rate.
+  const winRate = wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0;
 
   const pnlPercentages = list
     .map(l => l.pnlPercent)
@@ -91,75 +182,159 @@ export async function getPlaybookSummary() {
 }
 
 /**
- * Finds and ranks relevant historical signals from the playbook.
+ * The results of the signals generated with one prompt version.
+ * @interface PromptVersionStats
+ * @property {number} version - The prompt version.
+ * @property {number} total - The number of signals generated with it.
+ * @property {number} wins - The number of winning signals.
+ * @property {number} losses - The number of losing signals.
+ * @property {number} winRate - Wins as a percentage of resolved wins and losses.
+ * @property {number} avgPnl - The average PnL of the signals with a known PnL, in percent.
+ */
+export interface PromptVersionStats {
+  version: number;
+  total: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgPnl: number;
+}
+
+/**
+ * Groups signals by the prompt version they were generated with. Signals from before
+ * prompt versions were recorded are left out.
+ * @param {SignalHistory[]} list The signals.
+ * @returns {PromptVersionStats[]} The stats per version, by ascending version.
+ */
+export function computePromptVersionStats(list: SignalHistory[]): PromptVersionStats[] {
+  const groups = new Map<number, SignalHistory[]>();
+  list.forEach((item) => {
+    const version = item.signal.promptVersion;
+    if (version === undefined) return;
+    groups.set(version, [...(groups.get(version) ?? []), item]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, items]) => {
+      const wins = items.filter((l) => l.outcome === 'WIN').length;
+      const losses = items.filter((l) => l.outcome === 'LOSS').length;
+      const pnls = items.map((l) => l.pnlPercent).filter((p): p is number => typeof p === 'number');
+      return {
+        version,
+        total: items.length,
+        wins,
+        losses,
+        winRate: wins + losses > 0 ? parseFloat(((wins / (wins + losses)) * 100).toFixed(2)) : 0,
+        avgPnl: pnls.length > 0 ? parseFloat((pnls.reduce((x, y) => x + y, 0) / pnls.length).toFixed(2)) : 0,
+      };
+    });
+}
+
+/**
+ * Reports the win rate of every prompt version in the playbook.
+ * @returns {Promise<PromptVersionStats[]>} A promise that resolves to the stats per version.
+ */
+export async function getPromptVersionStats(): Promise<PromptVersionStats[]> {
+  return computePromptVersionStats(await loadPlaybook());
+}
+
+/** The most past signals embedded per retrieval, so a large playbook is embedded over several generations. */
+const MAX_EMBEDDINGS_PER_SEARCH = 10;
+
+/**
+ * Ranks historical signals by the similarity of their market snapshots to the current one, keeping
+ * the k nearest with both wins and losses among them (see `similarityService`).
+ * This is the pure scoring step behind `findRelevantSignals`, usable on any list of signals.
+ * @param {SignalHistory[]} allSignals The signal history items to rank.
  * @param {string} symbol The trading symbol to match.
  * @param {Record<Timeframe, TimeframeAnalysis>} currentMtf The current multi-timeframe analysis data.
  * @param {number} [topN=3] The number of top signals to return.
- * @returns {Promise<SignalHistory[]>} A promise that resolves to a ranked list of the most relevant signal histories.
+ * @param {boolean} [balanceOutcomes=true] - Whether to keep both wins and losses among the results.
+ * @returns {RankedSignal[]} The most relevant signal histories with their similarity, most similar first.
  */
-export async function findRelevantSignals(
+export function rankRelevantSignals(
+  allSignals: SignalHistory[],
   symbol: string,
   currentMtf: Record<Timeframe, TimeframeAnalysis>,
-  topN = 3
-): Promise<SignalHistory[]> {
-  const allSignals = await loadPlaybook();
-
+  topN = 3,
+  balanceOutcomes = true
+): RankedSignal[] {
   // Filter for the same symbol and signals that have an outcome.
-  const relevantSignals = allSignals.filter(
-    (s) => s.signal.symbol === symbol && s.outcome !== 'PENDING' && s.signal.indicators?.mtf
-  );
+  const relevantSignals = allSignals.filter((s) => s.signal.symbol === symbol && s.outcome !== 'PENDING');
+  return selectNearestSignals(rankByFeatures(relevantSignals, currentMtf), topN, balanceOutcomes);
+}
 
-  if (relevantSignals.length === 0) {
-    return [];
-  }
+/**
+ * Ranks signals by embedding similarity. Signals without an embedding from the provider are
+ * embedded first, a few per call, and their embeddings are stored.
+ * @param {ProviderSpec} spec The embedding provider.
+ * @param {SignalHistory[]} candidates The past signals.
+ * @param {Record<Timeframe, TimeframeAnalysis>} currentMtf The current multi-timeframe analysis data.
+ * @param {number} topN The number of top signals to return.
+ * @returns {Promise<RankedSignal[] | null>} The most relevant signals, or null if the current snapshot or none of the signals could be embedded.
+ */
+async function findByEmbedding(
+  spec: ProviderSpec,
+  candidates: SignalHistory[],
+  currentMtf: Record<Timeframe, TimeframeAnalysis>,
+  topN: number
+): Promise<RankedSignal[] | null> {
+  const query = await embedSnapshot(spec, currentMtf);
+  if (!query) return null;
 
-  // Define a scoring function to rank signals by relevance.
-  const scoreSignal = (signal: SignalHistory): number => {
-    let score = 0;
-    const historicalMtf = signal.signal.indicators?.mtf as Record<Timeframe, TimeframeAnalysis>;
-
-    // Compare trends on key timeframes (e.g., 1h, 4h, 1d)
-    const keyTimeframes: Timeframe[] = ['1h', '4h', '1d'];
-    for (const tf of keyTimeframes) {
-      if (currentMtf[tf] && historicalMtf[tf] && currentMtf[tf].trend === historicalMtf[tf].trend) {
-        score += 1; // Add 1 point for each matching trend
-      }
-    }
-
-    // A more advanced scoring could also consider volatility, recency, etc.
-    return score;
-  };
+  const missing = candidates
+    .filter((s) => s.signal.indicators?.mtf && !isEmbeddingFrom(s.embedding, spec))
+    .sort((a, b) => b.signal.timestamp - a.signal.timestamp)
+    .slice(0, MAX_EMBEDDINGS_PER_SEARCH);
+  for (const item of missing) {
+    const embedding = await embedSnapshot(spec, item.signal.indicators!.mtf);
+    if (!embedding) break;
+    item.embedding = embedding;
+    await (await getSignalHistoryStorage()).update(item.id, { embedding });
+  }
 
-  // Score and sort the signals.
-  const scoredSignals = relevantSignals.map((signal) => ({
-    signal,
-    score: scoreSignal(signal),
-  }));
-
-  // Sort by score (descending), and then by recency (descending) as a tie-breaker.
-  scoredSignals.sort((a, b) => {
-    if (b.score !== a.score) {
-      return b.score - a.score;
-    }
-    return b.signal.signal.timestamp - a.signal.signal.timestamp;
-  });
+  const ranked = rankByEmbedding(candidates, query, spec);
+  return ranked.length > 0 ? selectNearestSignals(ranked, topN) : null;
+}
 
-  return scoredSignals.slice(0, topN).map(s => s.signal);
+/**
+ * Finds and ranks relevant historical signals from the playbook. With an enabled embedding
+ * provider, signals are ranked by the similarity of embedded snapshots; otherwise, or if
+ * embedding fails, by their feature vectors.
+ * @param {string} symbol The trading symbol to match.
+ * @param {Record<Timeframe, TimeframeAnalysis>} currentMtf The current multi-timeframe analysis data.
+ * @param {number} [topN=3] The number of top signals to return.
+ * @returns {Promise<RankedSignal[]>} A promise that resolves to a ranked list of the most relevant signal histories.
+ */
+export async function findRelevantSignals(
+  symbol: string,
+  currentMtf: Record<Timeframe, TimeframeAnalysis>,
+  topN = 3
+): Promise<RankedSignal[]> {
+  const candidates = await queryPlaybook({ symbol, outcome: ['WIN', 'LOSS', 'CANCELLED'] });
+  const embedder = (await listProviderSpecs()).find((s) => s.embeddingPath && s.enabled !== false);
+  if (embedder && candidates.length > 0) {
+    const ranked = await findByEmbedding(embedder, candidates, currentMtf, topN);
+    if (ranked) return ranked;
+  }
+  return rankRelevantSignals(candidates, symbol, currentMtf, topN);
 }
 
 /**
  * Formats a list of historical signals into a concise string for an LLM prompt.
- * @param {SignalHistory[]} signals An array of `SignalHistory` objects.
+ * Ranked signals include their similarity to the current market.
+ * @param {RankedSignal[]} signals An array of `SignalHistory` objects, optionally with their similarity.
  * @returns {string} A formatted string summarizing the signals.
  */
-export function formatSignalsForPrompt(signals: SignalHistory[]): string {
+export function formatSignalsForPrompt(signals: RankedSignal[]): string {
   if (signals.length === 0) {
     return "No relevant past examples found.";
   }
 
   return signals
     .map((s) => {
-      const { signal, outcome, pnlPercent } = s;
+      const { signal, outcome, pnlPercent, similarity } = s;
       const mtf = signal.indicators?.mtf as Record<Timeframe, TimeframeAnalysis> | undefined;
       const keyTimeframes: Timeframe[] = ['1h', '4h', '1d'];
       const trendSummary = mtf
@@ -168,6 +343,7 @@ export function formatSignalsForPrompt(signals: SignalHistory[]): string {
 
       return (
         `- Date: ${new Date(signal.timestamp).toISOString().split('T')[0]}\n` +
+        (similarity !== undefined ? `  - Similarity: ${(similarity * 100).toFixed(0)}%\n` : '') +
         `  - Signal: ${signal.type} @ ${signal.price}\n` +
         `  - Market Context (Trends): ${trendSummary}\n` +
         `  - Outcome: ${outcome} (${(pnlPercent ?? 0).toFixed(2)}% PnL)`
@@ -0,0 +1,127 @@
+/**
+ * @file Renders the signal prompt from a user-editable template and picks which template version to use.
+ *
+ * Templates use the syntax of `templateEngine` in its `plain` context, so values go into the prompt
+ * as they are. The versions themselves are persisted by `promptTemplateStore`.
+ */
+import { parseTemplate, renderTemplate } from './templateEngine';
+
+/**
+ * The variables a prompt template can use.
+ * @interface SignalPromptVars
+ * @property {string} symbol - The trading symbol, e.g. 'BTCUSDT'.
+ * @property {string} mtfSummary - The multi-timeframe summary from `generateMultiTimeframeSummary`.
+ * @property {string} examples - The past examples from `formatSignalsForPrompt`.
+ * @property {string} [extraContext] - Extra context supplied by the caller.
+ * @property {number} [positionRiskPercent] - The percentage of the portfolio to risk on the trade.
+ * @property {string} [timeframes] - The analyzed timeframes, comma-separated.
+ */
+export interface SignalPromptVars {
+  symbol: string;
+  mtfSummary: string;
+  examples: string;
+  extraContext?: string;
+  positionRiskPercent?: number;
+  timeframes?: string;
+}
+
+/** The variable names offered in the template editor, in display order. */
+export const PROMPT_VARIABLES: (keyof SignalPromptVars)[] = [
+  'symbol',
+  'mtfSummary',
+  'examples',
+  'extraContext',
+  'positionRiskPercent',
+  'timeframes',
+];
+
+/** The built-in prompt, used as version 1 until the user saves their own. */
+export const DEFAULT_PROMPT_TEMPLATE =
+  'Symbol: {{symbol}}\n\n## Current Market Analysis\n{{mtfSummary}}\n\n' +
+  '## Relevant Past Examples\n{{examples}}\n\n' +
+  '{{#if extraContext}}## Additional Context\n{{extraContext}}\n\n{{/if}}' +
+  '{{#if positionRiskPercent}}## Risk\nThe trade will risk {{positionRiskPercent}}% of the portfolio.\n\n{{/if}}' +
+  '## Instruction\nBased on the analysis and past examples, generate a structured JSON trading signal ' +
+  'with fields: type (BUY|SELL|HOLD), confidence (0-100), price (number), stopLoss (number), takeProfit (number), and reasoning (string).';
+
+/**
+ * A saved version of the prompt template.
+ * @interface PromptTemplateVersion
+ * @property {number} version - The version number, starting at 1.
+ * @property {string} body - The template text.
+ * @property {string} [label] - A short description of what changed.
+ * @property {number} createdAt - When the version was saved, as a UNIX timestamp in milliseconds.
+ */
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  label?: string;
+  createdAt: number;
+}
+
+/**
+ * An A/B split of signal generations between two versions.
+ * @interface PromptSplit
+ * @property {number} versionA - The version that gets the remaining traffic.
+ * @property {number} versionB - The version under test.
+ * @property {number} shareB - The fraction of generations that use `versionB`, between 0 and 1.
+ */
+export interface PromptSplit {
+  versionA: number;
+  versionB: number;
+  shareB: number;
+}
+
+/**
+ * The saved prompt templates and how they are chosen.
+ * @interface PromptTemplateSettings
+ * @property {PromptTemplateVersion[]} versions - Every saved version, oldest first.
+ * @property {number} activeVersion - The version used when no split is set.
+ * @property {PromptSplit | null} split - The A/B split, if one is running.
+ * @property {number} [nextVersion] - The number the next saved version gets; only ever grows, so deleted numbers are not reused.
+ */
+export interface PromptTemplateSettings {
+  versions: PromptTemplateVersion[];
+  activeVersion: number;
+  split: PromptSplit | null;
+  nextVersion?: number;
+}
+
+/**
+ * Checks that a prompt template parses.
+ * @param {string} body The template text.
+ * @returns {string | null} A description of the problem, or null if the template is valid.
+ */
+export function checkPromptTemplate(body: string): string | null {
+  if (!body.trim()) return 'The template is empty';
+  try {
+    parseTemplate(body);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+/**
+ * Renders the signal prompt.
+ * @param {string} template The template text.
+ * @param {SignalPromptVars} vars The values for the template.
+ * @returns {string} The prompt to send to each provider.
+ */
+export function renderSignalPrompt(template: string, vars: SignalPromptVars): string {
+  return renderTemplate(template, vars, 'plain');
+}
+
+/**
+ * Picks the version to use for one signal generation. With a split, `versionB` is used for
+ * a `shareB` fraction of calls; otherwise the active version is used. Unknown versions fall
+ * back to the first saved one.
+ * @param {PromptTemplateSettings} settings The saved templates.
+ * @param {number} [random=Math.random()] - A number in [0, 1), injectable for tests.
+ * @returns {PromptTemplateVersion} The chosen version.
+ */
+export function selectPromptVersion(settings: PromptTemplateSettings, random: number = Math.random()): PromptTemplateVersion {
+  const { split } = settings;
+  const wanted = split ? (random < split.shareB ? split.versionB : split.versionA) : settings.activeVersion;
+  return settings.versions.find((v) => v.version === wanted) ?? settings.versions[0];
+}
@@ -0,0 +1,247 @@
+/**
+ * @file Exports provider specifications to a portable bundle and imports them on another device.
+ *
+ * A bundle is a versioned JSON document holding every saved `ProviderSpec`. Secrets are left out
+ * unless the user supplies a passphrase, in which case they travel encrypted with it. Importing is
+ * two-step: `previewProviderImport` validates the entries and finds ID conflicts, then
+ * `importProviderBundle` applies the user's choice for each conflict.
+ */
+import { z } from 'zod';
+import {
+  ProviderSpec,
+  listProviderSpecs,
+  getProviderSecrets,
+  saveProviderSpec,
+  storeProviderSecret,
+} from '../utils/providerStore';
+import { ProviderBundleSchema, ProviderSpecSchema } from '../schemas';
+import { EncryptedPayload, decryptWithPassphrase, encryptWithPassphrase } from './secretCipher';
+
+export const PROVIDER_BUNDLE_FORMAT = 'signals-generator/providers';
+export const PROVIDER_BUNDLE_VERSION = 1;
+
+/**
+ * A provider export bundle.
+ * @interface ProviderBundle
+ * @property {string} format - Always `PROVIDER_BUNDLE_FORMAT`.
+ * @property {number} version - The bundle format version.
+ * @property {string} exportedAt - When the bundle was exported, as an ISO timestamp.
+ * @property {ProviderSpec[]} providers - The provider specs.
+ * @property {EncryptedPayload} [secrets] - The secrets of every provider, keyed by provider ID, encrypted with a passphrase.
+ */
+export interface ProviderBundle {
+  format: typeof PROVIDER_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  providers: ProviderSpec[];
+  secrets?: EncryptedPayload;
+}
+
+/**
+ * What to do with an imported provider whose ID is already taken.
+ * @typedef {'skip' | 'overwrite' | 'rename'} ConflictResolution
+ */
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * A bundle entry that failed validation.
+ * @interface InvalidBundleEntry
+ * @property {number} index - The entry's position in the bundle.
+ * @property {string} [id] - The entry's ID, if it has one.
+ * @property {string[]} issues - Why the entry was rejected.
+ */
+export interface InvalidBundleEntry {
+  index: number;
+  id?: string;
+  issues: string[];
+}
+
+/**
+ * The result of checking a bundle before importing it.
+ * @interface ImportPreview
+ * @property {ProviderSpec[]} specs - The valid provider specs.
+ * @property {string[]} conflicts - The IDs of valid specs that already exist on this device.
+ * @property {InvalidBundleEntry[]} invalid - The entries that will not be imported.
+ * @property {boolean} hasSecrets - Whether the bundle carries encrypted secrets.
+ * @property {EncryptedPayload} [secrets] - The encrypted secrets.
+ */
+export interface ImportPreview {
+  specs: ProviderSpec[];
+  conflicts: string[];
+  invalid: InvalidBundleEntry[];
+  hasSecrets: boolean;
+  secrets?: EncryptedPayload;
+}
+
+/**
+ * Options for `importProviderBundle`.
+ * @interface ImportOptions
+ * @property {Record<string, ConflictResolution>} [resolutions] - The choice for each conflicting ID.
+ * @property {ConflictResolution} [defaultResolution='skip'] - The choice for conflicts without an entry in `resolutions`.
+ * @property {string} [passphrase] - Decrypts the bundle's secrets; without it they are not imported.
+ */
+export interface ImportOptions {
+  resolutions?: Record<string, ConflictResolution>;
+  defaultResolution?: ConflictResolution;
+  passphrase?: string;
+}
+
+/**
+ * What an import did.
+ * @interface ImportReport
+ * @property {string[]} added - IDs of providers that did not exist before.
+ * @property {string[]} overwritten - IDs of existing providers that were replaced.
+ * @property {{ from: string, to: string }[]} renamed - Providers saved under a new ID.
+ * @property {string[]} skipped - IDs of conflicting providers that were left alone.
+ * @property {InvalidBundleEntry[]} invalid - Entries rejected by validation.
+ * @property {number} secretsImported - How many secrets were written to secure storage.
+ */
+export interface ImportReport {
+  added: string[];
+  overwritten: string[];
+  renamed: { from: string; to: string }[];
+  skipped: string[];
+  invalid: InvalidBundleEntry[];
+  secretsImported: number;
+}
+
+const BundleSecretsSchema = z.record(z.string(), z.record(z.string(), z.string()));
+
+/**
+ * Exports every saved provider spec as a bundle.
+ * @param {object} [options] - Export options.
+ * @param {string} [options.passphrase] - When given, the providers' secrets are included, encrypted with it.
+ * @returns {Promise<ProviderBundle>} The bundle.
+ */
+export async function exportProviderBundle(options: { passphrase?: string } = {}): Promise<ProviderBundle> {
+  const providers = await listProviderSpecs();
+  const bundle: ProviderBundle = {
+    format: PROVIDER_BUNDLE_FORMAT,
+    version: PROVIDER_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    providers,
+  };
+
+  if (options.passphrase) {
+    const secrets: Record<string, Record<string, string>> = {};
+    for (const spec of providers) {
+      const values = await getProviderSecrets(spec.id);
+      if (values && Object.keys(values).length > 0) secrets[spec.id] = values;
+    }
+    bundle.secrets = encryptWithPassphrase(JSON.stringify(secrets), options.passphrase);
+  }
+  return bundle;
+}
+
+/**
+ * Validates a bundle and compares it with the providers on this device.
+ * @param {string | object} input The bundle, as JSON text or an already parsed object.
+ * @returns {Promise<ImportPreview>} The valid specs, conflicts and rejected entries.
+ * @throws {Error} If the input is not a provider bundle or has a newer version than this app understands.
+ */
+export async function previewProviderImport(input: string | object): Promise<ImportPreview> {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new Error('The bundle is not valid JSON');
+    }
+  }
+
+  const envelope = ProviderBundleSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new Error(`Invalid provider bundle: ${envelope.error.issues.map((i) => i.message).join(', ')}`);
+  }
+  const bundle = envelope.data;
+  if (bundle.version > PROVIDER_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.version}`);
+  }
+
+  const specs: ProviderSpec[] = [];
+  const invalid: InvalidBundleEntry[] = [];
+  const seen = new Set<string>();
+  bundle.providers.forEach((entry, index) => {
+    const id = entry && typeof (entry as any).id === 'string' ? (entry as any).id : undefined;
+    const result = ProviderSpecSchema.safeParse(entry);
+    if (!result.success) {
+      invalid.push({ index, id, issues: result.error.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message)) });
+    } else if (seen.has(result.data.id)) {
+      invalid.push({ index, id, issues: ['Duplicate ID in bundle'] });
+    } else {
+      seen.add(result.data.id);
+      specs.push(result.data as ProviderSpec);
+    }
+  });
+
+  const existing = new Set((await listProviderSpecs()).map((s) => s.id));
+  return {
+    specs,
+    conflicts: specs.filter((s) => existing.has(s.id)).map((s) => s.id),
+    invalid,
+    hasSecrets: !!bundle.secrets,
+    secrets: bundle.secrets,
+  };
+}
+
+/**
+ * Saves the providers of a previewed bundle.
+ * Secrets are decrypted before anything is written, so a wrong passphrase leaves the device untouched.
+ * @param {ImportPreview} preview The result of `previewProviderImport`.
+ * @param {ImportOptions} [options] - How to resolve conflicts and decrypt secrets.
+ * @returns {Promise<ImportReport>} What was imported.
+ * @throws {Error} If the passphrase is wrong or the secrets are corrupted.
+ */
+export async function importProviderBundle(preview: ImportPreview, options: ImportOptions = {}): Promise<ImportReport> {
+  const { resolutions = {}, defaultResolution = 'skip', passphrase } = options;
+
+  let secrets: Record<string, Record<string, string>> = {};
+  if (preview.secrets && passphrase) {
+    const parsed = BundleSecretsSchema.safeParse(JSON.parse(decryptWithPassphrase(preview.secrets, passphrase)));
+    if (!parsed.success) throw new Error('The bundle secrets are malformed');
+    secrets = parsed.data;
+  }
+
+  const report: ImportReport = { added: [], overwritten: [], renamed: [], skipped: [], invalid: preview.invalid, secretsImported: 0 };
+  const taken = new Set((await listProviderSpecs()).map((s) => s.id));
+  preview.specs.forEach((s) => taken.add(s.id));
+
+  for (const spec of preview.specs) {
+    let id = spec.id;
+    if (preview.conflicts.includes(spec.id)) {
+      const resolution = resolutions[spec.id] ?? defaultResolution;
+      if (resolution === 'skip') {
+        report.skipped.push(spec.id);
+        continue;
+      }
+      if (resolution === 'rename') {
+        id = nextFreeId(spec.id, taken);
+        taken.add(id);
+        report.renamed.push({ from: spec.id, to: id });
+      } else {
+        report.overwritten.push(spec.id);
+      }
+    } else {
+      report.added.push(spec.id);
+    }
+
+    await saveProviderSpec({ ...spec, id });
+    for (const [key, value] of Object.entries(secrets[spec.id] ?? {})) {
+      await storeProviderSecret(id, key, value);
+      report.secretsImported++;
+    }
+  }
+  return report;
+}
+
+/**
+ * Returns the first of `id-2`, `id-3`, ... that is not taken.
+ * @param {string} id The conflicting ID.
+ * @param {Set<string>} taken The IDs in use.
+ * @returns {string} A free ID.
+ */
+function nextFreeId(id: string, taken: Set<string>): string {
+  let n = 2;
+  while (taken.has(`${id}-${n}`)) n++;
+  return `${id}-${n}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * @file Classifies failed provider calls and defines how each kind of failure is handled.
+ *
+ * A 429 means the provider is healthy but busy, a timeout or 5xx means it may be down, and a
+ * response without a valid signal means the model answered badly. Each class gets its own
+ * policy for retries and for the circuit breaker.
+ */
+import { ProviderError, ProviderErrorClass } from '../types';
+
+/**
+ * How a class of failure is handled.
+ * @interface ProviderErrorPolicy
+ * @property {boolean} retryable - Whether the call is retried within the same request.
+ * @property {boolean} countsAsFailure - Whether it counts towards the failure rate of the circuit breaker.
+ * @property {boolean} opensCircuit - Whether it opens the circuit immediately, for as long as the provider asks.
+ */
+export interface ProviderErrorPolicy {
+  retryable: boolean;
+  countsAsFailure: boolean;
+  opensCircuit: boolean;
+}
+
+/** The policy for each class of failure. */
+export const ERROR_POLICIES: Record<ProviderErrorClass, ProviderErrorPolicy> = {
+  // The provider works but is throttling us: back off for the time it asks, without judging its health.
+  RATE_LIMIT: { retryable: false, countsAsFailure: false, opensCircuit: true },
+  TIMEOUT: { retryable: true, countsAsFailure: true, opensCircuit: false },
+  SERVER: { retryable: true, countsAsFailure: true, opensCircuit: false },
+  NETWORK: { retryable: true, countsAsFailure: true, opensCircuit: false },
+  // Bad keys or requests fail the same way on every retry.
+  CLIENT: { retryable: false, countsAsFailure: true, opensCircuit: false },
+  SCHEMA: { retryable: false, countsAsFailure: true, opensCircuit: false },
+};
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param {string | null | undefined} value The header value.
+ * @param {number} [now=Date.now()] - The current time, for HTTP dates.
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(parseFloat(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Classifies a non-2xx HTTP response.
+ * @param {{ status: number, headers?: { get?: (name: string) => string | null } }} res The response.
+ * @returns {ProviderError} The classified failure.
+ */
+export function classifyHttpError(res: { status: number; headers?: { get?: (name: string) => string | null } }): ProviderError {
+  const { status } = res;
+  if (status === 429) {
+    return {
+      errorClass: 'RATE_LIMIT',
+      message: `HTTP ${status}`,
+      status,
+      retryAfterMs: parseRetryAfter(res.headers?.get?.('Retry-After')),
+    };
+  }
+  if (status === 408 || status === 504) return { errorClass: 'TIMEOUT', message: `HTTP ${status}`, status };
+  if (status >= 500) {
+    // 503 often carries a Retry-After too; it is honored when the circuit reopens.
+    return { errorClass: 'SERVER', message: `HTTP ${status}`, status, retryAfterMs: parseRetryAfter(res.headers?.get?.('Retry-After')) };
+  }
+  return { errorClass: 'CLIENT', message: `HTTP ${status}`, status };
+}
+
+/**
+ * Classifies an error thrown while calling a provider.
+ * @param {any} err The error.
+ * @returns {ProviderError} The classified failure.
+ */
+export function classifyThrownError(err: any): ProviderError {
+  const message = err?.message ?? String(err);
+  if (err?.name === 'AbortError' || /timed? ?out|idle for/i.test(message)) {
+    return { errorClass: 'TIMEOUT', message };
+  }
+  return { errorClass: 'NETWORK', message };
+}
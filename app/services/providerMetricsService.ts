@@ -0,0 +1,118 @@
+/**
+ * @file Summarizes the recorded calls and circuit changes of providers for the health dashboard.
+ */
+import { CircuitState, CircuitTransition, ProviderCallMetric } from '../types';
+import { ProviderMetrics, getProviderMetrics } from '../utils/providerMetricsStore';
+import { percentile } from './performanceMetrics';
+
+/**
+ * A stretch of time a circuit spent in one state.
+ * @interface StateSegment
+ * @property {CircuitState} state - The circuit state.
+ * @property {number} start - When the stretch started, as a UNIX timestamp in milliseconds.
+ * @property {number} end - When it ended.
+ */
+export interface StateSegment {
+  state: CircuitState;
+  start: number;
+  end: number;
+}
+
+/**
+ * A provider's health over a period.
+ * @interface ProviderMetricsSummary
+ * @property {string} providerId - The ID of the provider.
+ * @property {number} calls - The number of calls in the period.
+ * @property {number} successRate - The share of successful calls, from 0 to 1.
+ * @property {number} schemaFailureRate - The share of calls whose response had no valid signal, from 0 to 1.
+ * @property {number} p50LatencyMs - The median call latency.
+ * @property {number} p95LatencyMs - The 95th percentile call latency.
+ * @property {Partial<Record<ProviderCallMetric['outcome'], number>>} outcomes - The number of calls per outcome.
+ * @property {ProviderCallMetric[]} recentErrors - The latest failed calls, newest first.
+ * @property {CircuitTransition[]} transitions - The circuit changes in the period, oldest first.
+ * @property {StateSegment[]} timeline - The circuit states over the period, oldest first.
+ */
+export interface ProviderMetricsSummary {
+  providerId: string;
+  calls: number;
+  successRate: number;
+  schemaFailureRate: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  outcomes: Partial<Record<ProviderCallMetric['outcome'], number>>;
+  recentErrors: ProviderCallMetric[];
+  transitions: CircuitTransition[];
+  timeline: StateSegment[];
+}
+
+/**
+ * Reconstructs the circuit states over a period from the recorded transitions.
+ * @param {CircuitTransition[]} transitions All recorded transitions, oldest first.
+ * @param {number} from The start of the period.
+ * @param {number} to The end of the period.
+ * @returns {StateSegment[]} The states, oldest first; a circuit without earlier transitions starts closed.
+ */
+export function buildStateTimeline(transitions: CircuitTransition[], from: number, to: number): StateSegment[] {
+  const before = transitions.filter((t) => t.at <= from);
+  let state: CircuitState = before.length ? before[before.length - 1].to : transitions.find((t) => t.at > from)?.from ?? 'CLOSED';
+  let start = from;
+  const segments: StateSegment[] = [];
+  transitions
+    .filter((t) => t.at > from && t.at < to)
+    .forEach((t) => {
+      if (t.to === state) return;
+      segments.push({ state, start, end: t.at });
+      state = t.to;
+      start = t.at;
+    });
+  segments.push({ state, start, end: to });
+  return segments.filter((s) => s.end > s.start);
+}
+
+/**
+ * Summarizes a provider's metrics over a period.
+ * @param {ProviderMetrics} metrics The recorded metrics.
+ * @param {object} [options] - Options.
+ * @param {number} [options.since=0] - The start of the period.
+ * @param {number} [options.now=Date.now()] - The end of the period.
+ * @param {number} [options.recentErrorCount=5] - How many recent errors to keep.
+ * @returns {ProviderMetricsSummary} The summary.
+ */
+export function summarizeProviderMetrics(
+  metrics: ProviderMetrics,
+  options: { since?: number; now?: number; recentErrorCount?: number } = {}
+): ProviderMetricsSummary {
+  const { since = 0, now = Date.now(), recentErrorCount = 5 } = options;
+  const calls = metrics.calls.filter((c) => c.at >= since);
+  const count = (outcome: ProviderCallMetric['outcome']) => calls.filter((c) => c.outcome === outcome).length;
+  const outcomes: ProviderMetricsSummary['outcomes'] = {};
+  calls.forEach((c) => {
+    outcomes[c.outcome] = (outcomes[c.outcome] ?? 0) + 1;
+  });
+  const latencies = calls.map((c) => c.latencyMs);
+
+  return {
+    providerId: metrics.providerId,
+    calls: calls.length,
+    successRate: calls.length ? count('SUCCESS') / calls.length : 0,
+    schemaFailureRate: calls.length ? count('SCHEMA') / calls.length : 0,
+    p50LatencyMs: Math.round(percentile(latencies, 50)),
+    p95LatencyMs: Math.round(percentile(latencies, 95)),
+    outcomes,
+    recentErrors: calls.filter((c) => c.outcome !== 'SUCCESS').slice(-recentErrorCount).reverse(),
+    transitions: metrics.transitions.filter((t) => t.at >= since),
+    timeline: buildStateTimeline(metrics.transitions, since || (metrics.calls[0]?.at ?? now), now),
+  };
+}
+
+/**
+ * Loads and summarizes the metrics of several providers.
+ * @param {string[]} providerIds The IDs of the providers.
+ * @param {number} [since=0] - The start of the period.
+ * @returns {Promise<ProviderMetricsSummary[]>} The summaries, in the order of `providerIds`.
+ */
+export async function getProviderMetricsSummaries(providerIds: string[], since: number = 0): Promise<ProviderMetricsSummary[]> {
+  const all = await Promise.all(providerIds.map(getProviderMetrics));
+  const now = Date.now();
+  return all.map((metrics) => summarizeProviderMetrics(metrics, { since, now }));
+}
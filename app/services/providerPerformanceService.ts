@@ -0,0 +1,141 @@
+/**
+ * @file Scores each provider's track record from the votes stored with resolved playbook signals.
+ *
+ * A provider's vote is judged against the price move the signal realized, whatever the
+ * consensus was: a BUY vote is right when price rose from entry to exit, a SELL vote when it
+ * fell. HOLD votes are not scored.
+ */
+import { ProviderSignal, SignalHistory } from '../types';
+import { loadPlaybook } from './playbookService';
+
+/**
+ * The Beta prior applied to every provider's hit rate, so a new provider starts at 50%
+ * and a handful of lucky calls cannot dominate the vote.
+ */
+export const PERFORMANCE_PRIOR = { alpha: 2, beta: 2 };
+
+/**
+ * The number of scored votes on a symbol a provider needs before its record on that symbol
+ * is preferred over its record across all symbols.
+ */
+export const MIN_SYMBOL_CALLS = 10;
+
+/**
+ * A provider's track record. Providers without any scored vote have no record.
+ * @interface ProviderPerformance
+ * @property {string} providerId - The ID of the provider.
+ * @property {number} calls - The number of resolved, directional votes.
+ * @property {number} hits - The number of votes that matched the realized price move.
+ * @property {number} hitRate - `hits / calls`.
+ * @property {number} avgPnlPercent - The average return had each vote been traded, in percent.
+ * @property {number} brierScore - The mean squared error of the stated confidence against the result; 0 is perfect calibration.
+ * @property {number} weight - The posterior mean hit rate under `PERFORMANCE_PRIOR`, used as the provider's vote weight.
+ * @property {string} [symbol] - The symbol the record is on; unset for the record across all symbols.
+ */
+export interface ProviderPerformance {
+  providerId: string;
+  calls: number;
+  hits: number;
+  hitRate: number;
+  avgPnlPercent: number;
+  brierScore: number;
+  weight: number;
+  symbol?: string;
+}
+
+/**
+ * Returns the return a provider's vote would have made on a resolved signal.
+ * @param {ProviderSignal} vote The provider's vote.
+ * @param {SignalHistory} item The resolved signal.
+ * @returns {number | null} The return in percent, or null when the vote or signal cannot be scored.
+ */
+export function scoreProviderVote(vote: ProviderSignal, item: SignalHistory): number | null {
+  if (vote.type === 'HOLD' || item.outcome === 'PENDING') return null;
+  if (!(item.entryPrice > 0) || !Number.isFinite(item.exitPrice)) return null;
+  const move = ((item.exitPrice! - item.entryPrice) / item.entryPrice) * 100;
+  return vote.type === 'BUY' ? move : -move;
+}
+
+/**
+ * Computes every provider's track record from a list of signals.
+ * @param {SignalHistory[]} history The signals to score; pending ones are ignored.
+ * @param {string} [symbol] - If set, only signals for this symbol are scored.
+ * @returns {Record<string, ProviderPerformance>} The records, keyed by provider ID.
+ */
+export function computeProviderPerformance(history: SignalHistory[], symbol?: string): Record<string, ProviderPerformance> {
+  const tallies: Record<string, { calls: number; hits: number; pnl: number; brier: number }> = {};
+  history
+    .filter((item) => !symbol || item.signal.symbol.toUpperCase() === symbol.toUpperCase())
+    .forEach((item) => {
+      (item.providerSignals ?? []).forEach((vote) => {
+        const pnl = scoreProviderVote(vote, item);
+        if (pnl === null) return;
+        const hit = pnl > 0 ? 1 : 0;
+        const tally = tallies[vote.providerId] || (tallies[vote.providerId] = { calls: 0, hits: 0, pnl: 0, brier: 0 });
+        tally.calls++;
+        tally.hits += hit;
+        tally.pnl += pnl;
+        tally.brier += ((vote.confidence ?? 50) / 100 - hit) ** 2;
+      });
+    });
+
+  const { alpha, beta } = PERFORMANCE_PRIOR;
+  return Object.fromEntries(
+    Object.entries(tallies).map(([providerId, t]) => [
+      providerId,
+      {
+        providerId,
+        calls: t.calls,
+        hits: t.hits,
+        hitRate: t.hits / t.calls,
+        avgPnlPercent: t.pnl / t.calls,
+        brierScore: t.brier / t.calls,
+        weight: (t.hits + alpha) / (t.calls + alpha + beta),
+      },
+    ])
+  );
+}
+
+/**
+ * Computes every provider's track record on a symbol. Providers with fewer than `minCalls` scored
+ * votes on the symbol get their record across all symbols instead, which says more than a few calls.
+ * @param {SignalHistory[]} history The signals to score; pending ones are ignored.
+ * @param {string} symbol The trading symbol.
+ * @param {number} [minCalls=MIN_SYMBOL_CALLS] - The number of votes on the symbol that makes its record preferred.
+ * @returns {Record<string, ProviderPerformance>} The records, keyed by provider ID.
+ */
+export function computeSymbolPerformance(
+  history: SignalHistory[],
+  symbol: string,
+  minCalls = MIN_SYMBOL_CALLS
+): Record<string, ProviderPerformance> {
+  const bySymbol = computeProviderPerformance(history, symbol);
+  const overall = computeProviderPerformance(history);
+  return Object.fromEntries(
+    Object.entries(overall).map(([providerId, record]) => [
+      providerId,
+      bySymbol[providerId]?.calls >= minCalls ? { ...bySymbol[providerId], symbol } : record,
+    ])
+  );
+}
+
+/**
+ * Returns the vote weight for a provider, falling back to the prior mean for providers without a record.
+ * @param {Record<string, ProviderPerformance>} performance The track records.
+ * @param {string} providerId The ID of the provider.
+ * @returns {number} The weight, between 0 and 1.
+ */
+export function getProviderWeight(performance: Record<string, ProviderPerformance>, providerId: string): number {
+  const { alpha, beta } = PERFORMANCE_PRIOR;
+  return performance[providerId]?.weight ?? alpha / (alpha + beta);
+}
+
+/**
+ * Loads the playbook and computes every provider's track record.
+ * @param {string} [symbol] - If set, each provider's record on this symbol is used once it has enough votes (see `computeSymbolPerformance`).
+ * @returns {Promise<Record<string, ProviderPerformance>>} A promise that resolves to the records, keyed by provider ID.
+ */
+export async function getProviderPerformance(symbol?: string): Promise<Record<string, ProviderPerformance>> {
+  const playbook = await loadPlaybook();
+  return symbol ? computeSymbolPerformance(playbook, symbol) : computeProviderPerformance(playbook);
+}
@@ -0,0 +1,131 @@
+/**
+ * @file A catalog of ready-made provider configurations for common LLM APIs.
+ *
+ * A preset pre-fills everything but the provider's ID and secrets; the result is an
+ * ordinary `ProviderSpec` that stays editable after it is applied.
+ */
+import { ProviderSpec } from '../utils/providerStore';
+
+/**
+ * A ready-made provider configuration.
+ * @interface ProviderPreset
+ * @property {string} id - The preset's ID, also suggested as the provider ID.
+ * @property {string} name - A human-readable name.
+ * @property {Omit<ProviderSpec, 'id' | 'name'>} spec - The endpoint, model, headers, request template and response extraction.
+ * @property {string[]} secrets - The secret placeholders the headers expect, e.g. `API_KEY`.
+ */
+export interface ProviderPreset {
+  id: string;
+  name: string;
+  spec: Omit<ProviderSpec, 'id' | 'name'>;
+  secrets: string[];
+}
+
+/** The request body shared by OpenAI-compatible chat completion APIs; `{{messages}}` holds the system and user messages. */
+const chatCompletionsTemplate = '{"model":"{{model}}","messages":{{messages}},"temperature":{{temperature|default:0.2}}}';
+
+/**
+ * Returns an OpenAI-compatible chat completions preset.
+ * @param {string} id The preset ID.
+ * @param {string} name The preset name.
+ * @param {string} endpoint The chat completions URL.
+ * @param {string} model The default model.
+ * @returns {ProviderPreset} The preset.
+ */
+function chatCompletionsPreset(id: string, name: string, endpoint: string, model: string): ProviderPreset {
+  return {
+    id,
+    name,
+    spec: {
+      endpoint,
+      model,
+      headers: { Authorization: 'Bearer {{API_KEY}}' },
+      requestTemplate: chatCompletionsTemplate,
+      responsePath: '$.choices[0].message.content',
+      responseMode: 'text',
+      streamFormat: 'openai',
+    },
+    secrets: ['API_KEY'],
+  };
+}
+
+/** The built-in presets, in display order. */
+export const PROVIDER_PRESETS: ProviderPreset[] = [
+  chatCompletionsPreset('openai', 'OpenAI', 'https://api.openai.com/v1/chat/completions', 'gpt-4o-mini'),
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    spec: {
+      endpoint: 'https://api.anthropic.com/v1/messages',
+      model: 'claude-3-5-haiku-latest',
+      headers: { 'x-api-key': '{{API_KEY}}', 'anthropic-version': '2023-06-01' },
+      // Anthropic takes the system prompt as a top-level field rather than a message.
+      requestTemplate:
+        '{"model":"{{model}}","max_tokens":1024,{{#if system}}"system":"{{system}}",{{/if}}' +
+        '"messages":[{"role":"user","content":"{{prompt}}"}]}',
+      responsePath: '$.content[*].text',
+      responseMode: 'text',
+      streamFormat: 'anthropic',
+    },
+    secrets: ['API_KEY'],
+  },
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    spec: {
+      endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent',
+      model: 'gemini-1.5-flash',
+      headers: { 'x-goog-api-key': '{{API_KEY}}' },
+      requestTemplate: JSON.stringify({
+        systemInstruction: { parts: [{ text: '{{system|default:"Reply with a single JSON object."}}' }] },
+        contents: [{ role: 'user', parts: [{ text: '{{prompt}}' }] }],
+        generationConfig: { responseMimeType: 'application/json' },
+      }),
+      responsePath: '$.candidates[0].content.parts[*].text',
+      responseMode: 'text',
+    },
+    secrets: ['API_KEY'],
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama (local)',
+    spec: {
+      endpoint: 'http://localhost:11434/api/generate',
+      model: 'llama3.1',
+      headers: {},
+      requestTemplate: JSON.stringify({ model: '{{model}}', prompt: '{{prompt}}', format: 'json', stream: false }),
+      responsePath: '$.response',
+      responseMode: 'text',
+      streamFormat: 'ollama',
+    },
+    secrets: [],
+  },
+  chatCompletionsPreset('mistral', 'Mistral', 'https://api.mistral.ai/v1/chat/completions', 'mistral-small-latest'),
+  chatCompletionsPreset('openrouter', 'OpenRouter', 'https://openrouter.ai/api/v1/chat/completions', 'openai/gpt-4o-mini'),
+  chatCompletionsPreset('openai-compatible', 'OpenAI-compatible', 'http://localhost:8000/v1/chat/completions', 'default'),
+];
+
+/**
+ * Returns a preset by its ID.
+ * @param {string} id The preset ID.
+ * @returns {ProviderPreset | null} The preset, or null if there is none.
+ */
+export function getProviderPreset(id: string): ProviderPreset | null {
+  return PROVIDER_PRESETS.find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Builds a provider spec from a preset.
+ * @param {ProviderPreset} preset The preset.
+ * @param {Partial<ProviderSpec>} [overrides] - Fields to set on top of the preset, such as the provider ID.
+ * @returns {ProviderSpec} The provider spec.
+ */
+export function buildSpecFromPreset(preset: ProviderPreset, overrides: Partial<ProviderSpec> = {}): ProviderSpec {
+  return {
+    id: preset.id,
+    name: preset.name,
+    ...preset.spec,
+    headers: { ...preset.spec.headers },
+    ...overrides,
+  };
+}
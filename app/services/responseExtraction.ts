@@ -0,0 +1,157 @@
+/**
+ * @file Locates the signal inside a provider's response payload.
+ *
+ * A provider spec can point at the relevant part of its payload with a JSONPath-like
+ * `responsePath`; without one, or when the path finds nothing, the shape heuristics in
+ * `extractTextFromObject` are used. JSON is then pulled out of the text, preferring fenced
+ * code blocks and otherwise scanning for balanced top-level objects.
+ */
+import { extractTextFromObject } from './_utils_helpers';
+
+/**
+ * How the value found in a response is interpreted.
+ * - `text`: the value is model text that contains the JSON signal somewhere inside it.
+ * - `json`: the value is the signal itself, either as an object or as a JSON string (e.g. tool-call arguments).
+ * @typedef {'text' | 'json'} ResponseMode
+ */
+export type ResponseMode = 'text' | 'json';
+
+type PathSegment = string | number | '*';
+
+/**
+ * Parses a JSONPath-like expression such as `$.content[0].text`, `choices[*].message.content`,
+ * `output[-1]` or `$['odd key'].value`.
+ * @param {string} path The path expression.
+ * @returns {PathSegment[]} The path segments; numbers are array indexes and '*' is a wildcard.
+ * @throws {Error} If the expression cannot be parsed.
+ */
+export function parseResponsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim().replace(/^\$/, '');
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.?([A-Za-z_$][\w$-]*)/))) {
+      segments.push(match[1]);
+    } else if ((match = rest.match(/^\.?\*/)) || (match = rest.match(/^\[\*\]/))) {
+      segments.push('*');
+    } else if ((match = rest.match(/^\[(-?\d+)\]/))) {
+      segments.push(Number(match[1]));
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      segments.push(match[2]);
+    } else {
+      throw new Error(`Invalid response path near "${rest}"`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+/**
+ * Reads a value from an object by a JSONPath-like expression. A wildcard collects the
+ * matches of the remaining path from every element into an array.
+ * @param {any} obj The object to read from.
+ * @param {string} path The path expression; see `parseResponsePath`.
+ * @returns {any} The value, or undefined if the path does not exist.
+ */
+export function getByPath(obj: any, path: string): any {
+  const walk = (value: any, segments: PathSegment[]): any => {
+    if (segments.length === 0) return value;
+    if (value === null || value === undefined) return undefined;
+    const [head, ...tail] = segments;
+    if (head === '*') {
+      const items = Array.isArray(value) ? value : typeof value === 'object' ? Object.values(value) : [];
+      return items.map((item) => walk(item, tail)).filter((v) => v !== undefined);
+    }
+    if (typeof head === 'number') {
+      if (!Array.isArray(value)) return undefined;
+      return walk(value[head < 0 ? value.length + head : head], tail);
+    }
+    return walk(value[head], tail);
+  };
+  return walk(obj, parseResponsePath(path));
+}
+
+/**
+ * Finds every JSON object in a piece of text. Fenced code blocks (```json ... ``` or plain ```)
+ * are tried first; if none of them parse, the text is scanned for balanced top-level `{...}`
+ * objects, skipping braces inside strings.
+ * @param {string} text The text to search.
+ * @returns {object[]} The parsed objects, in the order they appear.
+ */
+export function extractJsonCandidates(text: string): object[] {
+  const parse = (s: string): object | null => {
+    try {
+      const value = JSON.parse(s.trim());
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const fenced: object[] = [];
+  for (const match of text.matchAll(/```(?:json|JSON)?[^\S\n]*\n?([\s\S]*?)```/g)) {
+    const direct = parse(match[1]);
+    if (direct) fenced.push(direct);
+    else fenced.push(...scanObjects(match[1]).map(parse).filter((v): v is object => v !== null));
+  }
+  if (fenced.length > 0) return fenced;
+  return scanObjects(text).map(parse).filter((v): v is object => v !== null);
+}
+
+/**
+ * Returns the substrings of every balanced top-level `{...}` in a text.
+ * @param {string} text The text to scan.
+ * @returns {string[]} The candidate object texts.
+ */
+function scanObjects(text: string): string[] {
+  const found: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"' && depth > 0) {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) found.push(text.slice(start, i + 1));
+    }
+  }
+  return found;
+}
+
+/**
+ * Extracts the candidate signal objects from a response payload.
+ * @param {any} raw The response payload, or the accumulated text of a streamed response.
+ * @param {object} [options] - Extraction options.
+ * @param {string} [options.responsePath] - Where in the payload to look; falls back to the shape heuristics when it finds nothing.
+ * @param {ResponseMode} [options.responseMode='text'] - How to interpret the value found.
+ * @returns {{ text: string | null, candidates: object[] }} The text that was searched and the objects found in it.
+ */
+export function extractResponseCandidates(
+  raw: any,
+  options: { responsePath?: string; responseMode?: ResponseMode } = {}
+): { text: string | null; candidates: object[] } {
+  const { responsePath, responseMode = 'text' } = options;
+  let value = responsePath && raw && typeof raw === 'object' ? getByPath(raw, responsePath) : undefined;
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) value = value.join('');
+  if (Array.isArray(value) && value.length === 1) value = value[0];
+
+  if (value === undefined || value === null) {
+    const text = extractTextFromObject(raw);
+    return { text, candidates: text ? extractJsonCandidates(text) : [] };
+  }
+  if (responseMode === 'json' && typeof value === 'object' && !Array.isArray(value)) {
+    return { text: JSON.stringify(value), candidates: [value] };
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return { text, candidates: extractJsonCandidates(text) };
+}
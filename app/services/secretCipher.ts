@@ -0,0 +1,182 @@
+/**
+ * @file Passphrase-based encryption for secrets that leave the device.
+ *
+ * React Native has no Web Crypto, so the primitives come from the audited, pure-JS
+ * `@noble/hashes`: PBKDF2-HMAC-SHA256 stretches the passphrase into a master key, separate
+ * encryption and MAC keys are derived from it, the plaintext is XORed with an HMAC-SHA256
+ * counter-mode keystream, and an HMAC over the salt, IV and ciphertext authenticates the
+ * result (encrypt-then-MAC).
+ */
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { concatBytes, randomBytes } from '@noble/hashes/utils';
+
+/** The default PBKDF2 iteration count; stored with each payload so it can be raised later. */
+export const PBKDF2_ITERATIONS = 10000;
+
+/**
+ * The highest PBKDF2 iteration count accepted from a payload. The count comes from the
+ * imported file, and key derivation runs on the JS thread, so it has to be bounded.
+ */
+export const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+
+/**
+ * An encrypted payload. Binary fields are hex-encoded.
+ * @interface EncryptedPayload
+ * @property {'pbkdf2-sha256+hmac-ctr'} cipher - The construction used.
+ * @property {number} iterations - The PBKDF2 iteration count.
+ * @property {string} salt - The PBKDF2 salt.
+ * @property {string} iv - The keystream IV.
+ * @property {string} data - The ciphertext.
+ * @property {string} mac - The HMAC-SHA256 tag over salt, IV and ciphertext.
+ */
+export interface EncryptedPayload {
+  cipher: 'pbkdf2-sha256+hmac-ctr';
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+  mac: string;
+}
+
+/**
+ * Encrypts a string with a passphrase.
+ * @param {string} plaintext The text to encrypt.
+ * @param {string} passphrase The passphrase.
+ * @param {number} [iterations=PBKDF2_ITERATIONS] - The PBKDF2 iteration count.
+ * @returns {EncryptedPayload} The encrypted payload.
+ * @throws {Error} If the passphrase is empty.
+ */
+export function encryptWithPassphrase(plaintext: string, passphrase: string, iterations = PBKDF2_ITERATIONS): EncryptedPayload {
+  if (!passphrase) throw new Error('A passphrase is required');
+  checkIterations(iterations);
+  const salt = randomBytes(16);
+  const iv = randomBytes(16);
+  const { encKey, macKey } = deriveKeys(passphrase, salt, iterations);
+  const data = applyKeystream(encKey, iv, utf8Encode(plaintext));
+  const mac = hmac(sha256, macKey, concatBytes(salt, iv, data));
+  return {
+    cipher: 'pbkdf2-sha256+hmac-ctr',
+    iterations,
+    salt: toHex(salt),
+    iv: toHex(iv),
+    data: toHex(data),
+    mac: toHex(mac),
+  };
+}
+
+/**
+ * Decrypts a payload produced by `encryptWithPassphrase`.
+ * @param {EncryptedPayload} payload The encrypted payload.
+ * @param {string} passphrase The passphrase.
+ * @returns {string} The plaintext.
+ * @throws {Error} If the iteration count is out of range, or the passphrase is wrong or the payload was altered.
+ */
+export function decryptWithPassphrase(payload: EncryptedPayload, passphrase: string): string {
+  checkIterations(payload.iterations);
+  const salt = fromHex(payload.salt);
+  const iv = fromHex(payload.iv);
+  const data = fromHex(payload.data);
+  const { encKey, macKey } = deriveKeys(passphrase, salt, payload.iterations);
+  const expected = hmac(sha256, macKey, concatBytes(salt, iv, data));
+  if (!constantTimeEqual(expected, fromHex(payload.mac))) {
+    throw new Error('Wrong passphrase or corrupted data');
+  }
+  return utf8Decode(applyKeystream(encKey, iv, data));
+}
+
+/**
+ * Rejects PBKDF2 iteration counts that are not a positive integer up to `MAX_PBKDF2_ITERATIONS`.
+ * @param {number} iterations The iteration count.
+ * @throws {Error} If the count is out of range.
+ */
+function checkIterations(iterations: number) {
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`Unsupported PBKDF2 iteration count: ${iterations}`);
+  }
+}
+
+/**
+ * Derives independent encryption and MAC keys from a passphrase.
+ * @param {string} passphrase The passphrase.
+ * @param {Uint8Array} salt The PBKDF2 salt.
+ * @param {number} iterations The PBKDF2 iteration count.
+ * @returns {{ encKey: Uint8Array, macKey: Uint8Array }} The keys.
+ */
+function deriveKeys(passphrase: string, salt: Uint8Array, iterations: number) {
+  const master = pbkdf2(sha256, utf8Encode(passphrase), salt, { c: iterations, dkLen: 32 });
+  return {
+    encKey: hmac(sha256, master, utf8Encode('encrypt')),
+    macKey: hmac(sha256, master, utf8Encode('authenticate')),
+  };
+}
+
+/**
+ * XORs data with the keystream HMAC(key, iv || counter), block by block. Encrypts and decrypts.
+ * @param {Uint8Array} key The encryption key.
+ * @param {Uint8Array} iv The IV.
+ * @param {Uint8Array} data The data.
+ * @returns {Uint8Array} The transformed data.
+ */
+function applyKeystream(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  const counter = new Uint8Array(4);
+  const counterView = new DataView(counter.buffer);
+  for (let offset = 0, block = 0; offset < data.length; offset += 32, block++) {
+    counterView.setUint32(0, block);
+    const stream = hmac(sha256, key, concatBytes(iv, counter));
+    for (let i = 0; i < 32 && offset + i < data.length; i++) out[offset + i] = data[offset + i] ^ stream[i];
+  }
+  return out;
+}
+
+/**
+ * Compares two byte arrays without returning early on the first difference.
+ * @param {Uint8Array} a The first array.
+ * @param {Uint8Array} b The second array.
+ * @returns {boolean} True if they are equal.
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) throw new Error('Wrong passphrase or corrupted data');
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+// TextEncoder is not available on every React Native runtime, so UTF-8 is handled here.
+function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    if (cp < 0x80) bytes.push(cp);
+    else if (cp < 0x800) bytes.push(0xc0 | (cp >> 6), 0x80 | (cp & 63));
+    else if (cp < 0x10000) bytes.push(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 63), 0x80 | (cp & 63));
+    else bytes.push(0xf0 | (cp >> 18), 0x80 | ((cp >> 12) & 63), 0x80 | ((cp >> 6) & 63), 0x80 | (cp & 63));
+  }
+  return new Uint8Array(bytes);
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; ) {
+    const b = bytes[i];
+    const extra = b >= 0xf0 ? 3 : b >= 0xe0 ? 2 : b >= 0xc0 ? 1 : 0;
+    let cp = extra === 0 ? b : b & (0x3f >> extra);
+    for (let j = 1; j <= extra; j++) cp = (cp << 6) | (bytes[i + j] & 63);
+    text += String.fromCodePoint(cp);
+    i += extra + 1;
+  }
+  return text;
+}
@@ -2,17 +2,148 @@
  * @file Core service for generating and aggregating trading signals using dynamic providers.
  */
 import { v4 as uuidv4 } from 'uuid';
-import { fetchMultiTimeframeData, generateMultiTimeframeSummary, Timeframe, TimeframeAnalysis } from './multiTimeframeService';
-import { buildAdapterFromSpec, LLMResponseParsed } from './llmService';
+import { fetchMultiTimeframeData, generateMultiTimeframeSummary } from './multiTimeframeService';
+import { buildAdapterFromSpec } from './llmService';
+import { suggestRiskLevels } from './levelDetection';
 import { addSignalToPlaybook, findRelevantSignals, formatSignalsForPrompt } from './playbookService';
-import { SignalHistory, SignalType, TradingSignal } from '../types';
+import { getProviderPerformance, ProviderPerformance } from './providerPerformanceService';
+import { AggregatedSignal, AggregationMode, getAggregationStrategy } from './aggregationStrategies';
+import { LLMResponseParsed, ProviderSignal, SignalCost, SignalHistory, SignalType, Timeframe, TimeframeAnalysis, TradingSignal } from '../types';
 import { ProviderSpec } from '../utils/providerStore';
+import { getPromptTemplates } from '../utils/promptTemplateStore';
+import { DEFAULT_PROMPT_TEMPLATE, renderSignalPrompt, selectPromptVersion } from './promptTemplates';
+import { summarizeSignalCost } from './usageAccounting';
+
+export type { AggregatedSignal, AggregationMode } from './aggregationStrategies';
+
+/**
+ * The system prompt sent with every signal request. Templates use it through `{{system}}` or `{{messages}}`.
+ */
+export const SIGNAL_SYSTEM_PROMPT =
+  'You are a trading analyst. Reply with a single JSON object and no other text.';
+
+/**
+ * Builds the LLM prompt for a symbol from its market analysis and past examples.
+ * @param {string} symbol The trading symbol, e.g., 'BTCUSDT'.
+ * @param {string} mtfSummary The multi-timeframe summary from `generateMultiTimeframeSummary`.
+ * @param {string} examplesSummary The past examples from `formatSignalsForPrompt`.
+ * @param {object} [options] - Options.
+ * @param {string} [options.template=DEFAULT_PROMPT_TEMPLATE] - The prompt template to render.
+ * @param {string} [options.extraContext] - Extra context to include in the prompt.
+ * @param {number} [options.positionRiskPercent] - The percentage of the portfolio to risk on the trade.
+ * @param {Timeframe[]} [options.timeframes] - The analyzed timeframes.
+ * @returns {string} The prompt to send to each provider.
+ */
+export function buildSignalPrompt(
+  symbol: string,
+  mtfSummary: string,
+  examplesSummary: string,
+  options: { template?: string; extraContext?: string; positionRiskPercent?: number; timeframes?: Timeframe[] } = {}
+): string {
+  return renderSignalPrompt(options.template ?? DEFAULT_PROMPT_TEMPLATE, {
+    symbol,
+    mtfSummary,
+    examples: examplesSummary,
+    extraContext: options.extraContext,
+    positionRiskPercent: options.positionRiskPercent,
+    timeframes: options.timeframes?.join(', '),
+  });
+}
+
+/**
+ * Aggregates the successful responses of several providers into a single consensus
+ * using a registered aggregation strategy.
+ * @param {LLMResponseParsed[]} parsed The successful provider responses.
+ * @param {AggregationMode} aggregation The ID of the aggregation strategy.
+ * @param {Record<string, ProviderPerformance>} [performance] - Provider track records, for strategies that use them.
+ * @returns {AggregatedSignal | null} The consensus, or null if there were no responses.
+ */
+export function aggregateSignals(
+  parsed: LLMResponseParsed[],
+  aggregation: AggregationMode,
+  performance: Record<string, ProviderPerformance> = {}
+): AggregatedSignal | null {
+  if (parsed.length === 0) {
+    return null;
+  }
+  return getAggregationStrategy(aggregation).aggregate(parsed, { performance });
+}
 
 /**
- * The aggregation mode for combining signals from multiple providers.
- * @typedef {'MAJORITY' | 'WEIGHTED' | 'FIRST'} AggregationMode
+ * Extracts each provider's vote from its parsed response, for storing with the signal history.
+ * @param {LLMResponseParsed[]} parsed The successful provider responses.
+ * @returns {ProviderSignal[]} The votes.
  */
-export type AggregationMode = 'MAJORITY' | 'WEIGHTED' | 'FIRST';
+export function toProviderSignals(parsed: LLMResponseParsed[]): ProviderSignal[] {
+  return parsed.map((p) => ({
+    providerId: p.providerId,
+    type: (p.parsed!.type || 'HOLD') as SignalType,
+    confidence: p.parsed!.confidence,
+    price: p.parsed!.price,
+    stopLoss: p.parsed!['stopLoss'],
+    takeProfit: p.parsed!['takeProfit'],
+    reasoning: p.parsed!.reasoning,
+  }));
+}
+
+/** The timeframes whose levels are used for missing stops and targets, in order of preference. */
+const LEVEL_ANCHOR_TIMEFRAMES: Timeframe[] = ['1h', '4h', '15m', '1d', '5m', '1m'];
+
+/**
+ * Turns an aggregated consensus into a `TradingSignal`, including its risk/reward ratio.
+ * A stop loss or take profit the providers did not give is anchored on the nearest detected zone.
+ * @param {string} symbol The trading symbol, e.g., 'BTCUSDT'.
+ * @param {AggregatedSignal} aggregated The consensus from `aggregateSignals`.
+ * @param {Record<Timeframe, TimeframeAnalysis>} mtf The multi-timeframe analysis the signal was based on.
+ * @param {object} [options] - Additional options.
+ * @param {number} [options.positionRiskPercent] - The percentage of the portfolio to risk on the trade.
+ * @param {number} [options.timestamp] - The signal timestamp; defaults to now.
+ * @returns {TradingSignal} The trading signal.
+ */
+export function buildTradingSignal(
+  symbol: string,
+  aggregated: AggregatedSignal,
+  mtf: Record<Timeframe, TimeframeAnalysis>,
+  options: { positionRiskPercent?: number; timestamp?: number } = {}
+): TradingSignal {
+  const final: TradingSignal = {
+    id: uuidv4(),
+    symbol,
+    type: aggregated.type,
+    confidence: aggregated.confidence,
+    price: aggregated.price,
+    timestamp: options.timestamp ?? Date.now(),
+    strategy: 'dynamic-llm-consensus',
+    indicators: { mtf },
+    riskMetrics: {
+      stopLoss: aggregated.stopLoss,
+      takeProfit: aggregated.takeProfit,
+      riskRewardRatio: 0,
+      positionSizePercent: options.positionRiskPercent ?? 2,
+    },
+    reasoning: aggregated.reasoning,
+    consensus: aggregated.consensus,
+    status: 'NEW'
+  };
+
+  if (final.price > 0 && (!(final.riskMetrics.stopLoss > 0) || !(final.riskMetrics.takeProfit > 0))) {
+    // Providers left a level out; anchor it on the detected support/resistance zones instead.
+    const anchorTf = LEVEL_ANCHOR_TIMEFRAMES.find(tf => mtf[tf]?.levels);
+    if (anchorTf) {
+      const anchors = suggestRiskLevels(final.type, final.price, mtf[anchorTf]);
+      if (!(final.riskMetrics.stopLoss > 0) && anchors.stopLoss) final.riskMetrics.stopLoss = anchors.stopLoss;
+      if (!(final.riskMetrics.takeProfit > 0) && anchors.takeProfit) final.riskMetrics.takeProfit = anchors.takeProfit;
+    }
+  }
+
+  if (final.price && final.riskMetrics.stopLoss) {
+    const risk = Math.abs(final.price - final.riskMetrics.stopLoss);
+    const reward = Math.abs(final.riskMetrics.takeProfit - final.price);
+    final.riskMetrics.riskRewardRatio = risk > 0 ? Math.round((reward / risk) * 100) / 100 : 0;
+  }
+
+  return final;
+}
 
 /**
  * Generates a trading signal by querying multiple LLM providers and aggregating their responses.
@@ -23,7 +154,8 @@ export type AggregationMode = 'MAJORITY' | 'WEIGHTED' | 'FIRST';
  * @param {number} [options.positionRiskPercent] The percentage of the portfolio to risk on the trade.
  * @param {string} [options.extraContext] - Extra context to include in the prompt.
  * @param {Timeframe[]} [options.timeframes] - The timeframes to analyze.
- * @returns {Promise<{final?: TradingSignal, providerResponses: LLMResponseParsed[], mtf?: Record<Timeframe, TimeframeAnalysis>}>} A promise that resolves to an object containing the final signal, the responses from each provider, and the multi-timeframe analysis.
+ * @param {(providerId: string, text: string) => void} [options.onProgress] - Called with each streaming provider's accumulated text as it arrives.
+ * @returns {Promise<{final?: TradingSignal, providerResponses: LLMResponseParsed[], mtf?: Record<Timeframe, TimeframeAnalysis>, cost: SignalCost}>} A promise that resolves to an object containing the final signal, the responses from each provider, the multi-timeframe analysis and what the provider calls cost.
  */
 export async function generateTradingSignal(
   symbol: string,
@@ -33,11 +165,13 @@ export async function generateTradingSignal(
     positionRiskPercent?: number;
     extraContext?: string;
     timeframes?: Timeframe[];
+    onProgress?: (providerId: string, text: string) => void;
   } = {}
 ): Promise<{
   final?: TradingSignal;
   providerResponses: LLMResponseParsed[];
   mtf?: Record<Timeframe, TimeframeAnalysis>;
+  cost: SignalCost;
 }> {
   const tfList = options.timeframes ?? ['1m', '5m', '15m', '1h', '4h', '1d'];
   const mtf = await fetchMultiTimeframeData(symbol, tfList);
@@ -47,72 +181,40 @@ export async function generateTradingSignal(
   const relevantSignals = await findRelevantSignals(symbol, mtf);
   const examplesSummary = formatSignalsForPrompt(relevantSignals);
 
-  const prompt =
-    `Symbol: ${symbol}\n\n## Current Market Analysis\n${mtfSummary}\n\n` +
-    `## Relevant Past Examples\n${examplesSummary}\n\n` +
-    `## Instruction\nBased on the analysis and past examples, generate a structured JSON trading signal ` +
-    `with fields: type (BUY|SELL|HOLD), confidence (0-100), price (number), stopLoss (number), takeProfit (number), and reasoning (string).`;
+  // With an A/B split, each generation picks its prompt version at random.
+  const promptTemplate = selectPromptVersion(await getPromptTemplates());
+  const prompt = buildSignalPrompt(symbol, mtfSummary, examplesSummary, {
+    template: promptTemplate.body,
+    extraContext: options.extraContext,
+    positionRiskPercent: options.positionRiskPercent,
+    timeframes: tfList,
+  });
 
   const adapters = providerSpecs.map(buildAdapterFromSpec);
-  const providerResponses = await Promise.all(adapters.map(a => a.call(prompt)));
+  const providerResponses = await Promise.all(
+    adapters.map(a => a.call(prompt, { system: SIGNAL_SYSTEM_PROMPT }, { onProgress: (text) => options.onProgress?.(a.spec.id, text) }))
+  );
   const parsed = providerResponses.filter((r) => r.ok && r.parsed) as LLMResponseParsed[];
+  const cost = summarizeSignalCost(providerResponses);
 
-  if (parsed.length === 0) {
-    return { providerResponses, mtf };
+  const performance = getAggregationStrategy(aggregation).usesPerformance ? await getProviderPerformance(symbol) : {};
+  const aggregated = aggregateSignals(parsed, aggregation, performance);
+  if (!aggregated) {
+    return { providerResponses, mtf, cost };
   }
 
-  const groups: Record<string, { items: LLMResponseParsed[]; avgConf: number }> = {};
-  parsed.forEach((p) => {
-    const t = (p.parsed!.type || 'HOLD') as SignalType;
-    groups[t] = groups[t] || { items: [], avgConf: 0 };
-    groups[t].items.push(p);
-    groups[t].avgConf = groups[t].items.reduce((s, it) => s + (it.parsed!.confidence ?? 50), 0) / groups[t].items.length;
-  });
-
-  let winnerType: SignalType = 'HOLD';
-  if (aggregation === 'MAJORITY') {
-    winnerType = Object.keys(groups).sort((a, b) => groups[b].items.length - groups[a].items.length)[0] as SignalType;
-  } else if (aggregation === 'WEIGHTED') {
-    winnerType = Object.keys(groups).sort((a, b) => (groups[b].items.length * groups[b].avgConf) - (groups[a].items.length * groups[a].avgConf))[0] as SignalType;
-  } else {
-    winnerType = (parsed[0].parsed!.type as SignalType) || 'HOLD';
-  }
-
-  const winnerGroup = groups[winnerType];
-  const avg = (arr: number[]) => (arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0);
-
-  const entry = avg(winnerGroup.items.map(p => p.parsed!.price).filter(Number.isFinite));
-  const stopLoss = avg(winnerGroup.items.map(p => p.parsed!['stopLoss']).filter(Number.isFinite));
-  const takeProfit = avg(winnerGroup.items.map(p => p.parsed!['takeProfit']).filter(Number.isFinite));
-  const confidence = Math.round(winnerGroup.avgConf);
+  const final = buildTradingSignal(symbol, aggregated, mtf, { positionRiskPercent: options.positionRiskPercent });
+  final.promptVersion = promptTemplate.version;
+  final.cost = cost;
 
-  const final: TradingSignal = {
-    id: uuidv4(),
-    symbol,
-    type: winnerType,
-    confidence,
-    price: entry,
-    timestamp: Date.now(),
-    strategy: 'dynamic-llm-consensus',
-    indicators: { mtf },
-    riskMetrics: {
-      stopLoss,
-      takeProfit,
-      riskRewardRatio: 0,
-      positionSizePercent: options.positionRiskPercent ?? 2,
-    },
-    reasoning: winnerGroup.items.map(p => p.parsed!.reasoning || 'No reasoning provided.').join('\n---\n'),
-    status: 'NEW'
+  const history: SignalHistory = {
+    id: final.id,
+    signal: final,
+    outcome: 'PENDING',
+    entryPrice: final.price,
+    providerSignals: toProviderSignals(parsed),
   };
-
-  if (final.price && final.riskMetrics.stopLoss) {
-    const risk = Math.abs(final.price - final.riskMetrics.stopLoss);
-    const reward = Math.abs(final.riskMetrics.takeProfit - final.price);
-    final.riskMetrics.riskRewardRatio = risk > 0 ? Math.round((reward / risk) * 100) / 100 : 0;
-  }
-
-  const history: SignalHistory = { id: final.id, signal: final, outcome: 'PENDING', entryPrice: final.price };
   await addSignalToPlaybook(history);
 
-  return { final, providerResponses, mtf };
+  return { final, providerResponses, mtf, cost };
 }
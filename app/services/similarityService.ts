@@ -0,0 +1,218 @@
+/**
+ * @file Similarity between market snapshots, for retrieving past signals as prompt examples.
+ *
+ * A snapshot is described by a feature vector: per timeframe, the trend, ATR relative to price,
+ * the distance to the nearest support and resistance, the volume ratio and indicator readings,
+ * each scaled to about [-1, 1]. Alternatively, an embedding provider can embed the snapshot's
+ * text summary. Past signals are ranked by similarity to the current snapshot (k nearest
+ * neighbours), and the nearest wins and losses are both kept so the prompt sees either side.
+ */
+import { SignalHistory, SnapshotEmbedding, Timeframe, TimeframeAnalysis } from '../types';
+import { ProviderSpec } from '../utils/providerStore';
+import { buildAdapterFromSpec } from './llmService';
+import { generateMultiTimeframeSummary } from './multiTimeframeService';
+
+/**
+ * A past signal with its similarity to the current market snapshot.
+ * @typedef {SignalHistory & { similarity?: number }} RankedSignal
+ */
+export type RankedSignal = SignalHistory & { similarity?: number };
+
+/** The timeframes the feature vector is built from. */
+export const FEATURE_TIMEFRAMES: Timeframe[] = ['15m', '1h', '4h', '1d'];
+
+/** The features of each timeframe, in the order they appear in the vector. */
+export const TIMEFRAME_FEATURES = [
+  'trend',
+  'atrPercent',
+  'supportDistance',
+  'resistanceDistance',
+  'volumeRatio',
+  'rsi',
+  'macdHistogram',
+  'bollingerPosition',
+  'stochastic',
+  'adxStrength',
+  'directionalBalance',
+  'emaSpread',
+] as const;
+
+const TREND_VALUES: Record<TimeframeAnalysis['trend'], number> = { BULLISH: 1, NEUTRAL: 0, BEARISH: -1 };
+
+/**
+ * A feature vector. Features that could not be computed, e.g. for lack of candles, are null.
+ * @typedef {(number | null)[]} FeatureVector
+ */
+export type FeatureVector = (number | null)[];
+
+/**
+ * Divides two numbers and squashes the result into (-1, 1).
+ * @param {number | null | undefined} value The numerator.
+ * @param {number | null | undefined} scale The denominator.
+ * @returns {number | null} The squashed ratio, or null if either is missing or the scale is not positive.
+ */
+const squash = (value: number | null | undefined, scale: number | null | undefined): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && typeof scale === 'number' && scale > 0
+    ? Math.tanh(value / scale)
+    : null;
+
+/**
+ * Computes the features of one timeframe.
+ * @param {TimeframeAnalysis | undefined} a The timeframe's analysis.
+ * @returns {FeatureVector} The features, in the order of `TIMEFRAME_FEATURES`.
+ */
+function timeframeFeatures(a: TimeframeAnalysis | undefined): FeatureVector {
+  const price = a?.lastCandle?.close;
+  if (!a || !price || price <= 0) return TIMEFRAME_FEATURES.map(() => null);
+  const atr = a.volatility > 0 ? a.volatility : null;
+  const ind = a.indicators;
+  const support = a.support?.[0];
+  const resistance = a.resistance?.[0];
+  const volume = a.volumeInfo && a.volumeInfo.avg > 0 && a.volumeInfo.last > 0 ? Math.log(a.volumeInfo.last / a.volumeInfo.avg) : null;
+  const band = ind?.bollinger ? ind.bollinger.upper - ind.bollinger.middle : null;
+
+  return [
+    TREND_VALUES[a.trend] ?? 0,
+    // An ATR of 2% of the price scores about 0.76.
+    squash(atr, price * 0.02),
+    // Level distances are measured in ATRs, so they compare across prices and volatility.
+    support !== undefined && atr ? squash(price - support, 3 * atr) : null,
+    resistance !== undefined && atr ? squash(resistance - price, 3 * atr) : null,
+    squash(volume, 1),
+    typeof ind?.rsi14 === 'number' ? (ind.rsi14 - 50) / 50 : null,
+    ind?.macd && atr ? squash(ind.macd.histogram, atr) : null,
+    ind?.bollinger ? squash(price - ind.bollinger.middle, band) : null,
+    ind?.stochastic ? (ind.stochastic.k - 50) / 50 : null,
+    ind?.adx ? Math.min(1, ind.adx.adx / 50) : null,
+    ind?.adx ? squash(ind.adx.plusDI - ind.adx.minusDI, 25) : null,
+    typeof ind?.ema20 === 'number' && typeof ind?.ema50 === 'number' && atr ? squash(ind.ema20 - ind.ema50, atr) : null,
+  ];
+}
+
+/**
+ * Builds the feature vector of a market snapshot.
+ * @param {Partial<Record<Timeframe, TimeframeAnalysis>>} mtf The multi-timeframe analysis.
+ * @returns {FeatureVector} The features of each of `FEATURE_TIMEFRAMES` in turn.
+ */
+export function buildFeatureVector(mtf: Partial<Record<Timeframe, TimeframeAnalysis>>): FeatureVector {
+  return FEATURE_TIMEFRAMES.flatMap((tf) => timeframeFeatures(mtf[tf]));
+}
+
+/**
+ * Measures how alike two feature vectors are: one minus their root-mean-square difference over
+ * the features both have, halved so it falls in [0, 1]. It is then scaled by the share of the
+ * query's features the other vector has, so sparse old snapshots do not look alike by accident.
+ * @param {FeatureVector} query The vector of the current snapshot.
+ * @param {FeatureVector} other The vector of a past snapshot.
+ * @returns {number} The similarity, from 0 to 1; 0 if they share no features.
+ */
+export function featureSimilarity(query: FeatureVector, other: FeatureVector): number {
+  let sum = 0;
+  let shared = 0;
+  let present = 0;
+  query.forEach((x, i) => {
+    if (x === null) return;
+    present++;
+    const y = other[i];
+    if (y === null || y === undefined) return;
+    sum += (x - y) ** 2;
+    shared++;
+  });
+  if (shared === 0) return 0;
+  return (1 - Math.sqrt(sum / shared) / 2) * (shared / present);
+}
+
+/**
+ * Computes the cosine similarity of two embeddings, floored at 0.
+ * @param {number[]} a An embedding.
+ * @param {number[]} b Another embedding.
+ * @returns {number} The similarity, from 0 to 1; 0 for embeddings of different lengths.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((x, i) => {
+    dot += x * b[i];
+    normA += x * x;
+    normB += b[i] * b[i];
+  });
+  return normA > 0 && normB > 0 ? Math.max(0, dot / Math.sqrt(normA * normB)) : 0;
+}
+
+/**
+ * Picks the k nearest signals. With balancing, the nearest wins and the nearest losses each get
+ * at least half of the places (rounded down) when there are enough of them; the remaining places
+ * go to the nearest of the rest.
+ * @param {RankedSignal[]} ranked The signals with their similarity.
+ * @param {number} k The number of signals to pick.
+ * @param {boolean} [balanceOutcomes=true] - Whether to keep both wins and losses.
+ * @returns {RankedSignal[]} The picked signals, most similar first (newest first on ties).
+ */
+export function selectNearestSignals(ranked: RankedSignal[], k: number, balanceOutcomes = true): RankedSignal[] {
+  const sorted = [...ranked].sort(
+    (a, b) => (b.similarity ?? 0) - (a.similarity ?? 0) || b.signal.timestamp - a.signal.timestamp
+  );
+  if (!balanceOutcomes) return sorted.slice(0, k);
+
+  const quota = Math.floor(k / 2);
+  const reserved = new Set([
+    ...sorted.filter((s) => s.outcome === 'WIN').slice(0, quota),
+    ...sorted.filter((s) => s.outcome === 'LOSS').slice(0, quota),
+  ]);
+  const rest = sorted.filter((s) => !reserved.has(s)).slice(0, Math.max(0, k - reserved.size));
+  const picked = new Set([...reserved, ...rest]);
+  return sorted.filter((s) => picked.has(s));
+}
+
+/**
+ * Ranks past signals by the similarity of their feature vectors to the current snapshot.
+ * @param {SignalHistory[]} candidates The past signals; those without a stored snapshot are left out.
+ * @param {Record<Timeframe, TimeframeAnalysis>} currentMtf The current multi-timeframe analysis.
+ * @returns {RankedSignal[]} The signals with their similarity, in the order given.
+ */
+export function rankByFeatures(candidates: SignalHistory[], currentMtf: Record<Timeframe, TimeframeAnalysis>): RankedSignal[] {
+  const query = buildFeatureVector(currentMtf);
+  return candidates
+    .filter((s) => s.signal.indicators?.mtf)
+    .map((s) => ({ ...s, similarity: featureSimilarity(query, buildFeatureVector(s.signal.indicators!.mtf)) }));
+}
+
+/**
+ * Tests whether a stored embedding comes from a provider and its current model.
+ * @param {SnapshotEmbedding | undefined} embedding The stored embedding.
+ * @param {ProviderSpec} spec The embedding provider.
+ * @returns {boolean} True if the embedding can be compared with the provider's new ones.
+ */
+export function isEmbeddingFrom(embedding: SnapshotEmbedding | undefined, spec: ProviderSpec): embedding is SnapshotEmbedding {
+  return !!embedding && embedding.providerId === spec.id && (embedding.model ?? '') === (spec.model ?? '');
+}
+
+/**
+ * Ranks past signals by the cosine similarity of their stored embeddings to the current snapshot's.
+ * @param {SignalHistory[]} candidates The past signals; those without an embedding from the provider are left out.
+ * @param {SnapshotEmbedding} query The embedding of the current snapshot.
+ * @param {ProviderSpec} spec The embedding provider.
+ * @returns {RankedSignal[]} The signals with their similarity, in the order given.
+ */
+export function rankByEmbedding(candidates: SignalHistory[], query: SnapshotEmbedding, spec: ProviderSpec): RankedSignal[] {
+  return candidates
+    .filter((s) => isEmbeddingFrom(s.embedding, spec))
+    .map((s) => ({ ...s, similarity: cosineSimilarity(query.vector, s.embedding!.vector) }));
+}
+
+/**
+ * Asks an embedding provider for the embedding of a market snapshot's text summary.
+ * @param {ProviderSpec} spec The embedding provider.
+ * @param {Record<Timeframe, TimeframeAnalysis>} mtf The multi-timeframe analysis.
+ * @returns {Promise<SnapshotEmbedding | null>} A promise that resolves to the embedding, or null if the provider gave none.
+ */
+export async function embedSnapshot(spec: ProviderSpec, mtf: Record<Timeframe, TimeframeAnalysis>): Promise<SnapshotEmbedding | null> {
+  const result = await buildAdapterFromSpec(spec).embed(generateMultiTimeframeSummary(mtf));
+  if (!result.ok || !result.vector) {
+    console.warn(`Embedding with ${spec.id} failed: ${result.error}`);
+    return null;
+  }
+  return { providerId: spec.id, ...(spec.model ? { model: spec.model } : {}), vector: result.vector };
+}
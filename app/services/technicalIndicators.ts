@@ -0,0 +1,252 @@
+/**
+ * @file Technical indicators computed from candle series.
+ *
+ * Each indicator returns its latest value, or null when there are not enough
+ * candles to compute it, mirroring `calculateSMAFromCandles`.
+ */
+import { Candle, IndicatorSnapshot } from '../types';
+
+/**
+ * Computes the exponential moving average series of a list of values.
+ * The series is seeded with the simple average of the first `period` values.
+ * @param {number[]} values The input values, oldest first.
+ * @param {number} period The EMA period.
+ * @returns {number[]} The EMA values, one per input value from index `period - 1` on.
+ */
+function emaSeries(values: number[], period: number): number[] {
+  if (values.length < period) return [];
+  const k = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  const out = [ema];
+  for (let i = period; i < values.length; i++) {
+    ema = values[i] * k + ema * (1 - k);
+    out.push(ema);
+  }
+  return out;
+}
+
+/**
+ * Calculates the Exponential Moving Average (EMA) of the closes.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [period=20] The EMA period.
+ * @returns {number | null} The latest EMA, or null if there is not enough data.
+ */
+export function calculateEMA(candles: Candle[], period = 20): number | null {
+  const series = emaSeries(candles.map(c => c.close), period);
+  return series.length ? series[series.length - 1] : null;
+}
+
+/**
+ * Calculates the Relative Strength Index (RSI) using Wilder's smoothing.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [period=14] The RSI period.
+ * @returns {number | null} The latest RSI (0-100), or null if there is not enough data.
+ */
+export function calculateRSI(candles: Candle[], period = 14): number | null {
+  if (candles.length < period + 1) return null;
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < candles.length; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+  }
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Calculates the Moving Average Convergence Divergence (MACD).
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [fast=12] The fast EMA period.
+ * @param {number} [slow=26] The slow EMA period.
+ * @param {number} [signal=9] The signal line EMA period.
+ * @returns {{ macd: number, signal: number, histogram: number } | null} The latest MACD values, or null if there is not enough data.
+ */
+export function calculateMACD(
+  candles: Candle[],
+  fast = 12,
+  slow = 26,
+  signal = 9
+): { macd: number; signal: number; histogram: number } | null {
+  const closes = candles.map(c => c.close);
+  const slowSeries = emaSeries(closes, slow);
+  // Align the fast EMA with the slow one, which starts later.
+  const fastSeries = emaSeries(closes, fast).slice(slow - fast);
+  const macdSeries = slowSeries.map((s, i) => fastSeries[i] - s);
+  const signalSeries = emaSeries(macdSeries, signal);
+  if (!signalSeries.length) return null;
+  const macd = macdSeries[macdSeries.length - 1];
+  const sig = signalSeries[signalSeries.length - 1];
+  return { macd, signal: sig, histogram: macd - sig };
+}
+
+/**
+ * Calculates Bollinger Bands around the simple moving average of the closes.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [period=20] The moving average period.
+ * @param {number} [multiplier=2] The number of standard deviations for the bands.
+ * @returns {{ upper: number, middle: number, lower: number, bandwidth: number } | null} The latest bands, or null if there is not enough data.
+ */
+export function calculateBollingerBands(
+  candles: Candle[],
+  period = 20,
+  multiplier = 2
+): { upper: number; middle: number; lower: number; bandwidth: number } | null {
+  if (candles.length < period) return null;
+  const closes = candles.slice(-period).map(c => c.close);
+  const middle = closes.reduce((a, b) => a + b, 0) / period;
+  const sd = Math.sqrt(closes.reduce((a, c) => a + (c - middle) ** 2, 0) / period);
+  const upper = middle + multiplier * sd;
+  const lower = middle - multiplier * sd;
+  return { upper, middle, lower, bandwidth: middle !== 0 ? (upper - lower) / middle : 0 };
+}
+
+/**
+ * Calculates the Stochastic Oscillator.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [kPeriod=14] The look-back period for %K.
+ * @param {number} [dPeriod=3] The smoothing period for %D.
+ * @returns {{ k: number, d: number } | null} The latest %K and %D (0-100), or null if there is not enough data.
+ */
+export function calculateStochastic(candles: Candle[], kPeriod = 14, dPeriod = 3): { k: number; d: number } | null {
+  if (candles.length < kPeriod + dPeriod - 1) return null;
+  const ks: number[] = [];
+  for (let end = candles.length - dPeriod + 1; end <= candles.length; end++) {
+    const window = candles.slice(end - kPeriod, end);
+    const highest = Math.max(...window.map(c => c.high));
+    const lowest = Math.min(...window.map(c => c.low));
+    const close = window[window.length - 1].close;
+    ks.push(highest === lowest ? 50 : ((close - lowest) / (highest - lowest)) * 100);
+  }
+  return { k: ks[ks.length - 1], d: ks.reduce((a, b) => a + b, 0) / ks.length };
+}
+
+/**
+ * Calculates the Average Directional Index (ADX) with the directional indicators, using Wilder's smoothing.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [period=14] The ADX period.
+ * @returns {{ adx: number, plusDI: number, minusDI: number } | null} The latest values (0-100), or null if there is not enough data.
+ */
+export function calculateADX(candles: Candle[], period = 14): { adx: number; plusDI: number; minusDI: number } | null {
+  if (candles.length < 2 * period) return null;
+  let tr = 0;
+  let plusDM = 0;
+  let minusDM = 0;
+  let adx = 0;
+  let plusDI = 0;
+  let minusDI = 0;
+  const dxs: number[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const cur = candles[i];
+    const prev = candles[i - 1];
+    const up = cur.high - prev.high;
+    const down = prev.low - cur.low;
+    const curTr = Math.max(cur.high - cur.low, Math.abs(cur.high - prev.close), Math.abs(cur.low - prev.close));
+    const curPlus = up > down && up > 0 ? up : 0;
+    const curMinus = down > up && down > 0 ? down : 0;
+
+    if (i <= period) {
+      tr += curTr;
+      plusDM += curPlus;
+      minusDM += curMinus;
+      if (i < period) continue;
+    } else {
+      tr = tr - tr / period + curTr;
+      plusDM = plusDM - plusDM / period + curPlus;
+      minusDM = minusDM - minusDM / period + curMinus;
+    }
+
+    plusDI = tr > 0 ? (plusDM / tr) * 100 : 0;
+    minusDI = tr > 0 ? (minusDM / tr) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    if (dxs.length < period) {
+      dxs.push(dx);
+      if (dxs.length === period) adx = dxs.reduce((a, b) => a + b, 0) / period;
+    } else {
+      adx = (adx * (period - 1) + dx) / period;
+    }
+  }
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Calculates the On-Balance Volume (OBV), accumulated over the given candles.
+ * @param {Candle[]} candles An array of candles.
+ * @returns {number | null} The latest OBV, or null if there is not enough data.
+ */
+export function calculateOBV(candles: Candle[]): number | null {
+  if (candles.length < 2) return null;
+  let obv = 0;
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].close > candles[i - 1].close) obv += candles[i].volume;
+    else if (candles[i].close < candles[i - 1].close) obv -= candles[i].volume;
+  }
+  return obv;
+}
+
+/**
+ * Calculates the Volume Weighted Average Price (VWAP) of the typical price.
+ * @param {Candle[]} candles An array of candles.
+ * @param {number} [period] - If set, only the last `period` candles are used; otherwise all of them.
+ * @returns {number | null} The VWAP, or null if there is no volume.
+ */
+export function calculateVWAP(candles: Candle[], period?: number): number | null {
+  const slice = period ? candles.slice(-period) : candles;
+  let pv = 0;
+  let volume = 0;
+  for (const c of slice) {
+    pv += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+  }
+  return volume > 0 ? pv / volume : null;
+}
+
+/**
+ * Computes the standard indicator set carried on a `TimeframeAnalysis`.
+ * @param {Candle[]} candles An array of candles.
+ * @returns {IndicatorSnapshot} The latest indicator values.
+ */
+export function computeIndicators(candles: Candle[]): IndicatorSnapshot {
+  return {
+    ema20: calculateEMA(candles, 20),
+    ema50: calculateEMA(candles, 50),
+    rsi14: calculateRSI(candles, 14),
+    macd: calculateMACD(candles),
+    bollinger: calculateBollingerBands(candles),
+    stochastic: calculateStochastic(candles),
+    adx: calculateADX(candles),
+    obv: calculateOBV(candles),
+    vwap: calculateVWAP(candles),
+  };
+}
+
+/**
+ * Formats an indicator snapshot as a compact, prompt-friendly string.
+ * Indicators that could not be computed are omitted.
+ * @param {IndicatorSnapshot} ind The indicator snapshot.
+ * @returns {string} The formatted indicators, e.g. "RSI=55.20 | MACD=12.30/10.10".
+ */
+export function formatIndicators(ind: IndicatorSnapshot): string {
+  const f = (n: number) => n.toFixed(2);
+  const parts: string[] = [];
+  if (ind.ema20 != null && ind.ema50 != null) parts.push(`EMA20/50=${f(ind.ema20)}/${f(ind.ema50)}`);
+  if (ind.rsi14 != null) parts.push(`RSI=${f(ind.rsi14)}`);
+  if (ind.macd) parts.push(`MACD=${f(ind.macd.macd)}/${f(ind.macd.signal)} (hist ${f(ind.macd.histogram)})`);
+  if (ind.bollinger) parts.push(`BB=${f(ind.bollinger.lower)}-${f(ind.bollinger.upper)}`);
+  if (ind.stochastic) parts.push(`Stoch=${f(ind.stochastic.k)}/${f(ind.stochastic.d)}`);
+  if (ind.adx) parts.push(`ADX=${f(ind.adx.adx)} (+DI ${f(ind.adx.plusDI)}, -DI ${f(ind.adx.minusDI)})`);
+  if (ind.obv != null) parts.push(`OBV=${f(ind.obv)}`);
+  if (ind.vwap != null) parts.push(`VWAP=${f(ind.vwap)}`);
+  return parts.join(' | ');
+}
@@ -0,0 +1,264 @@
+/**
+ * @file A small templating engine for provider requests.
+ *
+ * Templates use `{{name}}` placeholders with optional filters (`{{prompt|json}}`,
+ * `{{temperature|default:0.2}}`) and conditional sections (`{{#if system}}...{{else}}...{{/if}}`,
+ * `{{#unless name}}...{{/unless}}`). Values are escaped for the context they are rendered into:
+ * - `json`: inside a JSON string literal a value is escaped as string content; elsewhere it is
+ *   inserted as a JSON value (strings that are valid JSON, such as `0.2` or `true`, as they are,
+ *   other strings quoted), so the output stays valid JSON whatever the value contains.
+ * - `url`: values are percent-encoded; before the query string, characters that are legal in a
+ *   URL (`/`, `:`, ...) are kept so a placeholder can still hold a host or a path.
+ * - `text`: line breaks are collapsed, so a value cannot inject extra header lines.
+ * - `plain`: values are inserted as they are, e.g. into an LLM prompt.
+ * The `raw` filter inserts a value unescaped.
+ */
+
+/**
+ * How rendered values are escaped.
+ * @typedef {'json' | 'url' | 'text' | 'plain'} TemplateContext
+ */
+export type TemplateContext = 'json' | 'url' | 'text' | 'plain';
+
+/**
+ * A filter applied to a placeholder value, e.g. `default:0.2`.
+ * @interface TemplateFilter
+ * @property {string} name - The filter name.
+ * @property {string} [arg] - The text after the colon, without surrounding quotes.
+ */
+export interface TemplateFilter {
+  name: string;
+  arg?: string;
+}
+
+/**
+ * A node of a parsed template.
+ * @typedef {object} TemplateNode
+ */
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; name: string; filters: TemplateFilter[] }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const FILTERS = ['json', 'default', 'raw', 'trim'];
+
+/**
+ * Parses a template into nodes.
+ * @param {string} template The template text.
+ * @returns {TemplateNode[]} The parsed nodes.
+ * @throws {Error} If a section is not closed, a closing tag does not match, or a filter is unknown.
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open sections, innermost last; `target` is where nodes currently go.
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; tag: string; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(/\{\{(.+?)\}\}/gs)) {
+    if (match.index! > last) target().push({ kind: 'text', value: template.slice(last, match.index) });
+    last = match.index! + match[0].length;
+    const tag = match[1].trim();
+
+    const open = tag.match(/^#(if|unless)\s+(.+)$/);
+    if (open) {
+      const node: Extract<TemplateNode, { kind: 'if' }> = {
+        kind: 'if',
+        name: open[2].trim(),
+        negate: open[1] === 'unless',
+        then: [],
+        otherwise: [],
+      };
+      target().push(node);
+      stack.push({ node, tag: open[1], inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new Error('Unexpected {{else}} in template');
+      top.inElse = true;
+    } else if (tag.startsWith('/')) {
+      const top = stack.pop();
+      if (!top || top.tag !== tag.slice(1).trim()) throw new Error(`Unexpected {{${tag}}} in template`);
+    } else {
+      const [name, ...filterTexts] = tag.split('|').map((part) => part.trim());
+      const filters = filterTexts.map(parseFilter);
+      target().push({ kind: 'var', name, filters });
+    }
+  }
+  if (last < template.length) target().push({ kind: 'text', value: template.slice(last) });
+  if (stack.length > 0) throw new Error(`Unclosed {{#${stack[stack.length - 1].tag}}} in template`);
+  return root;
+}
+
+/**
+ * Parses one filter expression such as `default:'n/a'`.
+ * @param {string} text The filter expression.
+ * @returns {TemplateFilter} The filter.
+ * @throws {Error} If the filter is unknown.
+ */
+function parseFilter(text: string): TemplateFilter {
+  const colon = text.indexOf(':');
+  const name = (colon === -1 ? text : text.slice(0, colon)).trim();
+  if (!FILTERS.includes(name)) throw new Error(`Unknown template filter: ${name}`);
+  if (colon === -1) return { name };
+  const arg = text.slice(colon + 1).trim();
+  const quoted = arg.match(/^(['"])(.*)\1$/s);
+  return { name, arg: quoted ? quoted[2] : arg };
+}
+
+/**
+ * Renders a template.
+ * @param {string} template The template text.
+ * @param {Record<string, any>} vars The values; dotted names such as `{{user.name}}` read nested fields.
+ * @param {TemplateContext} [context='text'] - How values are escaped.
+ * @returns {string} The rendered text.
+ * @throws {Error} If the template cannot be parsed.
+ */
+export function renderTemplate(template: string, vars: Record<string, any>, context: TemplateContext = 'text'): string {
+  const state = { inString: false, escaped: false, inQuery: false };
+  let out = '';
+
+  const emitText = (text: string) => {
+    out += text;
+    if (context === 'url' && text.includes('?')) state.inQuery = true;
+    if (context !== 'json') return;
+    // Track whether the output so far ends inside a JSON string literal.
+    for (const ch of text) {
+      if (state.inString) {
+        if (state.escaped) state.escaped = false;
+        else if (ch === '\\') state.escaped = true;
+        else if (ch === '"') state.inString = false;
+      } else if (ch === '"') {
+        state.inString = true;
+      }
+    }
+  };
+
+  const walk = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        emitText(node.value);
+      } else if (node.kind === 'if') {
+        walk(isTruthy(lookup(vars, node.name)) !== node.negate ? node.then : node.otherwise);
+      } else {
+        // Escaped values never change the tracked state, so they bypass `emitText`.
+        out += encodeValue(lookup(vars, node.name), node.filters, context, state);
+      }
+    }
+  };
+
+  walk(parseTemplate(template));
+  return out;
+}
+
+/**
+ * Checks that a JSON request template is well-formed and renders to valid JSON, whichever
+ * conditional branches are taken and whatever the values contain.
+ * @param {string} template The template text.
+ * @returns {string | null} A description of the problem, or null if the template is valid.
+ */
+export function checkJsonTemplate(template: string): string | null {
+  let names: string[];
+  try {
+    names = collectNames(parseTemplate(template));
+  } catch (err) {
+    return (err as Error).message;
+  }
+  const tricky = 'He said "hi",\n\tthen left \\ {{braces}}';
+  const full = Object.fromEntries(names.map((n) => [n, tricky]));
+  const samples = [
+    { ...full, messages: [{ role: 'user', content: tricky }] },
+    { prompt: tricky, model: 'model', messages: [{ role: 'user', content: tricky }] },
+  ];
+  for (const sample of samples) {
+    try {
+      JSON.parse(renderTemplate(template, sample, 'json'));
+    } catch (err) {
+      return `Template does not render to valid JSON: ${(err as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists every variable name a template reads, including conditions.
+ * @param {TemplateNode[]} nodes The parsed template.
+ * @returns {string[]} The unique names.
+ */
+function collectNames(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const walk = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.kind === 'var') names.add(node.name.split('.')[0]);
+      if (node.kind === 'if') {
+        names.add(node.name.split('.')[0]);
+        walk(node.then);
+        walk(node.otherwise);
+      }
+    }
+  };
+  walk(nodes);
+  return [...names];
+}
+
+function lookup(vars: Record<string, any>, name: string): any {
+  return name.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), vars as any);
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Applies a placeholder's filters and escapes the result for its context.
+ * @param {any} value The variable value.
+ * @param {TemplateFilter[]} filters The filters, applied left to right.
+ * @param {TemplateContext} context The rendering context.
+ * @param {{ inString: boolean, inQuery: boolean }} position Whether a JSON template is inside a string literal, and a URL inside its query string.
+ * @returns {string} The text to insert.
+ */
+function encodeValue(
+  value: any,
+  filters: TemplateFilter[],
+  context: TemplateContext,
+  position: { inString: boolean; inQuery: boolean }
+): string {
+  let v = value;
+  let raw = false;
+  let isJsonText = false;
+  for (const filter of filters) {
+    if (filter.name === 'default') {
+      if (v === undefined || v === null || v === '') v = filter.arg ?? '';
+    } else if (filter.name === 'json') {
+      v = JSON.stringify(v === undefined ? null : v);
+      isJsonText = true;
+    } else if (filter.name === 'trim') {
+      v = toText(v).trim();
+    } else if (filter.name === 'raw') {
+      raw = true;
+    }
+  }
+
+  if (raw || context === 'plain') return toText(v);
+  if (context === 'url') return position.inQuery ? encodeURIComponent(toText(v)) : encodeURI(toText(v));
+  if (context === 'text') return toText(v).replace(/[\r\n]+/g, ' ');
+
+  if (position.inString) return JSON.stringify(toText(v)).slice(1, -1);
+  if (isJsonText) return v;
+  if (v === undefined || v === null) return 'null';
+  if (typeof v !== 'string') return JSON.stringify(v);
+  try {
+    JSON.parse(v);
+    return v;
+  } catch {
+    return JSON.stringify(v);
+  }
+}
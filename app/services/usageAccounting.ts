@@ -0,0 +1,115 @@
+/**
+ * @file Counts the tokens and cost of provider calls and checks them against each provider's limits.
+ */
+import { LLMResponseParsed, SignalCost, TokenUsage } from '../types';
+import { ProviderSpec } from '../utils/providerStore';
+import { ProviderUsage } from '../utils/providerUsageStore';
+
+/** The rough number of characters per token, for estimating usage the provider did not report. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens in a text.
+ * @param {string} text The text.
+ * @returns {number} The estimated tokens.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Reads the token usage a provider reported in its response body. Understands OpenAI-style
+ * (`usage.prompt_tokens`), Anthropic-style (`usage.input_tokens`), Gemini (`usageMetadata`)
+ * and Ollama (`prompt_eval_count`) payloads.
+ * @param {any} raw The response body.
+ * @returns {TokenUsage | null} The usage, or null if the body does not report it.
+ */
+export function extractUsage(raw: any): TokenUsage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const pairs: [unknown, unknown][] = [
+    [raw.usage?.prompt_tokens, raw.usage?.completion_tokens],
+    [raw.usage?.input_tokens, raw.usage?.output_tokens],
+    [raw.usageMetadata?.promptTokenCount, raw.usageMetadata?.candidatesTokenCount],
+    [raw.prompt_eval_count, raw.eval_count],
+  ];
+  const found = pairs.find(([input, output]) => typeof input === 'number' || typeof output === 'number');
+  if (!found) return null;
+  const [input, output] = found;
+  return {
+    inputTokens: typeof input === 'number' ? input : 0,
+    outputTokens: typeof output === 'number' ? output : 0,
+    estimated: false,
+  };
+}
+
+/**
+ * Works out the tokens a call used: as reported by the provider, or estimated from the request and response text.
+ * @param {any} raw The response body, or the text of a streamed response.
+ * @param {string} requestText The request body as sent.
+ * @param {string | null} responseText The text the signal was searched for in.
+ * @returns {TokenUsage} The usage.
+ */
+export function measureUsage(raw: any, requestText: string, responseText: string | null): TokenUsage {
+  return extractUsage(raw) ?? {
+    inputTokens: estimateTokens(requestText),
+    outputTokens: estimateTokens(responseText ?? (typeof raw === 'string' ? raw : JSON.stringify(raw ?? ''))),
+    estimated: true,
+  };
+}
+
+/**
+ * Prices a call's tokens with the provider's pricing.
+ * @param {ProviderSpec} spec The provider spec, for its prices per million tokens.
+ * @param {TokenUsage} usage The tokens.
+ * @returns {number} The cost in USD; 0 for providers without pricing.
+ */
+export function calculateCost(spec: ProviderSpec, usage: TokenUsage): number {
+  return (usage.inputTokens * (spec.inputTokenPrice ?? 0) + usage.outputTokens * (spec.outputTokenPrice ?? 0)) / 1_000_000;
+}
+
+/**
+ * Formats an amount in USD, with more decimals for the fractions of a cent single calls tend to cost.
+ * @param {number} amount The amount.
+ * @returns {string} The formatted amount, e.g. "$0.0042".
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Checks whether another call fits within a provider's rate limit and daily budgets.
+ * @param {ProviderSpec} spec The provider spec, for its limits.
+ * @param {ProviderUsage} usage The provider's current usage.
+ * @param {number} [promptTokens=0] - The estimated input tokens of the call, so a call that would overshoot the token budget is refused too.
+ * @returns {string | null} Which limit was reached, or null if the call may go ahead.
+ */
+export function checkProviderLimits(spec: ProviderSpec, usage: ProviderUsage, promptTokens: number = 0): string | null {
+  if (spec.requestsPerMinute && usage.recentRequests.length >= spec.requestsPerMinute) {
+    return `${spec.requestsPerMinute} requests per minute reached`;
+  }
+  if (spec.dailyRequestLimit && usage.dailyRequests >= spec.dailyRequestLimit) {
+    return `daily limit of ${spec.dailyRequestLimit} requests reached`;
+  }
+  if (spec.dailyTokenLimit && usage.dailyTokens + promptTokens > spec.dailyTokenLimit) {
+    return `daily budget of ${spec.dailyTokenLimit} tokens reached (${usage.dailyTokens} used)`;
+  }
+  return null;
+}
+
+/**
+ * Adds up the tokens and cost of the provider calls for a signal, failed calls with a response included.
+ * @param {LLMResponseParsed[]} responses The provider responses.
+ * @returns {SignalCost} The totals.
+ */
+export function summarizeSignalCost(responses: LLMResponseParsed[]): SignalCost {
+  const summary: SignalCost = { inputTokens: 0, outputTokens: 0, cost: 0, estimated: false, byProvider: {} };
+  responses.forEach((r) => {
+    if (!r.usage) return;
+    summary.inputTokens += r.usage.inputTokens;
+    summary.outputTokens += r.usage.outputTokens;
+    summary.cost += r.cost ?? 0;
+    summary.estimated = summary.estimated || r.usage.estimated;
+    summary.byProvider[r.providerId] = (summary.byProvider[r.providerId] ?? 0) + (r.cost ?? 0);
+  });
+  return summary;
+}
@@ -4,8 +4,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { TradingSignal, LLMResponseParsed } from '../types';
 import { ProviderWithHealth } from '../hooks/useSignalGenerator';
 import { generateTradingSignal, AggregationMode } from '../services/signalService';
-import { listProviderSpecs } from '../utils/providerStore';
+import { getProviderSecrets, listProviderSpecs } from '../utils/providerStore';
+import { findMissingPlaceholders } from '../services/placeholders';
 import { getHealthStatus } from '../utils/providerHealthStore';
+import { getProviderUsage } from '../utils/providerUsageStore';
+import { resolvePendingOutcomes } from '../services/outcomeService';
+import { getProviderPerformance } from '../services/providerPerformanceService';
 import NetInfo from '@react-native-community/netinfo';
 
 interface SignalState {
@@ -13,8 +17,14 @@ interface SignalState {
   lastSignal: TradingSignal | null;
   lastResponses: LLMResponseParsed[];
   providersWithHealth: ProviderWithHealth[];
-  generate: (symbol: string, aggregation?: AggregationMode) => Promise<any>;
-  refreshProviders: () => Promise<void>;
+  resolvingOutcomes: boolean;
+  streamingText: Record<string, string>;
+  /** The symbol whose track records the provider list shows, as used for weighting; null for the records across all symbols. */
+  performanceSymbol: string | null;
+  generate: (symbol: string, aggregation?: AggregationMode, options?: { extraContext?: string }) => Promise<any>;
+  /** Reloads the provider list; with a symbol, it becomes the `performanceSymbol`. */
+  refreshProviders: (symbol?: string) => Promise<void>;
+  resolveOutcomes: () => Promise<number>;
 }
 
 export const useSignalStore = create<SignalState>()(
@@ -24,7 +34,10 @@ export const useSignalStore = create<SignalState>()(
       lastSignal: null,
       lastResponses: [],
   providersWithHealth: [],
-  generate: async (symbol, aggregation) => {
+  resolvingOutcomes: false,
+  streamingText: {},
+  performanceSymbol: null,
+  generate: async (symbol, aggregation, options = {}) => {
     const netInfo = await NetInfo.fetch();
     if (!netInfo.isConnected) {
       throw new Error('You are offline. Please check your internet connection.');
@@ -32,39 +45,64 @@ export const useSignalStore = create<SignalState>()(
 
     const { providersWithHealth, refreshProviders } = get();
     const activeProviders = providersWithHealth
-      .filter((p) => p.health.state !== 'OPEN')
+      .filter((p) => p.spec.enabled !== false && !p.spec.embeddingPath && p.health.state !== 'OPEN')
       .map((p) => p.spec);
 
     if (activeProviders.length === 0) {
-      throw new Error('No healthy LLM providers available. Check provider settings or wait for them to recover.');
+      throw new Error('No enabled, healthy LLM providers available. Check provider settings or wait for them to recover.');
     }
 
-    set({ loading: true });
+    set({ loading: true, streamingText: {} });
     try {
-      const result = await generateTradingSignal(symbol, activeProviders, aggregation);
+      const result = await generateTradingSignal(symbol, activeProviders, aggregation, {
+        extraContext: options.extraContext,
+        onProgress: (providerId, text) => set((state) => ({ streamingText: { ...state.streamingText, [providerId]: text } })),
+      });
       if (result.final) {
         set({ lastSignal: result.final });
       }
       set({ lastResponses: result.providerResponses });
-      set({ loading: false });
-      refreshProviders();
+      set({ loading: false, streamingText: {} });
+      refreshProviders(symbol);
       return result;
     } catch (err) {
-      set({ loading: false });
-      refreshProviders();
+      set({ loading: false, streamingText: {} });
+      refreshProviders(symbol);
       throw err;
     }
   },
-  refreshProviders: async () => {
+  refreshProviders: async (symbol) => {
+    if (symbol) set({ performanceSymbol: symbol.toUpperCase() });
+    const performanceSymbol = get().performanceSymbol;
     const specs = await listProviderSpecs();
     const healthPromises = specs.map((spec) => getHealthStatus(spec.id));
-    const healths = await Promise.all(healthPromises);
+    const secretPromises = specs.map((spec) => getProviderSecrets(spec.id));
+    const usagePromises = specs.map((spec) => getProviderUsage(spec.id));
+    const [healths, secrets, usages, performance] = await Promise.all([
+      Promise.all(healthPromises),
+      Promise.all(secretPromises),
+      Promise.all(usagePromises),
+      getProviderPerformance(performanceSymbol ?? undefined),
+    ]);
 
-    const providers = specs.map((spec) => ({
+    const providers = specs.map((spec, i) => ({
       spec,
       health: healths.find((h) => h.providerId === spec.id)!,
+      performance: performance[spec.id],
+      missingPlaceholders: findMissingPlaceholders(spec, secrets[i]),
+      usage: usages[i],
     }));
     set({ providersWithHealth: providers });
+  },
+  resolveOutcomes: async () => {
+    set({ resolvingOutcomes: true });
+    try {
+      const resolved = await resolvePendingOutcomes();
+      if (resolved.length > 0) get().refreshProviders();
+      return resolved.length;
+    } finally {
+      set({ resolvingOutcomes: false });
+    }
   },
     }),
     {
@@ -25,6 +25,23 @@ export interface RiskMetrics {
   maxDrawdownPercent?: number;
 }
 
+/**
+ * Describes how contested an aggregated signal was.
+ * @interface ConsensusInfo
+ * @property {string} strategy - The ID of the aggregation strategy that produced the signal.
+ * @property {number} disagreement - The normalized entropy of the votes, from 0 (unanimous) to 1 (evenly split).
+ * @property {number} priceDispersion - The spread of the suggested entry prices, as a percentage of their mean.
+ * @property {string[]} dissenters - The IDs of the providers that voted for a different signal type.
+ * @property {Record<SignalType, number>} votes - The number of votes per signal type.
+ */
+export interface ConsensusInfo {
+  strategy: string;
+  disagreement: number;
+  priceDispersion: number;
+  dissenters: string[];
+  votes: Record<SignalType, number>;
+}
+
 /**
  * Represents a trading signal generated by the application.
  * @interface TradingSignal
@@ -40,6 +57,9 @@ export interface RiskMetrics {
  * @property {string} [exchange] - The exchange where the trade should be executed.
  * @property {'NEW' | 'PENDING' | 'CLOSED' | 'CANCELLED'} [status] - The current status of the signal.
  * @property {string} [reasoning] - The reasoning or justification for the signal, often from an LLM.
+ * @property {ConsensusInfo} [consensus] - How contested the signal was among the providers.
+ * @property {number} [promptVersion] - The version of the prompt template the signal was generated with.
+ * @property {SignalCost} [cost] - The tokens and money spent on the provider calls for the signal.
  */
 export interface TradingSignal {
   id: string;
@@ -54,6 +74,30 @@ export interface TradingSignal {
   exchange?: string;
   status?: 'NEW' | 'PENDING' | 'CLOSED' | 'CANCELLED';
   reasoning?: string;
+  consensus?: ConsensusInfo;
+  promptVersion?: number;
+  cost?: SignalCost;
+}
+
+/**
+ * A single provider's vote on a signal, as parsed from its response.
+ * @interface ProviderSignal
+ * @property {string} providerId - The ID of the provider.
+ * @property {SignalType} type - The signal type the provider voted for.
+ * @property {number} [confidence] - The provider's confidence, from 0 to 100.
+ * @property {number} [price] - The entry price the provider suggested.
+ * @property {number} [stopLoss] - The stop loss the provider suggested.
+ * @property {number} [takeProfit] - The take profit the provider suggested.
+ * @property {string} [reasoning] - The provider's reasoning.
+ */
+export interface ProviderSignal {
+  providerId: string;
+  type: SignalType;
+  confidence?: number;
+  price?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  reasoning?: string;
 }
 
 /**
@@ -69,6 +113,9 @@ export interface TradingSignal {
  * @property {number} [durationMs] - The duration of the trade in milliseconds.
  * @property {number} [closedAt] - The UNIX timestamp when the trade was closed.
  * @property {'TP' | 'SL' | 'MANUAL' | null} [hitTarget] - Whether the trade hit the take profit, stop loss, or was manually closed.
+ * @property {ProviderSignal[]} [providerSignals] - Each provider's vote, used to score provider track records.
+ * @property {SnapshotEmbedding} [embedding] - The embedding of the market snapshot, for similarity retrieval with an embedding provider.
+ * @property {string} [origin] - Where an imported signal came from, as labelled by its export; unset for signals generated on this device.
  */
 export interface SignalHistory {
   id: string;
@@ -81,6 +128,43 @@ export interface SignalHistory {
   durationMs?: number;
   closedAt?: number;
   hitTarget?: 'TP' | 'SL' | 'MANUAL' | null;
+  providerSignals?: ProviderSignal[];
+  embedding?: SnapshotEmbedding;
+  origin?: string;
+}
+
+/**
+ * The embedding of a signal's market snapshot. Embeddings only compare with those of the same provider and model.
+ * @interface SnapshotEmbedding
+ * @property {string} providerId - The ID of the embedding provider.
+ * @property {string} [model] - The provider's model at the time.
+ * @property {number[]} vector - The embedding.
+ */
+export interface SnapshotEmbedding {
+  providerId: string;
+  model?: string;
+  vector: number[];
+}
+
+/**
+ * The result of asking an embedding provider for an embedding.
+ * @interface EmbeddingResult
+ * @property {string} providerId - The ID of the provider.
+ * @property {boolean} ok - Whether an embedding was found in the response.
+ * @property {number[]} [vector] - The embedding.
+ * @property {string} [error] - Why there is no embedding.
+ * @property {boolean} [budgetExceeded] - Whether the call was refused because the provider's rate limit or daily budget was reached.
+ * @property {TokenUsage} [usage] - The tokens the call used, for calls that got a response body.
+ * @property {number} [cost] - The cost of the call in USD, for providers with pricing.
+ */
+export interface EmbeddingResult {
+  providerId: string;
+  ok: boolean;
+  vector?: number[];
+  error?: string;
+  budgetExceeded?: boolean;
+  usage?: TokenUsage;
+  cost?: number;
 }
 
 /**
@@ -91,6 +175,10 @@ export interface SignalHistory {
  * @property {boolean} ok - Whether the request was successful and the response was valid.
  * @property {Partial<TradingSignal> & { reasoning?: string }} [parsed] - The parsed trading signal data from the response.
  * @property {string} [error] - Any error message from the request.
+ * @property {ProviderErrorClass} [errorClass] - The kind of failure, for failed calls that reached the provider.
+ * @property {boolean} [budgetExceeded] - Whether the call was refused because the provider's rate limit or daily budget was reached.
+ * @property {TokenUsage} [usage] - The tokens the call used, for calls that got a response body.
+ * @property {number} [cost] - The cost of the call in USD, for providers with pricing.
  */
 export interface LLMResponseParsed {
   providerId: string;
@@ -98,6 +186,41 @@ export interface LLMResponseParsed {
   ok: boolean;
   parsed?: Partial<TradingSignal> & { reasoning?: string };
   error?: string;
+  errorClass?: ProviderErrorClass;
+  budgetExceeded?: boolean;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+/**
+ * The result of a diagnostic call to a provider.
+ * @interface ProviderDiagnostics
+ * @property {string} providerId - The ID of the LLM provider.
+ * @property {{ url: string, method: string, headers: Record<string, string>, body: string }} request - The request as sent, with secrets masked.
+ * @property {number | null} status - The HTTP status, or null if no response arrived.
+ * @property {number} latencyMs - The time until the whole body was read, or until the request failed.
+ * @property {string | null} rawBody - The response body as received.
+ * @property {string | null} extractedText - The text the signal was searched for in.
+ * @property {number} candidates - How many JSON objects were found in that text.
+ * @property {string[]} schemaIssues - Why each candidate failed `ParsedSignalSchema`, prefixed with its position.
+ * @property {string[]} missingPlaceholders - Placeholders in the spec that had no value and rendered empty.
+ * @property {boolean} ok - Whether a valid signal was parsed.
+ * @property {Partial<TradingSignal> & { reasoning?: string }} [parsed] - The parsed signal.
+ * @property {string} [error] - The transport or HTTP error, if any.
+ */
+export interface ProviderDiagnostics {
+  providerId: string;
+  request: { url: string; method: string; headers: Record<string, string>; body: string };
+  status: number | null;
+  latencyMs: number;
+  rawBody: string | null;
+  extractedText: string | null;
+  candidates: number;
+  schemaIssues: string[];
+  missingPlaceholders: string[];
+  ok: boolean;
+  parsed?: Partial<TradingSignal> & { reasoning?: string };
+  error?: string;
 }
 
 /**
@@ -125,6 +248,50 @@ export interface Candle {
  */
 export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
 
+/**
+ * The latest technical indicator values for a timeframe. Values are null when there were too few candles.
+ * @interface IndicatorSnapshot
+ * @property {number | null} ema20 - The 20-period exponential moving average.
+ * @property {number | null} ema50 - The 50-period exponential moving average.
+ * @property {number | null} rsi14 - The 14-period relative strength index.
+ * @property {{ macd: number; signal: number; histogram: number } | null} macd - MACD(12, 26, 9).
+ * @property {{ upper: number; middle: number; lower: number; bandwidth: number } | null} bollinger - Bollinger Bands(20, 2).
+ * @property {{ k: number; d: number } | null} stochastic - Stochastic oscillator(14, 3).
+ * @property {{ adx: number; plusDI: number; minusDI: number } | null} adx - ADX(14) with its directional indicators.
+ * @property {number | null} obv - On-balance volume over the analyzed candles.
+ * @property {number | null} vwap - Volume-weighted average price over the analyzed candles.
+ */
+export interface IndicatorSnapshot {
+  ema20: number | null;
+  ema50: number | null;
+  rsi14: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  bollinger: { upper: number; middle: number; lower: number; bandwidth: number } | null;
+  stochastic: { k: number; d: number } | null;
+  adx: { adx: number; plusDI: number; minusDI: number } | null;
+  obv: number | null;
+  vwap: number | null;
+}
+
+/**
+ * A support or resistance zone built from clustered swing pivots.
+ * @interface PriceZone
+ * @property {number} price - The average price of the pivots in the zone.
+ * @property {number} low - The lowest pivot price in the zone.
+ * @property {number} high - The highest pivot price in the zone.
+ * @property {number} touches - The number of swing pivots in the zone.
+ * @property {number} lastTouched - The UNIX timestamp of the most recent pivot in the zone.
+ * @property {number} strength - The zone's score from 0 to 100, relative to the strongest zone.
+ */
+export interface PriceZone {
+  price: number;
+  low: number;
+  high: number;
+  touches: number;
+  lastTouched: number;
+  strength: number;
+}
+
 /**
  * Represents the analysis of a specific timeframe for a trading symbol.
  * @interface TimeframeAnalysis
@@ -132,9 +299,11 @@ export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
  * @property {Candle} [lastCandle] - The last candlestick in the timeframe.
  * @property {'BULLISH' | 'BEARISH' | 'NEUTRAL'} trend - The current trend in the timeframe.
  * @property {number} volatility - The volatility of the market in the timeframe.
- * @property {number[]} [support] - Key support levels.
- * @property {number[]} [resistance] - Key resistance levels.
+ * @property {number[]} [support] - Key support levels, nearest to the price first.
+ * @property {number[]} [resistance] - Key resistance levels, nearest to the price first.
+ * @property {{ support: PriceZone[]; resistance: PriceZone[] }} [levels] - The zones behind the support and resistance levels.
  * @property {{ avg: number; last: number }} [volumeInfo] - Information about the trading volume.
+ * @property {IndicatorSnapshot} [indicators] - Technical indicator values.
  */
 export interface TimeframeAnalysis {
   timeframe: Timeframe;
@@ -143,7 +312,9 @@ export interface TimeframeAnalysis {
   volatility: number;
   support?: number[];
   resistance?: number[];
+  levels?: { support: PriceZone[]; resistance: PriceZone[] };
   volumeInfo?: { avg: number; last: number };
+  indicators?: IndicatorSnapshot;
 }
 
 /**
@@ -152,17 +323,125 @@ export interface TimeframeAnalysis {
  */
 export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
 
+/**
+ * The kind of a failed provider call, which decides how the circuit breaker treats it.
+ * @typedef {'RATE_LIMIT' | 'TIMEOUT' | 'SERVER' | 'CLIENT' | 'NETWORK' | 'SCHEMA'} ProviderErrorClass
+ */
+export type ProviderErrorClass = 'RATE_LIMIT' | 'TIMEOUT' | 'SERVER' | 'CLIENT' | 'NETWORK' | 'SCHEMA';
+
+/**
+ * A classified provider failure.
+ * @interface ProviderError
+ * @property {ProviderErrorClass} errorClass - The kind of failure.
+ * @property {string} message - A description of the failure.
+ * @property {number} [status] - The HTTP status, if a response was received.
+ * @property {number} [retryAfterMs] - How long the provider asked to wait, from its `Retry-After` header.
+ * @property {number} [at] - The UNIX timestamp of the failure, set when it is recorded.
+ */
+export interface ProviderError {
+  errorClass: ProviderErrorClass;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+  at?: number;
+}
+
+/**
+ * One call in a provider's sliding window.
+ * @interface CallRecord
+ * @property {number} at - The UNIX timestamp of the call.
+ * @property {number} durationMs - How long the call took.
+ * @property {boolean} failed - Whether the call counts as a failure.
+ * @property {boolean} slow - Whether the call exceeded the slow-call threshold.
+ * @property {ProviderErrorClass} [errorClass] - The kind of failure, for failed or rate-limited calls.
+ */
+export interface CallRecord {
+  at: number;
+  durationMs: number;
+  failed: boolean;
+  slow: boolean;
+  errorClass?: ProviderErrorClass;
+}
+
+/**
+ * A call to a provider as kept for the health dashboard.
+ * @interface ProviderCallMetric
+ * @property {number} at - The UNIX timestamp of the call.
+ * @property {number} latencyMs - How long the call took, including retries.
+ * @property {'SUCCESS' | ProviderErrorClass} outcome - Whether the call succeeded, or how it failed.
+ * @property {string} [error] - The error message of a failed call.
+ */
+export interface ProviderCallMetric {
+  at: number;
+  latencyMs: number;
+  outcome: 'SUCCESS' | ProviderErrorClass;
+  error?: string;
+}
+
+/**
+ * A change of a provider's circuit state.
+ * @interface CircuitTransition
+ * @property {number} at - The UNIX timestamp of the change.
+ * @property {CircuitState} from - The previous state.
+ * @property {CircuitState} to - The new state.
+ * @property {string} [reason] - Why the state changed, when known.
+ */
+export interface CircuitTransition {
+  at: number;
+  from: CircuitState;
+  to: CircuitState;
+  reason?: string;
+}
+
 /**
  * Represents the health status of a provider.
  * @interface ProviderHealth
  * @property {string} providerId - The ID of the provider.
  * @property {CircuitState} state - The current state of the circuit breaker.
- * @property {number} failureCount - The number of consecutive failures.
+ * @property {number} failureCount - The number of failures in the current window.
  * @property {number} lastAttempt - The UNIX timestamp of the last attempt.
+ * @property {CallRecord[]} [window] - The most recent calls, oldest first.
+ * @property {number} [openUntil] - While open, when the circuit lets a probe through.
+ * @property {string} [openReason] - Why the circuit opened.
+ * @property {ProviderError} [lastError] - The most recent failure.
  */
 export interface ProviderHealth {
   providerId: string;
   state: CircuitState;
   failureCount: number;
   lastAttempt: number; // Timestamp
+  window?: CallRecord[];
+  openUntil?: number;
+  openReason?: string;
+  lastError?: ProviderError;
+}
+
+/**
+ * The tokens used by a provider call.
+ * @interface TokenUsage
+ * @property {number} inputTokens - The prompt tokens.
+ * @property {number} outputTokens - The completion tokens.
+ * @property {boolean} estimated - Whether the counts were estimated from the text because the response did not report them.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+/**
+ * The tokens and money spent on the provider calls for one signal.
+ * @interface SignalCost
+ * @property {number} inputTokens - The prompt tokens of all calls.
+ * @property {number} outputTokens - The completion tokens of all calls.
+ * @property {number} cost - The total cost in USD; providers without pricing count as free.
+ * @property {boolean} estimated - Whether any of the counts were estimated.
+ * @property {Record<string, number>} byProvider - The cost in USD per provider ID.
+ */
+export interface SignalCost {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  estimated: boolean;
+  byProvider: Record<string, number>;
 }
@@ -0,0 +1,67 @@
+/**
+ * @file Persists candle files pasted into the app, one per symbol and timeframe.
+ *
+ * The "Local files" market data source in `marketDataProviders` reads its candles from here.
+ * Contents are stored as pasted; they are checked with `parseCandleFile` before saving.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timeframe } from '../types';
+
+const CANDLE_FILE_KEY_PREFIX = '@app:candle_file:';
+const CANDLE_FILE_INDEX_KEY = '@app:candle_files_v1';
+
+/**
+ * Generates the AsyncStorage key of a candle file.
+ * @param {string} symbol The trading symbol.
+ * @param {Timeframe} timeframe The timeframe.
+ * @returns {string} The AsyncStorage key.
+ */
+const getCandleFileKey = (symbol: string, timeframe: Timeframe) => `${CANDLE_FILE_KEY_PREFIX}${symbol.toUpperCase()}:${timeframe}`;
+
+/**
+ * Lists the stored candle files.
+ * @returns {Promise<Record<string, Timeframe[]>>} A promise that resolves to the timeframes with a file, keyed by upper-cased symbol.
+ */
+export async function listCandleFiles(): Promise<Record<string, Timeframe[]>> {
+  const raw = await AsyncStorage.getItem(CANDLE_FILE_INDEX_KEY);
+  return raw ? JSON.parse(raw) : {};
+}
+
+/**
+ * Loads the candle file of a symbol and timeframe.
+ * @param {string} symbol The trading symbol.
+ * @param {Timeframe} timeframe The timeframe.
+ * @returns {Promise<string | null>} A promise that resolves to the file content, or null if there is none.
+ */
+export async function loadCandleFile(symbol: string, timeframe: Timeframe): Promise<string | null> {
+  return AsyncStorage.getItem(getCandleFileKey(symbol, timeframe));
+}
+
+/**
+ * Saves the candle file of a symbol and timeframe, replacing any earlier one.
+ * @param {string} symbol The trading symbol.
+ * @param {Timeframe} timeframe The timeframe.
+ * @param {string} content The CSV or JSON content.
+ */
+export async function saveCandleFile(symbol: string, timeframe: Timeframe, content: string): Promise<void> {
+  const key = symbol.toUpperCase();
+  await AsyncStorage.setItem(getCandleFileKey(key, timeframe), content);
+  const index = await listCandleFiles();
+  const timeframes = new Set([...(index[key] ?? []), timeframe]);
+  await AsyncStorage.setItem(CANDLE_FILE_INDEX_KEY, JSON.stringify({ ...index, [key]: [...timeframes] }));
+}
+
+/**
+ * Deletes the candle file of a symbol and timeframe.
+ * @param {string} symbol The trading symbol.
+ * @param {Timeframe} timeframe The timeframe.
+ */
+export async function deleteCandleFile(symbol: string, timeframe: Timeframe): Promise<void> {
+  const key = symbol.toUpperCase();
+  await AsyncStorage.removeItem(getCandleFileKey(key, timeframe));
+  const index = await listCandleFiles();
+  const timeframes = (index[key] ?? []).filter((tf) => tf !== timeframe);
+  if (timeframes.length > 0) index[key] = timeframes;
+  else delete index[key];
+  await AsyncStorage.setItem(CANDLE_FILE_INDEX_KEY, JSON.stringify(index));
+}
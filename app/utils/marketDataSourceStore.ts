@@ -0,0 +1,63 @@
+/**
+ * @file Persists which market data source is used globally and for individual symbols.
+ *
+ * The sources themselves are registered in `marketDataProviders`; this store only
+ * keeps the user's selection in AsyncStorage.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * The user's market data source selection.
+ * @interface MarketDataSelection
+ * @property {string} defaultSourceId - The source used for symbols without an override.
+ * @property {Record<string, string>} symbolSources - Per-symbol overrides, keyed by upper-cased symbol.
+ */
+export interface MarketDataSelection {
+  defaultSourceId: string;
+  symbolSources: Record<string, string>;
+}
+
+const SELECTION_KEY = '@app:market_data_sources_v1';
+const DEFAULT_SELECTION: MarketDataSelection = { defaultSourceId: 'binance', symbolSources: {} };
+
+/**
+ * Loads the market data source selection.
+ * @returns {Promise<MarketDataSelection>} A promise that resolves to the selection.
+ */
+export async function getMarketDataSelection(): Promise<MarketDataSelection> {
+  const raw = await AsyncStorage.getItem(SELECTION_KEY);
+  return raw ? { ...DEFAULT_SELECTION, ...JSON.parse(raw) } : { ...DEFAULT_SELECTION, symbolSources: {} };
+}
+
+/**
+ * Saves the market data source selection.
+ * @param {MarketDataSelection} selection The selection to save.
+ */
+async function saveMarketDataSelection(selection: MarketDataSelection): Promise<void> {
+  await AsyncStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+}
+
+/**
+ * Sets the source used for every symbol without its own override.
+ * @param {string} sourceId The ID of the market data source.
+ */
+export async function setDefaultMarketDataSource(sourceId: string): Promise<void> {
+  const selection = await getMarketDataSelection();
+  await saveMarketDataSelection({ ...selection, defaultSourceId: sourceId });
+}
+
+/**
+ * Sets or clears the source used for a single symbol.
+ * @param {string} symbol The trading symbol.
+ * @param {string | null} sourceId The ID of the market data source, or null to fall back to the default.
+ */
+export async function setSymbolMarketDataSource(symbol: string, sourceId: string | null): Promise<void> {
+  const selection = await getMarketDataSelection();
+  const symbolSources = { ...selection.symbolSources };
+  if (sourceId) {
+    symbolSources[symbol.toUpperCase()] = sourceId;
+  } else {
+    delete symbolSources[symbol.toUpperCase()];
+  }
+  await saveMarketDataSelection({ ...selection, symbolSources });
+}
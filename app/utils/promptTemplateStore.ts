@@ -0,0 +1,137 @@
+/**
+ * @file Persists the versions of the signal prompt template, the active version and the A/B split.
+ *
+ * Versions are never edited in place: saving a template always creates a new version, and the
+ * numbers of deleted versions are never handed out again, so every stored signal's
+ * `promptVersion` keeps pointing at the exact text it was generated with.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PromptSplit,
+  PromptTemplateSettings,
+  PromptTemplateVersion,
+  checkPromptTemplate,
+} from '../services/promptTemplates';
+
+const PROMPT_TEMPLATES_KEY = '@app:prompt_templates_v1';
+
+/**
+ * Returns the settings used before anything is saved: the built-in template as version 1.
+ * @returns {PromptTemplateSettings} The default settings.
+ */
+function defaultSettings(): PromptTemplateSettings {
+  return {
+    versions: [{ version: 1, body: DEFAULT_PROMPT_TEMPLATE, label: 'Default', createdAt: 0 }],
+    activeVersion: 1,
+    split: null,
+    nextVersion: 2,
+  };
+}
+
+/**
+ * Loads the prompt templates.
+ * @returns {Promise<PromptTemplateSettings>} A promise that resolves to the saved settings, or the defaults.
+ */
+export async function getPromptTemplates(): Promise<PromptTemplateSettings> {
+  const raw = await AsyncStorage.getItem(PROMPT_TEMPLATES_KEY);
+  if (!raw) return defaultSettings();
+  const saved: PromptTemplateSettings = JSON.parse(raw);
+  const settings = { ...defaultSettings(), ...saved };
+  // Settings saved before the counter existed continue after their newest version.
+  return { ...settings, nextVersion: saved.nextVersion ?? Math.max(0, ...settings.versions.map((v) => v.version)) + 1 };
+}
+
+/**
+ * Saves the prompt templates.
+ * @param {PromptTemplateSettings} settings The settings to save.
+ */
+async function savePromptTemplates(settings: PromptTemplateSettings): Promise<void> {
+  await AsyncStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Throws unless a version exists.
+ * @param {PromptTemplateSettings} settings The settings.
+ * @param {number} version The version number.
+ * @throws {Error} If the version does not exist.
+ */
+function assertVersion(settings: PromptTemplateSettings, version: number) {
+  if (!settings.versions.some((v) => v.version === version)) {
+    throw new Error(`Unknown prompt version ${version}`);
+  }
+}
+
+/**
+ * Saves a template as a new version.
+ * @param {string} body The template text.
+ * @param {object} [options] - Options.
+ * @param {string} [options.label] - A short description of the version.
+ * @param {boolean} [options.activate=false] - Whether to make it the active version.
+ * @returns {Promise<PromptTemplateVersion>} A promise that resolves to the new version.
+ * @throws {Error} If the template does not parse.
+ */
+export async function savePromptTemplateVersion(
+  body: string,
+  options: { label?: string; activate?: boolean } = {}
+): Promise<PromptTemplateVersion> {
+  const problem = checkPromptTemplate(body);
+  if (problem) throw new Error(`Invalid prompt template: ${problem}`);
+
+  const settings = await getPromptTemplates();
+  const version: PromptTemplateVersion = {
+    version: settings.nextVersion!,
+    body,
+    label: options.label?.trim() || undefined,
+    createdAt: Date.now(),
+  };
+  await savePromptTemplates({
+    ...settings,
+    versions: [...settings.versions, version],
+    nextVersion: version.version + 1,
+    activeVersion: options.activate ? version.version : settings.activeVersion,
+  });
+  return version;
+}
+
+/**
+ * Makes a version the one used when no split is running.
+ * @param {number} version The version number.
+ * @throws {Error} If the version does not exist.
+ */
+export async function setActivePromptVersion(version: number): Promise<void> {
+  const settings = await getPromptTemplates();
+  assertVersion(settings, version);
+  await savePromptTemplates({ ...settings, activeVersion: version });
+}
+
+/**
+ * Starts, changes or stops an A/B split between two versions.
+ * @param {PromptSplit | null} split The split, or null to go back to the active version.
+ * @throws {Error} If a version does not exist, both versions are the same, or the share is not between 0 and 1.
+ */
+export async function setPromptSplit(split: PromptSplit | null): Promise<void> {
+  const settings = await getPromptTemplates();
+  if (split) {
+    assertVersion(settings, split.versionA);
+    assertVersion(settings, split.versionB);
+    if (split.versionA === split.versionB) throw new Error('A split needs two different versions');
+    if (!(split.shareB >= 0 && split.shareB <= 1)) throw new Error('The split share must be between 0 and 1');
+  }
+  await savePromptTemplates({ ...settings, split });
+}
+
+/**
+ * Deletes a version. The active version and the versions in a running split cannot be deleted.
+ * Signals already generated with it keep their version number.
+ * @param {number} version The version number.
+ * @throws {Error} If the version is in use.
+ */
+export async function deletePromptTemplateVersion(version: number): Promise<void> {
+  const settings = await getPromptTemplates();
+  const inSplit = settings.split && (settings.split.versionA === version || settings.split.versionB === version);
+  if (version === settings.activeVersion || inSplit) {
+    throw new Error(`Prompt version ${version} is in use`);
+  }
+  await savePromptTemplates({ ...settings, versions: settings.versions.filter((v) => v.version !== version) });
+}
@@ -2,15 +2,31 @@
  * @file Manages the health status of LLM providers using a circuit breaker pattern.
  *
  * This store tracks the health of each provider, including its circuit state
- * ('OPEN', 'CLOSED', 'HALF_OPEN'), failure count, and the timestamp of the last attempt.
+ * ('OPEN', 'CLOSED', 'HALF_OPEN'), its most recent calls and the last error.
  * This allows the application to avoid sending requests to providers that are likely to fail.
+ *
+ * The circuit opens when, over a sliding window of recent calls with at least
+ * `minCalls` entries, the failure rate or the slow-call rate reaches its threshold,
+ * or right away when the provider rate-limits us. After the open timeout, or the provider's
+ * `Retry-After`, one probe call is let through: it closes the circuit on success and
+ * reopens it on failure.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CircuitState, ProviderHealth } from '../types';
+import { CallRecord, CircuitState, ProviderError, ProviderHealth } from '../types';
+import { ERROR_POLICIES } from '../services/providerErrors';
+import { recordCircuitTransition } from './providerMetricsStore';
 import { config } from '../config';
 
+export type { ProviderHealth } from '../types';
+
 const HEALTH_KEY_PREFIX = '@app:provider_health:';
 
+/**
+ * Providers with a half-open probe in flight, with the time it started. Kept in memory, since a
+ * probe cannot outlive the app; a probe that never reported back is given up after the open timeout.
+ */
+const probesInFlight = new Map<string, number>();
+
 /**
  * Generates the AsyncStorage key for a provider's health status.
  * @param {string} providerId The ID of the provider.
@@ -21,7 +37,7 @@ const getHealthKey = (providerId: string) => `${HEALTH_KEY_PREFIX}${providerId}`
 /**
  * Retrieves the health status for a specific provider.
  * If no status is found, it returns a default healthy status.
- * It also handles the transition from 'OPEN' to 'HALF_OPEN' after a timeout.
+ * It also handles the transition from 'OPEN' to 'HALF_OPEN' once the circuit's open period has passed.
  * @param {string} providerId The ID of the provider.
  * @returns {Promise<ProviderHealth>} A promise that resolves to the provider's health status.
  */
@@ -29,8 +45,9 @@ export async function getHealthStatus(providerId: string): Promise<ProviderHealt
   const raw = await AsyncStorage.getItem(getHealthKey(providerId));
   if (raw) {
     const health: ProviderHealth = JSON.parse(raw);
-    // Check if an 'OPEN' circuit should transition to 'HALF_OPEN'
-    if (health.state === 'OPEN' && Date.now() - health.lastAttempt > config.circuitBreaker.openTimeoutMs) {
+    // Records saved before `openUntil` existed fall back to the default open timeout.
+    const openUntil = health.openUntil ?? health.lastAttempt + config.circuitBreaker.openTimeoutMs;
+    if (health.state === 'OPEN' && Date.now() >= openUntil) {
       return { ...health, state: 'HALF_OPEN' };
     }
     return health;
@@ -40,56 +57,173 @@ export async function getHealthStatus(providerId: string): Promise<ProviderHealt
     state: 'CLOSED',
     failureCount: 0,
     lastAttempt: Date.now(),
+    window: [],
   };
 }
 
 /**
- * Updates the health status for a provider in AsyncStorage.
+ * Updates the health status for a provider in AsyncStorage, and records any change of circuit state.
  * @param {ProviderHealth} health The health status to save.
+ * @param {CircuitState} previousState The state before the change.
  */
-async function setHealthStatus(health: ProviderHealth): Promise<void> {
+async function setHealthStatus(health: ProviderHealth, previousState: CircuitState): Promise<void> {
   await AsyncStorage.setItem(getHealthKey(health.providerId), JSON.stringify(health));
+  if (health.state !== previousState) {
+    await recordCircuitTransition(health.providerId, {
+      at: health.lastAttempt,
+      from: previousState,
+      to: health.state,
+      reason: health.state === 'OPEN' ? health.openReason : undefined,
+    });
+  }
 }
 
 /**
- * Records a successful API call for a provider, resetting its health status to 'CLOSED'.
+ * Decides whether a call may go to a provider. A closed circuit lets every call through, an open
+ * one none, and a half-open one a single probe at a time.
  * @param {string} providerId The ID of the provider.
+ * @returns {Promise<{ allowed: boolean, probe: boolean, health: ProviderHealth }>} Whether the call may proceed,
+ * whether it is the half-open probe, and the health it was judged on.
  */
-export async function recordSuccess(providerId: string): Promise<void> {
-  const health: ProviderHealth = {
-    providerId,
-    state: 'CLOSED',
-    failureCount: 0,
-    lastAttempt: Date.now(),
-  };
-  await setHealthStatus(health);
+export async function acquireCallPermit(providerId: string): Promise<{ allowed: boolean; probe: boolean; health: ProviderHealth }> {
+  const health = await getHealthStatus(providerId);
+  if (health.state === 'CLOSED') return { allowed: true, probe: false, health };
+  if (health.state === 'OPEN') return { allowed: false, probe: false, health };
+
+  // Checked and claimed without awaiting in between, so concurrent callers cannot both get the probe.
+  const startedAt = probesInFlight.get(providerId);
+  if (startedAt !== undefined && Date.now() - startedAt < config.circuitBreaker.openTimeoutMs) {
+    return { allowed: false, probe: false, health };
+  }
+  probesInFlight.set(providerId, Date.now());
+  // The stored state stays OPEN until the probe reports back; the dashboard still sees the probe start.
+  await recordCircuitTransition(providerId, { at: Date.now(), from: 'OPEN', to: 'HALF_OPEN' });
+  return { allowed: true, probe: true, health };
+}
+
+/**
+ * Adds a call to a provider's window and drops calls that are too old or beyond the window size.
+ * @param {CallRecord[]} window The current window.
+ * @param {CallRecord} record The new call.
+ * @returns {CallRecord[]} The new window.
+ */
+function pushToWindow(window: CallRecord[], record: CallRecord): CallRecord[] {
+  const { windowSize, windowMs } = config.circuitBreaker;
+  return [...window, record].filter((r) => record.at - r.at <= windowMs).slice(-windowSize);
+}
+
+/**
+ * Decides whether a window of calls should open the circuit.
+ * @param {CallRecord[]} window The window.
+ * @returns {string | null} The reason to open the circuit, or null to keep it closed.
+ */
+function evaluateWindow(window: CallRecord[]): string | null {
+  const { minCalls, failureRateThreshold, slowCallRateThreshold } = config.circuitBreaker;
+  if (window.length < minCalls) return null;
+  const failureRate = window.filter((r) => r.failed).length / window.length;
+  if (failureRate >= failureRateThreshold) {
+    return `${Math.round(failureRate * 100)}% of the last ${window.length} calls failed`;
+  }
+  const slowRate = window.filter((r) => r.slow).length / window.length;
+  if (slowRate >= slowCallRateThreshold) {
+    return `${Math.round(slowRate * 100)}% of the last ${window.length} calls were slow`;
+  }
+  return null;
 }
 
 /**
- * Records a failed API call for a provider and updates its circuit state.
- * If the failure threshold is reached, the circuit is opened.
+ * Records a successful API call for a provider. A successful probe closes the circuit and starts a fresh window.
  * @param {string} providerId The ID of the provider.
+ * @param {number} [durationMs=0] - How long the call took, for the slow-call threshold.
  */
-export async function recordFailure(providerId: string): Promise<void> {
-  const currentHealth = await getHealthStatus(providerId);
+export async function recordSuccess(providerId: string, durationMs: number = 0): Promise<void> {
+  const current = await getHealthStatus(providerId);
+  const wasProbe = probesInFlight.delete(providerId) || current.state === 'HALF_OPEN';
   const now = Date.now();
+  const record: CallRecord = { at: now, durationMs, failed: false, slow: durationMs >= config.circuitBreaker.slowCallMs };
+  const window = pushToWindow(wasProbe ? [] : current.window ?? [], record);
 
-  let newState = currentHealth.state;
-  let newFailureCount = currentHealth.failureCount + 1;
-
-  if (currentHealth.state === 'HALF_OPEN') {
-    // A single failure in HALF_OPEN state re-opens the circuit immediately.
-    newState = 'OPEN';
-  } else if (newFailureCount >= config.circuitBreaker.failureThreshold) {
-    // Reaching the threshold opens the circuit.
-    newState = 'OPEN';
+  if (current.state === 'OPEN') {
+    // A call that was already in flight when the circuit opened; the open period stands.
+    await setHealthStatus({ ...current, failureCount: window.filter((r) => r.failed).length, lastAttempt: now, window }, current.state);
+    return;
   }
 
-  const newHealth: ProviderHealth = {
+  const reason = wasProbe ? null : evaluateWindow(window);
+  await setHealthStatus({
     providerId,
-    state: newState,
-    failureCount: newFailureCount,
+    state: reason ? 'OPEN' : 'CLOSED',
+    failureCount: window.filter((r) => r.failed).length,
     lastAttempt: now,
+    window,
+    openUntil: reason ? now + config.circuitBreaker.openTimeoutMs : undefined,
+    openReason: reason ?? undefined,
+    lastError: current.lastError,
+  }, current.state);
+}
+
+/**
+ * Records a failed API call for a provider and updates its circuit state according to the
+ * failure's class: rate limits open the circuit for the provider's `Retry-After`, other
+ * failures count towards the failure rate, and a failed probe reopens the circuit.
+ * @param {string} providerId The ID of the provider.
+ * @param {ProviderError} [error] - The classified failure; unclassified failures count as network errors.
+ * @param {number} [durationMs=0] - How long the call took.
+ */
+export async function recordFailure(
+  providerId: string,
+  error: ProviderError = { errorClass: 'NETWORK', message: 'Unknown error' },
+  durationMs: number = 0
+): Promise<void> {
+  const current = await getHealthStatus(providerId);
+  const wasProbe = probesInFlight.delete(providerId) || current.state === 'HALF_OPEN';
+  const policy = ERROR_POLICIES[error.errorClass];
+  const now = Date.now();
+  const record: CallRecord = {
+    at: now,
+    durationMs,
+    failed: policy.countsAsFailure,
+    slow: durationMs >= config.circuitBreaker.slowCallMs,
+    errorClass: error.errorClass,
   };
-  await setHealthStatus(newHealth);
+  const window = pushToWindow(current.window ?? [], record);
+  const base = { providerId, failureCount: window.filter((r) => r.failed).length, lastAttempt: now, window, lastError: { ...error, at: now } };
+
+  if (current.state === 'OPEN' && !policy.opensCircuit) {
+    // A call that was already in flight when the circuit opened; the open period stands.
+    await setHealthStatus({ ...current, ...base }, current.state);
+    return;
+  }
+
+  let reason: string | null = null;
+  if (policy.opensCircuit) {
+    reason = `Rate limited (${error.message})`;
+  } else if (wasProbe) {
+    // A single failure in HALF_OPEN state re-opens the circuit immediately.
+    reason = `Probe failed: ${error.message}`;
+  } else {
+    reason = evaluateWindow(window);
+  }
+
+  await setHealthStatus({
+    ...base,
+    state: reason ? 'OPEN' : 'CLOSED',
+    // Honor the provider's Retry-After (sent with 429s and often 503s) over the default open timeout.
+    openUntil: reason ? now + (error.retryAfterMs ?? config.circuitBreaker.openTimeoutMs) : undefined,
+    openReason: reason ?? undefined,
+  }, current.state);
+}
+
+/**
+ * Resets a provider's circuit to 'CLOSED' with no recorded failures, e.g. after fixing its configuration.
+ * @param {string} providerId The ID of the provider.
+ */
+export async function resetHealthStatus(providerId: string): Promise<void> {
+  probesInFlight.delete(providerId);
+  const raw = await AsyncStorage.getItem(getHealthKey(providerId));
+  await AsyncStorage.removeItem(getHealthKey(providerId));
+  const previous: ProviderHealth | null = raw ? JSON.parse(raw) : null;
+  if (previous && previous.state !== 'CLOSED') {
+    await recordCircuitTransition(providerId, { at: Date.now(), from: previous.state, to: 'CLOSED', reason: 'Reset manually' });
+  }
 }
@@ -0,0 +1,107 @@
+/**
+ * @file Keeps a bounded history of each provider's calls and circuit state changes for the health dashboard.
+ *
+ * Histories are stored per provider in AsyncStorage. Only the most recent entries within the
+ * retention period are kept, so the store stays small however long the app runs.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CircuitTransition, ProviderCallMetric } from '../types';
+
+const METRICS_KEY_PREFIX = '@app:provider_metrics:';
+
+/** How many calls and transitions are kept per provider, and for how long. */
+export const METRICS_RETENTION = {
+  maxCalls: 200,
+  maxTransitions: 50,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * The stored history of a provider.
+ * @interface ProviderMetrics
+ * @property {string} providerId - The ID of the provider.
+ * @property {ProviderCallMetric[]} calls - Its recent calls, oldest first.
+ * @property {CircuitTransition[]} transitions - Its recent circuit state changes, oldest first.
+ */
+export interface ProviderMetrics {
+  providerId: string;
+  calls: ProviderCallMetric[];
+  transitions: CircuitTransition[];
+}
+
+/**
+ * Generates the AsyncStorage key for a provider's metrics.
+ * @param {string} providerId The ID of the provider.
+ * @returns {string} The AsyncStorage key.
+ */
+const getMetricsKey = (providerId: string) => `${METRICS_KEY_PREFIX}${providerId}`;
+
+/**
+ * Drops entries older than the retention period and beyond the cap.
+ * @param {T[]} entries The entries, oldest first.
+ * @param {number} max The maximum number of entries.
+ * @param {number} now The current time.
+ * @returns {T[]} The retained entries.
+ */
+function retain<T extends { at: number }>(entries: T[], max: number, now: number): T[] {
+  return entries.filter((e) => now - e.at <= METRICS_RETENTION.maxAgeMs).slice(-max);
+}
+
+/**
+ * Loads a provider's metrics.
+ * @param {string} providerId The ID of the provider.
+ * @returns {Promise<ProviderMetrics>} A promise that resolves to the metrics, empty if none were recorded.
+ */
+export async function getProviderMetrics(providerId: string): Promise<ProviderMetrics> {
+  try {
+    const raw = await AsyncStorage.getItem(getMetricsKey(providerId));
+    if (raw) return { providerId, calls: [], transitions: [], ...JSON.parse(raw) };
+  } catch (err) {
+    console.warn('getProviderMetrics error', err);
+  }
+  return { providerId, calls: [], transitions: [] };
+}
+
+/**
+ * Applies a change to a provider's metrics and saves them within the retention limits.
+ * @param {string} providerId The ID of the provider.
+ * @param {(metrics: ProviderMetrics) => ProviderMetrics} update The change.
+ */
+async function updateProviderMetrics(providerId: string, update: (metrics: ProviderMetrics) => ProviderMetrics): Promise<void> {
+  const now = Date.now();
+  const next = update(await getProviderMetrics(providerId));
+  await AsyncStorage.setItem(
+    getMetricsKey(providerId),
+    JSON.stringify({
+      ...next,
+      calls: retain(next.calls, METRICS_RETENTION.maxCalls, now),
+      transitions: retain(next.transitions, METRICS_RETENTION.maxTransitions, now),
+    })
+  );
+}
+
+/**
+ * Records a call to a provider.
+ * @param {string} providerId The ID of the provider.
+ * @param {ProviderCallMetric} call The call.
+ */
+export async function recordCallMetric(providerId: string, call: ProviderCallMetric): Promise<void> {
+  await updateProviderMetrics(providerId, (m) => ({ ...m, calls: [...m.calls, call] }));
+}
+
+/**
+ * Records a change of a provider's circuit state.
+ * @param {string} providerId The ID of the provider.
+ * @param {CircuitTransition} transition The change.
+ */
+export async function recordCircuitTransition(providerId: string, transition: CircuitTransition): Promise<void> {
+  await updateProviderMetrics(providerId, (m) => ({ ...m, transitions: [...m.transitions, transition] }));
+}
+
+/**
+ * Deletes a provider's metrics.
+ * @param {string} providerId The ID of the provider.
+ */
+export async function clearProviderMetrics(providerId: string): Promise<void> {
+  await AsyncStorage.removeItem(getMetricsKey(providerId));
+}
@@ -7,18 +7,35 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
 import { ProviderSpecSchema } from '../schemas';
+import { resetHealthStatus } from './providerHealthStore';
+import { clearProviderMetrics } from './providerMetricsStore';
+import { clearProviderUsage } from './providerUsageStore';
+import { StreamFormat } from '../services/llmStreaming';
+import { ResponseMode } from '../services/responseExtraction';
 
 /**
  * Defines the structure of a provider specification.
  * @interface ProviderSpec
  * @property {string} id - A unique identifier for the provider, e.g., "my-llm-1".
  * @property {string} [name] - A user-friendly display name.
- * @property {string} endpoint - The API endpoint URL for the provider.
+ * @property {string} endpoint - The API endpoint URL for the provider. Can contain placeholders like "{{DEPLOYMENT}}".
  * @property {string} [model] - The model name to be used with the provider.
  * @property {Record<string, string>} [headers] - Headers to be sent with the request. Can contain placeholders like "{{API_KEY}}".
- * @property {string} [requestTemplate] - A stringified JSON template for the request body. Can use placeholders like "{{prompt}}" and "{{model}}".
+ * @property {string} [requestTemplate] - A stringified JSON template for the request body. Can use placeholders like "{{prompt}}", "{{model}}" and stored secrets.
  * @property {number} [timeoutMs] - The request timeout in milliseconds.
  * @property {number} [maxRetries] - The maximum number of retries for a failed request.
+ * @property {boolean} [stream] - Whether to stream the response. `stream: true` is added to object request bodies that do not set it.
+ * @property {StreamFormat} [streamFormat] - The wire format of the stream; defaults to 'auto'.
+ * @property {string} [responsePath] - A JSONPath-like path to the signal in the response body, e.g. "$.content[0].text". Not used for streamed responses.
+ * @property {ResponseMode} [responseMode] - Whether the value at `responsePath` is text containing the signal or the signal itself; defaults to 'text'.
+ * @property {boolean} [enabled] - Whether the provider takes part in signal generation, or in similarity retrieval for an embedding provider; defaults to true.
+ * @property {string} [embeddingPath] - For embedding providers, a JSONPath-like path to the embedding in the response body,
+ * e.g. "$.data[0].embedding". Embedding providers embed market snapshots for playbook retrieval and never generate signals.
+ * @property {number} [requestsPerMinute] - The most requests to send in any minute, retries included.
+ * @property {number} [dailyRequestLimit] - The most requests to send per UTC day.
+ * @property {number} [dailyTokenLimit] - The most input and output tokens to use per UTC day.
+ * @property {number} [inputTokenPrice] - The price of a million input tokens, in USD.
+ * @property {number} [outputTokenPrice] - The price of a million output tokens, in USD.
  */
 export interface ProviderSpec {
   id: string;
@@ -29,6 +46,17 @@ export interface ProviderSpec {
   requestTemplate?: string;
   timeoutMs?: number;
   maxRetries?: number;
+  stream?: boolean;
+  streamFormat?: StreamFormat;
+  responsePath?: string;
+  responseMode?: ResponseMode;
+  enabled?: boolean;
+  embeddingPath?: string;
+  requestsPerMinute?: number;
+  dailyRequestLimit?: number;
+  dailyTokenLimit?: number;
+  inputTokenPrice?: number;
+  outputTokenPrice?: number;
 }
 
 const SPECS_KEY = '@app:provider_specs_v1';
@@ -64,7 +92,7 @@ export async function saveProviderSpec(spec: ProviderSpec): Promise<void> {
   const validationResult = ProviderSpecSchema.safeParse(spec);
   if (!validationResult.success) {
     // Combine error messages into a single string.
-    const errorMessage = validationResult.error.errors.map(e => e.message).join(', ');
+    const errorMessage = validationResult.error.issues.map(e => e.message).join(', ');
     throw new Error(`Invalid provider spec: ${errorMessage}`);
   }
 
@@ -78,6 +106,18 @@ export async function saveProviderSpec(spec: ProviderSpec): Promise<void> {
   await AsyncStorage.setItem(SPECS_KEY, JSON.stringify(specs));
 }
 
+/**
+ * Enables or disables a provider without changing the rest of its spec.
+ * @param {string} id The ID of the provider.
+ * @param {boolean} enabled Whether the provider should take part in signal generation.
+ * @throws {Error} If there is no provider with that ID.
+ */
+export async function setProviderEnabled(id: string, enabled: boolean): Promise<void> {
+  const spec = await getProviderSpec(id);
+  if (!spec) throw new Error(`Unknown provider: ${id}`);
+  await saveProviderSpec({ ...spec, enabled });
+}
+
 /**
  * Stores a secret for a provider in SecureStore.
  * @param {string} providerId The ID of the provider.
@@ -104,7 +144,7 @@ export async function getProviderSecrets(providerId: string): Promise<Record<str
 }
 
 /**
- * Removes a provider specification and its associated secrets.
+ * Removes a provider specification, its associated secrets, its circuit breaker state, its call history and its usage.
  * @param {string} id The ID of the provider to remove.
  */
 export async function removeProviderSpec(id: string) {
@@ -112,4 +152,7 @@ export async function removeProviderSpec(id: string) {
   const filtered = specs.filter(s => s.id !== id);
   await AsyncStorage.setItem(SPECS_KEY, JSON.stringify(filtered));
   await SecureStore.deleteItemAsync(KEY_PREFIX + id);
+  await resetHealthStatus(id);
+  await clearProviderMetrics(id);
+  await clearProviderUsage(id);
 }
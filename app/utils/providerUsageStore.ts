@@ -0,0 +1,148 @@
+/**
+ * @file Keeps count of each provider's requests, tokens and cost, for rate limits, daily budgets and cost summaries.
+ *
+ * Daily counters refer to a UTC day and start over on the first update of a new day; totals are never reset.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TokenUsage } from '../types';
+
+const USAGE_KEY_PREFIX = '@app:provider_usage:';
+
+/** The period requests are counted over for `requestsPerMinute`. */
+export const RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * A provider's usage.
+ * @interface ProviderUsage
+ * @property {string} providerId - The ID of the provider.
+ * @property {string} day - The UTC day of the daily counters, as YYYY-MM-DD.
+ * @property {number[]} recentRequests - When the requests of the last minute were sent, oldest first.
+ * @property {number} dailyRequests - The requests sent that day.
+ * @property {number} dailyTokens - The input and output tokens used that day.
+ * @property {number} dailyCost - The cost that day, in USD.
+ * @property {number} totalRequests - All requests sent.
+ * @property {number} totalTokens - All tokens used.
+ * @property {number} totalCost - The cost of all calls, in USD.
+ */
+export interface ProviderUsage {
+  providerId: string;
+  day: string;
+  recentRequests: number[];
+  dailyRequests: number;
+  dailyTokens: number;
+  dailyCost: number;
+  totalRequests: number;
+  totalTokens: number;
+  totalCost: number;
+}
+
+/**
+ * Generates the AsyncStorage key for a provider's usage.
+ * @param {string} providerId The ID of the provider.
+ * @returns {string} The AsyncStorage key.
+ */
+const getUsageKey = (providerId: string) => `${USAGE_KEY_PREFIX}${providerId}`;
+
+/**
+ * Formats a timestamp as its UTC day.
+ * @param {number} at The UNIX timestamp in milliseconds.
+ * @returns {string} The day, as YYYY-MM-DD.
+ */
+export const usageDay = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+/**
+ * Loads a provider's usage as of now: daily counters of an earlier day read as zero, and
+ * requests older than a minute are dropped.
+ * @param {string} providerId The ID of the provider.
+ * @returns {Promise<ProviderUsage>} A promise that resolves to the usage, empty if nothing was recorded.
+ */
+export async function getProviderUsage(providerId: string): Promise<ProviderUsage> {
+  const now = Date.now();
+  const empty: ProviderUsage = {
+    providerId,
+    day: usageDay(now),
+    recentRequests: [],
+    dailyRequests: 0,
+    dailyTokens: 0,
+    dailyCost: 0,
+    totalRequests: 0,
+    totalTokens: 0,
+    totalCost: 0,
+  };
+  try {
+    const raw = await AsyncStorage.getItem(getUsageKey(providerId));
+    if (!raw) return empty;
+    const stored: ProviderUsage = { ...empty, ...JSON.parse(raw) };
+    const recentRequests = stored.recentRequests.filter((at) => now - at < RATE_WINDOW_MS);
+    if (stored.day !== empty.day) {
+      return { ...stored, day: empty.day, recentRequests, dailyRequests: 0, dailyTokens: 0, dailyCost: 0 };
+    }
+    return { ...stored, recentRequests };
+  } catch (err) {
+    console.warn('getProviderUsage error', err);
+    return empty;
+  }
+}
+
+/** The last pending update of each provider's usage, so concurrent calls don't overwrite each other's counts. */
+const pendingUpdates = new Map<string, Promise<void>>();
+
+/**
+ * Runs a read-modify-write of a provider's usage after the updates already queued for that provider.
+ * @param {string} providerId The ID of the provider.
+ * @param {(usage: ProviderUsage) => ProviderUsage} update Computes the new usage from the current one.
+ * @returns {Promise<void>} A promise that resolves once the update is stored.
+ */
+function updateProviderUsage(providerId: string, update: (usage: ProviderUsage) => ProviderUsage): Promise<void> {
+  const previous = pendingUpdates.get(providerId) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const usage = await getProviderUsage(providerId);
+      await AsyncStorage.setItem(getUsageKey(providerId), JSON.stringify(update(usage)));
+    });
+  pendingUpdates.set(providerId, next);
+  const settle = () => {
+    if (pendingUpdates.get(providerId) === next) pendingUpdates.delete(providerId);
+  };
+  next.then(settle, settle);
+  return next;
+}
+
+/**
+ * Records that a request was sent to a provider.
+ * @param {string} providerId The ID of the provider.
+ */
+export async function recordProviderRequest(providerId: string): Promise<void> {
+  await updateProviderUsage(providerId, (usage) => ({
+    ...usage,
+    recentRequests: [...usage.recentRequests, Date.now()],
+    dailyRequests: usage.dailyRequests + 1,
+    totalRequests: usage.totalRequests + 1,
+  }));
+}
+
+/**
+ * Records the tokens a provider call used and what they cost.
+ * @param {string} providerId The ID of the provider.
+ * @param {TokenUsage} tokens The tokens.
+ * @param {number} [cost=0] - The cost in USD.
+ */
+export async function recordProviderTokens(providerId: string, tokens: TokenUsage, cost: number = 0): Promise<void> {
+  const count = tokens.inputTokens + tokens.outputTokens;
+  await updateProviderUsage(providerId, (usage) => ({
+    ...usage,
+    dailyTokens: usage.dailyTokens + count,
+    dailyCost: usage.dailyCost + cost,
+    totalTokens: usage.totalTokens + count,
+    totalCost: usage.totalCost + cost,
+  }));
+}
+
+/**
+ * Deletes a provider's usage.
+ * @param {string} providerId The ID of the provider.
+ */
+export async function clearProviderUsage(providerId: string): Promise<void> {
+  await AsyncStorage.removeItem(getUsageKey(providerId));
+}
@@ -0,0 +1,183 @@
+/**
+ * @file The storage behind the playbook: an interface for signal history storages, an in-memory
+ * implementation, and the storage in use.
+ *
+ * The app stores the history in SQLite (see `sqliteSignalHistoryStorage`), indexed by symbol,
+ * outcome and time. The playbook used to be a single JSON array in AsyncStorage; it is imported
+ * into the storage the first time the storage is used, and the old key is removed.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SignalHistory } from '../types';
+import { createSqliteSignalHistoryStorage } from './sqliteSignalHistoryStorage';
+
+/** The AsyncStorage key of the playbook before it moved to the signal history storage. */
+export const LEGACY_PLAYBOOK_KEY = '@app:playbook:v1';
+
+/**
+ * Criteria for querying the signal history. Every criterion that is set must match.
+ * @interface SignalHistoryQuery
+ * @property {string} [symbol] - The exact symbol.
+ * @property {SignalHistory['outcome'] | SignalHistory['outcome'][]} [outcome] - The outcome, or any of several outcomes.
+ * @property {number} [from] - The earliest signal timestamp.
+ * @property {number} [to] - The latest signal timestamp.
+ * @property {'asc' | 'desc'} [order='asc'] - The order of the results by signal timestamp.
+ * @property {number} [limit] - The most results to return.
+ */
+export interface SignalHistoryQuery {
+  symbol?: string;
+  outcome?: SignalHistory['outcome'] | SignalHistory['outcome'][];
+  from?: number;
+  to?: number;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+/**
+ * Conditions on an update of a signal history item.
+ * @interface SignalHistoryUpdateOptions
+ * @property {SignalHistory['outcome']} [expectOutcome] - The outcome the stored item must still have, checked in the same step as the write.
+ */
+export interface SignalHistoryUpdateOptions {
+  expectOutcome?: SignalHistory['outcome'];
+}
+
+/**
+ * Stores signal history items by ID. Items are stored as JSON, so fields set to `undefined` are dropped.
+ * @interface SignalHistoryStorage
+ */
+export interface SignalHistoryStorage {
+  /** Finds the items matching a query, ordered by signal timestamp (ties in the order they were stored). */
+  query(query?: SignalHistoryQuery): Promise<SignalHistory[]>;
+  /** Counts the items matching a query; `order` and `limit` are ignored. */
+  count(query?: SignalHistoryQuery): Promise<number>;
+  /** Loads one item, or null if there is none with that ID. */
+  get(id: string): Promise<SignalHistory | null>;
+  /** Stores items, replacing those with the same ID, all or none. */
+  put(items: SignalHistory[]): Promise<void>;
+  /**
+   * Merges fields into one item in a single step; resolves to the updated item, or null if there is none with
+   * that ID. With `options.expectOutcome`, the item is only updated if it still has that outcome.
+   */
+  update(id: string, update: Partial<SignalHistory>, options?: SignalHistoryUpdateOptions): Promise<SignalHistory | null>;
+  /** Deletes one item; resolves to false if there is none with that ID. */
+  remove(id: string): Promise<boolean>;
+  /** Deletes the oldest items beyond the newest `maxItems`; resolves to the IDs of the deleted items. */
+  trim(maxItems: number): Promise<string[]>;
+  /** Replaces every item, all or none. */
+  replaceAll(items: SignalHistory[]): Promise<void>;
+}
+
+/**
+ * Tests whether an item matches the filters of a query.
+ * @param {SignalHistory} item The signal history item.
+ * @param {SignalHistoryQuery} query The query.
+ * @returns {boolean} True if the item matches.
+ */
+export function matchesSignalHistoryQuery(item: SignalHistory, query: SignalHistoryQuery): boolean {
+  const outcomes = query.outcome === undefined ? undefined : [query.outcome].flat();
+  return (
+    (query.symbol === undefined || item.signal.symbol === query.symbol) &&
+    (!outcomes || outcomes.includes(item.outcome)) &&
+    (query.from === undefined || item.signal.timestamp >= query.from) &&
+    (query.to === undefined || item.signal.timestamp <= query.to)
+  );
+}
+
+/**
+ * Creates a signal history storage that keeps everything in memory. Used by tests, and
+ * wherever the history need not outlive the app.
+ * @param {SignalHistory[]} [initial=[]] - The items to start with.
+ * @returns {SignalHistoryStorage} The storage.
+ */
+export function createMemorySignalHistoryStorage(initial: SignalHistory[] = []): SignalHistoryStorage {
+  // Round-trips through JSON, as a persistent storage would, so callers never share objects with it.
+  const copy = (item: SignalHistory): SignalHistory => JSON.parse(JSON.stringify(item));
+  const items = new Map<string, SignalHistory>(initial.map((item) => [item.id, copy(item)]));
+
+  const select = (query: SignalHistoryQuery) => {
+    const found = [...items.values()]
+      .filter((item) => matchesSignalHistoryQuery(item, query))
+      .sort((a, b) => a.signal.timestamp - b.signal.timestamp);
+    return query.order === 'desc' ? found.reverse() : found;
+  };
+
+  return {
+    async query(query = {}) {
+      return select(query).slice(0, query.limit).map(copy);
+    },
+    async count(query = {}) {
+      return select(query).length;
+    },
+    async get(id) {
+      const item = items.get(id);
+      return item ? copy(item) : null;
+    },
+    async put(list) {
+      list.forEach((item) => {
+        items.delete(item.id);
+        items.set(item.id, copy(item));
+      });
+    },
+    async update(id, update, options = {}) {
+      const item = items.get(id);
+      if (!item || (options.expectOutcome !== undefined && item.outcome !== options.expectOutcome)) return null;
+      const updated = copy({ ...item, ...update, id });
+      items.set(id, updated);
+      return copy(updated);
+    },
+    async remove(id) {
+      return items.delete(id);
+    },
+    async trim(maxItems) {
+      const removed = select({ order: 'desc' }).slice(Math.max(0, maxItems));
+      removed.forEach((item) => items.delete(item.id));
+      return removed.map((item) => item.id);
+    },
+    async replaceAll(list) {
+      items.clear();
+      list.forEach((item) => items.set(item.id, copy(item)));
+    },
+  };
+}
+
+/**
+ * Imports the playbook from its old AsyncStorage key into a storage, then removes the key.
+ * Does nothing if there is no old playbook. If the import fails, the key is kept so it is tried again.
+ * @param {SignalHistoryStorage} storage The storage to import into.
+ * @returns {Promise<number>} A promise that resolves to the number of items imported.
+ */
+export async function migrateLegacyPlaybook(storage: SignalHistoryStorage): Promise<number> {
+  try {
+    const raw = await AsyncStorage.getItem(LEGACY_PLAYBOOK_KEY);
+    if (!raw) return 0;
+    const list: SignalHistory[] = JSON.parse(raw);
+    await storage.put(Array.isArray(list) ? list : []);
+    await AsyncStorage.removeItem(LEGACY_PLAYBOOK_KEY);
+    return Array.isArray(list) ? list.length : 0;
+  } catch (err) {
+    console.warn('migrateLegacyPlaybook error', err);
+    return 0;
+  }
+}
+
+let current: { storage: SignalHistoryStorage; ready: Promise<unknown> } | null = null;
+
+/**
+ * Sets the signal history storage in use, and imports the old playbook into it.
+ * @param {SignalHistoryStorage} storage The storage.
+ */
+export function setSignalHistoryStorage(storage: SignalHistoryStorage) {
+  current = { storage, ready: migrateLegacyPlaybook(storage) };
+}
+
+/**
+ * Gets the signal history storage in use, once the old playbook has been imported into it.
+ * Defaults to the SQLite storage.
+ * @returns {Promise<SignalHistoryStorage>} A promise that resolves to the storage.
+ */
+export async function getSignalHistoryStorage(): Promise<SignalHistoryStorage> {
+  if (!current) setSignalHistoryStorage(createSqliteSignalHistoryStorage());
+  const { storage, ready } = current!;
+  await ready;
+  return storage;
+}
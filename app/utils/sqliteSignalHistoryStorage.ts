@@ -0,0 +1,167 @@
+/**
+ * @file A signal history storage backed by SQLite.
+ *
+ * Each item is one row: the columns queried on are kept next to the item's JSON, and indexed,
+ * so queries by symbol, outcome or time don't read the whole history.
+ */
+import * as SQLite from 'expo-sqlite';
+import { SignalHistory } from '../types';
+import { SignalHistoryQuery, SignalHistoryStorage } from './signalHistoryStorage';
+
+const DATABASE_NAME = 'signal_history.db';
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS signal_history (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    symbol TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS signal_history_symbol ON signal_history (symbol, timestamp);
+  CREATE INDEX IF NOT EXISTS signal_history_outcome ON signal_history (outcome, timestamp);
+  CREATE INDEX IF NOT EXISTS signal_history_timestamp ON signal_history (timestamp);
+`;
+
+type Row = { data: string };
+
+/**
+ * Builds the WHERE clause of a query.
+ * @param {SignalHistoryQuery} query The query.
+ * @returns {{ where: string, params: (string | number)[] }} The clause, empty if nothing is filtered, and its parameters.
+ */
+function whereClause(query: SignalHistoryQuery): { where: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.symbol !== undefined) {
+    conditions.push('symbol = ?');
+    params.push(query.symbol);
+  }
+  if (query.outcome !== undefined) {
+    const outcomes = [query.outcome].flat();
+    conditions.push(`outcome IN (${outcomes.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...outcomes);
+  }
+  if (query.from !== undefined) {
+    conditions.push('timestamp >= ?');
+    params.push(query.from);
+  }
+  if (query.to !== undefined) {
+    conditions.push('timestamp <= ?');
+    params.push(query.to);
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Stores items, replacing those with the same ID. Replaced items count as newly stored.
+ * @param {SQLite.SQLiteDatabase} db The database, or a transaction.
+ * @param {SignalHistory[]} items The items.
+ */
+async function insertItems(db: SQLite.SQLiteDatabase, items: SignalHistory[]) {
+  for (const item of items) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO signal_history (id, symbol, outcome, timestamp, data) VALUES (?, ?, ?, ?, ?)',
+      item.id,
+      item.signal.symbol,
+      item.outcome,
+      item.signal.timestamp,
+      JSON.stringify(item)
+    );
+  }
+}
+
+/**
+ * Creates a signal history storage backed by an SQLite database, opened on first use.
+ * @param {string} [databaseName='signal_history.db'] - The name of the database file.
+ * @returns {SignalHistoryStorage} The storage.
+ */
+export function createSqliteSignalHistoryStorage(databaseName = DATABASE_NAME): SignalHistoryStorage {
+  let opening: Promise<SQLite.SQLiteDatabase> | null = null;
+  const open = () =>
+    (opening ??= SQLite.openDatabaseAsync(databaseName)
+      .then(async (db) => {
+        await db.execAsync(SCHEMA);
+        return db;
+      })
+      .catch((err) => {
+        // Forget the failed attempt, so the next use tries to open the database again.
+        opening = null;
+        throw err;
+      }));
+
+  return {
+    async query(query = {}) {
+      const db = await open();
+      const { where, params } = whereClause(query);
+      const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+      const limit = query.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+      const rows = await db.getAllAsync<Row>(
+        `SELECT data FROM signal_history ${where} ORDER BY timestamp ${direction}, seq ${direction}${limit}`,
+        params
+      );
+      return rows.map((row) => JSON.parse(row.data));
+    },
+    async count(query = {}) {
+      const db = await open();
+      const { where, params } = whereClause(query);
+      const row = await db.getFirstAsync<{ n: number }>(`SELECT COUNT(*) AS n FROM signal_history ${where}`, params);
+      return row?.n ?? 0;
+    },
+    async get(id) {
+      const db = await open();
+      const row = await db.getFirstAsync<Row>('SELECT data FROM signal_history WHERE id = ?', id);
+      return row ? JSON.parse(row.data) : null;
+    },
+    async put(items) {
+      const db = await open();
+      await db.withExclusiveTransactionAsync((txn) => insertItems(txn, items));
+    },
+    async update(id, update, options = {}) {
+      const db = await open();
+      let updated: SignalHistory | null = null;
+      // Reads and writes in one exclusive transaction, so concurrent updates of the same item don't overwrite each other.
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        const row = await txn.getFirstAsync<Row>('SELECT data FROM signal_history WHERE id = ?', id);
+        if (!row) return;
+        const stored: SignalHistory = JSON.parse(row.data);
+        if (options.expectOutcome !== undefined && stored.outcome !== options.expectOutcome) return;
+        const item: SignalHistory = JSON.parse(JSON.stringify({ ...stored, ...update, id }));
+        await txn.runAsync(
+          'UPDATE signal_history SET symbol = ?, outcome = ?, timestamp = ?, data = ? WHERE id = ?',
+          item.signal.symbol,
+          item.outcome,
+          item.signal.timestamp,
+          JSON.stringify(item),
+          id
+        );
+        updated = item;
+      });
+      return updated;
+    },
+    async remove(id) {
+      const db = await open();
+      const result = await db.runAsync('DELETE FROM signal_history WHERE id = ?', id);
+      return result.changes > 0;
+    },
+    async trim(maxItems) {
+      const db = await open();
+      const rows = await db.getAllAsync<{ id: string }>(
+        `DELETE FROM signal_history WHERE seq NOT IN (
+          SELECT seq FROM signal_history ORDER BY timestamp DESC, seq DESC LIMIT ?
+        ) RETURNING id`,
+        Math.max(0, maxItems)
+      );
+      return rows.map((row) => row.id);
+    },
+    async replaceAll(items) {
+      const db = await open();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync('DELETE FROM signal_history');
+        await insertItems(txn, items);
+      });
+    },
+  };
+}